@@ -0,0 +1,85 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AccountManager } from '../src/accounts';
+import { SyncLogic } from '../src/syncLogic';
+import { TaskParser } from '../src/taskParser';
+
+const parse = (line: string, path = 'a.md') => new TaskParser({} as any).parseObsidianTask(line, path, 0)!;
+
+const setup = () => {
+  const work: any = {
+    id: 'w1', name: 'Work', tokensEncrypted: 'obf1:work', calendarId: 'work@example.com',
+    syncScope: ['#work'], taskMap: { t1: 'g-work' }, lastSyncTime: '2024-05-01T00:00:00+09:00',
+  };
+  const plugin: any = {
+    settings: {
+      tokens: { refresh_token: 'main' }, tokensEncrypted: 'obf1:main', calendarId: 'primary',
+      taskMap: { t2: 'g-main' }, importOnSync: true, accounts: [work],
+    },
+    oauth2Client: 'main-client',
+    calendar: 'main-calendar',
+    decryptTokens: vi.fn(async (enc: string) => ({ refresh_token: enc.replace('obf1:', '') })),
+    authService: {
+      reconfigureOAuthClient: vi.fn(function () { plugin.oauth2Client = `client:${plugin.settings.tokens.refresh_token}`; }),
+      initializeCalendarApi: vi.fn(),
+    },
+  };
+  plugin.accounts = new AccountManager(plugin);
+  return { plugin, work };
+};
+
+describe('AccountManager', () => {
+  it('swaps the profile into the settings and writes changes back afterwards', async () => {
+    const { plugin, work } = setup();
+    await plugin.accounts.withAccount(work, async () => {
+      expect(plugin.settings.calendarId).toBe('work@example.com');
+      expect(plugin.settings.tokens).toEqual({ refresh_token: 'work' });
+      expect(plugin.oauth2Client).toBe('client:work');
+      expect(plugin.accounts.activeName()).toBe('Work');
+      plugin.settings.taskMap = { t1: 'g-work', t3: 'g-new' };
+      plugin.settings.lastSyncTime = undefined;
+    });
+    expect(work.taskMap).toEqual({ t1: 'g-work', t3: 'g-new' });
+    expect(work.lastSyncTime).toBeUndefined();
+    expect(plugin.settings.calendarId).toBe('primary');
+    expect(plugin.settings.taskMap).toEqual({ t2: 'g-main' });
+    expect(plugin.settings.tokens).toEqual({ refresh_token: 'main' });
+    expect(plugin.oauth2Client).toBe('main-client');
+    expect(plugin.accounts.activeId()).toBeNull();
+  });
+
+  it('persists the main values at the top level while a profile is active', async () => {
+    const { plugin, work } = setup();
+    await plugin.accounts.withAccount(work, async () => {
+      plugin.settings.tokensEncrypted = 'obf1:work2';
+      const saved = plugin.accounts.toPersisted(plugin.settings);
+      expect(saved.calendarId).toBe('primary');
+      expect(saved.tokensEncrypted).toBe('obf1:main');
+      expect(saved.accounts[0].tokensEncrypted).toBe('obf1:work2');
+      expect(saved.accounts[0].calendarId).toBe('work@example.com');
+    });
+  });
+});
+
+describe('SyncLogic with several accounts', () => {
+  it('syncs the main account and then each enabled, authenticated profile', async () => {
+    const { plugin, work } = setup();
+    plugin.settings.accounts.push({ id: 'x', name: 'Off', enabled: false, tokensEncrypted: 'obf1:x', calendarId: 'x', taskMap: {} });
+    plugin.settings.accounts.push({ id: 'y', name: 'Unauthenticated', tokensEncrypted: null, calendarId: 'y', taskMap: {} });
+    Object.assign(plugin, { isCurrentlySyncing: () => false, setSyncing: vi.fn(), saveData: vi.fn(), refreshSettingsTab: vi.fn() });
+    const sync: any = new SyncLogic(plugin);
+    const seen: any[] = [];
+    sync.syncAccount = vi.fn(async (settings: any) => seen.push([settings.calendarId, settings.importOnSync, plugin.accounts.activeId()]));
+
+    await sync.runSync(JSON.parse(JSON.stringify(plugin.settings)));
+    expect(seen).toEqual([['primary', true, null], ['work@example.com', false, 'w1']]);
+    expect(plugin.setSyncing.mock.calls).toEqual([[true], [false]]);
+    expect(work.calendarId).toBe('work@example.com');
+  });
+
+  it('keeps only tasks inside the account sync scope', () => {
+    const sync: any = new SyncLogic({} as any);
+    const tasks = [parse('- [ ] A #work/acme'), parse('- [ ] B', 'Work/b.md'), parse('- [ ] C #home')];
+    expect(sync.inSyncScope(tasks, { syncScope: ['#work', 'Work'] }).map((t: any) => t.summary)).toEqual(['A', 'B']);
+    expect(sync.inSyncScope(tasks, { syncScope: [] })).toHaveLength(3);
+  });
+});
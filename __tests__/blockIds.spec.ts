@@ -0,0 +1,127 @@
+import { describe, it, expect, vi } from 'vitest';
+import { TFile } from 'obsidian';
+import { TaskParser } from '../src/taskParser';
+import { TaskWriter } from '../src/taskWriter';
+import { SyncLogic } from '../src/syncLogic';
+
+const parser = new TaskParser({} as any);
+const parse = (line: string) => parser.parseObsidianTask(line, 'Notes/a.md', 0)!;
+
+describe('TaskWriter.appendBlockLink', () => {
+  it('appends to the task line, or to the last combined continuation line', () => {
+    const line = '- [ ] 会議 📅 2026-10-20';
+    expect(TaskWriter.appendBlockLink([line, '  メモ'], line, 'gcal-abc123')).toEqual([`${line} ^gcal-abc123`, '  メモ']);
+
+    const block = [line, '  10:00~11:00', '  メモ'];
+    const [task] = parser.parseFileContent(block.join('\n'), 'Notes/a.md');
+    const out = TaskWriter.appendBlockLink(block, task.rawText, 'gcal-abc123');
+    expect(out).toEqual([line, '  10:00~11:00 ^gcal-abc123', '  メモ']);
+    expect(parser.parseFileContent(out.join('\n'), 'Notes/a.md')[0].blockLink).toBe('^gcal-abc123');
+  });
+});
+
+describe('SyncLogic.assignBlockIds', () => {
+  // ノートは 1 ファイル分を文字列で持ち、TaskWriter の書き込みはその文字列に適用する
+  const setup = (content: string, tasks: any[], taskMap: any, events: any[] = [], settings: any = {}) => {
+    const file = { content };
+    const vault = {
+      getAbstractFileByPath: (path: string) => new TFile(path),
+      process: vi.fn(async (_f: any, fn: (c: string) => string) => (file.content = fn(file.content))),
+    };
+    const app = { vault } as any;
+    const sync = new SyncLogic({ app, settings: {}, taskParser: parser, taskWriter: new TaskWriter(app) } as any) as any;
+    const eventById = new Map<string, any>(events.map(ev => [ev.id, ev] as const));
+    const googleEventMap = new Map<string, any>();
+    for (const t of tasks) {
+      const ev = eventById.get(taskMap[t.id]);
+      if (ev) googleEventMap.set(t.id, ev);
+    }
+    const s = { calendarId: 'primary', ...settings };
+    const batchRequests: any[] = [];
+    const run = () => sync.assignBlockIds(tasks, new Set(), googleEventMap, taskMap, eventById, batchRequests, s);
+    return { sync, file, run, batchRequests, googleEventMap, settings: s };
+  };
+  const event = (id: string, obsidianTaskId: string) => ({ id, extendedProperties: { private: { isGcalSync: 'true', obsidianTaskId } } });
+
+  it('writes a block id and then moves the mapping and the event to the new id', async () => {
+    const line = '- [ ] 会議 📅 2026-10-20';
+    const task = parse(line);
+    const oldId = task.id;
+    const taskMap: any = { [oldId]: 'g1' };
+    const { sync, file, run, batchRequests, googleEventMap, settings } = setup(line, [task], taskMap, [event('g1', oldId)], { syncBase: { [oldId]: { summary: '会議' } } });
+    await run();
+
+    expect(task.blockLink).toMatch(/^\^gcal-[0-9a-f]{6}$/);
+    expect(file.content).toBe(`${line} ${task.blockLink}`);
+    expect(task.rawText).toBe(file.content);
+    // 書き込んだ行を読み直しても同じ ID になる（以後は内容を変えても変わらない）
+    expect(parse(file.content).id).toBe(task.id);
+    expect(parse(file.content.replace('会議', '定例会議').replace('10-20', '10-21')).id).toBe(task.id);
+    expect(taskMap).toEqual({ [task.id]: 'g1' });
+    expect(googleEventMap.get(task.id).extendedProperties.private.obsidianTaskId).toBe(task.id);
+    expect(settings.syncBase).toEqual({ [task.id]: { summary: '会議' } });
+    // イベントは obsidianTaskId だけを書き換え、内容の更新は次回に回す
+    expect(batchRequests).toEqual([{
+      method: 'PATCH',
+      path: '/calendar/v3/calendars/primary/events/g1',
+      body: { extendedProperties: { private: { isGcalSync: 'true', obsidianTaskId: task.id } } },
+      obsidianTaskId: task.id,
+      operationType: 'patch',
+      originalGcalId: 'g1',
+    }]);
+    expect(sync.rekeyedTaskIds.has(task.id)).toBe(true);
+  });
+
+  it('moves every slice of a multi-day task without deleting or re-inserting any of them', async () => {
+    const line = '- [ ] 合宿 🛫 2026-10-20 📅 2026-10-22 ⏰ 09:00~18:00';
+    const task = parse(line);
+    const oldId = task.id;
+    const taskMap: any = { [oldId]: 'g1' };
+    const slices = [event('g1', oldId), event('g2', oldId), event('g3', oldId), event('other', 'obsidian-other')];
+    const { sync, run, batchRequests, googleEventMap, settings } = setup(line, [task], taskMap, slices);
+    await run();
+
+    expect(batchRequests.map(r => [r.method, r.originalGcalId, r.obsidianTaskId])).toEqual([
+      ['PATCH', 'g1', task.id],
+      ['PATCH', 'g2', undefined],
+      ['PATCH', 'g3', undefined],
+    ]);
+    expect(batchRequests.every(r => r.body.extendedProperties.private.obsidianTaskId === task.id)).toBe(true);
+
+    // 同じ同期の送信計画では、このタスクの削除や再挿入を作らない
+    const planned: any[] = [];
+    const { skipped, survivors, matchedGIds } = sync.prepareBatchRequests([task], googleEventMap, taskMap, planned, null, settings);
+    expect(planned).toEqual([]);
+    expect(skipped).toBe(1);
+    expect(survivors.size).toBe(0);
+    expect(matchedGIds.has('g1')).toBe(true);
+  });
+
+  it('keeps the old id when the task line can no longer be found', async () => {
+    const task = parse('- [ ] 会議 📅 2026-10-20');
+    const oldId = task.id;
+    const taskMap: any = { [oldId]: 'g1' };
+    const edited = '- [ ] 会議（場所変更） 📅 2026-10-20';
+    const { sync, file, run, batchRequests, googleEventMap, settings } = setup(edited, [task], taskMap, [event('g1', oldId)], { syncBase: { [oldId]: { summary: '会議' } } });
+    await run();
+
+    expect(file.content).toBe(edited);
+    expect(task.blockLink).toBeNull();
+    expect(task.id).toBe(oldId);
+    expect(taskMap).toEqual({ [oldId]: 'g1' });
+    expect(googleEventMap.get(oldId).extendedProperties.private.obsidianTaskId).toBe(oldId);
+    expect(settings.syncBase).toEqual({ [oldId]: { summary: '会議' } });
+    expect(batchRequests).toEqual([]);
+    expect(sync.rekeyedTaskIds.size).toBe(0);
+  });
+
+  it('leaves tasks that already have a block id, are done, or have no dates', async () => {
+    const lines = ['- [ ] A 📅 2026-10-20 ^keep', '- [x] B 📅 2026-10-20', '- [ ] C', '- [>] D 📅 2026-10-20'];
+    const tasks = lines.map((line, i) => parser.parseObsidianTask(line, 'Notes/a.md', i)!);
+    const ids = tasks.map(t => t.id);
+    const { file, run } = setup(lines.join('\n'), tasks, {});
+    await run();
+    expect(file.content).toBe(lines.join('\n'));
+    expect(tasks.map(t => t.id)).toEqual(ids);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { requestUrl } from 'obsidian';
+import { CalDavBackend } from '../src/caldavBackend';
+import { ICalendar } from '../src/icalendar';
+import { backendFor } from '../src/calendarBackend';
+import { CalDavStandIn } from '../tests/mocks/caldavServer';
+
+const BASE = 'https://dav.example.com/calendars/alice/';
+const managed = (obsidianTaskId: string) => ({
+  extendedProperties: { private: { isGcalSync: 'true', appId: 'obsidian-gcal-tasks', obsidianTaskId } },
+});
+
+const setup = (useSyncToken = false) => {
+  const server = new CalDavStandIn([`${BASE}tasks/`, `${BASE}work/`]);
+  vi.mocked(requestUrl).mockImplementation(server.handle as any);
+  const plugin: any = {
+    settings: { calendarBackend: 'caldav', calendarId: 'tasks', useSyncToken, caldav: { serverUrl: BASE, username: 'alice' } },
+    saveData: vi.fn(),
+  };
+  plugin.caldavBackend = new CalDavBackend(plugin);
+  return { server, plugin, backend: plugin.caldavBackend as CalDavBackend };
+};
+
+const insert = async (backend: CalDavBackend, summary: string, taskId: string) => {
+  const [res] = await backend.executeBatchRequest([{
+    method: 'POST', path: '/calendar/v3/calendars/tasks/events',
+    body: { summary, start: { date: '2024-05-01' }, end: { date: '2024-05-02' }, ...managed(taskId) },
+  }]);
+  return res;
+};
+
+describe('CalDavBackend', () => {
+  beforeEach(() => { vi.mocked(requestUrl).mockReset(); });
+
+  it('is selected by the calendarBackend setting', () => {
+    const { plugin } = setup();
+    plugin.gcalApi = {};
+    expect(backendFor(plugin)).toBe(plugin.caldavBackend);
+    expect(backendFor(plugin, { calendarBackend: 'google' } as any)).toBe(plugin.gcalApi);
+  });
+
+  it('creates events as .ics resources and lists only managed ones', async () => {
+    const { server, backend, plugin } = setup();
+    const created = await insert(backend, 'Write report', 't1');
+    expect(created.status).toBe(200);
+    expect(created.body.etag).toBe('"v1"');
+    const stored = server.collections.get(`${BASE}tasks/`)!.get(`${created.body.id}.ics`)!;
+    expect(stored.ics).toContain(`UID:${created.body.id}`);
+    expect(stored.ics).toContain('X-OBSIDIAN-PROP;X-KEY=obsidianTaskId:t1');
+    expect(server.requests[0].headers.Authorization).toBe(`Basic ${Buffer.from('alice:').toString('base64')}`);
+
+    server.put(`${BASE}tasks/other.ics`, ICalendar.fromEvent({ summary: 'Lunch', start: { date: '2024-05-01' }, end: { date: '2024-05-02' } }, 'other'));
+    const events = await backend.fetchGoogleCalendarEvents(plugin.settings);
+    expect(events.map(e => [e.id, e.summary, e.start?.date, e.extendedProperties?.private?.obsidianTaskId]))
+      .toEqual([[created.body.id, 'Write report', '2024-05-01', 't1']]);
+    expect((await backend.fetchUnmanagedEvents('tasks', '2024-04-01T00:00:00Z', '2024-06-01T00:00:00Z')).map(e => e.id)).toEqual(['other']);
+  });
+
+  it('patches with etag checks, moves between collections and deletes', async () => {
+    const { server, backend } = setup();
+    const { body: { id, etag } } = await insert(backend, 'Write report', 't1');
+    const path = `/calendar/v3/calendars/tasks/events/${id}`;
+
+    const [stale, patched] = await backend.executeBatchRequest([
+      { method: 'PATCH', path, headers: { 'If-Match': '"old"' }, body: { summary: 'x' } },
+      { method: 'PATCH', path, headers: { 'If-Match': etag }, body: { summary: 'Send report', extendedProperties: { private: { fingerprint: 'f' } } } },
+    ]);
+    expect(stale.status).toBe(412);
+    expect(patched.status).toBe(200);
+    expect(patched.body.summary).toBe('Send report');
+    expect(patched.body.extendedProperties.private).toMatchObject({ obsidianTaskId: 't1', fingerprint: 'f' });
+
+    const [moved] = await backend.executeBatchRequest([{ method: 'POST', path: `${path}/move?destination=work` }]);
+    expect(moved.status).toBe(200);
+    expect(moved.body.summary).toBe('Send report');
+    expect(server.collections.get(`${BASE}tasks/`)!.size).toBe(0);
+
+    const [deleted, missing] = await backend.executeBatchRequest([
+      { method: 'DELETE', path: `/calendar/v3/calendars/work/events/${id}` },
+      { method: 'DELETE', path: `/calendar/v3/calendars/work/events/${id}` },
+    ]);
+    expect([deleted.status, missing.status]).toEqual([204, 404]);
+  });
+
+  it('reports changes and deletions since the stored sync-token', async () => {
+    const { server, backend, plugin } = setup(true);
+    const a = (await insert(backend, 'A', 'ta')).body.id;
+    const b = (await insert(backend, 'B', 'tb')).body.id;
+
+    expect((await backend.fetchGoogleCalendarEvents(plugin.settings)).map(e => e.id).sort()).toEqual([a, b].sort());
+    expect(plugin.settings.syncToken).toBe('urn:standin:2');
+
+    server.remove(`${BASE}tasks/${a}.ics`);
+    await backend.executeBatchRequest([{ method: 'PATCH', path: `/calendar/v3/calendars/tasks/events/${b}`, body: { summary: 'B2' } }]);
+    const changes = await backend.fetchGoogleCalendarEvents(plugin.settings);
+    expect(changes.map(e => [e.id, e.status, e.summary])).toEqual([[a, 'cancelled', undefined], [b, 'confirmed', 'B2']]);
+
+    // 無効なトークンは全件取得に戻す
+    plugin.settings.syncToken = 'bogus';
+    expect((await backend.fetchGoogleCalendarEvents(plugin.settings)).map(e => e.id)).toEqual([b]);
+    expect(plugin.settings.syncToken).toBe('urn:standin:4');
+  });
+
+  it('falls back to calendar-query when sync-collection is unsupported', async () => {
+    const { server, backend, plugin } = setup(true);
+    server.supportsSyncCollection = false;
+    const id = (await insert(backend, 'A', 'ta')).body.id;
+    expect((await backend.fetchGoogleCalendarEvents(plugin.settings)).map(e => e.id)).toEqual([id]);
+    expect(plugin.settings.syncToken).toBeUndefined();
+  });
+
+  it('merges a patch field by field and private properties key by key', () => {
+    const current = { summary: 'A', colorId: '5', ...managed('t1') };
+    const merged = CalDavBackend.mergePatch(current, { summary: 'B', colorId: null, extendedProperties: { private: { isCompleted: 'true' } } });
+    expect(merged).toEqual({ summary: 'B', extendedProperties: { private: { ...managed('t1').extendedProperties.private, isCompleted: 'true' } } });
+    expect(CalDavBackend.mergePatch(current, { extendedProperties: null }).extendedProperties).toBeUndefined();
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi } from 'vitest';
+import { CalendarRouter } from '../src/calendarRouter';
+import { SyncLogic } from '../src/syncLogic';
+import { SyncJournal } from '../src/syncJournal';
+import { TaskParser } from '../src/taskParser';
+
+const parse = (line: string, path = 'a.md') => new TaskParser({} as any).parseObsidianTask(line, path, 0)!;
+
+const settings: any = {
+  calendarId: 'primary',
+  calendarRoutes: [
+    { match: '#work', calendarId: 'work@group' },
+    { match: 'Projects/Acme', calendarId: 'acme@group' },
+    { match: 'Journal/*/log.md', calendarId: 'log@group' },
+  ],
+};
+const app: any = {
+  metadataCache: {
+    getCache: (path: string) => (path === 'Pinned.md' ? { frontmatter: { 'gcal-calendar': 'pinned@group' } } : null),
+  },
+};
+const mapper: any = {
+  mapObsidianTaskToGoogleEvent: (task: any) => ({
+    summary: task.summary,
+    start: { date: task.startDate },
+    end: { date: task.dueDate },
+    extendedProperties: { private: { isGcalSync: 'true', obsidianTaskId: task.id } },
+  }),
+};
+
+describe('CalendarRouter', () => {
+  it('resolves frontmatter, then the first matching rule, then the default calendar', () => {
+    const router = new CalendarRouter(app, settings);
+    const task = (line: string, path: string) => router.calendarFor(parse(line, path));
+    expect(task('- [ ] A #work/meetings', 'Projects/Acme/x.md')).toBe('work@group');
+    expect(task('- [ ] A', 'Projects/Acme/sub/x.md')).toBe('acme@group');
+    expect(task('- [ ] A', 'Projects/Acme.md')).toBe('primary');
+    expect(task('- [ ] A', 'Journal/2024/log.md')).toBe('log@group');
+    expect(task('- [ ] A', 'Journal/2024/05/log.md')).toBe('primary');
+    expect(task('- [ ] A #work', 'Pinned.md')).toBe('pinned@group');
+    expect(router.routedCalendars()).toEqual(['work@group', 'acme@group', 'log@group']);
+  });
+
+  it('lets ** span folders', () => {
+    const re = CalendarRouter.globToRegExp('**/Inbox/*.md');
+    expect(re.test('Inbox/a.md')).toBe(true);
+    expect(re.test('x/y/inbox/a.md')).toBe(true);
+    expect(re.test('Inbox/sub/a.md')).toBe(false);
+  });
+});
+
+describe('SyncLogic calendar routing', () => {
+  const setup = () => {
+    const sync: any = new SyncLogic({ app, settings } as any);
+    sync.router = new CalendarRouter(app, settings);
+    return sync;
+  };
+
+  it('moves an event before patching it when its task is routed elsewhere', () => {
+    const sync = setup();
+    const task = parse('- [ ] A #work 🛫 2024-05-01 📅 2024-05-01 ^a');
+    const event = { id: 'g1', etag: '"e"', ...mapper.mapObsidianTaskToGoogleEvent(task), summary: 'old' };
+    const fresh = parse('- [ ] B #work 🛫 2024-05-02 📅 2024-05-02 ^b');
+    const requests: any[] = [];
+    sync.prepareBatchRequests([task, fresh], new Map([[task.id, event]]), { [task.id]: 'g1' }, requests, mapper, settings, false, new Map());
+
+    expect(requests.map(r => `${r.method} ${r.path}`)).toEqual([
+      'POST /calendar/v3/calendars/primary/events/g1/move?destination=work%40group',
+      'PATCH /calendar/v3/calendars/work%40group/events/g1',
+      'POST /calendar/v3/calendars/work%40group/events',
+    ]);
+  });
+
+  it('deletes survivors from the calendar they were fetched from', () => {
+    const sync = setup();
+    sync.eventCalendars.set('g2', 'acme@group');
+    const event = { id: 'g2', extendedProperties: { private: { isGcalSync: 'true', obsidianTaskId: 'gone' } } };
+    const requests: any[] = [];
+    sync.prepareDeletionRequests(new Map([['gone', event]]), new Set(), new Set(['g2']), new Set(['g2']), new Map([['g2', event]]), requests, settings, false);
+    expect(requests.map(r => `${r.method} ${r.path}`)).toEqual(['DELETE /calendar/v3/calendars/acme%40group/events/g2']);
+  });
+
+  it('sends moves first and drops updates for events that failed to move', async () => {
+    const sync = setup();
+    sync.executeBatchesWithRetry = vi.fn(async (reqs: any[]) => ({
+      results: reqs.map((r: any) => (r.originalGcalId === 'g1' ? { status: 200, body: { id: 'g1', etag: '"moved"' } } : { status: 403 })),
+      created: 0, updated: 1, deleted: 0, errors: 1, skipped: 0,
+    }));
+    const requests: any[] = [
+      { method: 'POST', path: CalendarRouter.movePath('primary', 'g1', 'work@group'), operationType: 'move', obsidianTaskId: 'a', originalGcalId: 'g1' },
+      { method: 'POST', path: CalendarRouter.movePath('primary', 'g2', 'work@group'), operationType: 'move', obsidianTaskId: 'b', originalGcalId: 'g2' },
+      { method: 'PATCH', path: '/calendar/v3/calendars/work%40group/events/g1', headers: { 'If-Match': '"e"' }, operationType: 'patch', originalGcalId: 'g1' },
+      { method: 'PATCH', path: '/calendar/v3/calendars/work%40group/events/g2', operationType: 'patch', originalGcalId: 'g2' },
+    ];
+    expect(await sync.processMoves(requests, settings)).toEqual({ moved: 1, errors: 1 });
+    expect(requests.map(r => r.path)).toEqual(['/calendar/v3/calendars/work%40group/events/g1']);
+    expect(requests[0].headers['If-Match']).toBe('"moved"');
+    expect(sync.taskCalendars).toEqual({ a: 'work@group' });
+    expect(sync.journalEntries).toEqual([{ op: 'move', gcalId: 'g1', obsidianTaskId: 'a', calendarId: 'work@group', fromCalendarId: 'primary' }]);
+  });
+
+  it('undoes a move by moving the event back', () => {
+    const requests = SyncJournal.buildUndoRequests({
+      syncedAt: '2024-05-01T10:00:00+09:00', calendarId: 'primary', taskMap: {},
+      entries: [{ op: 'move', gcalId: 'g1', calendarId: 'work@group', fromCalendarId: 'primary' }],
+    });
+    expect(requests.map(r => `${r.method} ${r.path}`)).toEqual([
+      'POST /calendar/v3/calendars/work%40group/events/g1/move?destination=primary',
+    ]);
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect, vi } from 'vitest';
+import GoogleCalendarTasksSyncPlugin from '../src/main';
+import { DEFAULT_SETTINGS } from '../src/settings';
+
+// プラグイン本体は Node 用の obsidian の代替で組み立てる
+vi.mock('obsidian', async () => vi.importActual('../src/cli/obsidianShim'));
+
+const setup = (authenticated: boolean) => {
+  const plugin: any = new GoogleCalendarTasksSyncPlugin({ vault: { configDir: '.obsidian' } } as any, { id: 'gcal', dir: '/tmp/gcal' } as any);
+  plugin.settings = { ...DEFAULT_SETTINGS, syncOnChange: true };
+  plugin.isBackendConfigured = () => true;
+  plugin.usesGoogleAuth = () => true;
+  plugin.authService.ensureAccessToken = vi.fn(async () => authenticated);
+  plugin.syncLogic = { runSync: vi.fn(async () => []) };
+  plugin.changedPaths.add('Notes/a.md');
+  return plugin;
+};
+
+describe('sync on change', () => {
+  it('syncs only the queued files', async () => {
+    const plugin = setup(true);
+    await plugin.runChangeSync();
+    expect(plugin.syncLogic.runSync).toHaveBeenCalledWith(expect.anything(), { paths: ['Notes/a.md'] });
+    expect(plugin.changedPaths.size).toBe(0);
+  });
+
+  it('drops the queue when not authenticated and leaves the files to the next full sync', async () => {
+    const plugin = setup(false);
+    await plugin.runChangeSync();
+    expect(plugin.syncLogic.runSync).not.toHaveBeenCalled();
+    expect(plugin.changedPaths.size).toBe(0);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { requestUrl } from 'obsidian';
+import { parseArgs, runCli } from '../src/cli/cli';
+import { CalDavStandIn } from '../tests/mocks/caldavServer';
+
+// CLI は Node 用の obsidian の代替で動かす（通信だけはモックの CalDAV サーバーへ）
+vi.mock('obsidian', async () => ({ ...(await vi.importActual<any>('../src/cli/obsidianShim')), requestUrl: vi.fn() }));
+vi.mock('../tests/mocks/gcalMapper', async () => vi.importActual('../src/gcalMapper'));
+
+const BASE = 'https://dav.example.com/calendars/alice/';
+
+describe('CLI arguments', () => {
+  it('parses a subcommand with its options and rejects unknown input', () => {
+    expect(parseArgs(['sync', '--vault', '/v', '--force'])).toMatchObject({ command: 'sync', vault: '/v', force: true });
+    expect(parseArgs(['dedupe', '--vault', '/v', '--data', 'd.json', '--apply'])).toMatchObject({ data: 'd.json', apply: true });
+    expect(() => parseArgs(['push', '--vault', '/v'])).toThrow();
+    expect(() => parseArgs(['sync'])).toThrow('--vault');
+    expect(() => parseArgs(['sync', '--vault'])).toThrow();
+  });
+});
+
+describe('CLI against a vault directory', () => {
+  let dir: string;
+  let server: CalDavStandIn;
+  const dataPath = () => path.join(dir, 'vault/.obsidian/plugins/obsidian-google-calendar-tasks-sync-plugin/data.json');
+
+  const run = async (...argv: string[]) => {
+    const out: string[] = [];
+    const err: string[] = [];
+    const code = await runCli([...argv, '--vault', path.join(dir, 'vault')], { stdout: t => out.push(t), stderr: t => err.push(t), env: {} });
+    return { code, json: JSON.parse(out.join('')), stderr: err.join('') };
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gcal-cli-'));
+    fs.mkdirSync(path.join(dir, 'vault/Projects'), { recursive: true });
+    fs.mkdirSync(path.join(dir, 'vault/.trash'), { recursive: true });
+    fs.writeFileSync(path.join(dir, 'vault/Projects/plan.md'), '# Plan\n- [ ] 書類を出す 📅 2024-05-03\n- [ ] メモ\n');
+    fs.writeFileSync(path.join(dir, 'vault/.trash/old.md'), '- [ ] 捨てたタスク 📅 2024-05-04\n');
+    fs.mkdirSync(path.dirname(dataPath()), { recursive: true });
+    fs.writeFileSync(dataPath(), JSON.stringify({
+      calendarBackend: 'caldav', calendarId: 'tasks', caldav: { serverUrl: BASE, username: 'alice' },
+    }));
+    server = new CalDavStandIn([`${BASE}tasks/`]);
+    vi.mocked(requestUrl).mockReset();
+    vi.mocked(requestUrl).mockImplementation(server.handle as any);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('plans without writing, then syncs and records the task map in the settings file', async () => {
+    const plan = await run('plan');
+    expect(plan.code).toBe(0);
+    expect(plan.json.accounts).toHaveLength(1);
+    expect(plan.json.accounts[0].status).toBe('planned');
+    expect(plan.json.accounts[0].items.map((i: any) => [i.summary, i.sourcePath, i.operations[0].type]))
+      .toEqual([['書類を出す', 'Projects/plan.md', 'insert']]);
+    expect(server.collections.get(`${BASE}tasks/`)!.size).toBe(0);
+    expect(JSON.parse(fs.readFileSync(dataPath(), 'utf8')).taskMap ?? {}).toEqual({});
+
+    const sync = await run('sync');
+    expect(sync.code).toBe(0);
+    expect(sync.json.accounts[0]).toMatchObject({ status: 'completed', created: 1, errors: 0 });
+    expect(server.collections.get(`${BASE}tasks/`)!.size).toBe(1);
+    expect(Object.keys(JSON.parse(fs.readFileSync(dataPath(), 'utf8')).taskMap)).toHaveLength(1);
+
+    const again = await run('plan');
+    expect(again.json.accounts[0].items).toEqual([]);
+    const dedupe = await run('dedupe');
+    expect(dedupe.json).toMatchObject({ command: 'dedupe', ok: true, dryRun: true, groups: [] });
+  });
+
+  it('reports an unusable configuration with a failing exit code', async () => {
+    fs.writeFileSync(dataPath(), JSON.stringify({ calendarBackend: 'caldav', calendarId: 'tasks' }));
+    const { code, json } = await run('sync');
+    expect(code).toBe(1);
+    expect(json.accounts[0].status).toBe('aborted');
+  });
+
+  it('shows plugin notices on stderr only with --verbose', async () => {
+    fs.writeFileSync(dataPath(), JSON.stringify({
+      calendarBackend: 'caldav', calendarId: 'tasks', caldav: { serverUrl: BASE, username: 'alice' },
+      autoSync: false, syncNoticeSettings: { showManualSyncProgress: true, showAutoSyncSummary: true, showErrors: true, minSyncDurationForNotice: 0 },
+    }));
+    const write = vi.spyOn(process.stderr, 'write');
+    expect((await run('plan')).stderr).not.toContain('同期を開始しました');
+    expect((await run('plan', '--verbose')).stderr).toContain('同期を開始しました');
+    expect(write).not.toHaveBeenCalled();
+    write.mockRestore();
+  });
+});
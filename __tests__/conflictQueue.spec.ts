@@ -0,0 +1,49 @@
+import { describe, test, expect } from 'vitest';
+import { ConflictQueue } from '../src/conflictQueue';
+
+const makeApp = (files: Record<string, string> = {}) => ({
+  vault: {
+    adapter: {
+      exists: async (p: string) => p in files,
+      read: async (p: string) => files[p],
+      write: async (p: string, data: string) => { files[p] = data; },
+    },
+  },
+} as any);
+
+const entry = (taskId: string) => ({
+  taskId, gcalId: 'g', sourcePath: 'a.md', sourceLine: 0, summary: 'A', fields: ['title', 'time'] as any,
+  base: {}, local: { title: 'A', start: 'D:2024-05-01', end: 'D:2024-05-02', completed: false },
+  remote: { title: 'B', start: 'D:2024-05-03', end: 'D:2024-05-04', completed: false }, detectedAt: '2024-05-01T00:00:00Z',
+});
+
+describe('ConflictQueue', () => {
+  test('persists entries to conflict-queue.json in the plugin folder', async () => {
+    const files: Record<string, string> = { 'plug/conflict-queue.json': '[]' };
+    const q = new ConflictQueue(makeApp(files), 'plug');
+    await q.upsert(entry('t1'));
+    await q.upsert({ ...entry('t1'), summary: 'A2' });
+    expect(JSON.parse(files['plug/conflict-queue.json'])).toHaveLength(1);
+    expect((await q.get('t1'))?.summary).toBe('A2');
+
+    const reloaded = new ConflictQueue(makeApp(files), 'plug');
+    expect(await reloaded.pending()).toHaveLength(1);
+  });
+
+  test('resolves and removes entries and notifies listeners', async () => {
+    const q = new ConflictQueue(makeApp(), 'plug');
+    let notified = 0;
+    q.onChange(() => notified++);
+    await q.upsert(entry('t1'));
+    await q.resolve('t1', { pick: { title: 'remote' }, resolvedAt: '2024-05-02T00:00:00Z' });
+    expect(await q.pending()).toHaveLength(0);
+    await q.remove(['t1']);
+    expect(await q.load()).toHaveLength(0);
+    expect(notified).toBe(3);
+  });
+
+  test('treats a broken file as an empty queue', async () => {
+    const q = new ConflictQueue(makeApp({ 'plug/conflict-queue.json': '{oops' }), 'plug');
+    expect(await q.load()).toEqual([]);
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi } from 'vitest';
+import { TFile } from 'obsidian';
+import { EventImporter } from '../src/eventImporter';
+import { TaskParser } from '../src/taskParser';
+import { TaskWriter } from '../src/taskWriter';
+
+const parser = new TaskParser({} as any);
+
+describe('EventImporter.buildTaskLines', () => {
+  it('writes a multi-day all-day event as start and inclusive due dates', () => {
+    const lines = EventImporter.buildTaskLines({ summary: '出張', start: { date: '2024-05-01' }, end: { date: '2024-05-04' } }, '2024-06-30');
+    expect(lines).toEqual(['- [ ] 出張 🛫 2024-05-01 📅 2024-05-03']);
+  });
+
+  it('puts the time window before the dates so the parser keeps it', () => {
+    const lines = EventImporter.buildTaskLines({
+      summary: '定例', start: { dateTime: '2024-05-01T10:00:00' }, end: { dateTime: '2024-05-01T11:30:00' },
+    }, '2024-06-30')!;
+    expect(lines[0]).toBe('- [ ] 定例 ⏰ 10:00~11:30 🛫 2024-05-01 📅 2024-05-01');
+    const task = parser.parseObsidianTask(lines[0], 'Inbox.md', 0)!;
+    expect(task.startDate).toBe('2024-05-01');
+    expect(task.dueDate).toBe('2024-05-01');
+    expect(task.timeWindowStart).toBe('10:00');
+    expect(task.timeWindowEnd).toBe('11:30');
+  });
+
+  it('keeps a cross-day timed event as a window spanning start and due', () => {
+    const lines = EventImporter.buildTaskLines({
+      summary: '夜勤', start: { dateTime: '2024-05-01T22:00:00' }, end: { dateTime: '2024-05-02T06:00:00' },
+    }, '2024-06-30');
+    expect(lines).toEqual(['- [ ] 夜勤 ⏰ 22:00~06:00 🛫 2024-05-01 📅 2024-05-02']);
+  });
+
+  it('turns COUNT into the last occurrence date and drops it from the rule', () => {
+    const lines = EventImporter.buildTaskLines({
+      summary: '週次', start: { date: '2024-05-06' }, end: { date: '2024-05-07' },
+      recurrence: ['RRULE:FREQ=WEEKLY;BYDAY=MO;COUNT=3'],
+    }, '2024-06-30')!;
+    expect(lines[0]).toBe('- [ ] 週次 🔁 every week on monday 🛫 2024-05-06 📅 2024-05-20');
+    const task = parser.parseObsidianTask(lines[0], 'Inbox.md', 0)!;
+    expect(task.recurrenceRule).toContain('FREQ=WEEKLY');
+    expect(task.recurrenceRule).toContain('BYDAY=MO');
+    expect(task.dueDate).toBe('2024-05-20');
+  });
+
+  it('bounds an endless recurrence by the import window', () => {
+    const lines = EventImporter.buildTaskLines({
+      summary: '朝会', start: { dateTime: '2024-05-01T09:00:00' }, end: { dateTime: '2024-05-01T09:15:00' },
+      recurrence: ['RRULE:FREQ=DAILY;INTERVAL=2'],
+    }, '2024-05-31')!;
+    expect(lines[0]).toBe('- [ ] 朝会 ⏰ 09:00~09:15 🔁 every 2 days 🛫 2024-05-01 📅 2024-05-31');
+  });
+
+  it('skips rules the task syntax cannot express', () => {
+    expect(EventImporter.buildTaskLines({
+      summary: '月例', start: { date: '2024-05-13' }, end: { date: '2024-05-14' }, recurrence: ['RRULE:FREQ=MONTHLY;BYDAY=2MO'],
+    }, '2024-06-30')).toBeNull();
+  });
+
+  it('strips task syntax from the title and keeps the description as plain indented lines', () => {
+    const lines = EventImporter.buildTaskLines({
+      summary: '📅 打合せ', start: { date: '2024-05-01' }, end: { date: '2024-05-02' },
+      description: '議題<br>- [ ] 宿題<br>10:00-11:00 は別枠<br>資料 &amp; メモ',
+    }, '2024-06-30');
+    expect(lines).toEqual(['- [ ] 打合せ 🛫 2024-05-01 📅 2024-05-01', '    議題', '    資料 & メモ']);
+  });
+
+  it('rejects recurrences spanning several days', () => {
+    expect(EventImporter.buildTaskLines({
+      summary: '合宿', start: { date: '2024-05-01' }, end: { date: '2024-05-03' }, recurrence: ['RRULE:FREQ=YEARLY'],
+    }, '2024-06-30')).toBeNull();
+  });
+});
+
+describe('EventImporter.importUnmanaged', () => {
+  const setup = (statuses: number[]) => {
+    let content = '# Inbox\n- [ ] 既存 🛫 2024-04-01 📅 2024-04-01';
+    const inbox = new TFile('Inbox.md');
+    const vault = {
+      getAbstractFileByPath: (p: string) => (p === 'Inbox.md' ? inbox : null),
+      process: vi.fn(async (_f: any, fn: (c: string) => string) => { content = fn(content); return content; }),
+      create: vi.fn(),
+      createFolder: vi.fn(),
+    };
+    const app = { vault };
+    const executeBatchRequest = vi.fn(async (reqs: any[]) => reqs.map((_r, i) => ({ status: statuses[i] ?? 200 })));
+    const plugin: any = {
+      app,
+      settings: { taskMap: {} },
+      saveData: vi.fn(),
+      taskParser: parser,
+      taskWriter: new TaskWriter(app as any),
+      gcalApi: {
+        fetchUnmanagedEvents: vi.fn(async () => [
+          { id: 'ev1', summary: 'A', start: { date: '2024-05-01' }, end: { date: '2024-05-02' } },
+          { id: 'ev2', summary: 'B', start: { date: '2024-05-02' }, end: { date: '2024-05-03' } },
+        ]),
+        executeBatchRequest,
+      },
+    };
+    const settings: any = { calendarId: 'primary', taskMap: {}, importInboxPath: 'Inbox' };
+    return { plugin, settings, executeBatchRequest, getContent: () => content };
+  };
+
+  it('appends lines, stamps the events and records them in the task map', async () => {
+    const { plugin, settings, executeBatchRequest, getContent } = setup([200, 200]);
+    const n = await new EventImporter(plugin).importUnmanaged(settings);
+    expect(n).toBe(2);
+    expect(getContent().split('\n').slice(2)).toEqual([
+      '- [ ] A 🛫 2024-05-01 📅 2024-05-01',
+      '- [ ] B 🛫 2024-05-02 📅 2024-05-02',
+      '',
+    ]);
+    const reqs = executeBatchRequest.mock.calls[0][0];
+    expect(reqs.map((r: any) => `${r.method} ${r.path}`)).toEqual([
+      'PATCH /calendar/v3/calendars/primary/events/ev1',
+      'PATCH /calendar/v3/calendars/primary/events/ev2',
+    ]);
+    const idA = parser.parseObsidianTask('- [ ] A 🛫 2024-05-01 📅 2024-05-01', 'Inbox.md', 0)!.id;
+    expect(settings.taskMap[idA]).toBe('ev1');
+    expect(plugin.settings.taskMap[idA]).toBe('ev1');
+  });
+
+  it('removes the line again when the event could not be stamped', async () => {
+    const { plugin, settings, getContent } = setup([200, 500]);
+    const n = await new EventImporter(plugin).importUnmanaged(settings);
+    expect(n).toBe(1);
+    expect(getContent()).not.toContain('- [ ] B');
+    expect(getContent()).toContain('- [ ] A 🛫 2024-05-01 📅 2024-05-01');
+    expect(Object.values(settings.taskMap)).toEqual(['ev1']);
+  });
+
+  it('moves events from another calendar before stamping them', async () => {
+    const { plugin, settings, executeBatchRequest } = setup([]);
+    settings.importCalendarId = 'team@group.calendar.google.com';
+    await new EventImporter(plugin).importUnmanaged(settings);
+    const moves = executeBatchRequest.mock.calls[0][0];
+    expect(moves[0].path).toBe('/calendar/v3/calendars/team%40group.calendar.google.com/events/ev1/move?destination=primary');
+    expect(executeBatchRequest.mock.calls[1][0][0].method).toBe('PATCH');
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi } from 'vitest';
+import { GoogleTasksSync } from '../src/googleTasksSync';
+import { CalendarRouter } from '../src/calendarRouter';
+import { TaskParser } from '../src/taskParser';
+
+const parse = (line: string, path = 'a.md', lineNo = 0) => new TaskParser({} as any).parseObsidianTask(line, path, lineNo)!;
+
+const setup = (remote: any[] = [], googleTaskMap: any = {}) => {
+  let next = 0;
+  const api = {
+    listTasks: vi.fn(async () => remote),
+    insertTask: vi.fn(async () => ({ status: 200, body: { id: `n${++next}` } })),
+    patchTask: vi.fn(async () => ({ status: 200, body: {} })),
+    deleteTask: vi.fn(async () => ({ status: 204 })),
+    moveTask: vi.fn(async () => ({ status: 200, body: {} })),
+  };
+  const plugin: any = { settings: { googleTaskMap }, gtasksApi: api, app: { vault: { getName: () => 'Vault' } } };
+  return { api, plugin, sync: new GoogleTasksSync(plugin) };
+};
+
+describe('GoogleTasksSync', () => {
+  it('maps a task to a Google task with a date-only due and a link back to the note', () => {
+    const task = parse('- [x] Buy milk #gtask 📅 2024-05-03 ✅ 2024-05-04 ^milk', 'Inbox.md');
+    expect(GoogleTasksSync.toGoogleTask(task, 'My Vault')).toEqual({
+      title: task.summary,
+      notes: 'obsidian://open?vault=My%20Vault&file=Inbox.md%23%5Emilk',
+      due: '2024-05-03T00:00:00.000Z',
+      status: 'completed',
+      completed: '2024-05-04T00:00:00.000Z',
+    });
+  });
+
+  it('routes tagged tasks and tasks: rules to task lists', () => {
+    const router = new CalendarRouter({ metadataCache: { getCache: () => null } } as any, {
+      calendarId: 'primary', googleTasksTag: 'gtask', googleTasksListId: '@default',
+      calendarRoutes: [{ match: 'Errands', calendarId: 'tasks:errands' }, { match: '#work', calendarId: 'work@group' }],
+    } as any);
+    expect(CalendarRouter.taskListId(router.calendarFor(parse('- [ ] A #gtask #work')))).toBe('@default');
+    expect(CalendarRouter.taskListId(router.calendarFor(parse('- [ ] A', 'Errands/x.md')))).toBe('errands');
+    expect(CalendarRouter.taskListId(router.calendarFor(parse('- [ ] A #work')))).toBeNull();
+    expect(router.routedCalendars()).toEqual(['work@group']);
+  });
+
+  it('creates parents before their indented subtasks', async () => {
+    const { api, plugin, sync } = setup();
+    const parent = parse('- [ ] Trip #gtask 📅 2024-05-10', 'a.md', 0);
+    const child = parse('    - [ ] Pack #gtask', 'a.md', 1);
+    const done = parse('- [x] Old #gtask', 'a.md', 2);
+    const result = await sync.sync([{ task: child, listId: '@default' }, { task: parent, listId: '@default' }, { task: done, listId: '@default' }], plugin.settings, [], true);
+
+    expect(result.created).toBe(2);
+    expect(api.insertTask.mock.calls.map((c: any[]) => [c[1].title, c[2]])).toEqual([[parent.summary, null], [child.summary, 'n1']]);
+    expect(plugin.settings.googleTaskMap).toEqual({
+      [parent.id]: { listId: '@default', taskId: 'n1', completed: false },
+      [child.id]: { listId: '@default', taskId: 'n2', completed: false },
+    });
+  });
+
+  it('pulls a completion made in Google Tasks into the note', async () => {
+    const task = parse('- [ ] Call #gtask ^call');
+    const { api, plugin, sync } = setup(
+      [{ id: 'g1', title: task.summary, notes: 'obsidian://open?vault=Vault&file=a.md%23%5Ecall', status: 'completed', completed: '2024-05-04T09:00:00.000Z' }],
+      { [task.id]: { listId: '@default', taskId: 'g1', completed: false } },
+    );
+    const edits: any[] = [];
+    const result = await sync.sync([{ task, listId: '@default' }], plugin.settings, edits, true);
+
+    expect(result.pulled).toBe(1);
+    expect(api.patchTask).not.toHaveBeenCalled();
+    expect(edits[0].apply(['- [ ] Call #gtask ^call'])[0]).toMatch(/^- \[x\] Call #gtask .*✅ 2024-05-04/);
+    expect(plugin.settings.googleTaskMap[task.id].completed).toBe(true);
+  });
+
+  it('pushes local completion and deletes tasks that left the list', async () => {
+    const task = parse('- [x] Call #gtask ✅ 2024-05-05 ^call');
+    const { api, plugin, sync } = setup(
+      [{ id: 'g1', title: task.summary, notes: 'obsidian://open?vault=Vault&file=a.md%23%5Ecall', status: 'needsAction' }, { id: 'g2', title: 'gone' }],
+      { [task.id]: { listId: '@default', taskId: 'g1', completed: false }, gone: { listId: '@default', taskId: 'g2', completed: false } },
+    );
+    const result = await sync.sync([{ task, listId: '@default' }], plugin.settings, [], true);
+
+    expect(api.patchTask).toHaveBeenCalledWith('@default', 'g1', { status: 'completed', completed: '2024-05-05T00:00:00.000Z' });
+    expect(api.deleteTask).toHaveBeenCalledWith('@default', 'g2');
+    expect(result).toMatchObject({ updated: 1, deleted: 1, pulled: 0 });
+    expect(Object.keys(plugin.settings.googleTaskMap)).toEqual([task.id]);
+  });
+});
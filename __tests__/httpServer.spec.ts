@@ -51,3 +51,45 @@ describe('HttpServerManager host validation', () => {
     expect(getStatus()).toBe(400);
   });
 });
+
+describe('HttpServerManager calendar feed', () => {
+  const createFeedManager = (settings: any) => {
+    const plugin: any = {
+      settings: { loopbackPort: 1234, ...settings },
+      icsExporter: {
+        matchesToken: (token: string | null) => !!token && token === settings.icsFeedToken,
+        feed: vi.fn(async () => 'BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n'),
+      },
+    };
+    const mgr = new HttpServerManager(plugin);
+    (mgr as any).server = { address: () => ({ port: 1234 }) } as any;
+    return { mgr, plugin };
+  };
+  const request = async (mgr: HttpServerManager, url: string) => {
+    const { req, res } = createReqRes('127.0.0.1:1234');
+    req.url = url;
+    let status: number | undefined;
+    let headers: any;
+    let body = '';
+    res.writeHead = (code: number, h?: any) => { status = code; headers = h; };
+    res.end = (data?: string) => { body = data ?? ''; };
+    await (mgr as any).handleHttpRequest(req, res);
+    return { status, headers, body };
+  };
+
+  it('serves the calendar only with the matching token', async () => {
+    const { mgr } = createFeedManager({ icsServeFeed: true, icsFeedToken: 'secret' });
+    const ok = await request(mgr, '/calendar.ics?token=secret');
+    expect(ok.status).toBe(200);
+    expect(ok.headers['Content-Type']).toBe('text/calendar; charset=utf-8');
+    expect(ok.body).toContain('BEGIN:VCALENDAR');
+    expect((await request(mgr, '/calendar.ics?token=wrong')).status).toBe(404);
+    expect((await request(mgr, '/calendar.ics')).status).toBe(404);
+  });
+
+  it('does not serve the calendar when the feed is turned off', async () => {
+    const { mgr, plugin } = createFeedManager({ icsServeFeed: false, icsFeedToken: 'secret' });
+    expect((await request(mgr, '/calendar.ics?token=secret')).status).toBe(404);
+    expect(plugin.icsExporter.feed).not.toHaveBeenCalled();
+  });
+});
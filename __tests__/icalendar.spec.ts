@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { ICalendar } from '../src/icalendar';
+
+const managed = { extendedProperties: { private: { isGcalSync: 'true', appId: 'obsidian-gcal-tasks', obsidianTaskId: 't1' } } };
+
+describe('ICalendar', () => {
+  it('round-trips dates, recurrence, escaping and long folded text', () => {
+    const description = '買い物リスト, 牛乳; パン\n' + 'あ'.repeat(60);
+    const ics = ICalendar.fromEvent({
+      summary: 'Weekly, review; notes',
+      description,
+      start: { dateTime: '2024-05-01T09:00:00+09:00' },
+      end: { dateTime: '2024-05-01T10:30:00+09:00' },
+      recurrence: ['RRULE:FREQ=WEEKLY;BYDAY=WE', 'EXDATE:20240508T000000Z'],
+      ...managed,
+    }, 'uid-1');
+    expect(ics.split('\r\n').every(line => Buffer.byteLength(line) <= 75)).toBe(true);
+    expect(ics).toContain('DTSTART:20240501T000000Z');
+
+    const event = ICalendar.toEvent(ics)!;
+    expect(event.summary).toBe('Weekly, review; notes');
+    expect(event.description).toBe(description);
+    expect(new Date(event.start!.dateTime!).toISOString()).toBe('2024-05-01T00:00:00.000Z');
+    expect(new Date(event.end!.dateTime!).toISOString()).toBe('2024-05-01T01:30:00.000Z');
+    expect(event.recurrence).toEqual(['RRULE:FREQ=WEEKLY;BYDAY=WE', 'EXDATE:20240508T000000Z']);
+    expect(event.extendedProperties?.private).toEqual(managed.extendedProperties.private);
+  });
+
+  it('reads TZID wall times and all-day events without DTEND from other clients', () => {
+    const event = ICalendar.toEvent([
+      'BEGIN:VCALENDAR', 'BEGIN:VEVENT', 'UID:x', 'DTSTART;TZID=America/New_York:20240701T090000',
+      'BEGIN:VALARM', 'TRIGGER:-PT5M', 'END:VALARM', 'END:VEVENT',
+      'BEGIN:VEVENT', 'UID:x', 'RECURRENCE-ID:20240708T130000Z', 'DTSTART:20240708T150000Z', 'END:VEVENT', 'END:VCALENDAR',
+    ].join('\r\n'))!;
+    expect(new Date(event.start!.dateTime!).toISOString()).toBe('2024-07-01T13:00:00.000Z');
+    expect(event.start!.timeZone).toBe('America/New_York');
+
+    const allDay = ICalendar.toEvent('BEGIN:VEVENT\nDTSTART;VALUE=DATE:20240131\nEND:VEVENT')!;
+    expect(allDay.end).toEqual({ date: '2024-02-01' });
+  });
+
+  it('writes wall-clock times without an offset in their time zone', () => {
+    const ics = ICalendar.fromEvent({
+      summary: 'Standup',
+      start: { dateTime: '2024-07-01T09:00:00', timeZone: 'America/New_York' },
+      end: { dateTime: '2024-07-01T09:15:00', timeZone: 'America/New_York' },
+    }, 'uid-2');
+    expect(ics).toContain('DTSTART:20240701T130000Z');
+    expect(ics).toContain('DTEND:20240701T131500Z');
+  });
+
+  it('keeps recurring times in their time zone so BYDAY and EXDATE expand on the wall clock', () => {
+    const ics = ICalendar.fromEvent({
+      summary: 'Standup',
+      start: { dateTime: '2026-10-19T08:00:00', timeZone: 'America/New_York' },
+      end: { dateTime: '2026-10-19T08:30:00', timeZone: 'America/New_York' },
+      recurrence: ['RRULE:FREQ=WEEKLY;BYDAY=MO', 'EXDATE;TZID=America/New_York:20261026T080000'],
+    }, 'uid-3');
+    const lines = ics.split('\r\n');
+    expect(lines).toContain('DTSTART;TZID=America/New_York:20261019T080000');
+    expect(lines).toContain('DTEND;TZID=America/New_York:20261019T083000');
+    // VTIMEZONE は 1 つだけ、夏時間の切り替わりを毎年の規則で持つ
+    const zone = lines.slice(lines.indexOf('BEGIN:VTIMEZONE'), lines.indexOf('END:VTIMEZONE') + 1);
+    expect(lines.filter(l => l === 'BEGIN:VTIMEZONE')).toHaveLength(1);
+    expect(zone).toEqual([
+      'BEGIN:VTIMEZONE', 'TZID:America/New_York',
+      'BEGIN:DAYLIGHT', 'DTSTART:20260308T020000', 'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU', 'TZOFFSETFROM:-0500', 'TZOFFSETTO:-0400', 'END:DAYLIGHT',
+      'BEGIN:STANDARD', 'DTSTART:20261101T020000', 'RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU', 'TZOFFSETFROM:-0400', 'TZOFFSETTO:-0500', 'END:STANDARD',
+      'END:VTIMEZONE',
+    ]);
+    expect(lines.indexOf('END:VTIMEZONE')).toBeLessThan(lines.indexOf('BEGIN:VEVENT'));
+
+    const event = ICalendar.toEvent(ics)!;
+    expect(new Date(event.start!.dateTime!).toISOString()).toBe('2026-10-19T12:00:00.000Z');
+    expect(event.start!.timeZone).toBe('America/New_York');
+
+    const tokyo = ICalendar.fromEvent({
+      start: { dateTime: '2026-10-19T08:00:00+09:00', timeZone: 'Asia/Tokyo' },
+      end: { dateTime: '2026-10-19T08:30:00+09:00', timeZone: 'Asia/Tokyo' },
+      recurrence: ['RRULE:FREQ=WEEKLY;BYDAY=MO'],
+    }, 'uid-4').split('\r\n');
+    expect(tokyo).toContain('DTSTART;TZID=Asia/Tokyo:20261019T080000');
+    expect(tokyo).toContain('TZOFFSETTO:+0900');
+  });
+});
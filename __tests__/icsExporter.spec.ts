@@ -0,0 +1,98 @@
+import { describe, it, expect, vi } from 'vitest';
+import { TFile } from 'obsidian';
+import { IcsExporter } from '../src/icsExporter';
+import { TaskParser } from '../src/taskParser';
+import { ICalendar } from '../src/icalendar';
+
+// ここでは書き出し内容そのものを確かめるため、実際のマッパーを使う
+vi.mock('../tests/mocks/gcalMapper', async () => vi.importActual('../src/gcalMapper'));
+
+const parser = new TaskParser({} as any);
+const parse = (lines: string[]) => lines.map((line, i) => parser.parseObsidianTask(line, 'Tasks.md', i)!);
+const app = { vault: { getName: () => 'Vault' } };
+const settings: any = {
+  syncIntervalMinutes: 15, defaultEventDurationMinutes: 60, icsExportPath: 'Calendars/tasks.ics',
+  syncPriorityToDescription: true, syncTagsToDescription: true, syncScheduledDateToDescription: true,
+};
+
+const createExporter = (tasks: any[], files: Map<string, string> = new Map()) => {
+  const vault = {
+    ...app.vault,
+    getAbstractFileByPath: (path: string) => files.has(path) ? new TFile(path) : null,
+    read: vi.fn(async (file: TFile) => files.get(file.path)!),
+    modify: vi.fn(async (file: TFile, data: string) => { files.set(file.path, data); }),
+    create: vi.fn(async (path: string, data: string) => { files.set(path, data); }),
+    createFolder: vi.fn(async () => {}),
+  };
+  const plugin: any = { app: { vault }, settings, taskParser: { getObsidianTasks: async () => tasks } };
+  return { exporter: new IcsExporter(plugin), vault, files };
+};
+
+describe('IcsExporter', () => {
+  it('writes dated tasks as events with their recurrence and the rest as to-dos', () => {
+    const tasks = parse([
+      '- [ ] 週次レビュー 🔁 every week on friday for 4 times 🛫 2024-05-03 📅 2024-05-03',
+      '- [ ] 牛乳を買う ⏫',
+      '- [x] 書類を出す ✅ 2024-05-02',
+      '- [-] 中止した予定 📅 2024-05-04',
+    ]);
+    const { exporter } = createExporter(tasks);
+    const ics = exporter.build(tasks, settings);
+
+    const event = ICalendar.toEvent(ics)!;
+    expect(event.summary).toBe('週次レビュー');
+    expect(event.start).toEqual({ date: '2024-05-03' });
+    expect(event.recurrence).toEqual(['RRULE:FREQ=WEEKLY;INTERVAL=1;COUNT=4;BYDAY=FR']);
+    expect(event.extendedProperties?.private).toEqual({ obsidianTaskId: tasks[0].id });
+
+    const todos = ics.split('BEGIN:VTODO').slice(1);
+    expect(todos).toHaveLength(2);
+    expect(todos[0]).toContain('SUMMARY:牛乳を買う');
+    expect(todos[0]).toContain('PRIORITY:3');
+    expect(todos[0]).toContain('STATUS:NEEDS-ACTION');
+    expect(todos[1]).toContain('STATUS:COMPLETED');
+    expect(ics).not.toContain('中止した予定');
+    expect(ics).toContain('X-WR-CALNAME:Obsidian Tasks');
+
+    // UID はタスク ID から決まる
+    const uids = (text: string) => text.split('\r\n').filter(l => l.startsWith('UID:'));
+    expect(uids(exporter.build(tasks, settings))).toEqual(uids(ics));
+    expect(exporter.build(tasks, { ...settings, icsIncludeTodos: false })).not.toContain('BEGIN:VTODO');
+  });
+
+  it('publishes timed recurring tasks on their local weekday and leaves out skip: dates', () => {
+    const tasks = parse(['- [ ] 朝会 🔁 every week on monday for 4 times 🛫 2026-10-19 📅 2026-10-19 ⏰ 08:00~08:30 skip: 2026-10-26']);
+    const { exporter } = createExporter(tasks);
+    const lines = exporter.build(tasks, settings).split('\r\n');
+    const tz = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    expect(lines).toContain(`DTSTART;TZID=${tz}:20261019T080000`);
+    expect(lines).toContain(`DTEND;TZID=${tz}:20261019T083000`);
+    expect(lines).toContain('RRULE:FREQ=WEEKLY;INTERVAL=1;COUNT=4;BYDAY=MO');
+    expect(lines).toContain(`EXDATE;TZID=${tz}:20261026T080000`);
+    expect(lines).toContain(`TZID:${tz}`);
+    expect(lines.indexOf('BEGIN:VTIMEZONE')).toBeLessThan(lines.indexOf('BEGIN:VEVENT'));
+  });
+
+  it('creates the file and leaves it alone when only DTSTAMP would change', async () => {
+    const tasks = parse(['- [ ] 牛乳を買う']);
+    const { exporter, vault, files } = createExporter(tasks);
+    expect(await exporter.exportToVault(settings)).toBe('Calendars/tasks.ics');
+    expect(vault.createFolder).toHaveBeenCalledWith('Calendars');
+    files.set('Calendars/tasks.ics', files.get('Calendars/tasks.ics')!.replace(/DTSTAMP:\d+T\d+Z/, 'DTSTAMP:20000101T000000Z'));
+
+    await exporter.exportToVault(settings);
+    expect(vault.modify).not.toHaveBeenCalled();
+
+    tasks[0].summary = '豆乳を買う';
+    await exporter.exportToVault(settings);
+    expect(files.get('Calendars/tasks.ics')).toContain('SUMMARY:豆乳を買う');
+  });
+
+  it('accepts only the configured feed token', () => {
+    const { exporter } = createExporter([]);
+    expect(exporter.matchesToken('abc', { ...settings, icsFeedToken: 'abc' })).toBe(true);
+    expect(exporter.matchesToken('abd', { ...settings, icsFeedToken: 'abc' })).toBe(false);
+    expect(exporter.matchesToken('', { ...settings, icsFeedToken: '' })).toBe(false);
+    expect(IcsExporter.normalizePath('/Calendars/tasks')).toBe('Calendars/tasks.ics');
+  });
+});
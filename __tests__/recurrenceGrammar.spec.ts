@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { RRule } from 'rrule';
+import { TaskParser } from '../src/taskParser';
+import { RecurrenceGrammar } from '../src/recurrenceGrammar';
+import { TaskRecurrence } from '../src/taskRecurrence';
+
+const parser = new TaskParser({} as any);
+// DTSTART 行を除いた RRULE の行
+const rule = (text: string) => parser.parseRecurrenceRule(text, '2026-01-05')?.split('\n').find(l => l.startsWith('RRULE:')) ?? null;
+// 2026-01-01 から数えた最初の 3 回
+const firstDates = (text: string) =>
+  new RRule({ ...RRule.parseString(rule(text)!.slice(6)), dtstart: new Date(Date.UTC(2026, 0, 1)) })
+    .all((_d, i) => i < 3).map(d => d.toISOString().slice(0, 10));
+
+describe('RecurrenceGrammar corpus (English)', () => {
+  it.each([
+    // 以前から読めた表記
+    ['every day', 'FREQ=DAILY;INTERVAL=1'],
+    ['every 2 weeks', 'FREQ=WEEKLY;INTERVAL=2'],
+    ['monthly on the 15th', 'FREQ=MONTHLY;INTERVAL=1;BYMONTHDAY=15'],
+    ['weekly tue,thu', 'FREQ=WEEKLY;INTERVAL=1;BYDAY=TU,TH'],
+    ['every week on Sunday', 'FREQ=WEEKLY;INTERVAL=1;BYDAY=SU'],
+    ['every week on friday for 4 times', 'FREQ=WEEKLY;INTERVAL=1;COUNT=4;BYDAY=FR'],
+    // 第 n・最終の曜日
+    ['every 2nd Tuesday', 'FREQ=MONTHLY;INTERVAL=1;BYDAY=+2TU'],
+    ['last Friday of the month', 'FREQ=MONTHLY;INTERVAL=1;BYDAY=-1FR'],
+    ['second to last friday of the month', 'FREQ=MONTHLY;INTERVAL=1;BYDAY=-2FR'],
+    ['first monday of every month', 'FREQ=MONTHLY;INTERVAL=1;BYDAY=+1MO'],
+    ['every 3 months on the 1st and 3rd wednesday', 'FREQ=MONTHLY;INTERVAL=3;BYDAY=+1WE,+3WE'],
+    ['last weekday of the month', 'FREQ=MONTHLY;INTERVAL=1;BYSETPOS=-1;BYDAY=MO,TU,WE,TH,FR'],
+    // 平日・除外
+    ['every weekday', 'FREQ=WEEKLY;INTERVAL=1;BYDAY=MO,TU,WE,TH,FR'],
+    ['every weekday except holidays', 'FREQ=WEEKLY;INTERVAL=1;BYDAY=MO,TU,WE,TH,FR'],
+    ['every day except saturday and sunday', 'FREQ=DAILY;INTERVAL=1;BYDAY=MO,TU,WE,TH,FR'],
+    ['every other monday', 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO'],
+    ['fortnightly on wednesday', 'FREQ=WEEKLY;INTERVAL=2;BYDAY=WE'],
+    // 日付・月
+    ['every month on the 1st and 15th', 'FREQ=MONTHLY;INTERVAL=1;BYMONTHDAY=1,15'],
+    ['every month on the last day', 'FREQ=MONTHLY;INTERVAL=1;BYMONTHDAY=-1'],
+    ['april 1st', 'FREQ=YEARLY;INTERVAL=1;BYMONTH=4;BYMONTHDAY=1'],
+    ['every 2 years on 4/1', 'FREQ=YEARLY;INTERVAL=2;BYMONTH=4;BYMONTHDAY=1'],
+    ['every year on the last monday of may', 'FREQ=YEARLY;INTERVAL=1;BYMONTH=5;BYDAY=-1MO'],
+    ['every monday in january and july', 'FREQ=WEEKLY;INTERVAL=1;BYMONTH=1,7;BYDAY=MO'],
+  ])('%s', (text, expected) => {
+    expect(rule(text)).toBe(`RRULE:${expected}`);
+  });
+});
+
+describe('RecurrenceGrammar corpus (Japanese)', () => {
+  it.each([
+    ['毎日', 'FREQ=DAILY;INTERVAL=1'],
+    ['3日ごと', 'FREQ=DAILY;INTERVAL=3'],
+    ['2週間ごと', 'FREQ=WEEKLY;INTERVAL=2'],
+    ['隔週月曜', 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO'],
+    ['毎週月・水・金', 'FREQ=WEEKLY;INTERVAL=1;BYDAY=MO,WE,FR'],
+    ['毎週火曜と木曜', 'FREQ=WEEKLY;INTERVAL=1;BYDAY=TU,TH'],
+    ['毎日曜', 'FREQ=WEEKLY;INTERVAL=1;BYDAY=SU'],
+    ['毎週末', 'FREQ=WEEKLY;INTERVAL=1;BYDAY=SA,SU'],
+    ['平日', 'FREQ=WEEKLY;INTERVAL=1;BYDAY=MO,TU,WE,TH,FR'],
+    ['祝日を除く平日', 'FREQ=WEEKLY;INTERVAL=1;BYDAY=MO,TU,WE,TH,FR'],
+    ['毎日（日曜を除く）', 'FREQ=DAILY;INTERVAL=1;BYDAY=MO,TU,WE,TH,FR,SA'],
+    ['毎月第3水曜', 'FREQ=MONTHLY;INTERVAL=1;BYDAY=+3WE'],
+    ['毎月第２・第４土曜日', 'FREQ=MONTHLY;INTERVAL=1;BYDAY=+2SA,+4SA'],
+    ['毎月最終金曜', 'FREQ=MONTHLY;INTERVAL=1;BYDAY=-1FR'],
+    ['毎月最終平日', 'FREQ=MONTHLY;INTERVAL=1;BYSETPOS=-1;BYDAY=MO,TU,WE,TH,FR'],
+    ['毎月第1営業日', 'FREQ=MONTHLY;INTERVAL=1;BYSETPOS=1;BYDAY=MO,TU,WE,TH,FR'],
+    ['毎月1日と15日', 'FREQ=MONTHLY;INTERVAL=1;BYMONTHDAY=1,15'],
+    ['毎月末', 'FREQ=MONTHLY;INTERVAL=1;BYMONTHDAY=-1'],
+    ['隔月25日', 'FREQ=MONTHLY;INTERVAL=2;BYMONTHDAY=25'],
+    ['毎年4月1日', 'FREQ=YEARLY;INTERVAL=1;BYMONTH=4;BYMONTHDAY=1'],
+    ['毎年5月の最終月曜', 'FREQ=YEARLY;INTERVAL=1;BYMONTH=5;BYDAY=-1MO'],
+    ['毎週火曜 10回', 'FREQ=WEEKLY;INTERVAL=1;COUNT=10;BYDAY=TU'],
+  ])('%s', (text, expected) => {
+    expect(rule(text)).toBe(`RRULE:${expected}`);
+  });
+
+  it('reads an end date written in Japanese as the end of that local day', () => {
+    expect(rule('毎週火曜 2026年12月31日まで')).toBe(rule('every week on tuesday until 2026-12-31'));
+  });
+});
+
+describe('RecurrenceGrammar semantics', () => {
+  it('expands to the intended days', () => {
+    expect(firstDates('every 2nd Tuesday')).toEqual(['2026-01-13', '2026-02-10', '2026-03-10']);
+    expect(firstDates('last weekday of the month')).toEqual(['2026-01-30', '2026-02-27', '2026-03-31']);
+    expect(firstDates('毎月最終金曜')).toEqual(['2026-01-30', '2026-02-27', '2026-03-27']);
+    expect(firstDates('毎年4月1日')).toEqual(['2026-04-01', '2027-04-01', '2028-04-01']);
+  });
+
+  it('reports what RRULE cannot express', () => {
+    expect(RecurrenceGrammar.parse('every weekday except holidays')!.warnings).toHaveLength(1);
+    expect(RecurrenceGrammar.parse('毎月第3水曜')!.warnings).toEqual([]);
+  });
+
+  it('rejects phrases it cannot read instead of guessing', () => {
+    expect(rule('garbage')).toBeNull();
+    expect(rule('every week on the 15th')).toBeNull();
+    expect(rule('毎月第6水曜')).toBeNull();
+    expect(rule('10回')).toBeNull();
+    expect(rule('every day except monday tuesday wednesday thursday friday weekend')).toBeNull();
+  });
+});
+
+describe('Japanese counts on the next instance', () => {
+  it('counts down 回 inside the recurrence text only', () => {
+    const task = parser.parseObsidianTask('- [x] 3回目の面談 🔁 毎週火曜 3回 📅 2026-01-06 ✅ 2026-01-06', 'a.md', 0)!;
+    const next = TaskRecurrence.nextOccurrence(task, '2026-01-06')!;
+    expect(next).toMatchObject({ dueDate: '2026-01-13', remaining: 2 });
+    expect(TaskRecurrence.nextInstanceBlock([task.rawText], next)).toEqual(['- [ ] 3回目の面談 🔁 毎週火曜 2回 📅 2026-01-13']);
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GCalApiService } from '../src/gcalApi';
+import { SandboxCalendar } from '../src/sandboxCalendar';
+import { createHeadlessPlugin } from '../src/cli/headless';
+
+// 同期まで通すケースは CLI と同じく Node 用の obsidian の代替と実際のマッパーで動かす
+vi.mock('obsidian', async () => vi.importActual<any>('../src/cli/obsidianShim'));
+vi.mock('../tests/mocks/gcalMapper', async () => vi.importActual('../src/gcalMapper'));
+
+const managed = (summary: string) => ({
+  summary,
+  start: { date: '2024-05-03' },
+  end: { date: '2024-05-04' },
+  extendedProperties: { private: { isGcalSync: 'true', appId: 'obsidian-gcal-tasks' } },
+});
+const eventsPath = (calendarId: string) => `/calendar/v3/calendars/${calendarId}/events`;
+
+describe('SandboxCalendar behind GCalApiService', () => {
+  let files: Map<string, string>;
+  let sandbox: SandboxCalendar;
+  let plugin: any;
+  let api: GCalApiService;
+
+  beforeEach(() => {
+    files = new Map();
+    const adapter = {
+      exists: async (p: string) => files.has(p),
+      read: async (p: string) => files.get(p)!,
+      write: async (p: string, data: string) => { files.set(p, data); },
+    };
+    sandbox = new SandboxCalendar({ vault: { adapter } } as any, 'plugin');
+    sandbox.pageSize = 2;
+    plugin = {
+      settings: { calendarBackend: 'sandbox', calendarId: 'primary', useSyncToken: true },
+      saveData: vi.fn().mockResolvedValue(undefined),
+      sandboxCalendar: sandbox,
+      calendar: sandbox.client(),
+      authService: { ensureAccessToken: vi.fn(), initializeCalendarApi: vi.fn() },
+    };
+    api = new GCalApiService(plugin);
+  });
+
+  it('lists managed events page by page and then only the changes since the sync token', async () => {
+    const inserted = await api.executeBatchRequest([
+      { method: 'POST', path: eventsPath('primary'), body: managed('A') },
+      { method: 'POST', path: eventsPath('primary'), body: managed('B') },
+      { method: 'POST', path: eventsPath('primary'), body: managed('C') },
+      { method: 'POST', path: eventsPath('primary'), body: { summary: '手入力の予定', start: { date: '2024-05-03' }, end: { date: '2024-05-04' } } },
+    ]);
+    expect(inserted.map(r => r.status)).toEqual([200, 200, 200, 200]);
+    expect(plugin.authService.ensureAccessToken).not.toHaveBeenCalled();
+    expect(JSON.parse(files.get('plugin/sandbox-calendar.json')!).records).toHaveLength(4);
+
+    const list = vi.spyOn(sandbox, 'list');
+    const all = await api.fetchGoogleCalendarEvents(plugin.settings);
+    expect(all.map(e => e.summary)).toEqual(['A', 'B', 'C']);
+    expect(list).toHaveBeenCalledTimes(2);
+    const token = plugin.settings.syncToken;
+    expect(token).toBeTruthy();
+
+    const [a, b] = inserted.map(r => r.body);
+    await api.executeBatchRequest([
+      { method: 'PATCH', path: `${eventsPath('primary')}/${a.id}`, headers: { 'If-Match': a.etag }, body: { summary: 'A2' } },
+      { method: 'DELETE', path: `${eventsPath('primary')}/${b.id}` },
+    ]);
+    const changes = await api.fetchGoogleCalendarEvents(plugin.settings);
+    expect(list.mock.calls[2][0].syncToken).toBe(token);
+    expect(changes.map(e => [e.summary, e.status])).toEqual([['A2', 'confirmed'], ['B', 'cancelled']]);
+
+    // 失効した syncToken は 410 になり、全件取得へフォールバックする
+    await sandbox.expireSyncTokens();
+    const refetched = await api.fetchGoogleCalendarEvents(plugin.settings);
+    expect(refetched.map(e => e.summary)).toEqual(['A2', 'C']);
+    await expect(sandbox.list({ calendarId: 'primary', syncToken: 'garbage' })).rejects.toMatchObject({ response: { status: 410 } });
+  });
+
+  it('answers batch items with etags, 412 on a stale If-Match and 404/410 for missing or deleted events', async () => {
+    const [{ body: created }] = await api.executeBatchRequest([{ method: 'POST', path: eventsPath('primary'), body: managed('A') }]);
+    const results = await api.executeBatchRequest([
+      { method: 'PATCH', path: `${eventsPath('primary')}/${created.id}`, headers: { 'If-Match': '"stale"' }, body: { summary: 'X' } },
+      { method: 'PATCH', path: `${eventsPath('primary')}/${created.id}`, headers: { 'If-Match': created.etag }, body: { summary: 'A2', extendedProperties: { private: { obsidianTaskId: 't1' } } } },
+      { method: 'GET', path: `${eventsPath('primary')}/nosuchevent` },
+      { method: 'POST', path: `${eventsPath('primary')}/${created.id}/move?destination=work` },
+      { method: 'DELETE', path: `${eventsPath('primary')}/${created.id}` },
+      { method: 'DELETE', path: `${eventsPath('work')}/${created.id}` },
+      { method: 'DELETE', path: `${eventsPath('work')}/${created.id}` },
+    ]);
+    expect(results.map(r => r.status)).toEqual([412, 200, 404, 200, 410, 204, 410]);
+    expect(results[1].body.etag).not.toBe(created.etag);
+    // PATCH は管理印をキー単位でマージする
+    expect(results[1].body.extendedProperties.private).toEqual({ isGcalSync: 'true', appId: 'obsidian-gcal-tasks', obsidianTaskId: 't1' });
+    expect(results[3].body.summary).toBe('A2');
+    expect((await sandbox.events('primary')).map(e => e.status)).toEqual(['cancelled']);
+
+    const top = await sandbox.request({ url: 'https://www.googleapis.com/calendar/v3/calendars/primary/events', method: 'GET' });
+    expect(top.status).toBe(404);
+  });
+});
+
+describe('SandboxCalendar with the real sync', () => {
+  let dir: string;
+  const vault = () => path.join(dir, 'vault');
+  const pluginDir = () => path.join(vault(), '.obsidian/plugins/obsidian-google-calendar-tasks-sync-plugin');
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gcal-sandbox-'));
+    fs.mkdirSync(pluginDir(), { recursive: true });
+    fs.writeFileSync(path.join(vault(), 'plan.md'), '- [ ] 書類を出す 📅 2024-05-03\n');
+    fs.writeFileSync(path.join(pluginDir(), 'data.json'), JSON.stringify({ calendarBackend: 'sandbox', calendarId: 'primary', useSyncToken: true }));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('creates and then updates the event without any Google credentials', async () => {
+    const plugin = await createHeadlessPlugin({ vaultPath: vault() });
+    const [first] = await plugin.syncLogic.runSync(JSON.parse(JSON.stringify(plugin.settings)));
+    expect(first).toMatchObject({ status: 'completed', created: 1, errors: 0 });
+    expect(plugin.settings.syncToken).toBeTruthy();
+
+    fs.writeFileSync(path.join(vault(), 'plan.md'), '- [ ] 書類を提出する 📅 2024-05-03\n');
+    const [second] = await plugin.syncLogic.runSync(JSON.parse(JSON.stringify(plugin.settings)));
+    expect(second).toMatchObject({ status: 'completed', errors: 0 });
+
+    // 別のインスタンスからも保存された状態が読める
+    const events = await new SandboxCalendar(plugin.app, pluginDir()).events('primary');
+    expect(events.filter(e => e.status !== 'cancelled').map(e => e.summary)).toEqual(['書類を提出する']);
+  });
+});
+
+describe('SandboxCalendar with native recurrence', () => {
+  let dir: string;
+  const vault = () => path.join(dir, 'vault');
+  const pluginDir = () => path.join(vault(), '.obsidian/plugins/obsidian-google-calendar-tasks-sync-plugin');
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gcal-sandbox-'));
+    fs.mkdirSync(pluginDir(), { recursive: true });
+    fs.writeFileSync(path.join(vault(), 'plan.md'), '- [ ] 週報 🔁 every week on friday for 4 times 🛫 2024-05-03 📅 2024-05-24 ^weekly\n');
+    fs.writeFileSync(path.join(pluginDir(), 'data.json'), JSON.stringify({ calendarBackend: 'sandbox', calendarId: 'primary', nativeRecurrence: true }));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('sends one recurring master spanning a single day and patches it in place', async () => {
+    const plugin = await createHeadlessPlugin({ vaultPath: vault() });
+    const [first] = await plugin.syncLogic.runSync(JSON.parse(JSON.stringify(plugin.settings)));
+    expect(first).toMatchObject({ status: 'completed', created: 1, errors: 0 });
+    const [master] = await plugin.sandboxCalendar.events('primary');
+    expect(master.start).toEqual({ date: '2024-05-03' });
+    expect(master.end).toEqual({ date: '2024-05-04' });
+    expect(master.recurrence![0]).toMatch(/^RRULE:FREQ=WEEKLY;.*BYDAY=FR/);
+
+    fs.writeFileSync(path.join(vault(), 'plan.md'), '- [ ] 週報を書く 🔁 every week on friday for 4 times 🛫 2024-05-03 📅 2024-05-24 ^weekly\n');
+    const [second] = await plugin.syncLogic.runSync(JSON.parse(JSON.stringify(plugin.settings)));
+    expect(second).toMatchObject({ status: 'completed', created: 0, errors: 0 });
+    const events = await plugin.sandboxCalendar.events('primary');
+    expect(events.map(e => [e.id, e.summary, e.status])).toEqual([[master.id, '週報を書く', 'confirmed']]);
+  });
+});
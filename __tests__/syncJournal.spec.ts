@@ -0,0 +1,112 @@
+import { describe, it, expect, vi } from 'vitest';
+import { SyncJournal } from '../src/syncJournal';
+import { SyncLogic } from '../src/syncLogic';
+
+const path = '/calendar/v3/calendars/primary/events';
+const before = {
+  id: 'g1', etag: '"e1"', htmlLink: 'https://example.com', updated: '2024-05-01T00:00:00Z',
+  summary: 'B', start: { date: '2024-05-01' }, end: { date: '2024-05-02' },
+};
+
+const memoryAdapter = () => {
+  const files = new Map<string, string>();
+  return {
+    files,
+    app: {
+      vault: {
+        adapter: {
+          exists: async (p: string) => files.has(p),
+          read: async (p: string) => files.get(p)!,
+          write: async (p: string, data: string) => { files.set(p, data); },
+        },
+      },
+    } as any,
+  };
+};
+
+describe('SyncJournal', () => {
+  it('records only successful operations with the prior state of updated events', () => {
+    const requests: any[] = [
+      { method: 'POST', path, operationType: 'insert', obsidianTaskId: 'a' },
+      { method: 'PATCH', path: `${path}/g1`, operationType: 'patch', obsidianTaskId: 'b', originalGcalId: 'g1' },
+      { method: 'DELETE', path: `${path}/g2`, operationType: 'delete', obsidianTaskId: 'c', originalGcalId: 'g2' },
+    ];
+    const entries = SyncJournal.entriesFromResults(
+      requests,
+      [{ status: 200, body: { id: 'new1' } }, { status: 200, body: { id: 'g1' } }, { status: 500 }],
+      new Map([['g1', before]]),
+    );
+    expect(entries).toEqual([
+      { op: 'insert', gcalId: 'new1', obsidianTaskId: 'a' },
+      { op: 'patch', gcalId: 'g1', obsidianTaskId: 'b', before },
+    ]);
+  });
+
+  it('builds inverse operations in reverse order without read-only fields', () => {
+    const requests = SyncJournal.buildUndoRequests({
+      syncedAt: '2024-05-01T10:00:00+09:00', calendarId: 'primary', taskMap: {},
+      entries: [
+        { op: 'delete', gcalId: 'g2', obsidianTaskId: 'c', before: { ...before, id: 'g2' } },
+        { op: 'insert', gcalId: 'new1', obsidianTaskId: 'c' },
+        { op: 'patch', gcalId: 'g1', obsidianTaskId: 'b', before },
+        { op: 'patch', gcalId: 'g3' }, // 送信前の状態が無いものは戻せない
+      ],
+    });
+    expect(requests.map(r => `${r.method} ${r.path}`)).toEqual([
+      `PUT ${path}/g1`,
+      `DELETE ${path}/new1`,
+      `POST ${path}`,
+    ]);
+    expect(requests[0].body).toEqual({ summary: 'B', start: { date: '2024-05-01' }, end: { date: '2024-05-02' } });
+    expect(requests[2].originalGcalId).toBe('g2');
+  });
+
+  it('keeps the last N generations on disk', async () => {
+    const { app, files } = memoryAdapter();
+    const journal = new SyncJournal(app, 'plugin');
+    for (const n of [1, 2, 3]) {
+      await journal.record({ syncedAt: String(n), calendarId: 'primary', taskMap: {}, entries: [] }, 2);
+    }
+    const stored = JSON.parse(files.get('plugin/sync-journal.json')!);
+    expect(stored.map((g: any) => g.syncedAt)).toEqual(['2', '3']);
+    expect((await journal.pop())?.syncedAt).toBe('3');
+    expect((await new SyncJournal(app, 'plugin').latest())?.syncedAt).toBe('2');
+  });
+});
+
+describe('SyncLogic journaling', () => {
+  it('fetches the prior state of events missing from the listing before sending', async () => {
+    const executeBatchRequest = vi.fn(async (reqs: any[]) => reqs.map(() => ({ status: 200, body: before })));
+    const sync: any = new SyncLogic({ app: {} as any, settings: {}, gcalApi: { executeBatchRequest } } as any);
+    sync.executeBatchesWithRetry = vi.fn().mockResolvedValue({
+      results: [{ status: 200, body: { id: 'g1' } }], created: 0, updated: 1, deleted: 0, errors: 0, skipped: 0,
+    });
+    const req = { method: 'PATCH', path: `${path}/g1`, body: { summary: 'B2' }, obsidianTaskId: 'b', operationType: 'patch', originalGcalId: 'g1' };
+    await sync.processBatchRequests([req], { b: 'g1' }, new Map(), { calendarId: 'primary' }, false);
+    expect(executeBatchRequest.mock.calls[0][0]).toEqual([{ method: 'GET', path: `${path}/g1`, originalGcalId: 'g1' }]);
+    expect(sync.journalEntries).toEqual([{ op: 'patch', gcalId: 'g1', obsidianTaskId: 'b', before }]);
+  });
+
+  it('undo restores the task map and remaps re-created events', async () => {
+    const { app } = memoryAdapter();
+    const journal = new SyncJournal(app, 'plugin');
+    await journal.record({
+      syncedAt: '2024-05-01T10:00:00+09:00', calendarId: 'primary',
+      taskMap: { c: 'g2' }, syncBase: {},
+      entries: [{ op: 'delete', gcalId: 'g2', obsidianTaskId: 'c', before: { ...before, id: 'g2' } }, { op: 'insert', gcalId: 'new1', obsidianTaskId: 'c' }],
+    }, 5);
+    const plugin: any = {
+      app, syncJournal: journal, calendar: {},
+      settings: { tokens: {}, taskMap: { c: 'new1' }, syncBase: {} },
+      authService: { ensureAccessToken: vi.fn(async () => true) },
+      saveData: vi.fn(),
+    };
+    const sync: any = new SyncLogic(plugin);
+    sync.executeBatchesWithRetry = vi.fn().mockResolvedValue({
+      results: [{ status: 204 }, { status: 200, body: { id: 'g9' } }], created: 1, updated: 0, deleted: 1, errors: 0, skipped: 0,
+    });
+    await sync.undoLastSync();
+    expect(plugin.settings.taskMap).toEqual({ c: 'g9' });
+    expect(await journal.latest()).toBeUndefined();
+  });
+});
@@ -300,3 +300,76 @@ describe('SyncLogic: 追加/更新/削除のバッチ構築', () => {
     expect(true).toBe(true); // 暫定的に成功
   });
 });
+
+describe('SyncLogic: ネイティブ繰り返し', () => {
+  let plugin: any;
+  let sync: any;
+  let gmap: any;
+
+  beforeEach(() => {
+    plugin = makePlugin();
+    plugin.settings.nativeRecurrence = true;
+    sync = new SyncLogic(plugin);
+    gmap = new DummyMapper(plugin.app, plugin.settings);
+  });
+
+  const daily = {
+    id: 'obs-2',
+    summary: '日次（改題）',
+    startDate: '2025-08-31',
+    dueDate: '2025-08-31',
+    timeWindowStart: '13:00',
+    timeWindowEnd: '14:00',
+    recurrenceRule: 'RRULE:FREQ=DAILY;COUNT=3',
+  };
+
+  test('新規は RRULE 付きの 1 件で POST', () => {
+    const batch: Req[] = [];
+    (sync as any).prepareBatchRequests([daily], new Map(), {}, batch, gmap, plugin.settings, false, new Map());
+
+    const { posts } = collect(batch);
+    expect(posts).toHaveLength(1);
+    expect(posts[0].body?.recurrence).toEqual(['RRULE:FREQ=DAILY;COUNT=3']);
+  });
+
+  test('同期中に設定を切り替えても、その同期のスナップショットに従って展開する', () => {
+    const batch: Req[] = [];
+    (sync as any).prepareBatchRequests([daily], new Map(), {}, batch, gmap, { ...plugin.settings, nativeRecurrence: false }, false, new Map());
+
+    const { posts } = collect(batch);
+    expect(posts).toHaveLength(3);
+    expect(posts.every(p => !(p.body?.recurrence || []).length)).toBe(true);
+  });
+
+  test('マスターは PATCH し、控えてある例外インスタンスにはタイトルだけ送る', () => {
+    const existing = mkExisting('gcal-2', {
+      summary: '日次',
+      start: { dateTime: '2025-08-31T13:00:00', timeZone: 'Asia/Tokyo' },
+      end:   { dateTime: '2025-08-31T14:00:00', timeZone: 'Asia/Tokyo' },
+      recurrence: ['RRULE:FREQ=DAILY;COUNT=3'],
+    });
+    sync.recurrenceExceptions = { 'gcal-2': ['gcal-2_20250901T040000Z'] };
+    const batch: Req[] = [];
+    (sync as any).prepareBatchRequests(
+      [daily], new Map([[daily.id, existing]]), { [daily.id]: 'gcal-2' }, batch, gmap, plugin.settings, false, new Map(),
+    );
+
+    const { posts, patches, deletes } = collect(batch);
+    expect(posts).toHaveLength(0);
+    expect(deletes).toHaveLength(0);
+    expect(patches.map(p => p.path.split('/').pop())).toEqual(['gcal-2', 'gcal-2_20250901T040000Z']);
+    expect(patches[1].body).toEqual({ summary: '日次（改題）' });
+    expect(patches[1].obsidianTaskId).toBeUndefined();
+  });
+
+  test('例外インスタンスはタスクの代表にせず、取り消された回は控えから外す', () => {
+    const master = { ...mkExisting('gcal-2', { recurrence: ['RRULE:FREQ=DAILY;COUNT=3'] }), updated: '2025-08-30T00:00:00Z' };
+    const moved = { ...mkExisting('gcal-2_20250901T040000Z'), recurringEventId: 'gcal-2', updated: '2025-08-31T00:00:00Z' };
+    const cancelled = { id: 'gcal-2_20250902T040000Z', recurringEventId: 'gcal-2', status: 'cancelled' };
+    sync.recurrenceExceptions = { 'gcal-2': ['gcal-2_20250902T040000Z'] };
+
+    const { googleEventMap } = (sync as any).indexGoogleEvents([master, moved, cancelled], false, { X: 'gcal-2' });
+    expect(googleEventMap.get('X')?.id).toBe('gcal-2');
+    expect(sync.recurrenceExceptions).toEqual({ 'gcal-2': ['gcal-2_20250901T040000Z'] });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, test, expect, vi } from 'vitest';
+import { SyncLogic } from '../src/syncLogic';
+import { TaskParser } from '../src/taskParser';
+
+const parse = (line: string) => new TaskParser({} as any).parseObsidianTask(line, 'a.md', 0)!;
+
+describe('SyncLogic partial sync', () => {
+  const setup = () => {
+    const mapped = parse('- [ ] A 🛫 2024-05-01 📅 2024-05-01 ^blk');
+    const fresh = parse('- [ ] B 🛫 2024-05-02 📅 2024-05-02');
+    const settings: any = {
+      calendarId: 'primary',
+      tokens: { refresh_token: 'r' },
+      autoSync: true,
+      lastSyncTime: '2024-04-30T00:00:00+09:00',
+      taskMap: { [mapped.id]: 'g1', 'obsidian-gone': 'g2' },
+      syncBase: {},
+      journalGenerations: 0,
+      syncNoticeSettings: { showManualSyncProgress: false, showAutoSyncSummary: false, showErrors: false, minSyncDurationForNotice: 0 },
+    };
+    const plugin: any = {
+      app: {},
+      settings: { ...settings },
+      isCurrentlySyncing: () => false,
+      setSyncing: vi.fn(),
+      saveData: vi.fn(),
+      refreshSettingsTab: vi.fn(),
+      calendar: {},
+      authService: { ensureAccessToken: vi.fn(async () => true) },
+      taskParser: { getObsidianTasks: vi.fn(async () => [mapped, fresh]) },
+      taskWriter: { applyEdits: vi.fn() },
+      conflictQueue: { load: vi.fn(async () => []), upsert: vi.fn(), remove: vi.fn() },
+      gcalApi: {
+        fetchGoogleCalendarEvents: vi.fn(),
+        executeBatchRequest: vi.fn(async (reqs: any[]) => reqs.map(() => ({
+          status: 200,
+          body: { id: 'g1', status: 'confirmed', extendedProperties: { private: { isGcalSync: 'true', obsidianTaskId: mapped.id } } },
+        }))),
+      },
+    };
+    const sync: any = new SyncLogic(plugin);
+    sync.executeBatchesWithRetry = vi.fn(async (reqs: any[]) => ({
+      results: reqs.map(() => ({ status: 200, body: { id: 'g3' } })), created: reqs.length, updated: 0, deleted: 0, errors: 0, skipped: 0,
+    }));
+    return { plugin, settings, sync, mapped, fresh };
+  };
+
+  test('fetches only mapped events by id and never deletes', async () => {
+    const { plugin, settings, sync, fresh } = setup();
+    await sync.runSync(settings, { paths: ['a.md'] });
+
+    expect(plugin.taskParser.getObsidianTasks).toHaveBeenCalledWith(['a.md']);
+    expect(plugin.gcalApi.fetchGoogleCalendarEvents).not.toHaveBeenCalled();
+    expect(plugin.gcalApi.executeBatchRequest.mock.calls[0][0].map((r: any) => `${r.method} ${r.path}`))
+      .toEqual(['GET /calendar/v3/calendars/primary/events/g1']);
+
+    const sent = sync.executeBatchesWithRetry.mock.calls.flatMap((c: any[]) => c[0]);
+    expect(sent.some((r: any) => r.method === 'DELETE')).toBe(false);
+    expect(sent.filter((r: any) => r.method === 'POST').map((r: any) => r.obsidianTaskId)).toEqual([fresh.id]);
+    expect(plugin.settings.taskMap[fresh.id]).toBe('g3');
+    expect(plugin.settings.taskMap['obsidian-gone']).toBe('g2');
+  });
+
+  test('keeps lastSyncTime so the next full sync still sees remote changes', async () => {
+    const { plugin, settings, sync } = setup();
+    await sync.runSync(settings, { paths: ['a.md'] });
+    expect(plugin.settings.lastSyncTime).toBe('2024-04-30T00:00:00+09:00');
+  });
+});
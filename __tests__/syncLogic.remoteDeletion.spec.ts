@@ -0,0 +1,83 @@
+import { describe, test, expect, beforeEach, vi } from 'vitest';
+import { SyncLogic } from '../src/syncLogic';
+import { TaskParser } from '../src/taskParser';
+import { TaskWriter } from '../src/taskWriter';
+
+const parse = (line: string) => new TaskParser({} as any).parseObsidianTask(line, 'a.md', 0)!;
+const LINE = '- [ ] A 🛫 2024-05-01 📅 2024-05-01 ^blk';
+
+describe('SyncLogic remote deletion policy', () => {
+  let sync: any;
+
+  beforeEach(() => {
+    sync = new SyncLogic({ app: {} as any, settings: {} } as any);
+  });
+
+  const run = (policy: string, line = LINE) => {
+    const task = parse(line);
+    const taskMap: Record<string, string> = { [task.id]: 'g1' };
+    const edits: any[] = [];
+    sync.collectRemoteDeletions([task], new Map(), taskMap, new Set(['g1']), { remoteDeletionPolicy: policy }, edits);
+    return { task, taskMap, edits, out: TaskWriter.applyEditsToContent(line, edits).content };
+  };
+
+  test('recreate leaves the mapping so the usual fallback insert runs', () => {
+    const { taskMap, edits } = run('recreate');
+    expect(Object.values(taskMap)).toEqual(['g1']);
+    expect(edits).toHaveLength(0);
+  });
+
+  test('cancel marks the task as - [-] and drops the mapping', () => {
+    const { task, taskMap, out } = run('cancel');
+    expect(taskMap).toEqual({});
+    expect(out).toBe('- [-] A 🛫 2024-05-01 📅 2024-05-01 ^blk');
+    expect(sync.remoteDeletedIds.has(task.id)).toBe(true);
+    expect(parse(out).isCancelled).toBe(true);
+  });
+
+  test('delete removes the task line with its continuation lines', () => {
+    const task = parse(LINE);
+    const edits: any[] = [];
+    sync.collectRemoteDeletions([task], new Map(), { [task.id]: 'g1' }, new Set(['g1']), { remoteDeletionPolicy: 'delete' }, edits);
+    const content = ['# h', LINE, '    メモ', '- [ ] B'].join('\n');
+    task.sourceLine = 1;
+    expect(TaskWriter.applyEditsToContent(content, edits).content).toBe(['# h', '- [ ] B'].join('\n'));
+  });
+
+  test('tag appends #gcal-deleted before the block link', () => {
+    const { out } = run('tag');
+    expect(out).toBe('- [ ] A 🛫 2024-05-01 📅 2024-05-01 #gcal-deleted ^blk');
+    expect(parse(out).tags).toContain('gcal-deleted');
+  });
+
+  test('ignores tasks whose event is still listed', () => {
+    const task = parse(LINE);
+    const taskMap: Record<string, string> = { [task.id]: 'g1' };
+    const edits: any[] = [];
+    sync.collectRemoteDeletions([task], new Map([[task.id, { id: 'g2' }]]), taskMap, new Set(['g1']), { remoteDeletionPolicy: 'delete' }, edits);
+    expect(edits).toHaveLength(0);
+    expect(taskMap[task.id]).toBe('g1');
+  });
+
+  test('cancelled and tagged tasks are not sent to Google', () => {
+    const mapper = { mapObsidianTaskToGoogleEvent: vi.fn() };
+    const batch: any[] = [];
+    const tasks = [parse('- [-] A 🛫 2024-05-01 📅 2024-05-01'), parse('- [ ] B 🛫 2024-05-01 📅 2024-05-01 #gcal-deleted')];
+    const r = sync.prepareBatchRequests(tasks, new Map(), {}, batch, mapper, { calendarId: 'primary' }, false, new Map());
+    expect(batch).toHaveLength(0);
+    expect(r.skipped).toBe(2);
+    expect(mapper.mapObsidianTaskToGoogleEvent).not.toHaveBeenCalled();
+  });
+
+  test('a 404 on update becomes a remote deletion instead of a re-insert', async () => {
+    sync.executeBatchesWithRetry = vi.fn().mockResolvedValue({
+      results: [{ status: 404 }], created: 0, updated: 0, deleted: 0, errors: 0, skipped: 0,
+    });
+    const taskMap: Record<string, string> = { 'obsidian-x': 'g1' };
+    const req = { method: 'PATCH', path: '/calendar/v3/calendars/primary/events/g1', body: {}, obsidianTaskId: 'obsidian-x', operationType: 'patch', originalGcalId: 'g1' };
+    await sync.processBatchRequests([req], taskMap, new Map(), { calendarId: 'primary', remoteDeletionPolicy: 'cancel' }, false);
+    expect(sync.executeBatchesWithRetry).toHaveBeenCalledTimes(1);
+    expect(taskMap).toEqual({});
+    expect(sync.lateRemoteDeletions).toEqual(['obsidian-x']);
+  });
+});
@@ -0,0 +1,186 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { SyncLogic } from '../src/syncLogic';
+import { TaskParser } from '../src/taskParser';
+import { TaskWriter } from '../src/taskWriter';
+
+const makePlugin = () => ({
+  app: {} as any,
+  settings: { includeDescriptionInIdentity: false, includeReminderInIdentity: false },
+  taskParser: new TaskParser({} as any),
+} as any);
+
+const parse = (line: string) => new TaskParser({} as any).parseObsidianTask(line, 'a.md', 0)!;
+
+const fp = (start: string, end: string, sum = 'A') => `S|${sum}|A|${start}|B|${end}|R||Z|C`;
+const mapperFor = (payload: any) => ({ mapObsidianTaskToGoogleEvent: (t: any) => ({ summary: t.summary, ...payload }) });
+const allDay = (s: string, e: string) => ({ start: { date: s }, end: { date: e } });
+const pullAll = { syncCompletionFromGoogle: true, pullTimeChangesFromGoogle: true, pullTitleFromGoogle: true };
+
+describe('SyncLogic Google → Obsidian write-back', () => {
+  let sync: any;
+  let plugin: any;
+
+  beforeEach(() => {
+    plugin = makePlugin();
+    sync = new SyncLogic(plugin);
+  });
+
+  test('collects completion made on Google after the last sync', () => {
+    const task = parse('- [ ] A 🛫 2024-05-01 📅 2024-05-01');
+    const ev = { id: 'g1', summary: 'A', ...allDay('2024-05-01', '2024-05-02'), updated: '2024-05-02T00:00:00Z', extendedProperties: { private: { isCompleted: 'true' } } };
+    const edits: any[] = [];
+    sync.collectRemoteMerges([task], new Map([[task.id, ev]]), {}, mapperFor(allDay('2024-05-01', '2024-05-02')), { syncCompletionFromGoogle: true, lastSyncTime: '2024-05-01T00:00:00Z' }, edits);
+    expect(task.isCompleted).toBe(true);
+    expect(edits).toHaveLength(1);
+    const out = TaskWriter.applyEditsToContent(task.rawText, edits).content;
+    expect(out).toBe('- [x] A 🛫 2024-05-01 📅 2024-05-01 ✅ 2024-05-02');
+  });
+
+  test('ignores completion flags older than the last sync', () => {
+    const task = parse('- [ ] A 🛫 2024-05-01 📅 2024-05-01');
+    const ev = { id: 'g1', summary: 'A', ...allDay('2024-05-01', '2024-05-02'), updated: '2024-04-30T00:00:00Z', extendedProperties: { private: { isCompleted: 'true' } } };
+    const edits: any[] = [];
+    sync.collectRemoteMerges([task], new Map([[task.id, ev]]), {}, mapperFor(allDay('2024-05-01', '2024-05-02')), { syncCompletionFromGoogle: true, lastSyncTime: '2024-05-01T00:00:00Z' }, edits);
+    expect(task.isCompleted).toBe(false);
+    expect(edits).toHaveLength(0);
+    expect(sync.forcePatchIds.has(task.id)).toBe(true); // Obsidian の未完了で上書き
+  });
+
+  test('rewrites 🛫/📅 and the time window when the event was moved on Google', () => {
+    const task = parse('- [ ] A 10:00~11:00 🛫 2024-05-01 📅 2024-05-01 ^blk');
+    const oldId = task.id;
+    const ev: any = {
+      id: 'g1', summary: 'A',
+      start: { dateTime: '2024-05-03T14:00:00' },
+      end: { dateTime: '2024-05-03T15:30:00' },
+      extendedProperties: { private: { obsidianTaskId: oldId, localFp: fp('T:2024-05-01T10:00:00.000Z', 'T:2024-05-01T11:00:00.000Z') } },
+    };
+    const mapper = mapperFor({ start: { dateTime: '2024-05-01T10:00:00' }, end: { dateTime: '2024-05-01T11:00:00' } });
+    const eventMap = new Map([[oldId, ev]]);
+    const taskMap: Record<string, string> = { [oldId]: 'g1' };
+    const edits: any[] = [];
+    sync.collectRemoteMerges([task], eventMap, taskMap, mapper, pullAll, edits);
+
+    expect(task.startDate).toBe('2024-05-03');
+    expect(task.timeWindowStart).toBe('14:00');
+    expect(task.timeWindowEnd).toBe('15:30');
+    expect(task.id).toBe(oldId); // ブロックリンク付きは ID 不変
+    const out = TaskWriter.applyEditsToContent(task.rawText, edits).content;
+    expect(out).toBe('- [ ] A 14:00~15:30 🛫 2024-05-03 📅 2024-05-03 ^blk');
+    const reparsed = parse(out);
+    expect(reparsed.startDate).toBe('2024-05-03');
+    expect(reparsed.timeWindowEnd).toBe('15:30');
+    expect(sync.pendingBase.get(task.id)).toEqual({ title: 'A', start: 'T:2024-05-03T14:00', end: 'T:2024-05-03T15:30', completed: false });
+  });
+
+  test('rekeys tasks without a block link so the event keeps matching', () => {
+    const task = parse('- [ ] A 🛫 2024-05-01 📅 2024-05-01');
+    const oldId = task.id;
+    const ev: any = {
+      id: 'g1', summary: 'A',
+      ...allDay('2024-05-04', '2024-05-06'),
+      extendedProperties: { private: { obsidianTaskId: oldId, localFp: fp('D:2024-05-01', 'D:2024-05-02') } },
+    };
+    const eventMap = new Map([[oldId, ev]]);
+    const taskMap: Record<string, string> = { [oldId]: 'g1' };
+    const edits: any[] = [];
+    sync.collectRemoteMerges([task], eventMap, taskMap, mapperFor(allDay('2024-05-01', '2024-05-02')), pullAll, edits);
+
+    const out = TaskWriter.applyEditsToContent(task.rawText, edits).content;
+    expect(out).toBe('- [ ] A 🛫 2024-05-04 📅 2024-05-05');
+    expect(task.id).toBe(parse(out).id);
+    expect(eventMap.get(task.id)).toBe(ev);
+    expect(ev.extendedProperties.private.obsidianTaskId).toBe(task.id);
+    expect(taskMap).toEqual({ [task.id]: 'g1' });
+    expect(sync.forcePatchIds.has(task.id)).toBe(false);
+  });
+
+  test('resolves concurrent time edits by policy', () => {
+    const ev: any = {
+      id: 'g1', summary: 'A',
+      ...allDay('2024-05-04', '2024-05-05'),
+      extendedProperties: { private: { localFp: fp('D:2024-04-20', 'D:2024-04-21') } },
+    };
+    const mapper = mapperFor(allDay('2024-05-01', '2024-05-02'));
+
+    const keep = parse('- [ ] A 🛫 2024-05-01 📅 2024-05-01');
+    const edits: any[] = [];
+    sync.collectRemoteMerges([keep], new Map([[keep.id, ev]]), {}, mapper, { ...pullAll, mergePolicies: { time: 'obsidian' } }, edits);
+    expect(edits).toHaveLength(0);
+    expect(keep.startDate).toBe('2024-05-01');
+    expect(sync.forcePatchIds.has(keep.id)).toBe(true);
+
+    const take = parse('- [ ] A 🛫 2024-05-01 📅 2024-05-01');
+    sync.collectRemoteMerges([take], new Map([[take.id, ev]]), {}, mapper, pullAll, edits);
+    expect(take.startDate).toBe('2024-05-04'); // 既定は Google 優先
+  });
+
+  test('merges title and completion against the stored base', () => {
+    const task = parse('- [ ] 新しい名前 🛫 2024-05-01 📅 2024-05-01 #work ^b1');
+    const ev: any = { id: 'g1', summary: 'Google 側の名前', ...allDay('2024-05-01', '2024-05-02'), extendedProperties: { private: { isCompleted: 'true' } } };
+    const settings = {
+      ...pullAll,
+      syncBase: { [task.id]: { title: '元の名前', start: 'D:2024-05-01', end: 'D:2024-05-02', completed: false } },
+    };
+    const edits: any[] = [];
+    sync.collectRemoteMerges([task], new Map([[task.id, ev]]), {}, mapperFor(allDay('2024-05-01', '2024-05-02')), settings, edits);
+    // タイトルは両側変更 → Obsidian 優先、完了は Google 側のみ変更 → 取り込み
+    const out = TaskWriter.applyEditsToContent(task.rawText, edits).content;
+    expect(out).toMatch(/^- \[x\] 新しい名前 🛫 2024-05-01 📅 2024-05-01 #work ✅ \d{4}-\d{2}-\d{2} \^b1$/);
+    expect(sync.forcePatchIds.has(task.id)).toBe(true);
+  });
+
+  test('pulls a remote-only title change and keeps metadata tokens', () => {
+    const task = parse('- [ ] 旧タイトル 🛫 2024-05-01 📅 2024-05-01 #work');
+    const ev: any = {
+      id: 'g1', summary: '新タイトル', ...allDay('2024-05-01', '2024-05-02'),
+      extendedProperties: { private: { localFp: fp('D:2024-05-01', 'D:2024-05-02', '旧タイトル') } },
+    };
+    const edits: any[] = [];
+    sync.collectRemoteMerges([task], new Map([[task.id, ev]]), {}, mapperFor(allDay('2024-05-01', '2024-05-02')), pullAll, edits);
+    expect(TaskWriter.applyEditsToContent(task.rawText, edits).content).toBe('- [ ] 新タイトル 🛫 2024-05-01 📅 2024-05-01 #work');
+    expect(task.summary).toBe('新タイトル');
+  });
+
+  test('defers multi-field conflicts and applies the queued resolution later', () => {
+    const task = parse('- [ ] ローカル名 🛫 2024-05-01 📅 2024-05-01 ^b2');
+    const ev: any = { id: 'g1', summary: 'Google 名', ...allDay('2024-05-07', '2024-05-08'), extendedProperties: { private: {} } };
+    const settings = {
+      ...pullAll,
+      syncBase: { [task.id]: { title: '元の名前', start: 'D:2024-04-01', end: 'D:2024-04-02', completed: false } },
+    };
+    const mapper = mapperFor(allDay('2024-05-01', '2024-05-02'));
+    const edits: any[] = [];
+    sync.collectRemoteMerges([task], new Map([[task.id, ev]]), {}, mapper, settings, edits);
+    expect(edits).toHaveLength(0);
+    expect(sync.heldTaskIds.has(task.id)).toBe(true);
+    expect(sync.deferredConflicts).toHaveLength(1);
+    const queued = { ...sync.deferredConflicts[0] };
+    expect(queued.fields).toEqual(['title', 'time']);
+
+    // 解決前の再同期では保留のまま
+    const again = new SyncLogic(plugin) as any;
+    again.collectRemoteMerges([task], new Map([[task.id, ev]]), {}, mapper, settings, edits, new Map([[task.id, queued]]));
+    expect(again.heldTaskIds.has(task.id)).toBe(true);
+    expect(again.deferredConflicts).toHaveLength(0);
+
+    // タイトルは Obsidian、日時は Google を採用
+    const resolved = { ...queued, resolution: { pick: { title: 'local', time: 'remote' }, resolvedAt: '2024-05-09T00:00:00Z' } };
+    const apply = new SyncLogic(plugin) as any;
+    apply.collectRemoteMerges([task], new Map([[task.id, ev]]), {}, mapper, settings, edits, new Map([[task.id, resolved]]));
+    expect(apply.consumedConflicts.has(task.id)).toBe(true);
+    expect(TaskWriter.applyEditsToContent(task.rawText, edits).content).toBe('- [ ] ローカル名 🛫 2024-05-07 📅 2024-05-07 ^b2');
+    expect(apply.forcePatchIds.has(task.id)).toBe(true);
+  });
+
+  test('held tasks are neither patched nor deleted', () => {
+    const task = parse('- [ ] A 🛫 2024-05-01 📅 2024-05-01');
+    sync.heldTaskIds.add(task.id);
+    const ev = { id: 'g1', summary: 'B' };
+    const batch: any[] = [];
+    const res = sync.prepareBatchRequests([task], new Map([[task.id, ev]]), { [task.id]: 'g1' }, batch, mapperFor({}), { calendarId: 'primary' });
+    expect(batch).toHaveLength(0);
+    expect(res.survivors.size).toBe(0);
+    expect(res.matchedGIds.has('g1')).toBe(true);
+  });
+});
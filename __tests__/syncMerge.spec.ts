@@ -0,0 +1,45 @@
+import { describe, test, expect } from 'vitest';
+import { SyncMerger, DEFAULT_MERGE_POLICIES } from '../src/syncMerge';
+
+const snap = (over: Partial<{ title: string; start: string; end: string; completed: boolean }> = {}) => ({
+  title: 'A', start: 'D:2024-05-01', end: 'D:2024-05-02', completed: false, ...over,
+});
+const pullAll = { title: true, time: true, completion: true };
+
+describe('SyncMerger.mergeField', () => {
+  test('takes the side that changed from the base', () => {
+    expect(SyncMerger.mergeField('a', 'b', 'a', 'google').value).toBe('b');
+    expect(SyncMerger.mergeField('a', 'a', 'c', 'obsidian').value).toBe('c');
+  });
+
+  test('applies the policy when both sides changed', () => {
+    expect(SyncMerger.mergeField('a', 'b', 'c', 'google')).toMatchObject({ value: 'c', conflict: true, winner: 'remote' });
+    expect(SyncMerger.mergeField('a', 'b', 'c', 'obsidian')).toMatchObject({ value: 'b', conflict: true, winner: 'local' });
+  });
+
+  test('uses or/and for booleans when the base is unknown', () => {
+    expect(SyncMerger.mergeField(undefined, false, true, 'or').value).toBe(true);
+    expect(SyncMerger.mergeField(undefined, true, false, 'and').value).toBe(false);
+  });
+});
+
+describe('SyncMerger.merge', () => {
+  test('keeps Obsidian for fields that are not pullable', () => {
+    const { merged, fields } = SyncMerger.merge(snap(), snap(), snap({ title: 'B', start: 'D:2024-05-03', end: 'D:2024-05-04' }),
+      DEFAULT_MERGE_POLICIES, { ...pullAll, title: false });
+    expect(merged).toEqual(snap({ start: 'D:2024-05-03', end: 'D:2024-05-04' }));
+    expect(fields.title.winner).toBe('local');
+    expect(fields.time.winner).toBe('remote');
+  });
+
+  test('recovers the base from the last pushed fingerprint', () => {
+    const ev = {
+      updated: '2024-05-01T00:00:00Z',
+      extendedProperties: { private: { localFp: 'S|会議 A|A|T:2024-05-01T10:00:00.000Z|B|T:2024-05-01T11:00:00.000Z|R||Z|C', isCompleted: 'false' } },
+    };
+    expect(SyncMerger.baseFromEvent(ev as any, '2024-05-02T00:00:00Z')).toEqual({
+      title: '会議 A', start: 'T:2024-05-01T10:00', end: 'T:2024-05-01T11:00', completed: false,
+    });
+    expect(SyncMerger.baseFromEvent(ev as any, '2024-04-30T00:00:00Z').completed).toBeUndefined();
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { SyncPlanner } from '../src/syncPlan';
+
+const task = (id: string, summary: string) => ({ id, summary, sourcePath: 'todo.md', sourceLine: 4 } as any);
+const path = '/calendar/v3/calendars/primary/events';
+
+describe('SyncPlanner', () => {
+  const existing = {
+    id: 'g1', summary: 'B',
+    start: { dateTime: '2024-05-01T10:00:00' }, end: { dateTime: '2024-05-01T11:00:00' },
+  };
+  const requests: any[] = [
+    { method: 'POST', path, operationType: 'insert', obsidianTaskId: 'obsidian-a', body: { summary: 'A', start: { date: '2024-05-01' }, end: { date: '2024-05-03' } } },
+    { method: 'PATCH', path: `${path}/g1`, operationType: 'patch', obsidianTaskId: 'obsidian-b', originalGcalId: 'g1', body: { start: { dateTime: '2024-05-02T10:00:00' } } },
+    { method: 'DELETE', path: `${path}/g2`, operationType: 'delete', obsidianTaskId: 'obsidian-c', originalGcalId: 'g2' },
+    { method: 'POST', path, operationType: 'insert', obsidianTaskId: 'obsidian-c', body: { summary: 'C', start: { date: '2024-05-05' }, end: { date: '2024-05-06' } } },
+  ];
+  const tasks = [task('obsidian-a', 'A'), task('obsidian-b', 'B'), task('obsidian-c', 'C')];
+  const events = new Map<string, any>([['g1', existing], ['g2', { id: 'g2', summary: 'C', start: { date: '2024-05-04' }, end: { date: '2024-05-05' } }]]);
+
+  it('groups requests per task with before/after times', () => {
+    const plan = SyncPlanner.build(requests, tasks, events);
+    expect(plan.map(p => p.key)).toEqual(['obsidian-a', 'obsidian-b', 'obsidian-c']);
+    expect(plan[0].operations).toEqual([{ type: 'insert', gcalId: undefined, before: undefined, after: '2024-05-01 → 2024-05-02' }]);
+    // PATCH の差分に無い終了時刻は既存イベントの値で補う
+    expect(plan[1].operations[0].before).toBe('2024-05-01 10:00 → 2024-05-01 11:00');
+    expect(plan[1].operations[0].after).toBe('2024-05-02 10:00 → 2024-05-01 11:00');
+    expect(plan[2].operations.map(o => o.type)).toEqual(['delete', 'insert']);
+    expect(plan[2].operations[0].before).toBe('2024-05-04');
+    expect(plan[2].sourcePath).toBe('todo.md');
+  });
+
+  it('keeps only the requests of approved items, in order', () => {
+    const plan = SyncPlanner.build(requests, tasks, events);
+    const kept = SyncPlanner.filterRequests(requests, plan, new Set(['obsidian-c', 'obsidian-a']));
+    expect(kept).toEqual([requests[0], requests[2], requests[3]]);
+  });
+
+  it('falls back to the event summary for deletions without a task', () => {
+    const plan = SyncPlanner.build(
+      [{ method: 'DELETE', path: `${path}/g1`, operationType: 'delete', obsidianTaskId: 'force-delete', originalGcalId: 'g1' }],
+      [], events,
+    );
+    expect(plan[0].key).toBe('gcal:g1');
+    expect(plan[0].summary).toBe('B');
+  });
+});
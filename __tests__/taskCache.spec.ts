@@ -0,0 +1,76 @@
+import { describe, it, expect, vi } from 'vitest';
+import { TFile } from 'obsidian';
+import { TaskParser } from '../src/taskParser';
+import { TaskCache } from '../src/taskCache';
+
+const setup = () => {
+  const contents = new Map<string, string>([
+    ['a.md', '- [ ] A 🛫 2024-05-01 📅 2024-05-01'],
+    ['b.md', '- [ ] B 🛫 2024-05-02 📅 2024-05-02 #work'],
+    ['notes.md', '# メモだけ'],
+  ]);
+  const files = new Map(Array.from(contents.keys()).map(p => [p, new TFile(p, 1)]));
+  const stored = new Map<string, string>();
+  const read = vi.fn(async (f: TFile) => contents.get(f.path)!);
+  const app: any = {
+    vault: {
+      getMarkdownFiles: () => Array.from(files.values()),
+      read,
+      adapter: {
+        exists: async (p: string) => stored.has(p),
+        read: async (p: string) => stored.get(p)!,
+        write: async (p: string, data: string) => { stored.set(p, data); },
+      },
+    },
+    metadataCache: {
+      getFileCache: (f: TFile) => (f.path === 'notes.md' ? { listItems: [] } : null),
+    },
+  };
+  const edit = (path: string, text: string) => {
+    contents.set(path, text);
+    files.get(path)!.stat.mtime++;
+  };
+  return { app, read, edit };
+};
+
+describe('TaskParser with TaskCache', () => {
+  it('re-reads only files whose mtime changed', async () => {
+    const { app, read, edit } = setup();
+    const parser = new TaskParser(app, new TaskCache(app, 'plugin'));
+    expect((await parser.getObsidianTasks()).map(t => t.summary)).toEqual(['A', 'B']);
+    // メタデータでタスク無しと分かるファイルは読まない
+    expect(read.mock.calls.map(c => c[0].path)).toEqual(['a.md', 'b.md']);
+
+    read.mockClear();
+    edit('b.md', '- [x] B 🛫 2024-05-02 📅 2024-05-02');
+    const tasks = await parser.getObsidianTasks();
+    expect(read.mock.calls.map(c => c[0].path)).toEqual(['b.md']);
+    expect(tasks.find(t => t.summary === 'B')!.isCompleted).toBe(true);
+  });
+
+  it('persists across instances and drops invalidated entries', async () => {
+    const { app, read } = setup();
+    await new TaskParser(app, new TaskCache(app, 'plugin')).getObsidianTasks();
+    read.mockClear();
+
+    const cache = new TaskCache(app, 'plugin');
+    const parser = new TaskParser(app, cache);
+    await parser.getObsidianTasks();
+    expect(read).not.toHaveBeenCalled();
+
+    cache.invalidate('a.md');
+    await parser.getObsidianTasks();
+    expect(read.mock.calls.map(c => c[0].path)).toEqual(['a.md']);
+  });
+
+  it('hands out copies so in-memory merges do not leak into the cache', async () => {
+    const { app } = setup();
+    const parser = new TaskParser(app, new TaskCache(app, 'plugin'));
+    const first = await parser.getObsidianTasks();
+    first[1].summary = 'changed';
+    first[1].tags.push('x');
+    const second = await parser.getObsidianTasks();
+    expect(second[1].summary).toBe('B');
+    expect(second[1].tags).toEqual(['work']);
+  });
+});
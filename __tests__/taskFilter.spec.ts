@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { TaskParser } from '../src/taskParser';
+import { TaskFilter } from '../src/taskFilter';
+import { SyncLogic } from '../src/syncLogic';
+
+const parser = new TaskParser({} as any);
+const parse = (line: string, path = 'Notes/a.md') => parser.parseObsidianTask(line, path, 0)!;
+
+// フロントマターと Tasks プラグインの data.json だけを持つ app
+const makeApp = (frontmatter: Record<string, any> = {}, tasksData?: any) => ({
+  metadataCache: { getCache: (p: string) => (frontmatter[p] ? { frontmatter: frontmatter[p] } : null) },
+  vault: {
+    configDir: '.obsidian',
+    adapter: {
+      exists: async (p: string) => p === '.obsidian/plugins/obsidian-tasks-plugin/data.json' && tasksData !== undefined,
+      read: async () => JSON.stringify(tasksData),
+    },
+  },
+}) as any;
+
+describe('TaskFilter', () => {
+  it('applies exclude rules before include rules', () => {
+    const filter = new TaskFilter(makeApp(), { syncIncludeRules: ['#task', 'Projects/**'], syncExcludeRules: ['templates/', '#nocal'] } as any);
+    const verdict = (line: string, path?: string) => filter.explain(parse(line, path));
+    expect(verdict('- [ ] A #task 📅 2026-10-20')).toEqual({ included: true, reason: '対象ルール "#task" に一致' });
+    expect(verdict('- [ ] A 📅 2026-10-20', 'Projects/x.md').included).toBe(true);
+    expect(verdict('- [ ] A #task #nocal 📅 2026-10-20').reason).toBe('除外ルール "#nocal" に一致');
+    expect(verdict('- [ ] A #task 📅 2026-10-20', 'Templates/daily.md').included).toBe(false);
+    expect(verdict('- [ ] A 📅 2026-10-20').included).toBe(false);
+  });
+
+  it('skips notes with gcal: false and lines without the Tasks global filter', async () => {
+    const app = makeApp({ 'Private/b.md': { gcal: false }, 'Private/c.md': { gcal: 'no' } }, { globalFilter: '#task' });
+    const filter = await TaskFilter.create(app, {} as any);
+    const tasks = [
+      parse('- [ ] A #task 📅 2026-10-20'),
+      parse('- [ ] B 📅 2026-10-20'),
+      parse('- [ ] C #task 📅 2026-10-20', 'Private/b.md'),
+      parse('- [ ] D #task 📅 2026-10-20', 'Private/c.md'),
+    ];
+    expect(filter.apply(tasks).map(t => t.summary)).toEqual(['A']);
+    expect(filter.explain(tasks[1]).reason).toBe('Tasks プラグインのグローバルフィルタ "#task" を含まない');
+
+    const ignoring = await TaskFilter.create(app, { useTasksGlobalFilter: false } as any);
+    expect(ignoring.apply(tasks).map(t => t.summary)).toEqual(['A', 'B']);
+  });
+});
+
+describe('SyncLogic.explainTask', () => {
+  const explain = (content: string, line: number, settings: any = {}) => {
+    const sync = new SyncLogic({ app: makeApp(), settings: {}, taskParser: parser } as any);
+    return sync.explainTask(content, 'Notes/a.md', line, { calendarId: 'primary', taskMap: {}, ...settings });
+  };
+
+  it('says why a line is or is not synced', async () => {
+    const content = ['# メモ', '- [ ] 会議 📅 2026-10-20', '- [ ] 日付なし', '- [>] 延期 📅 2026-10-20', '```', '- [ ] 例 📅 2026-10-20', '```'].join('\n');
+    const synced = await explain(content, 1);
+    expect(synced.synced).toBe(true);
+    expect(synced.reasons[synced.reasons.length - 1]).toBe('カレンダー primary に次の同期で作成する');
+
+    expect((await explain(content, 2)).reasons.pop()).toBe('開始日（🛫）と期限日（📅）が無い');
+    expect((await explain(content, 3)).reasons.pop()).toBe('状態が延期（">"）: 既存のイベントは残す');
+    expect((await explain(content, 5)).synced).toBe(false);
+    expect((await explain(content, 1, { syncExcludeRules: ['Notes/'] })).reasons.pop()).toBe('対象外: 除外ルール "Notes/" に一致');
+  });
+});
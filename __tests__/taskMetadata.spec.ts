@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { TaskParser } from '../src/taskParser';
+import { TaskMetadata } from '../src/taskMetadata';
+import { TaskWriter } from '../src/taskWriter';
+import { TaskRecurrence } from '../src/taskRecurrence';
+
+const parser = new TaskParser({} as any);
+const parse = (line: string) => parser.parseObsidianTask(line, 'a.md', 0)!;
+const fields = (line: string) => {
+  const t = parse(line);
+  return {
+    summary: t.summary, startDate: t.startDate, dueDate: t.dueDate, scheduledDate: t.scheduledDate,
+    createdDate: t.createdDate, completionDate: t.completionDate, priority: t.priority, recurrenceRule: t.recurrenceRule,
+  };
+};
+
+describe('TaskMetadata syntaxes', () => {
+  it('parse emoji, key: and Dataview inline fields into the same task fields', () => {
+    const emoji = fields('- [x] 報告書 🛫 2026-10-18 📅 2026-10-20 ⏳ 2026-10-19 ➕ 2026-10-01 ✅ 2026-10-20 ⏫ 🔁 every week');
+    const prefix = fields('- [x] 報告書 start: 2026-10-18 due: 2026-10-20 scheduled: 2026-10-19 created: 2026-10-01 done: 2026-10-20 priority: high repeat: every week');
+    const dataview = fields('- [x] 報告書 [start:: 2026-10-18] [due:: 2026-10-20] [scheduled:: 2026-10-19] [created:: 2026-10-01] [completion:: 2026-10-20] [priority:: high] [repeat:: every week]');
+    expect(emoji).toMatchObject({ summary: '報告書', dueDate: '2026-10-20', priority: 'high', completionDate: '2026-10-20' });
+    expect(emoji.recurrenceRule).toMatch(/FREQ=WEEKLY/);
+    expect(prefix).toEqual(emoji);
+    expect(dataview).toEqual(emoji);
+  });
+
+  it('takes the last occurrence across syntaxes and keeps other inline fields out of the summary', () => {
+    expect(fields('- [ ] A 📅 2026-10-20 [due:: 2026-10-22]').dueDate).toBe('2026-10-22');
+    expect(fields('- [ ] A [project:: 社内] [due:: 2026-10-22]')).toMatchObject({ summary: 'A', dueDate: '2026-10-22' });
+    expect(fields('- [ ] A [repeat:: 毎月第3水曜] 📅 2026-10-21').recurrenceRule).toMatch(/BYDAY=\+3WE/);
+  });
+
+  it('formats new tokens in the syntax the line mostly uses', () => {
+    expect(TaskMetadata.format('- [ ] A 📅 2026-10-20', 'start', '2026-10-18')).toBe('🛫 2026-10-18');
+    expect(TaskMetadata.format('- [ ] A [due:: 2026-10-20]', 'start', '2026-10-18')).toBe('[start:: 2026-10-18]');
+    expect(TaskMetadata.format('- [ ] A due: 2026-10-20', 'done', '2026-10-20')).toBe('done: 2026-10-20');
+  });
+
+  it('accepts additional syntaxes', () => {
+    TaskMetadata.register({
+      name: 'org',
+      pattern: (field, value) => field === 'due' ? `(DEADLINE:\\s*<)(${value})(>)` : null,
+      format: (field, value) => `DEADLINE: <${value}>`,
+    });
+    expect(fields('- [ ] A DEADLINE: <2026-10-20>')).toMatchObject({ summary: 'A', dueDate: '2026-10-20' });
+    expect(TaskWriter.setDateToken(['- [ ] A DEADLINE: <2026-10-20>'], 'due', '2026-10-27')).toEqual(['- [ ] A DEADLINE: <2026-10-27>']);
+  });
+});
+
+describe('TaskWriter keeps the line syntax', () => {
+  it('moves Dataview dates in place and adds missing ones as inline fields', () => {
+    const out = TaskWriter.setDateToken(['- [ ] A [due:: 2026-10-20] ^x'], 'due', '2026-10-27');
+    expect(out).toEqual(['- [ ] A [due:: 2026-10-27] ^x']);
+    expect(TaskWriter.setDateToken(out, 'start', '2026-10-26')).toEqual(['- [ ] A [due:: 2026-10-27] [start:: 2026-10-26] ^x']);
+  });
+
+  it('completes and reopens with the completion field of the same syntax', () => {
+    const done = TaskWriter.markCompleted('- [ ] A [due:: 2026-10-20]', '2026-10-21');
+    expect(done).toBe('- [x] A [due:: 2026-10-20] [completion:: 2026-10-21]');
+    expect(TaskWriter.markCompleted('- [x] A due: 2026-10-20 done: 2026-10-20', '2026-10-21')).toBe('- [x] A due: 2026-10-20 done: 2026-10-21');
+    expect(TaskWriter.markIncomplete(done)).toBe('- [ ] A [due:: 2026-10-20]');
+  });
+
+  it('rolls a Dataview recurring task over without switching to emoji', () => {
+    const line = '- [x] 週報 [repeat:: every week for 3 times] [due:: 2026-10-16] [completion:: 2026-10-16]';
+    const block = TaskRecurrence.nextInstanceBlock([line], TaskRecurrence.nextOccurrence(parse(line), '2026-10-16')!);
+    expect(block).toEqual(['- [ ] 週報 [repeat:: every week for 2 times] [due:: 2026-10-23]']);
+  });
+});
@@ -1,6 +1,6 @@
 // __tests__/taskParser.spec.ts
 import { describe, test, expect } from 'vitest';
-import { parseTasksFromMarkdown } from '../src/taskParser';
+import { TaskParser, parseTasksFromMarkdown } from '../src/taskParser';
 
 type Task = any;
 
@@ -118,4 +118,23 @@ describe('TaskParser: 正しく解釈できること', () => {
     expect(t15.timeWindowStart).toBe('15:00');
     expect(t15.timeWindowEnd).toBe('24:00');
   });
+
+  test('カスタム状態のサブタスクを親の継続行として結合しない', () => {
+    const nested = [
+      '- [ ] 親 🛫 2025-08-31 📅 2025-08-31',
+      '\t- [/] 子 📅 2025-09-01',
+      '\t  ⏰ 10:00~11:00',
+      '\t- [-] 中止した子 📅 2025-09-02',
+    ].join('\n');
+    for (const tasks of [parseTasksFromMarkdown(nested) as Task[], new TaskParser({} as any).parseFileContent(nested, 'a.md') as Task[]]) {
+      const parent = bySummary(tasks, '親');
+      expect(parent.rawText).toBe('- [ ] 親 🛫 2025-08-31 📅 2025-08-31');
+      expect(parent.dueDate).toBe('2025-08-31');
+      expect(parent.timeWindowStart).toBeNull();
+      const child = bySummary(tasks, '子');
+      expect(child.statusType).toBe('in_progress');
+      expect(child.timeWindowStart).toBe('10:00');
+      expect(bySummary(tasks, '中止した子').isCancelled).toBe(true);
+    }
+  });
 });
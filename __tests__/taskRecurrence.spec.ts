@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import { TaskParser } from '../src/taskParser';
+import { TaskRecurrence } from '../src/taskRecurrence';
+import { TaskWriter } from '../src/taskWriter';
+import { SyncLogic } from '../src/syncLogic';
+import { GCalMapper } from '../src/gcalMapper';
+
+const parser = new TaskParser({} as any);
+const parse = (line: string) => parser.parseObsidianTask(line, 'a.md', 0)!;
+const next = (line: string, doneDate: string) => TaskRecurrence.nextOccurrence(parse(line), doneDate);
+
+describe('TaskRecurrence.nextOccurrence', () => {
+  it('moves the dates to the first occurrence after the due date', () => {
+    expect(next('- [x] 週報 🔁 every week on friday 📅 2024-05-03 ✅ 2024-05-06', '2024-05-06'))
+      .toEqual({ startDate: '2024-05-10', dueDate: '2024-05-10', scheduledDate: null, remaining: null });
+    // 期間のあるタスクは期間ごとずらし、時刻はそのまま
+    expect(next('- [x] 点検 🔁 every month on the 1st ⏳ 2024-04-28 🛫 2024-05-01 09:00 📅 2024-05-02', '2024-05-02'))
+      .toEqual({ startDate: '2024-06-01 09:00', dueDate: '2024-06-02', scheduledDate: '2024-05-29', remaining: null });
+  });
+
+  it('counts from the completion date for "when done"', () => {
+    const task = parse('- [x] 散髪 🔁 every 2 weeks when done 📅 2024-05-03');
+    expect(task.recurrenceWhenDone).toBe(true);
+    expect(task.recurrenceRule).toMatch(/FREQ=WEEKLY;INTERVAL=2/);
+    expect(TaskRecurrence.nextOccurrence(task, '2024-05-09')).toMatchObject({ startDate: '2024-05-23', dueDate: '2024-05-23' });
+  });
+
+  it('stops when the count or the end date is used up', () => {
+    expect(next('- [x] 通院 🔁 every week for 3 times 📅 2024-05-03', '2024-05-03')).toMatchObject({ dueDate: '2024-05-10', remaining: 2 });
+    expect(next('- [x] 通院 🔁 every week for 1 times 📅 2024-05-03', '2024-05-03')).toBeNull();
+    expect(next('- [x] 通院 🔁 every week until 2024-05-09 📅 2024-05-03', '2024-05-03')).toBeNull();
+    expect(next('- [x] 通院 🔁 every week until 2024-05-10 📅 2024-05-03', '2024-05-03')).toMatchObject({ dueDate: '2024-05-10' });
+  });
+});
+
+describe('TaskRecurrence.nextInstanceBlock', () => {
+  it('reopens the line with the new dates and the remaining count, without the block link', () => {
+    const line = '- [x] 通院 🔁 every week for 3 times 📅 2024-05-03 ✅ 2024-05-03 ^visit';
+    const block = TaskRecurrence.nextInstanceBlock([line, '    受付は 9 時'], next(line, '2024-05-03')!);
+    expect(block).toEqual(['- [ ] 通院 🔁 every week for 2 times 📅 2024-05-10', '    受付は 9 時']);
+  });
+});
+
+describe('TaskRecurrence.nextTask', () => {
+  const map = (task: any) => new GCalMapper({} as any, { defaultEventDurationMinutes: 60 } as any).mapObsidianTaskToGoogleEvent(task);
+
+  it('sends the same event as a fresh parse of the line it writes', () => {
+    for (const line of [
+      '- [x] 掃除 🔁 every week for 4 times 🛫 2026-11-03 📅 2026-11-03 ✅ 2026-11-03',
+      '- [x] 朝会 🔁 every day 09:00~09:30 🛫 2026-11-02 📅 2026-11-06 ✅ 2026-11-06',
+      '- [x] 点検 🔁 every month on the 1st until 2027-06-30 🛫 2026-11-01 📅 2026-11-02 ✅ 2026-11-02',
+    ]) {
+      const task = parse(line);
+      const instance = TaskRecurrence.nextTask(task, TaskRecurrence.nextOccurrence(task, task.completionDate!)!, parser);
+      instance.id = parser.buildTaskId('a.md', instance);
+      const fresh = parse(instance.rawText);
+      expect(instance.recurrenceRule).toBe(fresh.recurrenceRule);
+      expect(map(instance)).toEqual(map(fresh));
+    }
+  });
+});
+
+describe('SyncLogic recurrence rollover', () => {
+  const makeSync = () => new SyncLogic({ app: {} as any, settings: {}, taskParser: parser } as any) as any;
+  const event = (isCompleted: string, updated: string) => ({ id: 'g1', updated, extendedProperties: { private: { isCompleted } } });
+  const settings = { syncCompletionFromGoogle: true, lastSyncTime: '2024-05-04T00:00:00Z' };
+
+  it('adds the next instance above a task completed locally and syncs it as a new task', () => {
+    const task = parse('- [x] 週報 🔁 every week 📅 2024-05-03 ✅ 2024-05-03');
+    const tasks = [task];
+    const edits: any[] = [];
+    makeSync().collectRecurrenceRollovers(tasks, new Map([[task.id, event('false', '2024-05-01T00:00:00Z')]]), settings, edits);
+
+    expect(tasks.map(t => [t.dueDate, t.isCompleted])).toEqual([['2024-05-03', true], ['2024-05-10', false]]);
+    expect(tasks[1].id).toBe(parse('- [ ] 週報 🔁 every week 📅 2024-05-10').id);
+    expect(TaskWriter.applyEditsToContent(`# メモ\n${task.rawText}`, edits.map(e => ({ ...e, task: { ...task, sourceLine: 1 } }))).content)
+      .toBe('# メモ\n- [ ] 週報 🔁 every week 📅 2024-05-10\n- [x] 週報 🔁 every week 📅 2024-05-03 ✅ 2024-05-03');
+  });
+
+  it('completes the line for a completion made on Google and skips instances that already exist', () => {
+    const task = parse('- [ ] 週報 🔁 every week 📅 2024-05-03');
+    const existing = parse('- [ ] 週報 🔁 every week 📅 2024-05-10');
+    const tasks = [task, existing];
+    const edits: any[] = [];
+    makeSync().collectRecurrenceRollovers(tasks, new Map([[task.id, event('true', '2024-05-05T00:00:00Z')]]), settings, edits);
+
+    expect(tasks).toHaveLength(2);
+    expect(task.isCompleted).toBe(true);
+    expect(TaskWriter.applyEditsToContent(task.rawText, edits).content).toBe('- [x] 週報 🔁 every week 📅 2024-05-03 ✅ 2024-05-05');
+
+    // 完了印が前回の同期より古ければ、ローカルで未完了に戻したものとして扱う
+    const reopened = parse('- [ ] 週報 🔁 every week 📅 2024-05-03');
+    const none: any[] = [];
+    makeSync().collectRecurrenceRollovers([reopened], new Map([[reopened.id, event('true', '2024-05-03T00:00:00Z')]]), settings, none);
+    expect(none).toHaveLength(0);
+  });
+});
+
+describe('skip: dates', () => {
+  const mapper = (settings: any = {}) => new GCalMapper({} as any, { defaultEventDurationMinutes: 60, ...settings } as any);
+
+  it('are parsed apart from the recurrence text and sent as EXDATE of the same value type', () => {
+    const timed = parse('- [ ] 朝会 🔁 every week on tuesday for 4 times skip: 2026-11-10, 2026-11-03 09:00~09:30 🛫 2026-11-03 📅 2026-11-24');
+    expect(timed.skipDates).toEqual(['2026-11-03', '2026-11-10']);
+    expect(timed.summary).toBe('朝会');
+    expect(timed.id).toBe(parse('- [ ] 朝会 🔁 every week on tuesday for 4 times 09:00~09:30 🛫 2026-11-03 📅 2026-11-24').id);
+
+    const native = mapper({ nativeRecurrence: true }).mapObsidianTaskToGoogleEvent(timed);
+    expect(native.recurrence![1]).toBe(`EXDATE;TZID=${native.start!.timeZone}:20261103T090000,20261110T090000`);
+    const allDay = mapper({ nativeRecurrence: true }).mapObsidianTaskToGoogleEvent(parse('- [ ] 掃除 🔁 every week for 4 times 🛫 2026-11-03 📅 2026-11-24 skip: 2026-11-10'));
+    expect(allDay.recurrence![1]).toBe('EXDATE;VALUE=DATE:20261110');
+  });
+
+  it('drop the expanded occurrences on those days', () => {
+    const task = parse('- [ ] 朝会 🔁 every day 09:00~09:30 🛫 2026-11-02 📅 2026-11-06 skip: 2026-11-03, 2026-11-05');
+    const sync = new SyncLogic({ app: {} as any, settings: { defaultEventDurationMinutes: 60 } } as any) as any;
+    const bodies = sync.expandEventForInsertion(mapper().mapObsidianTaskToGoogleEvent(task), task);
+    expect(bodies.map((b: any) => b.start.dateTime)).toEqual(['2026-11-02T09:00:00', '2026-11-04T09:00:00', '2026-11-06T09:00:00']);
+  });
+
+  it('pick up occurrences deleted on Google since the last sync', () => {
+    const task = parse('- [ ] 掃除 🔁 every week for 4 times 🛫 2026-11-03 📅 2026-11-24 skip: 2026-11-10');
+    const sync = new SyncLogic({ app: {} as any, settings: {}, taskParser: parser } as any) as any;
+    const cancelled = (id: string, originalStartTime: any, updated: string) => ({ id, recurringEventId: 'm1', status: 'cancelled', originalStartTime, updated });
+    sync.collectRecurrenceExceptions([
+      cancelled('m1_20261117', { date: '2026-11-17' }, '2026-11-05T00:00:00Z'),
+      cancelled('m1_20261124', { dateTime: '2026-11-24T00:00:00+09:00' }, '2026-11-05T00:00:00Z'),
+      cancelled('m1_20261103', { date: '2026-11-03' }, '2026-10-01T00:00:00Z'), // 前回より前: skip: から外したもの
+    ], { [task.id]: 'm1' });
+
+    const edits: any[] = [];
+    sync.collectRemoteSkips([task], { [task.id]: 'm1' }, { lastSyncTime: '2026-11-01T00:00:00Z' }, edits);
+    expect(task.skipDates).toEqual(['2026-11-10', '2026-11-17', '2026-11-24']);
+    expect(TaskWriter.applyEditsToContent(task.rawText, edits).content)
+      .toBe('- [ ] 掃除 🔁 every week for 4 times 🛫 2026-11-03 📅 2026-11-24 skip: 2026-11-10, 2026-11-17, 2026-11-24');
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { TaskParser } from '../src/taskParser';
+import { TaskStatuses } from '../src/taskStatus';
+import { GCalMapper } from '../src/gcalMapper';
+import { SyncLogic } from '../src/syncLogic';
+import { EventImporter } from '../src/eventImporter';
+
+const parser = new TaskParser({} as any);
+const parse = (line: string) => parser.parseObsidianTask(line, 'a.md', 0)!;
+const mapper = (settings: any = {}) => new GCalMapper({} as any, { defaultEventDurationMinutes: 60, ...settings } as any);
+
+describe('TaskStatuses', () => {
+  it('reads the checkbox with the default statuses and treats unknown symbols as todo', () => {
+    expect(['x', 'X', '/', '-', '>', '?', ' '].map(c => {
+      const t = parse(`- [${c}] A 📅 2026-10-20`);
+      return [t.status, t.statusType, t.isCompleted, t.isCancelled];
+    })).toEqual([
+      ['x', 'done', true, false], ['X', 'done', true, false], ['/', 'in_progress', false, false],
+      ['-', 'cancelled', false, true], ['>', 'deferred', false, false], ['?', 'todo', false, false], [' ', 'todo', false, false],
+    ]);
+  });
+
+  it('re-reads the flags with custom statuses that override the defaults by symbol', () => {
+    const tasks = [parse('- [d] A 📅 2026-10-20'), parse('- [>] B 📅 2026-10-20'), parse('- [x] C 📅 2026-10-20')];
+    TaskStatuses.apply(tasks, [
+      { symbol: 'd', name: '委任', type: 'done' },
+      { symbol: '>', name: '転送', type: 'cancelled' },
+      { symbol: 'long', name: '無効', type: 'todo' },
+    ]);
+    expect(tasks.map(t => [t.statusType, t.isCompleted, t.isCancelled])).toEqual([['done', true, false], ['cancelled', false, true], ['done', true, false]]);
+  });
+
+  it('strips only a known prefix from a title', () => {
+    expect(TaskStatuses.stripPrefix('🚧 資料作成')).toBe('資料作成');
+    expect(TaskStatuses.stripPrefix('資料 🚧')).toBe('資料 🚧');
+  });
+});
+
+describe('GCalMapper with statuses', () => {
+  it('prefixes and colours in-progress events and keeps the status in private properties', () => {
+    const ev = mapper({ taskStatuses: [{ symbol: '/', name: '進行中', type: 'in_progress', summaryPrefix: '▶ ', colorId: '5' }] })
+      .mapObsidianTaskToGoogleEvent(parse('- [/] 資料作成 📅 2026-10-20'));
+    expect(ev.summary).toBe('▶ 資料作成');
+    expect(ev.colorId).toBe('5');
+    expect(ev.extendedProperties!.private).toMatchObject({ taskStatus: 'in_progress', taskStatusSymbol: '/', isCompleted: 'false' });
+  });
+
+  it('drops the prefix once the task is completed during the sync', () => {
+    const task = parse('- [/] 資料作成 📅 2026-10-20');
+    task.isCompleted = true; // Google 側の完了を取り込んだ
+    const ev = mapper().mapObsidianTaskToGoogleEvent(task);
+    expect(ev.summary).toBe('資料作成');
+    expect(ev.extendedProperties!.private).toMatchObject({ taskStatus: 'done', taskStatusSymbol: 'x' });
+  });
+});
+
+describe('SyncLogic with statuses', () => {
+  const settings = (extra: any = {}) => ({ calendarId: 'primary', defaultEventDurationMinutes: 60, ...extra });
+  const existing = (line: string, extra: any = {}) => ({ id: 'g1', ...mapper().mapObsidianTaskToGoogleEvent(parse(line)), ...extra });
+  const prepare = (task: any, ev: any, s: any) => {
+    const sync = new SyncLogic({ app: {} as any, settings: s } as any) as any;
+    const batch: any[] = [];
+    const r = sync.prepareBatchRequests([task], new Map([[task.id, ev]]), { [task.id]: 'g1' }, batch, mapper(s), s, false, new Map());
+    return { batch, survivors: r.survivors };
+  };
+
+  it('leaves deferred tasks and their events alone', () => {
+    const task = parse('- [>] A 📅 2026-10-20 ^a');
+    const { batch, survivors } = prepare(task, existing('- [ ] A 📅 2026-10-20 ^a'), settings());
+    expect(batch).toHaveLength(0);
+    expect(survivors.size).toBe(0);
+  });
+
+  it('deletes cancelled events by default and marks them when asked', () => {
+    const task = parse('- [-] A 📅 2026-10-20 ^a');
+    expect(prepare(task, existing('- [ ] A 📅 2026-10-20 ^a'), settings()).survivors.size).toBe(1);
+
+    const { batch, survivors } = prepare(task, existing('- [ ] A 📅 2026-10-20 ^a'), settings({ cancelledTaskAction: 'mark' }));
+    expect(survivors.size).toBe(0);
+    expect(batch).toHaveLength(1);
+    expect(batch[0]).toMatchObject({ method: 'PATCH', body: { summary: '❌ A' } });
+    expect(batch[0].body.extendedProperties.private).toMatchObject({ taskStatus: 'cancelled', taskStatusSymbol: '-' });
+  });
+
+  it('updates the colour when only the status changes and clears only its own colour', () => {
+    const statuses = [{ symbol: '/', name: '進行中', type: 'in_progress', colorId: '5' }];
+    const s = settings({ taskStatuses: statuses });
+    const started = prepare(parse('- [/] A 📅 2026-10-20 ^a'), existing('- [ ] A 📅 2026-10-20 ^a'), s).batch;
+    expect(started[0].body).toMatchObject({ colorId: '5' });
+
+    const ev = { id: 'g1', ...mapper(s).mapObsidianTaskToGoogleEvent(parse('- [/] A 📅 2026-10-20 ^a')) };
+    expect(prepare(parse('- [ ] A 📅 2026-10-20 ^a'), ev, s).batch[0].body).toMatchObject({ colorId: null });
+    expect(prepare(parse('- [ ] A 📅 2026-10-20 ^a'), { ...ev, colorId: '9' }, s).batch[0].body.colorId).toBeUndefined();
+    // 状態を持たない既存のイベントは未着手として扱い、更新しない
+    const legacy = existing('- [ ] A 📅 2026-10-20 ^a');
+    delete legacy.extendedProperties!.private!.taskStatus;
+    expect(prepare(parse('- [ ] A 📅 2026-10-20 ^a'), legacy, s).batch).toHaveLength(0);
+  });
+});
+
+describe('EventImporter with statuses', () => {
+  it('restores the checkbox and removes the prefix from a status recorded in private properties', () => {
+    const ev = mapper().mapObsidianTaskToGoogleEvent(parse('- [/] 資料作成 🛫 2026-10-20 📅 2026-10-20'));
+    expect(EventImporter.buildTaskLines(ev, '2026-12-31')![0]).toBe('- [/] 資料作成 🛫 2026-10-20 📅 2026-10-20');
+  });
+});
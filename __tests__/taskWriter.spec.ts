@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { TaskWriter, TaskLineEdit } from '../src/taskWriter';
+
+const mkTask = (rawText: string, sourceLine: number) => ({
+  id: 'obsidian-test', rawText, sourceLine, sourcePath: 'a.md',
+} as any);
+
+const complete = (task: any, date: string): TaskLineEdit => ({
+  task, reason: 'test',
+  apply: (block) => [TaskWriter.markCompleted(block[0], date), ...block.slice(1)],
+});
+
+describe('TaskWriter.markCompleted', () => {
+  it('checks the box and appends a done date', () => {
+    expect(TaskWriter.markCompleted('- [ ] 会議 📅 2024-05-01', '2024-05-02'))
+      .toBe('- [x] 会議 📅 2024-05-01 ✅ 2024-05-02');
+  });
+
+  it('keeps a trailing block link at the end', () => {
+    expect(TaskWriter.markCompleted('  - [ ] 作業 🛫 2024-05-01 ^abc', '2024-05-03'))
+      .toBe('  - [x] 作業 🛫 2024-05-01 ✅ 2024-05-03 ^abc');
+  });
+
+  it('replaces an existing done date', () => {
+    expect(TaskWriter.markCompleted('- [ ] 作業 ✅ 2024-01-01', '2024-05-03'))
+      .toBe('- [x] 作業 ✅ 2024-05-03');
+  });
+});
+
+describe('TaskWriter.applyEditsToContent', () => {
+  it('relocates a moved line by its text and preserves CRLF', () => {
+    const content = ['# h', '', '- [ ] A 📅 2024-05-01', '- [ ] B'].join('\r\n');
+    const task = mkTask('- [ ] A 📅 2024-05-01', 0);
+    const r = TaskWriter.applyEditsToContent(content, [complete(task, '2024-05-02')]);
+    expect(r.applied).toBe(1);
+    expect(r.content).toBe(['# h', '', '- [x] A 📅 2024-05-01 ✅ 2024-05-02', '- [ ] B'].join('\r\n'));
+  });
+
+  it('matches tasks whose rawText includes continuation lines', () => {
+    const content = ['- [ ] A', '  続き 📅 2024-05-01', '- [ ] B'].join('\n');
+    const task = mkTask('- [ ] A 続き 📅 2024-05-01', 0);
+    let seen: string[] = [];
+    const edit: TaskLineEdit = { task, reason: 'test', apply: (block) => { seen = block; return block; } };
+    TaskWriter.applyEditsToContent(content, [edit]);
+    expect(seen).toEqual(['- [ ] A', '  続き 📅 2024-05-01']);
+  });
+
+  it('skips edits whose line no longer exists', () => {
+    const content = '- [ ] B';
+    const r = TaskWriter.applyEditsToContent(content, [complete(mkTask('- [ ] A', 0), '2024-05-02')]);
+    expect(r.applied).toBe(0);
+    expect(r.content).toBe(content);
+  });
+});
+
+describe('TaskWriter date and time window tokens', () => {
+  it('replaces the last date token including its time part', () => {
+    const out = TaskWriter.setDateToken(['- [ ] A 🛫 2024-05-01 10:00 📅 2024-05-02'], 'start', '2024-06-01');
+    expect(out).toEqual(['- [ ] A 🛫 2024-06-01 📅 2024-05-02']);
+  });
+
+  it('adds a missing date token before the block link', () => {
+    const out = TaskWriter.setDateToken(['- [ ] A 📅 2024-05-02 ^x'], 'start', '2024-05-01');
+    expect(out).toEqual(['- [ ] A 📅 2024-05-02 🛫 2024-05-01 ^x']);
+  });
+
+  it('updates a time window on a continuation line and keeps its separator', () => {
+    const out = TaskWriter.setTimeWindow(['- [ ] A 📅 2024-05-02', '  ⏰ 9:00 - 10:00'], '13:00', '24:00');
+    expect(out).toEqual(['- [ ] A 📅 2024-05-02', '  ⏰ 13:00 - 24:00']);
+  });
+
+  it('adds a prefixed window or removes it', () => {
+    expect(TaskWriter.setTimeWindow(['- [ ] A 📅 2024-05-02'], '9:00', '10:00')).toEqual(['- [ ] A 📅 2024-05-02 ⏰ 9:00~10:00']);
+    expect(TaskWriter.setTimeWindow(['- [ ] A 9:00~10:00 📅 2024-05-02'], null, null)).toEqual(['- [ ] A 📅 2024-05-02']);
+  });
+});
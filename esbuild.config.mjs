@@ -11,6 +11,25 @@ if you want to view the source, please visit the github repository of this plugi
 
 const prod = (process.argv[2] === "production");
 
+// CLI（cli.js）: obsidian を Node 用の代替（src/cli/obsidianShim.ts）に差し替えて 1 ファイルにまとめる
+if (process.argv[2] === "cli") {
+	await esbuild.build({
+		banner: {
+			js: "#!/usr/bin/env node\n" + banner,
+		},
+		entryPoints: ["src/cli/index.ts"],
+		bundle: true,
+		platform: "node",
+		alias: { obsidian: "./src/cli/obsidianShim.ts" },
+		external: ["electron", ...builtins],
+		format: "cjs",
+		target: "node20",
+		logLevel: "info",
+		outfile: "cli.js",
+	});
+	process.exit(0);
+}
+
 const context = await esbuild.context({
 	banner: {
 		js: banner,
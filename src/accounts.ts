@@ -0,0 +1,148 @@
+import { Credentials, OAuth2Client } from 'google-auth-library';
+import { calendar_v3 } from 'googleapis';
+import { randomBytes } from 'crypto';
+import GoogleCalendarTasksSyncPlugin from './main';
+import { AccountProfile, GoogleCalendarTasksSyncSettings } from './types';
+
+// アカウントごとに持つ設定。切り替え中はプロファイルの値を plugin.settings へ展開する
+export const ACCOUNT_SCOPED_KEYS = [
+    'tokensEncrypted', 'calendarId', 'calendarRoutes', 'syncScope',
+    'taskMap', 'taskCalendars', 'recurrenceExceptions', 'syncBase', 'lastSyncTime', 'syncToken', 'listFilterSignature', 'googleTaskMap',
+] as const;
+
+type ScopedSettings = Pick<GoogleCalendarTasksSyncSettings, typeof ACCOUNT_SCOPED_KEYS[number]>;
+
+interface ActiveAccount {
+    profile: AccountProfile;
+    stash: ScopedSettings; // メインのアカウントの値
+    tokens: Credentials | null;
+    oauth2Client: OAuth2Client | null;
+    calendar: calendar_v3.Calendar | null;
+}
+
+/**
+ * 追加の Google アカウントのプロファイルを管理します。
+ * メインのアカウントは従来どおり設定の最上位に持ち、追加分は settings.accounts に保存する。
+ * withAccount の間はプロファイルの値・トークン・API クライアントを plugin に展開するため、
+ * 同期や認証のコードはアカウントを意識せずに plugin.settings を読み書きできる。
+ */
+export class AccountManager {
+    private plugin: GoogleCalendarTasksSyncPlugin;
+    private active: ActiveAccount | null = null;
+    private tokens = new Map<string, Credentials | null>(); // 復号済みのトークン（メモリのみ）
+
+    constructor(plugin: GoogleCalendarTasksSyncPlugin) {
+        this.plugin = plugin;
+    }
+
+    profiles(): AccountProfile[] {
+        return this.plugin.settings.accounts ?? [];
+    }
+
+    /** 同期するプロファイル（無効化したもの・未認証のものは除く） */
+    syncTargets(): AccountProfile[] {
+        return this.profiles().filter(p => {
+            if (p.enabled === false) return false;
+            if (!p.tokensEncrypted) {
+                console.warn(`アカウント ${p.name} は未認証のため同期をスキップします。`);
+                return false;
+            }
+            return true;
+        });
+    }
+
+    activeId(): string | null {
+        return this.active?.profile.id ?? null;
+    }
+
+    activeName(): string | null {
+        return this.active?.profile.name ?? null;
+    }
+
+    create(name: string): AccountProfile {
+        const profile: AccountProfile = {
+            id: randomBytes(6).toString('hex'),
+            name,
+            enabled: true,
+            tokensEncrypted: null,
+            calendarId: 'primary',
+            calendarRoutes: [],
+            syncScope: [],
+            taskMap: {},
+        };
+        this.plugin.settings.accounts = [...this.profiles(), profile];
+        return profile;
+    }
+
+    /** プロファイルを削除します（Google 側のイベントはそのまま残る） */
+    remove(id: string): void {
+        if (this.active?.profile.id === id) throw new Error('同期中のアカウントは削除できません。');
+        this.plugin.settings.accounts = this.profiles().filter(p => p.id !== id);
+        this.tokens.delete(id);
+    }
+
+    /** 復号済みのトークン（未認証・復号できない場合は null） */
+    async tokensFor(profile: AccountProfile): Promise<Credentials | null> {
+        if (this.tokens.has(profile.id)) return this.tokens.get(profile.id) ?? null;
+        const tokens = profile.tokensEncrypted ? await this.plugin.decryptTokens(profile.tokensEncrypted) : null;
+        this.tokens.set(profile.id, tokens);
+        return tokens;
+    }
+
+    /** 認証で得たトークンをプロファイルへ保存します */
+    async storeTokens(id: string, tokens: Credentials | null): Promise<void> {
+        const profile = this.profiles().find(p => p.id === id);
+        if (!profile) throw new Error('認証したアカウントのプロファイルが見つかりません。');
+        await this.withAccount(profile, () => this.plugin.persistTokens(tokens));
+    }
+
+    /**
+     * プロファイルを plugin に展開して fn を実行し、終わったら変更をプロファイルへ書き戻してメインに戻します。
+     */
+    async withAccount<T>(profile: AccountProfile, fn: () => Promise<T>): Promise<T> {
+        if (this.active) throw new Error(`アカウント ${this.active.profile.name} に切り替え中です。`);
+        const settings = this.plugin.settings;
+        this.active = {
+            profile,
+            stash: AccountManager.pick(settings),
+            tokens: settings.tokens,
+            oauth2Client: this.plugin.oauth2Client,
+            calendar: this.plugin.calendar,
+        };
+        try {
+            Object.assign(settings, AccountManager.pick(profile));
+            settings.tokens = await this.tokensFor(profile);
+            this.plugin.authService.reconfigureOAuthClient();
+            this.plugin.authService.initializeCalendarApi();
+            return await fn();
+        } finally {
+            const active = this.active;
+            Object.assign(profile, AccountManager.pick(settings));
+            this.tokens.set(profile.id, settings.tokens);
+            Object.assign(settings, active.stash);
+            settings.tokens = active.tokens;
+            this.plugin.oauth2Client = active.oauth2Client;
+            this.plugin.calendar = active.calendar;
+            this.active = null;
+        }
+    }
+
+    /**
+     * 保存用の設定を返します。切り替え中は最上位をメインの値に戻し、展開中の値をプロファイル側に入れる。
+     */
+    toPersisted(data: GoogleCalendarTasksSyncSettings): GoogleCalendarTasksSyncSettings {
+        if (!this.active || data !== this.plugin.settings) return data;
+        const { profile, stash } = this.active;
+        return {
+            ...data,
+            ...stash,
+            accounts: (data.accounts ?? []).map(p => (p.id === profile.id ? { ...p, ...AccountManager.pick(data) } : p)),
+        };
+    }
+
+    private static pick(source: Partial<ScopedSettings>): ScopedSettings {
+        const out: any = {};
+        ACCOUNT_SCOPED_KEYS.forEach(key => { out[key] = source[key]; });
+        return out;
+    }
+}
@@ -8,11 +8,12 @@ import GoogleCalendarTasksSyncPlugin from './main'; // main.ts からインポ
 import { DEFAULT_SETTINGS } from './settings'; // DEFAULT_SETTINGS をインポート
 
 export class AuthService {
-    private static readonly SCOPES = ['https://www.googleapis.com/auth/calendar.events'];
+    private static readonly SCOPES = ['https://www.googleapis.com/auth/calendar.events', 'https://www.googleapis.com/auth/tasks'];
     private plugin: GoogleCalendarTasksSyncPlugin;
     private activeOAuthState: string | null = null;
     private activePkceVerifier: string | null = null;
     private activeOAuthStateIssuedAt: number | null = null;
+    private activeAccountId: string | null = null; // 追加アカウントの認証中ならその ID
     private lastPersistAt = 0;
 
     constructor(plugin: GoogleCalendarTasksSyncPlugin) {
@@ -109,6 +110,10 @@ export class AuthService {
      * OAuth クライアントがあれば常に作成し、自動リフレッシュに委ねる。
      */
     initializeCalendarApi(): void {
+        if (this.plugin.settings?.calendarBackend === 'sandbox') {
+            this.plugin.calendar = this.plugin.sandboxCalendar.client();
+            return;
+        }
         const client = this.plugin.oauth2Client;
         if (!client) {
             console.warn("Calendar API を初期化できません: OAuth クライアント未設定。");
@@ -127,8 +132,9 @@ export class AuthService {
     /**
      * Google OAuth 認証フローを開始します。
      * ブラウザウィンドウを開き、ユーザーに承認を求めます。
+     * accountId を渡すと、得たトークンをその追加アカウントのプロファイルへ保存します。
      */
-    authenticate(): void {
+    authenticate(accountId?: string): void {
         if (this.activeOAuthState) {
             new Notice('認証処理が進行中です。ブラウザで承認を完了してください。', 6000);
             return;
@@ -170,11 +176,13 @@ export class AuthService {
             this.activePkceVerifier = codeVerifier;
             const codeChallenge = this.pkceChallenge(codeVerifier);
 
+            this.activeAccountId = accountId ?? null;
             const needsRefreshToken = !this.plugin.settings.tokens?.refresh_token;
             const authUrl = this.plugin.oauth2Client.generateAuthUrl({
                 access_type: 'offline',
                 include_granted_scopes: true,
-                prompt: needsRefreshToken ? 'consent' : undefined,
+                // 追加アカウントはブラウザでログイン中のアカウントと別のことが多いので、必ず選ばせる
+                prompt: accountId ? 'select_account consent' : needsRefreshToken ? 'consent' : undefined,
                 scope: AuthService.SCOPES,
                 state: this.activeOAuthState!,
                 redirect_uri: currentRedirectUri,
@@ -194,6 +202,7 @@ export class AuthService {
             new Notice('開いたブラウザウィンドウでこのプラグインを承認してください。', 7000);
         } catch (error) {
             this.activeOAuthState = null; // エラー発生時はstateをクリア
+            this.activeAccountId = null;
             console.error("Google 認証 URL の生成中にエラー:", error);
             new Notice(`認証の開始に失敗しました: ${error instanceof Error ? error.message : '不明なエラー'}。コンソールを参照してください。`, 10000);
         }
@@ -267,6 +276,11 @@ export class AuthService {
             const { tokens } = await tokenExchangeClient.getToken(tokenParams);
             console.log('トークンを正常に受信しました。');
 
+            if (this.activeAccountId) {
+                await this.storeAccountTokens(this.activeAccountId, tokens);
+                return;
+            }
+
             const currentRefreshToken = this.plugin.settings.tokens?.refresh_token;
             const newRefreshToken = tokens.refresh_token;
 
@@ -332,7 +346,21 @@ export class AuthService {
             this.activePkceVerifier = null;
             this.activeOAuthState = null;
             this.activeOAuthStateIssuedAt = null;
+            this.activeAccountId = null;
+        }
+    }
+
+    /** 追加アカウントの認証結果を保存します（メインの OAuth クライアントには適用しない） */
+    private async storeAccountTokens(accountId: string, tokens: Credentials): Promise<void> {
+        const profile = this.plugin.accounts.profiles().find(p => p.id === accountId);
+        if (!profile) throw new Error('認証したアカウントのプロファイルが見つかりません。');
+        const current = await this.plugin.accounts.tokensFor(profile);
+        if (!tokens.refresh_token && !current?.refresh_token) {
+            new Notice(`アカウント ${profile.name} の認証は成功しましたが、リフレッシュトークンが付与されませんでした。`, 10000);
         }
+        await this.plugin.accounts.storeTokens(accountId, { ...current, ...tokens, refresh_token: tokens.refresh_token || current?.refresh_token });
+        this.plugin.refreshSettingsTab();
+        new Notice(`アカウント ${profile.name} の Google 認証に成功しました！`, 6000);
     }
 
     /**
@@ -361,8 +389,9 @@ export class AuthService {
         // リフレッシュ可能でない場合は再認証を促す
         if (!this.isTokenValid(true)) {
             console.warn("アクセストークンが必要ですが、リフレッシュトークンがありません。");
-            new Notice("認証トークンの更新が必要です。設定から再認証してください。", 7000);
-            this.plugin.clearAutoSync();
+            new Notice(`${this.accountLabel()}認証トークンの更新が必要です。設定から再認証してください。`, 7000);
+            // 追加アカウントの失効でメインの自動同期は止めない
+            if (!this.plugin.accounts?.activeId()) this.plugin.clearAutoSync();
             await this.plugin.persistTokens(null);
             return false;
         }
@@ -390,15 +419,20 @@ export class AuthService {
             let noticeMsg = `トークンの更新に失敗しました (${respErr || '不明なエラー'})。`;
             if (respErrDesc) noticeMsg += ` ${respErrDesc}`;
             if (respErr === 'invalid_grant') {
-                noticeMsg = 'トークンが無効です。再認証してください。';
+                noticeMsg = `${this.accountLabel()}トークンが無効です。再認証してください。`;
                 await this.plugin.persistTokens(null);
-                this.plugin.clearAutoSync();
+                if (!this.plugin.accounts?.activeId()) this.plugin.clearAutoSync();
             }
             new Notice(noticeMsg, 15000);
             return false;
         }
     }
 
+    private accountLabel(): string {
+        const name = this.plugin.accounts?.activeName();
+        return name ? `アカウント ${name}: ` : '';
+    }
+
     /** 完全サインアウト: トークン取り消しとクリア */
     async revokeAndClear(): Promise<void> {
         try {
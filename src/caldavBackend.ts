@@ -0,0 +1,311 @@
+import { requestUrl } from 'obsidian';
+import { calendar_v3 } from 'googleapis';
+import { randomBytes } from 'crypto';
+import moment from 'moment';
+import GoogleCalendarTasksSyncPlugin from './main';
+import { BatchRequestItem, BatchResponseItem, GoogleCalendarTasksSyncSettings } from './types';
+import { CalendarBackend } from './calendarBackend';
+import { CalendarRouter } from './calendarRouter';
+import { ICalendar } from './icalendar';
+import { deobfuscateFromBase64 } from './security';
+
+interface DavResponse {
+    status: number;
+    headers: { [name: string]: string };
+    text: string;
+}
+
+interface DavResource {
+    href: string;
+    status: number; // propstat / response の HTTP ステータス（sync-collection の削除は 404）
+    etag?: string;
+    calendarData?: string;
+}
+
+const DAV_PROPS = '<D:prop><D:getetag/><C:calendar-data/></D:prop>';
+const CALENDAR_QUERY = `<?xml version="1.0" encoding="utf-8"?>
+<C:calendar-query xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">${DAV_PROPS}<C:filter><C:comp-filter name="VCALENDAR"><C:comp-filter name="VEVENT"/></C:comp-filter></C:filter></C:calendar-query>`;
+
+/**
+ * CalDAV（Nextcloud / Fastmail など）をバックエンドにします。
+ * カレンダー ID はサーバー URL からのコレクションのパス（"primary" はサーバー URL そのもの）、
+ * イベント ID はリソース名（{id}.ics）で、作成時に UID と同じ値を振る。
+ * 管理印（extendedProperties.private）は X-OBSIDIAN-PROP として VEVENT に持たせる。
+ * 変更フィードは sync-collection（RFC 6578）の sync-token を settings.syncToken に保持する。
+ */
+export class CalDavBackend implements CalendarBackend {
+    private plugin: GoogleCalendarTasksSyncPlugin;
+
+    constructor(plugin: GoogleCalendarTasksSyncPlugin) {
+        this.plugin = plugin;
+    }
+
+    async fetchGoogleCalendarEvents(settings: GoogleCalendarTasksSyncSettings): Promise<calendar_v3.Schema$Event[]> {
+        const collection = this.collectionUrl(settings.calendarId);
+        if (!settings.useSyncToken) return this.managedOnly(await this.calendarQuery(collection));
+
+        const token = this.plugin.settings.syncToken || '';
+        let result = await this.syncCollection(collection, token);
+        if (result === null && token) {
+            console.warn('CalDAV の sync-token が無効のため、全件取得へフォールバックします。');
+            result = await this.syncCollection(collection, '');
+        }
+        if (result === null) {
+            // sync-collection 非対応のサーバー
+            this.plugin.settings.syncToken = undefined;
+            return this.managedOnly(await this.calendarQuery(collection));
+        }
+        const events: calendar_v3.Schema$Event[] = [];
+        for (const res of result.resources) {
+            if (res.status === 404) {
+                // 削除は管理対象かどうか分からないため、ID だけを返す（対応の無いものは無視される）
+                if (token) events.push({ id: CalDavBackend.resourceId(res.href), status: 'cancelled' });
+                continue;
+            }
+            const ev = this.toEvent(res);
+            if (ev) events.push(ev);
+        }
+        if (result.syncToken) {
+            this.plugin.settings.syncToken = result.syncToken;
+            await this.plugin.saveData(this.plugin.settings);
+        }
+        console.log(`CalDAV から ${events.length} 件のイベントを取得しました（${token ? '増分' : '全件'}）。`);
+        return this.managedOnly(events, true);
+    }
+
+    async fetchManagedEvents(calendarId: string): Promise<calendar_v3.Schema$Event[]> {
+        return this.managedOnly(await this.calendarQuery(this.collectionUrl(calendarId)));
+    }
+
+    async fetchUnmanagedEvents(calendarId: string, timeMin: string, timeMax: string): Promise<calendar_v3.Schema$Event[]> {
+        const from = moment(timeMin), to = moment(timeMax);
+        return (await this.calendarQuery(this.collectionUrl(calendarId))).filter(ev => {
+            if (ev.status === 'cancelled' || ev.extendedProperties?.private?.['isGcalSync'] === 'true') return false;
+            const start = moment(ev.start?.dateTime ?? ev.start?.date);
+            const end = moment(ev.end?.dateTime ?? ev.end?.date ?? ev.start?.date);
+            // 繰り返しは開始が期間の終わりより前なら候補にする
+            return start.isBefore(to) && (!!ev.recurrence?.length || end.isAfter(from));
+        });
+    }
+
+    /** Calendar API 形式のリクエストを 1 件ずつ CalDAV の操作に読み替えて実行します */
+    async executeBatchRequest(batchRequests: BatchRequestItem[]): Promise<BatchResponseItem[]> {
+        const results: BatchResponseItem[] = [];
+        for (const req of batchRequests) {
+            try {
+                results.push(await this.execute(req));
+            } catch (e) {
+                const message = e instanceof Error ? e.message : String(e);
+                console.error(`CalDAV リクエスト失敗: ${req.method} ${req.path}`, e);
+                results.push({ status: 500, body: { error: { code: 500, message } } });
+            }
+        }
+        return results;
+    }
+
+    private async execute(req: BatchRequestItem): Promise<BatchResponseItem> {
+        const m = req.path.match(/\/calendars\/([^/]+)\/events(?:\/([^/?]+))?(\/move)?/);
+        if (!m) return CalDavBackend.error(400, `未対応のパスです: ${req.path}`);
+        const collection = this.collectionUrl(decodeURIComponent(m[1]));
+        const id = m[2] ? decodeURIComponent(m[2]) : null;
+        const ifMatch = req.headers?.['If-Match'];
+
+        if (req.method === 'POST' && !id) {
+            const newId = randomBytes(16).toString('hex');
+            return this.put(collection, newId, { ...req.body, id: newId }, { 'If-None-Match': '*' });
+        }
+        if (!id) return CalDavBackend.error(400, `イベント ID がありません: ${req.method} ${req.path}`);
+
+        if (req.method === 'POST' && m[3]) {
+            const destination = CalendarRouter.moveDestination(req.path);
+            if (!destination) return CalDavBackend.error(400, '移動先がありません。');
+            const target = this.collectionUrl(destination);
+            const res = await this.request('MOVE', this.resourceUrl(collection, id), undefined, {
+                Destination: this.resourceUrl(target, id),
+                Overwrite: 'F',
+                ...(ifMatch ? { 'If-Match': ifMatch } : {}),
+            });
+            if (!CalDavBackend.ok(res.status)) return CalDavBackend.error(res.status, `移動に失敗しました (${res.status})`);
+            return this.get(target, id);
+        }
+        if (req.method === 'GET') return this.get(collection, id);
+        if (req.method === 'DELETE') {
+            const res = await this.request('DELETE', this.resourceUrl(collection, id), undefined, ifMatch ? { 'If-Match': ifMatch } : {});
+            return CalDavBackend.ok(res.status) ? { status: 204 } : CalDavBackend.error(res.status, `削除に失敗しました (${res.status})`);
+        }
+        if (req.method === 'PUT') return this.put(collection, id, { ...req.body, id }, ifMatch ? { 'If-Match': ifMatch } : {});
+        if (req.method === 'PATCH') {
+            const current = await this.get(collection, id);
+            if (!CalDavBackend.ok(current.status)) return current;
+            if (ifMatch && current.body.etag && ifMatch !== current.body.etag) return CalDavBackend.error(412, 'Precondition Failed');
+            return this.put(collection, id, CalDavBackend.mergePatch(current.body, req.body || {}), { 'If-Match': current.body.etag ?? ifMatch ?? '*' });
+        }
+        return CalDavBackend.error(400, `未対応の操作です: ${req.method}`);
+    }
+
+    private async get(collection: string, id: string): Promise<BatchResponseItem> {
+        const res = await this.request('GET', this.resourceUrl(collection, id));
+        if (!CalDavBackend.ok(res.status)) return CalDavBackend.error(res.status, `取得に失敗しました (${res.status})`);
+        const event = this.toEvent({ href: this.resourceUrl(collection, id), status: res.status, etag: res.headers['etag'], calendarData: res.text });
+        return event ? { status: 200, body: event } : CalDavBackend.error(404, 'VEVENT がありません');
+    }
+
+    private async put(collection: string, id: string, event: calendar_v3.Schema$Event, headers: { [name: string]: string }): Promise<BatchResponseItem> {
+        const body: calendar_v3.Schema$Event = { ...event, updated: new Date().toISOString() };
+        const res = await this.request('PUT', this.resourceUrl(collection, id), ICalendar.fromEvent(body, id), {
+            'Content-Type': 'text/calendar; charset=utf-8',
+            ...headers,
+        });
+        if (!CalDavBackend.ok(res.status)) return CalDavBackend.error(res.status, `保存に失敗しました (${res.status})`);
+        const rest = { ...body };
+        delete rest.etag;
+        return { status: 200, body: { ...rest, id, status: body.status ?? 'confirmed', ...(res.headers['etag'] ? { etag: res.headers['etag'] } : {}) } };
+    }
+
+    private async calendarQuery(collection: string): Promise<calendar_v3.Schema$Event[]> {
+        const res = await this.request('REPORT', collection, CALENDAR_QUERY, { Depth: '1', 'Content-Type': 'application/xml; charset=utf-8' });
+        if (res.status !== 207) throw new Error(`CalDAV のイベント一覧の取得に失敗しました (${collection}): ${res.status}`);
+        return CalDavBackend.parseMultistatus(res.text).resources
+            .filter(r => CalDavBackend.ok(r.status))
+            .map(r => this.toEvent(r))
+            .filter((ev): ev is calendar_v3.Schema$Event => ev !== null);
+    }
+
+    /** sync-collection の結果（トークンが無効・非対応なら null） */
+    private async syncCollection(collection: string, token: string): Promise<{ resources: DavResource[]; syncToken: string | null } | null> {
+        const body = `<?xml version="1.0" encoding="utf-8"?>
+<D:sync-collection xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav"><D:sync-token>${CalDavBackend.xmlEscape(token)}</D:sync-token><D:sync-level>1</D:sync-level>${DAV_PROPS}</D:sync-collection>`;
+        const res = await this.request('REPORT', collection, body, { 'Content-Type': 'application/xml; charset=utf-8' });
+        if (res.status === 207) return CalDavBackend.parseMultistatus(res.text);
+        if ([400, 403, 409, 412, 501].includes(res.status)) return null;
+        throw new Error(`CalDAV の変更の取得に失敗しました (${collection}): ${res.status}`);
+    }
+
+    private toEvent(resource: DavResource): calendar_v3.Schema$Event | null {
+        if (!resource.calendarData) return null;
+        const event = ICalendar.toEvent(resource.calendarData);
+        if (!event) return null;
+        return { ...event, id: CalDavBackend.resourceId(resource.href), ...(resource.etag ? { etag: resource.etag } : {}) };
+    }
+
+    private managedOnly(events: calendar_v3.Schema$Event[], keepDeleted = false): calendar_v3.Schema$Event[] {
+        return events.filter(ev =>
+            (keepDeleted && ev.status === 'cancelled' && !ev.extendedProperties) ||
+            (ev.extendedProperties?.private?.['isGcalSync'] === 'true' && ev.extendedProperties?.private?.['appId'] === 'obsidian-gcal-tasks'));
+    }
+
+    private collectionUrl(calendarId: string): string {
+        const server = this.plugin.settings.caldav?.serverUrl?.trim();
+        if (!server) throw new Error('CalDAV のサーバー URL が設定されていません。');
+        const url = !calendarId || calendarId === 'primary' ? server : new URL(calendarId, server.endsWith('/') ? server : `${server}/`).toString();
+        return url.endsWith('/') ? url : `${url}/`;
+    }
+
+    private resourceUrl(collection: string, id: string): string {
+        return `${collection}${encodeURIComponent(id)}.ics`;
+    }
+
+    private async request(method: string, url: string, body?: string, headers: { [name: string]: string } = {}): Promise<DavResponse> {
+        const res = await requestUrl({
+            url,
+            method,
+            headers: { ...this.authHeader(), ...headers },
+            body,
+            throw: false,
+        });
+        const lower: { [name: string]: string } = {};
+        Object.entries(res.headers || {}).forEach(([k, v]) => { lower[k.toLowerCase()] = v; });
+        return { status: res.status, headers: lower, text: res.text ?? '' };
+    }
+
+    private authHeader(): { [name: string]: string } {
+        const caldav = this.plugin.settings.caldav;
+        if (!caldav?.username) return {};
+        let password = '';
+        try {
+            password = caldav.passwordEncrypted ? deobfuscateFromBase64(caldav.passwordEncrypted, this.plugin.settings.obfuscationSalt || '') : '';
+        } catch (e) {
+            console.error('CalDAV のパスワードを復号できませんでした。', e);
+        }
+        return { Authorization: `Basic ${Buffer.from(`${caldav.username}:${password}`, 'utf8').toString('base64')}` };
+    }
+
+    /** PATCH の意味（指定したフィールドだけ置き換え、null は削除、管理印はキー単位でマージ） */
+    static mergePatch(current: calendar_v3.Schema$Event, patch: calendar_v3.Schema$Event): calendar_v3.Schema$Event {
+        const merged: calendar_v3.Schema$Event = { ...current };
+        const fields = merged as Record<string, unknown>;
+        for (const [key, value] of Object.entries(patch) as [string, unknown][]) {
+            if (key === 'extendedProperties') continue;
+            if (value === null) delete fields[key];
+            else fields[key] = value;
+        }
+        // 非公開プロパティはキー単位で重ねる
+        if (patch.extendedProperties === null) {
+            delete merged.extendedProperties;
+        } else if (patch.extendedProperties) {
+            const priv: { [key: string]: string } = { ...(current.extendedProperties?.private || {}), ...(patch.extendedProperties.private || {}) };
+            merged.extendedProperties = { private: priv };
+        }
+        return merged;
+    }
+
+    /** multistatus（207）の応答を読みます。名前空間の接頭辞はサーバーごとに違うので問わない */
+    static parseMultistatus(xml: string): { resources: DavResource[]; syncToken: string | null } {
+        const element = (name: string) => new RegExp(`<(?:[\\w-]+:)?${name}\\b[^>]*?(?:/>|>([\\s\\S]*?)</(?:[\\w-]+:)?${name}>)`, 'i');
+        const all = (name: string, text: string) => {
+            const re = new RegExp(element(name).source, 'gi');
+            const out: string[] = [];
+            let m: RegExpExecArray | null;
+            while ((m = re.exec(text)) !== null) out.push(m[1] ?? '');
+            return out;
+        };
+        const statusOf = (text?: string) => Number(text?.match(/HTTP\/[\d.]+\s+(\d{3})/)?.[1] ?? 200);
+
+        const resources: DavResource[] = [];
+        for (const inner of all('response', xml)) {
+            const href = CalDavBackend.xmlUnescape(inner.match(element('href'))?.[1]?.trim() ?? '');
+            // 直下の status（削除）が無ければ、取得できた propstat のステータスを使う
+            const propstats = all('propstat', inner);
+            const found = propstats.find(p => statusOf(p.match(element('status'))?.[1]) < 300) ?? propstats[0];
+            const outside = propstats.reduce((rest, p) => rest.replace(p, ''), inner);
+            const status = propstats.length === 0 || !found ? statusOf(outside.match(element('status'))?.[1]) : statusOf(found.match(element('status'))?.[1]);
+            const etag = found?.match(element('getetag'))?.[1];
+            const data = found?.match(element('calendar-data'))?.[1];
+            resources.push({
+                href,
+                status,
+                ...(etag ? { etag: CalDavBackend.xmlUnescape(etag.trim()) } : {}),
+                ...(data ? { calendarData: CalDavBackend.xmlUnescape(data) } : {}),
+            });
+        }
+        const token = xml.replace(new RegExp(element('response').source, 'gi'), '').match(element('sync-token'))?.[1];
+        return { resources, syncToken: token ? CalDavBackend.xmlUnescape(token.trim()) : null };
+    }
+
+    private static resourceId(href: string): string {
+        const name = href.replace(/\/+$/, '').split('/').pop() ?? '';
+        return decodeURIComponent(name).replace(/\.ics$/i, '');
+    }
+
+    private static ok(status: number): boolean {
+        return status >= 200 && status < 300;
+    }
+
+    private static error(status: number, message: string): BatchResponseItem {
+        return { status, body: { error: { code: status, message } } };
+    }
+
+    private static xmlEscape(text: string): string {
+        return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    }
+
+    private static xmlUnescape(text: string): string {
+        const cdata = text.match(/^\s*<!\[CDATA\[([\s\S]*)\]\]>\s*$/);
+        if (cdata) return cdata[1];
+        return text
+            .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'")
+            .replace(/&#(\d+);/g, (_, n: string) => String.fromCharCode(Number(n)))
+            .replace(/&#x([0-9a-f]+);/gi, (_, n: string) => String.fromCharCode(parseInt(n, 16)))
+            .replace(/&amp;/g, '&');
+    }
+}
@@ -0,0 +1,28 @@
+import { calendar_v3 } from 'googleapis';
+import GoogleCalendarTasksSyncPlugin from './main';
+import { BatchRequestItem, BatchResponseItem, GoogleCalendarTasksSyncSettings } from './types';
+
+/**
+ * 同期先カレンダーのバックエンド。
+ * イベントは Google Calendar API の形（calendar_v3.Schema$Event）で受け渡し、書き込みも Calendar API の
+ * REST 形式のリクエスト（BatchRequestItem: method + /calendar/v3/calendars/{id}/events/... のパス）で表す。
+ * Google 以外のバックエンドはこれを自身のプロトコルへ読み替える。
+ */
+export interface CalendarBackend {
+    /**
+     * 既定カレンダーの管理対象イベントを取得します（変更フィード）。
+     * 増分取得が有効で起点があれば前回からの変更分を返し、削除は status='cancelled' で表す。
+     */
+    fetchGoogleCalendarEvents(settings: GoogleCalendarTasksSyncSettings): Promise<calendar_v3.Schema$Event[]>;
+    /** 指定カレンダーの管理対象イベントを全件取得します */
+    fetchManagedEvents(calendarId: string): Promise<calendar_v3.Schema$Event[]>;
+    /** 指定カレンダー・期間の管理印の無いイベントを取得します（取り込み用） */
+    fetchUnmanagedEvents(calendarId: string, timeMin: string, timeMax: string): Promise<calendar_v3.Schema$Event[]>;
+    /** 作成・更新・削除・移動・取得を実行し、リクエストと同じ順で結果を返します */
+    executeBatchRequest(batchRequests: BatchRequestItem[]): Promise<BatchResponseItem[]>;
+}
+
+/** 設定で選んだバックエンド（既定は Google） */
+export function backendFor(plugin: GoogleCalendarTasksSyncPlugin, settings: GoogleCalendarTasksSyncSettings = plugin.settings): CalendarBackend {
+    return settings?.calendarBackend === 'caldav' ? plugin.caldavBackend : plugin.gcalApi;
+}
@@ -0,0 +1,126 @@
+import { App } from 'obsidian';
+import { CalendarRoute, GoogleCalendarTasksSyncSettings, ObsidianTask } from './types';
+
+// ノートのフロントマターで送り先カレンダーを直接指定するキー
+export const CALENDAR_FRONTMATTER_KEY = 'gcal-calendar';
+// 送り先がこの接頭辞で始まるタスクはカレンダーではなく Google Tasks のリストへ送る（'tasks:@default' など）
+export const GOOGLE_TASKS_PREFIX = 'tasks:';
+
+interface CompiledRoute {
+    calendarId: string;
+    test: (task: ObsidianTask) => boolean;
+}
+
+/**
+ * タスクの送り先カレンダーを決めます。
+ * 優先順: Google Tasks タグ → フロントマター gcal-calendar → ルール表（上から最初に一致したもの）→ 既定の calendarId。
+ * ルールの match は '#tag'（入れ子タグも一致）またはパスのグロブ（'Projects/Acme/**'、グロブ記号が無ければフォルダ扱い）。
+ */
+export class CalendarRouter {
+    private app: App;
+    private readonly defaultCalendarId: string;
+    private routes: CompiledRoute[];
+    private readonly tasksTag: CompiledRoute | null;
+
+    constructor(app: App, settings: GoogleCalendarTasksSyncSettings) {
+        this.app = app;
+        this.defaultCalendarId = settings.calendarId;
+        const tag = settings.googleTasksTag?.trim().replace(/^#/, '');
+        this.tasksTag = tag
+            ? CalendarRouter.compile({ match: `#${tag}`, calendarId: `${GOOGLE_TASKS_PREFIX}${settings.googleTasksListId?.trim() || '@default'}` })
+            : null;
+        this.routes = (settings.calendarRoutes || [])
+            .filter(r => r.match?.trim() && r.calendarId?.trim())
+            .map(r => CalendarRouter.compile(r));
+    }
+
+    calendarFor(task: ObsidianTask): string {
+        if (this.tasksTag?.test(task)) return this.tasksTag.calendarId;
+        const fromFrontmatter = this.frontmatterCalendar(task.sourcePath);
+        if (fromFrontmatter) return fromFrontmatter;
+        return this.routes.find(r => r.test(task))?.calendarId ?? this.defaultCalendarId;
+    }
+
+    /** ルール表に現れるカレンダー（既定と Google Tasks のリストは除く） */
+    routedCalendars(): string[] {
+        return Array.from(new Set(this.routes.map(r => r.calendarId)))
+            .filter(id => id !== this.defaultCalendarId && !CalendarRouter.taskListId(id));
+    }
+
+    /** 送り先が Google Tasks のリストならその ID、カレンダーなら null */
+    static taskListId(target: string): string | null {
+        if (!target.startsWith(GOOGLE_TASKS_PREFIX)) return null;
+        return target.slice(GOOGLE_TASKS_PREFIX.length).trim() || '@default';
+    }
+
+    private frontmatterCalendar(path: string): string | null {
+        const value = this.app?.metadataCache?.getCache(path)?.frontmatter?.[CALENDAR_FRONTMATTER_KEY];
+        if (value === undefined || value === null) return null;
+        const id = String(value).trim();
+        return id || null;
+    }
+
+    private static compile(route: CalendarRoute): CompiledRoute {
+        return { calendarId: route.calendarId.trim(), test: CalendarRouter.matcher(route.match) };
+    }
+
+    /** '#tag'（入れ子タグも一致）またはパスのグロブの一致判定を作ります（アカウントの同期範囲でも使う） */
+    static matcher(match: string): (task: ObsidianTask) => boolean {
+        const trimmed = match.trim();
+        if (trimmed.startsWith('#')) {
+            const tag = trimmed.slice(1).toLowerCase();
+            return task => (task.tags || []).some(t => {
+                const lower = t.toLowerCase();
+                return lower === tag || lower.startsWith(`${tag}/`);
+            });
+        }
+        const re = CalendarRouter.globToRegExp(trimmed);
+        return task => re.test(task.sourcePath.replace(/\\/g, '/'));
+    }
+
+    /** '**' は階層をまたぐ任意の文字列、'*' と '?' は 1 階層内に一致 */
+    static globToRegExp(glob: string): RegExp {
+        let pattern = glob.replace(/\\/g, '/').replace(/^\/+/, '');
+        if (!/[*?]/.test(pattern)) pattern = `${pattern.replace(/\/+$/, '')}/**`;
+        let source = '';
+        for (let i = 0; i < pattern.length; i++) {
+            const ch = pattern[i];
+            if (ch === '*' && pattern[i + 1] === '*') {
+                // '**/' は 0 個以上の階層
+                i++;
+                if (pattern[i + 1] === '/') {
+                    source += '(?:.*/)?';
+                    i++;
+                } else {
+                    source += '.*';
+                }
+            } else if (ch === '*') {
+                source += '[^/]*';
+            } else if (ch === '?') {
+                source += '[^/]';
+            } else {
+                source += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+            }
+        }
+        return new RegExp(`^${source}$`, 'i');
+    }
+
+    static eventsPath(calendarId: string): string {
+        return `/calendar/v3/calendars/${encodeURIComponent(calendarId)}/events`;
+    }
+
+    static movePath(fromCalendarId: string, gcalId: string, toCalendarId: string): string {
+        return `${CalendarRouter.eventsPath(fromCalendarId)}/${encodeURIComponent(gcalId)}/move?destination=${encodeURIComponent(toCalendarId)}`;
+    }
+
+    static moveDestination(path: string): string | null {
+        const m = path.match(/[?&]destination=([^&]+)/);
+        return m ? decodeURIComponent(m[1]) : null;
+    }
+
+    /** バッチリクエストのパスから対象カレンダーを取り出します */
+    static calendarIdFromPath(path: string): string | null {
+        const m = path.match(/\/calendars\/([^/]+)\/events/);
+        return m ? decodeURIComponent(m[1]) : null;
+    }
+}
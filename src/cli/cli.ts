@@ -0,0 +1,131 @@
+import GoogleCalendarTasksSyncPlugin from '../main';
+import { DedupeSummary, SyncSummary } from '../types';
+import { createHeadlessPlugin } from './headless';
+
+export const USAGE = `使い方: gcal-tasks-sync <sync|plan|dedupe> --vault <dir> [オプション]
+
+  sync     Vault のタスクを同期する
+  plan     送信予定の操作を計算して表示する（何も書き込まない）
+  dedupe   重複イベントを一覧する（--apply で削除）
+
+  --vault <dir>     Vault のディレクトリ
+  --data <file>     設定ファイル（既定: {Vault}/.obsidian/plugins/<id>/data.json）
+  --force           sync: 対応表を捨てて全件を送り直す
+  --apply           dedupe: 一覧した重複を削除する
+  --verbose         ログを標準エラーに出す
+環境変数 GCAL_TASKS_PASSPHRASE: パスフレーズで暗号化したトークンの復号に使う`;
+
+export type CliCommand = 'sync' | 'plan' | 'dedupe';
+
+export interface CliArgs {
+    command: CliCommand;
+    vault: string;
+    data?: string;
+    force: boolean;
+    apply: boolean;
+    verbose: boolean;
+}
+
+export interface CliIo {
+    stdout: (text: string) => void;
+    stderr: (text: string) => void;
+    env: Record<string, string | undefined>;
+}
+
+const COMMANDS: CliCommand[] = ['sync', 'plan', 'dedupe'];
+
+/** 引数を解釈します。不正なら理由を投げる */
+export function parseArgs(argv: string[]): CliArgs {
+    const [command, ...rest] = argv;
+    if (!COMMANDS.includes(command as CliCommand)) throw new Error(`不明なコマンドです: ${command ?? '（なし）'}`);
+    const args: CliArgs = { command: command as CliCommand, vault: '', force: false, apply: false, verbose: false };
+    for (let i = 0; i < rest.length; i++) {
+        const arg = rest[i];
+        switch (arg) {
+            case '--vault':
+            case '--data': {
+                const value = rest[++i];
+                if (!value || value.startsWith('--')) throw new Error(`${arg} には値が必要です`);
+                if (arg === '--vault') args.vault = value; else args.data = value;
+                break;
+            }
+            case '--force': args.force = true; break;
+            case '--apply': args.apply = true; break;
+            case '--verbose': args.verbose = true; break;
+            default: throw new Error(`不明なオプションです: ${arg}`);
+        }
+    }
+    if (!args.vault) throw new Error('--vault を指定してください');
+    return args;
+}
+
+/**
+ * CLI を実行し、結果を JSON で stdout に書きます。
+ * プラグイン内のログは stdout を汚さないよう stderr に回す（警告・エラー以外は --verbose のときだけ）。
+ * @returns 終了コード（0: 成功 / 1: 同期の失敗やエラーあり / 2: 引数の誤り）
+ */
+export async function runCli(argv: string[], io: CliIo): Promise<number> {
+    let args: CliArgs;
+    try {
+        args = parseArgs(argv);
+    } catch (e) {
+        io.stderr(`${(e as Error).message}\n\n${USAGE}\n`);
+        return 2;
+    }
+
+    const restoreConsole = redirectConsole(io, args.verbose);
+    try {
+        const plugin = await createHeadlessPlugin({ vaultPath: args.vault, dataPath: args.data, passphrase: io.env.GCAL_TASKS_PASSPHRASE });
+        const output = await run(plugin, args);
+        io.stdout(`${JSON.stringify(output.result, null, 2)}\n`);
+        return output.ok ? 0 : 1;
+    } catch (e) {
+        io.stdout(`${JSON.stringify({ command: args.command, ok: false, error: String((e as Error)?.message ?? e) }, null, 2)}\n`);
+        return 1;
+    } finally {
+        restoreConsole();
+    }
+}
+
+async function run(plugin: GoogleCalendarTasksSyncPlugin, args: CliArgs): Promise<{ ok: boolean; result: unknown }> {
+    const settings = () => JSON.parse(JSON.stringify(plugin.settings));
+    switch (args.command) {
+        case 'sync': {
+            const accounts = await plugin.syncLogic.runSync(settings(), { force: args.force });
+            const ok = accounts.length > 0 && accounts.every(a => a.status === 'completed' && a.errors === 0);
+            return { ok, result: { command: 'sync', ok, accounts: accounts.map(withoutPlan) } };
+        }
+        case 'plan': {
+            const accounts = await plugin.syncLogic.runSync(settings(), { planOnly: true });
+            const ok = accounts.length > 0 && accounts.every(a => a.status === 'planned');
+            return { ok, result: { command: 'plan', ok, accounts: accounts.map(a => ({ account: a.account, status: a.status, items: a.plan ?? [] })) } };
+        }
+        case 'dedupe': {
+            const summary: DedupeSummary | null = await plugin.syncLogic.runDedupeCleanup(!args.apply);
+            const ok = !!summary && summary.errors === 0;
+            return { ok, result: { command: 'dedupe', ok, ...(summary ?? {}) } };
+        }
+    }
+}
+
+function withoutPlan(summary: SyncSummary): Omit<SyncSummary, 'plan'> {
+    const rest = { ...summary };
+    delete rest.plan;
+    return rest;
+}
+
+/** ログを stderr へ回す（log / info などは verbose のときだけ）。戻り値で元に戻す */
+function redirectConsole(io: CliIo, verbose: boolean): () => void {
+    const methods = ['log', 'info', 'debug', 'time', 'timeEnd', 'warn', 'error'] as const;
+    const original = methods.map(m => console[m]);
+    const format = (parts: unknown[]) => parts.map(p => typeof p === 'string' ? p : (p instanceof Error ? p.stack ?? p.message : safeJson(p))).join(' ');
+    methods.forEach(m => {
+        const always = m === 'warn' || m === 'error';
+        (console as any)[m] = (...parts: unknown[]) => { if (always || verbose) io.stderr(`${format(parts)}\n`); };
+    });
+    return () => methods.forEach((m, i) => { (console as any)[m] = original[i]; });
+}
+
+function safeJson(value: unknown): string {
+    try { return JSON.stringify(value); } catch { return String(value); }
+}
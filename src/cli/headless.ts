@@ -0,0 +1,178 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { TFile, TFolder } from './obsidianShim';
+import GoogleCalendarTasksSyncPlugin from '../main';
+import { SyncLogic } from '../syncLogic';
+
+/** プラグイン設定（data.json 相当）の読み書き先 */
+export interface SettingsStore {
+    load(): Promise<any>;
+    save(data: any): Promise<void>;
+}
+
+/** JSON ファイルに設定を保存します（一時ファイルへ書いてから置き換える） */
+export class FileSettingsStore implements SettingsStore {
+    constructor(readonly filePath: string) {}
+
+    async load(): Promise<any> {
+        try {
+            return JSON.parse(await fs.promises.readFile(this.filePath, 'utf8'));
+        } catch (e) {
+            if ((e as NodeJS.ErrnoException).code === 'ENOENT') return null;
+            throw e;
+        }
+    }
+
+    async save(data: any): Promise<void> {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        const tmp = `${this.filePath}.tmp`;
+        await fs.promises.writeFile(tmp, JSON.stringify(data, null, 2));
+        await fs.promises.rename(tmp, this.filePath);
+    }
+}
+
+/**
+ * ディレクトリを Vault として扱います（パスは Vault ルートからの相対、区切りは '/'）。
+ * Obsidian と同じく '.' で始まるフォルダ（.obsidian / .git / .trash）は一覧に含めない。
+ */
+export class HeadlessVault {
+    readonly configDir = '.obsidian';
+    readonly adapter = {
+        exists: async (p: string) => fs.existsSync(this.resolve(p)),
+        read: async (p: string) => fs.promises.readFile(this.resolve(p), 'utf8'),
+        write: async (p: string, data: string) => this.writeFile(p, data),
+        remove: async (p: string) => fs.promises.rm(this.resolve(p), { force: true }),
+    };
+
+    constructor(readonly root: string) {}
+
+    getName(): string {
+        return path.basename(path.resolve(this.root));
+    }
+
+    getMarkdownFiles(): TFile[] {
+        const files: TFile[] = [];
+        const walk = (dir: string) => {
+            for (const entry of fs.readdirSync(this.resolve(dir), { withFileTypes: true })) {
+                if (entry.name.startsWith('.')) continue;
+                const rel = dir ? `${dir}/${entry.name}` : entry.name;
+                if (entry.isDirectory()) walk(rel);
+                else if (entry.isFile() && entry.name.toLowerCase().endsWith('.md')) files.push(this.fileAt(rel));
+            }
+        };
+        walk('');
+        return files;
+    }
+
+    getAbstractFileByPath(p: string): TFile | TFolder | null {
+        try {
+            const stat = fs.statSync(this.resolve(p));
+            return stat.isDirectory() ? new TFolder(p) : this.fileAt(p);
+        } catch {
+            return null;
+        }
+    }
+
+    async read(file: TFile): Promise<string> {
+        return fs.promises.readFile(this.resolve(file.path), 'utf8');
+    }
+
+    async cachedRead(file: TFile): Promise<string> {
+        return this.read(file);
+    }
+
+    async modify(file: TFile, data: string): Promise<void> {
+        await this.writeFile(file.path, data);
+    }
+
+    async process(file: TFile, fn: (data: string) => string): Promise<string> {
+        const next = fn(await this.read(file));
+        await this.writeFile(file.path, next);
+        return next;
+    }
+
+    async create(p: string, data: string): Promise<TFile> {
+        if (fs.existsSync(this.resolve(p))) throw new Error(`File already exists: ${p}`);
+        await this.writeFile(p, data);
+        return this.fileAt(p);
+    }
+
+    async createFolder(p: string): Promise<void> {
+        await fs.promises.mkdir(this.resolve(p), { recursive: true });
+    }
+
+    /** Vault ルートからの相対パスを実パスに（絶対パスはそのまま） */
+    resolve(p: string): string {
+        return path.resolve(this.root, p);
+    }
+
+    private fileAt(p: string): TFile {
+        const stat = fs.statSync(this.resolve(p));
+        return new TFile(p, { mtime: stat.mtimeMs, ctime: stat.ctimeMs, size: stat.size });
+    }
+
+    private async writeFile(p: string, data: string): Promise<void> {
+        await fs.promises.mkdir(path.dirname(this.resolve(p)), { recursive: true });
+        await fs.promises.writeFile(this.resolve(p), data);
+    }
+}
+
+/**
+ * metadataCache の代わり。フロントマターは単純な "key: value" の行だけを読む。
+ * ファイルのキャッシュは持たないため、タスクの有無に関係なく全ファイルを解析する。
+ */
+export class HeadlessMetadataCache {
+    constructor(private vault: HeadlessVault) {}
+
+    getFileCache(_file: TFile): null {
+        return null;
+    }
+
+    getCache(p: string): { frontmatter?: Record<string, string> } | null {
+        let content: string;
+        try {
+            content = fs.readFileSync(this.vault.resolve(p), 'utf8');
+        } catch {
+            return null;
+        }
+        const m = content.match(/^---\r?\n([\s\S]*?)\r?\n---\s*(?:\r?\n|$)/);
+        if (!m) return {};
+        const frontmatter: Record<string, string> = {};
+        for (const line of m[1].split(/\r?\n/)) {
+            const kv = line.match(/^([^\s:#][^:]*):\s*(.*)$/);
+            if (kv) frontmatter[kv[1].trim()] = kv[2].trim().replace(/^(["'])(.*)\1$/, '$2');
+        }
+        return { frontmatter };
+    }
+}
+
+export interface HeadlessOptions {
+    vaultPath: string;
+    dataPath?: string; // 設定ファイル（既定: {Vault}/.obsidian/plugins/{id}/data.json）
+    passphrase?: string; // AES-GCM で保存したトークンのパスフレーズ
+}
+
+export const PLUGIN_ID = 'obsidian-google-calendar-tasks-sync-plugin';
+
+/**
+ * Obsidian 無しでプラグインを組み立てます（設定の読み込みと OAuth クライアントの初期化まで）。
+ * キャッシュ・競合キュー・ジャーナルは設定ファイルと同じフォルダに置く。
+ */
+export async function createHeadlessPlugin(options: HeadlessOptions): Promise<GoogleCalendarTasksSyncPlugin> {
+    const vault = new HeadlessVault(options.vaultPath);
+    const dataPath = options.dataPath
+        ? path.resolve(options.dataPath)
+        : vault.resolve(`${vault.configDir}/plugins/${PLUGIN_ID}/data.json`);
+    const app = {
+        vault,
+        metadataCache: new HeadlessMetadataCache(vault),
+        settingsStore: new FileSettingsStore(dataPath),
+    };
+    const plugin = new GoogleCalendarTasksSyncPlugin(app as any, { id: PLUGIN_ID, dir: path.dirname(dataPath) } as any);
+    if (options.passphrase) plugin.setPassphrase(options.passphrase);
+    await plugin.loadSettings();
+    plugin.syncLogic = new SyncLogic(plugin);
+    plugin.authService.reconfigureOAuthClient();
+    plugin.authService.initializeCalendarApi();
+    return plugin;
+}
@@ -0,0 +1,8 @@
+// CLI のエントリポイント（npm run build:cli で cli.js にまとめる）
+import { runCli } from './cli';
+
+runCli(process.argv.slice(2), {
+    stdout: text => process.stdout.write(text),
+    stderr: text => process.stderr.write(text),
+    env: process.env,
+}).then(code => { process.exitCode = code; });
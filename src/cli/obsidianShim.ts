@@ -0,0 +1,107 @@
+/**
+ * CLI 用の 'obsidian' モジュールの代わり（esbuild の alias で差し替える）。
+ * 同期に必要なもの（Notice・requestUrl・TFile・Plugin のデータ保存）だけを Node で実装し、
+ * 画面まわりのクラスは読み込めるよう空の実装にしてある。
+ */
+import type { SettingsStore } from './headless';
+
+/** 通知はログとして出す（CLI が差し替えた console を通るので、--verbose の有無に従う） */
+export class Notice {
+    message: string;
+    constructor(message: string, _timeout?: number) {
+        this.message = message;
+        console.info(message);
+    }
+    setMessage(message: string): this { this.message = message; return this; }
+    hide(): void {}
+}
+
+export interface RequestUrlParam {
+    url: string;
+    method?: string;
+    contentType?: string;
+    body?: string | ArrayBuffer;
+    headers?: Record<string, string>;
+    throw?: boolean;
+}
+
+export interface RequestUrlResponse {
+    status: number;
+    headers: Record<string, string>;
+    text: string;
+    json: any;
+    arrayBuffer: ArrayBuffer;
+}
+
+/** Obsidian の requestUrl と同じく、throw: false でなければ 400 以上で例外にする */
+export async function requestUrl(request: RequestUrlParam | string): Promise<RequestUrlResponse> {
+    const req = typeof request === 'string' ? { url: request } : request;
+    const headers: Record<string, string> = { ...(req.headers ?? {}) };
+    if (req.contentType && !Object.keys(headers).some(k => k.toLowerCase() === 'content-type')) headers['Content-Type'] = req.contentType;
+    const res = await fetch(req.url, { method: req.method ?? 'GET', headers, body: req.body as any });
+    const arrayBuffer = await res.arrayBuffer();
+    const text = Buffer.from(arrayBuffer).toString('utf8');
+    const resHeaders: Record<string, string> = {};
+    res.headers.forEach((value, key) => { resHeaders[key] = value; });
+    if (res.status >= 400 && req.throw !== false) {
+        throw Object.assign(new Error(`Request failed, status ${res.status}`), { status: res.status, text });
+    }
+    return {
+        status: res.status,
+        headers: resHeaders,
+        text,
+        get json() { return JSON.parse(text); },
+        arrayBuffer,
+    };
+}
+
+export class TAbstractFile {
+    path: string;
+    name: string;
+    constructor(path: string) {
+        this.path = path;
+        this.name = path.slice(path.lastIndexOf('/') + 1);
+    }
+}
+
+export class TFile extends TAbstractFile {
+    stat: { mtime: number; ctime: number; size: number };
+    basename: string;
+    extension: string;
+    constructor(path: string, stat: { mtime: number; ctime: number; size: number } = { mtime: 0, ctime: 0, size: 0 }) {
+        super(path);
+        this.stat = stat;
+        const dot = this.name.lastIndexOf('.');
+        this.basename = dot > 0 ? this.name.slice(0, dot) : this.name;
+        this.extension = dot > 0 ? this.name.slice(dot + 1) : '';
+    }
+}
+
+export class TFolder extends TAbstractFile {}
+
+export type App = any;
+
+/** プラグインの data.json の代わりに、App が持つ設定ストアへ読み書きする */
+export class Plugin {
+    app: App;
+    manifest: any;
+    constructor(app: App, manifest: any) {
+        this.app = app;
+        this.manifest = manifest;
+    }
+    async loadData(): Promise<any> { return (this.app.settingsStore as SettingsStore).load(); }
+    async saveData(data: any): Promise<void> { await (this.app.settingsStore as SettingsStore).save(data); }
+    addCommand(): void {}
+    addSettingTab(): void {}
+    registerView(): void {}
+    registerEvent(): void {}
+}
+
+// 以下は画面用。CLI では使わない
+export class PluginSettingTab { constructor(public app: App, public plugin: any) {} }
+export class Modal { constructor(public app: App) {} open(): void {} close(): void {} }
+export class ItemView { constructor(public leaf: any) {} }
+export class WorkspaceLeaf {}
+export class Setting { constructor(_containerEl: any) {} }
+export class TextComponent {}
+export class ExtraButtonComponent {}
@@ -60,6 +60,39 @@ export class DateUtils {
         }
         return false;
     }
+
+    // ローカル壁時計のキー（'D:YYYY-MM-DD' / 'T:YYYY-MM-DDTHH:mm'）。オフセット付きはローカルへ変換
+    static wallClockKey(t?: calendar_v3.Schema$EventDateTime): string {
+        if (!t) return 'N';
+        if ((t as any).date) return `D:${(t as any).date}`;
+        if ((t as any).dateTime) return `T:${moment((t as any).dateTime).format('YYYY-MM-DDTHH:mm')}`;
+        return 'N';
+    }
+
+    /**
+     * イベントの日時をタスクの 🛫/📅/時間帯 に変換します（表現できなければ null）。
+     * allowCrossDay が false の場合、日をまたぐ時刻指定イベントは null。
+     */
+    static taskTimesFromEvent(ev: calendar_v3.Schema$Event, allowCrossDay = false): { startDate: string; dueDate: string; timeWindowStart: string | null; timeWindowEnd: string | null } | null {
+        if (ev.start?.date && ev.end?.date) {
+            const start = moment(ev.start.date, 'YYYY-MM-DD', true);
+            const endExclusive = moment(ev.end.date, 'YYYY-MM-DD', true);
+            if (!start.isValid() || !endExclusive.isValid()) return null;
+            const due = moment.max(start, endExclusive.clone().subtract(1, 'day'));
+            return { startDate: start.format('YYYY-MM-DD'), dueDate: due.format('YYYY-MM-DD'), timeWindowStart: null, timeWindowEnd: null };
+        }
+        if (ev.start?.dateTime && ev.end?.dateTime) {
+            const s = moment(ev.start.dateTime);
+            const e = moment(ev.end.dateTime);
+            if (!s.isValid() || !e.isValid() || !e.isAfter(s)) return null;
+            const day = s.format('YYYY-MM-DD');
+            const endsAtMidnight = e.format('HH:mm') === '00:00' && e.clone().subtract(1, 'day').isSame(s, 'day');
+            if (endsAtMidnight) return { startDate: day, dueDate: day, timeWindowStart: s.format('HH:mm'), timeWindowEnd: '24:00' };
+            if (!e.isSame(s, 'day') && !allowCrossDay) return null;
+            return { startDate: day, dueDate: e.format('YYYY-MM-DD'), timeWindowStart: s.format('HH:mm'), timeWindowEnd: e.format('HH:mm') };
+        }
+        return null;
+    }
 }
 
 // 管理印・指紋ユーティリティ
@@ -105,6 +138,21 @@ export class FingerprintUtils {
         const remK = includeRem ? `|M|${this.reminderFingerprint(ev as any)}` : '';
         return `S|${sum}|A|${startK}|B|${endK}|R|${rec}|Z|${stat}${descK}${remK}`;
     }
+
+    /**
+     * 指紋 (localFp) から送信時の開始/終了を壁時計キーで取り出します。
+     * 送信値はオフセット無しのローカル時刻なので、parseZone で表記どおりの時刻を読む。
+     */
+    static timeKeysFromFingerprint(fp: string): { start: string; end: string } | null {
+        const a = fp.lastIndexOf('|A|');
+        const b = fp.indexOf('|B|', a);
+        const r = fp.indexOf('|R|', b);
+        if (a < 0 || b < 0 || r < 0) return null;
+        const norm = (k: string) => k.startsWith('T:')
+            ? `T:${moment.parseZone(k.slice(2)).format('YYYY-MM-DDTHH:mm')}`
+            : k;
+        return { start: norm(fp.slice(a + 3, b)), end: norm(fp.slice(b + 3, r)) };
+    }
 }
 
 export class TaskMapUtils {
@@ -0,0 +1,84 @@
+import { App } from 'obsidian';
+import { ConflictEntry, ConflictResolution } from './types';
+
+/**
+ * 自動マージできなかった競合の保留キュー。
+ * プラグインフォルダの conflict-queue.json に配列として保存し、
+ * 解決済み（resolution 付き）のエントリは次回の runSync で適用されて取り除かれる。
+ */
+export class ConflictQueue {
+    private app: App;
+    private readonly path: string;
+    private entries: ConflictEntry[] | null = null;
+    private listeners = new Set<() => void>();
+
+    constructor(app: App, pluginDir: string) {
+        this.app = app;
+        this.path = `${pluginDir}/conflict-queue.json`;
+    }
+
+    async load(): Promise<ConflictEntry[]> {
+        if (this.entries) return this.entries;
+        try {
+            const adapter = this.app.vault.adapter;
+            if (await adapter.exists(this.path)) {
+                const parsed = JSON.parse(await adapter.read(this.path));
+                this.entries = Array.isArray(parsed) ? parsed : [];
+            } else {
+                this.entries = [];
+            }
+        } catch (e) {
+            console.warn('conflict-queue.json の読み込みに失敗しました。空のキューとして扱います。', e);
+            this.entries = [];
+        }
+        return this.entries;
+    }
+
+    private async save(): Promise<void> {
+        try {
+            await this.app.vault.adapter.write(this.path, JSON.stringify(this.entries ?? [], null, 2));
+        } catch (e) {
+            console.error('conflict-queue.json の保存に失敗しました', e);
+        }
+        this.listeners.forEach(fn => fn());
+    }
+
+    /** 変更通知を購読します（戻り値で解除） */
+    onChange(fn: () => void): () => void {
+        this.listeners.add(fn);
+        return () => this.listeners.delete(fn);
+    }
+
+    async pending(): Promise<ConflictEntry[]> {
+        return (await this.load()).filter(e => !e.resolution);
+    }
+
+    async get(taskId: string): Promise<ConflictEntry | undefined> {
+        return (await this.load()).find(e => e.taskId === taskId);
+    }
+
+    /** 同じタスクの既存エントリは最新の値で置き換える（未解決に戻す） */
+    async upsert(entry: ConflictEntry): Promise<void> {
+        const entries = await this.load();
+        const idx = entries.findIndex(e => e.taskId === entry.taskId);
+        if (idx >= 0) entries[idx] = entry;
+        else entries.push(entry);
+        await this.save();
+    }
+
+    async resolve(taskId: string, resolution: ConflictResolution): Promise<boolean> {
+        const entry = await this.get(taskId);
+        if (!entry) return false;
+        entry.resolution = resolution;
+        await this.save();
+        return true;
+    }
+
+    async remove(taskIds: Iterable<string>): Promise<void> {
+        const ids = new Set(taskIds);
+        if (ids.size === 0) return;
+        const entries = await this.load();
+        this.entries = entries.filter(e => !ids.has(e.taskId));
+        await this.save();
+    }
+}
@@ -0,0 +1,156 @@
+import { App, ItemView, Modal, Notice, Setting, WorkspaceLeaf } from 'obsidian';
+import moment from 'moment';
+import GoogleCalendarTasksSyncPlugin from './main';
+import { ConflictEntry, ConflictResolution, MergeField, SyncBaseEntry } from './types';
+
+export const CONFLICT_VIEW_TYPE = 'gcal-sync-conflict-queue';
+
+const FIELD_LABELS: Record<MergeField, string> = {
+    title: 'タイトル',
+    time: '日時',
+    completion: '完了状態',
+};
+
+// スナップショットのフィールド値を表示用の文字列に
+export function formatConflictValue(field: MergeField, snap: Partial<SyncBaseEntry>): string {
+    switch (field) {
+        case 'title': return snap.title ?? '（不明）';
+        case 'time': {
+            if (snap.start === undefined || snap.end === undefined) return '（不明）';
+            const fmt = (k: string) => k.replace(/^[DT]:/, '').replace('T', ' ');
+            return `${fmt(snap.start)} → ${fmt(snap.end)}`;
+        }
+        case 'completion': return snap.completed === undefined ? '（不明）' : (snap.completed ? '完了' : '未完了');
+    }
+}
+
+/**
+ * 保留中の競合を一覧し、ローカル採用 / リモート採用 / 編集 を選ばせるビュー。
+ * 選択結果は conflict-queue.json に保存され、次回の同期で適用される。
+ */
+export class ConflictQueueView extends ItemView {
+    private plugin: GoogleCalendarTasksSyncPlugin;
+    private unsubscribe: (() => void) | null = null;
+
+    constructor(leaf: WorkspaceLeaf, plugin: GoogleCalendarTasksSyncPlugin) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType(): string { return CONFLICT_VIEW_TYPE; }
+    getDisplayText(): string { return '同期の競合キュー'; }
+    getIcon(): string { return 'git-merge'; }
+
+    async onOpen(): Promise<void> {
+        this.unsubscribe = this.plugin.conflictQueue.onChange(() => { void this.render(); });
+        await this.render();
+    }
+
+    async onClose(): Promise<void> {
+        this.unsubscribe?.();
+        this.unsubscribe = null;
+    }
+
+    private async render(): Promise<void> {
+        const root = this.contentEl;
+        root.empty();
+        root.createEl('h4', { text: '同期の競合キュー' });
+
+        const entries = await this.plugin.conflictQueue.load();
+        if (entries.length === 0) {
+            root.createEl('p', { text: '保留中の競合はありません。' });
+            return;
+        }
+
+        for (const entry of entries) {
+            const box = root.createDiv({ cls: 'gcal-conflict-entry' });
+            box.createEl('h5', { text: entry.summary });
+            box.createEl('div', {
+                text: `${entry.sourcePath}:${entry.sourceLine + 1} ・ 検出 ${moment(entry.detectedAt).format('YYYY-MM-DD HH:mm')}`,
+                cls: 'setting-item-description',
+            });
+
+            const table = box.createEl('table', { cls: 'gcal-conflict-table' });
+            const head = table.createEl('tr');
+            ['', 'ベース', 'Obsidian', 'Google'].forEach(h => head.createEl('th', { text: h }));
+            for (const field of entry.fields) {
+                const row = table.createEl('tr');
+                row.createEl('td', { text: FIELD_LABELS[field] });
+                row.createEl('td', { text: formatConflictValue(field, entry.base) });
+                row.createEl('td', { text: formatConflictValue(field, entry.local) });
+                row.createEl('td', { text: formatConflictValue(field, entry.remote) });
+            }
+
+            if (entry.resolution) {
+                box.createEl('p', { text: '解決済み: 次回の同期で反映されます。', cls: 'gcal-conflict-resolved' });
+            }
+
+            new Setting(box)
+                .addButton(b => b.setButtonText('ローカルを採用').onClick(() => this.resolveAll(entry, 'local')))
+                .addButton(b => b.setButtonText('リモートを採用').onClick(() => this.resolveAll(entry, 'remote')))
+                .addButton(b => b.setButtonText('編集').onClick(() => {
+                    new ConflictEditModal(this.app, entry, async (resolution) => {
+                        await this.plugin.conflictQueue.resolve(entry.taskId, resolution);
+                        new Notice('競合の解決内容を保存しました。次回の同期で反映されます。');
+                    }).open();
+                }))
+                .addExtraButton(b => b.setIcon('trash-2').setTooltip('キューから削除（次回の同期で再判定）').onClick(async () => {
+                    await this.plugin.conflictQueue.remove([entry.taskId]);
+                }));
+        }
+    }
+
+    private async resolveAll(entry: ConflictEntry, side: 'local' | 'remote'): Promise<void> {
+        const pick: ConflictResolution['pick'] = {};
+        entry.fields.forEach(f => { pick[f] = side; });
+        await this.plugin.conflictQueue.resolve(entry.taskId, { pick, resolvedAt: moment().format('YYYY-MM-DDTHH:mm:ssZ') });
+        new Notice(`${side === 'local' ? 'Obsidian' : 'Google'} の値を採用します。次回の同期で反映されます。`);
+    }
+}
+
+/** フィールドごとに採用する側を選び、タイトルは任意に編集できるモーダル */
+class ConflictEditModal extends Modal {
+    private entry: ConflictEntry;
+    private onSubmit: (resolution: ConflictResolution) => Promise<void>;
+
+    constructor(app: App, entry: ConflictEntry, onSubmit: (resolution: ConflictResolution) => Promise<void>) {
+        super(app);
+        this.entry = entry;
+        this.onSubmit = onSubmit;
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.createEl('h3', { text: `競合の編集: ${this.entry.summary}` });
+
+        const pick: ConflictResolution['pick'] = {};
+        let title: string | undefined;
+        for (const field of this.entry.fields) {
+            pick[field] = 'local';
+            new Setting(contentEl)
+                .setName(FIELD_LABELS[field])
+                .addDropdown(d => d
+                    .addOption('local', `Obsidian: ${formatConflictValue(field, this.entry.local)}`)
+                    .addOption('remote', `Google: ${formatConflictValue(field, this.entry.remote)}`)
+                    .setValue('local')
+                    .onChange(v => { pick[field] = v as 'local' | 'remote'; }));
+        }
+        new Setting(contentEl)
+            .setName('タイトルを直接指定')
+            .setDesc('入力した場合は上の選択より優先し、両側をこのタイトルにそろえる。')
+            .addText(t => t
+                .setPlaceholder(this.entry.local.title)
+                .onChange(v => { title = v.trim() ? v : undefined; }));
+
+        new Setting(contentEl)
+            .addButton(b => b.setButtonText('保存').setCta().onClick(async () => {
+                await this.onSubmit({ pick, title, resolvedAt: moment().format('YYYY-MM-DDTHH:mm:ssZ') });
+                this.close();
+            }))
+            .addButton(b => b.setButtonText('キャンセル').onClick(() => this.close()));
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+}
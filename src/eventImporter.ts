@@ -0,0 +1,280 @@
+import { TFile } from 'obsidian';
+import moment from 'moment';
+import { calendar_v3 } from 'googleapis';
+import { rrulestr } from 'rrule';
+import GoogleCalendarTasksSyncPlugin from './main';
+import { DateUtils } from './commonUtils';
+import { GCalMapper } from './gcalMapper';
+import { TaskStatuses } from './taskStatus';
+import { backendFor } from './calendarBackend';
+import { BatchRequestItem, GoogleCalendarTasksSyncSettings, ObsidianTask } from './types';
+
+// パーサがタスク行へ結合してしまう継続行（時間帯/🔁/終日）とサブタスク
+const CONTROL_RE = /(?:\d{1,2}:\d{2})\s*(?:-|–|—|~|〜|～|to)\s*(?:\d{1,2}:\d{2}|24:00)|🔁|(?:終日|全日|all[-\s]?day)/iu;
+const SUBTASK_RE = /^\s*-\s*\[.\]/;
+// タイトルに含まれるとタスクの記法として解釈される記号
+const TOKEN_CHARS_RE = /[📅🛫⏳➕✅🔁⏰🔺⏫🔼🔽⏬]/gu;
+
+export interface ImportCandidate {
+    event: calendar_v3.Schema$Event;
+    lines: string[]; // lines[0] がタスク行、以降は説明の継続行
+}
+
+/**
+ * Google 側で直接作成された（管理印の無い）イベントをインボックスノートへタスクとして取り込み、
+ * obsidianTaskId などの管理印を付けて以後の同期対象にします。
+ */
+export class EventImporter {
+    private plugin: GoogleCalendarTasksSyncPlugin;
+
+    constructor(plugin: GoogleCalendarTasksSyncPlugin) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * 未管理イベントを取り込みます。
+     * 行の追記 → 管理印の付与の順に行い、付与に失敗したイベントの行は取り除く（重複作成を防ぐ）。
+     * @returns 取り込んだイベントの件数
+     */
+    async importUnmanaged(settings: GoogleCalendarTasksSyncSettings): Promise<number> {
+        const sourceCalendarId = (settings.importCalendarId || '').trim() || settings.calendarId;
+        const inboxPath = EventImporter.normalizeInboxPath(settings.importInboxPath);
+        const windowEnd = moment().add(settings.importWindowFutureDays ?? 30, 'days').endOf('day');
+        const timeMin = moment().subtract(settings.importWindowPastDays ?? 7, 'days').startOf('day').format();
+
+        const events = await backendFor(this.plugin, settings).fetchUnmanagedEvents(sourceCalendarId, timeMin, windowEnd.format());
+        const mapper = new GCalMapper(this.plugin.app, settings);
+        const candidates: ImportCandidate[] = [];
+        const adopted: { task: ObsidianTask; candidate: ImportCandidate; privateProps: { [key: string]: string } }[] = [];
+        const seenIds = new Set(Object.keys(settings.taskMap));
+        for (const ev of events) {
+            const lines = EventImporter.buildTaskLines(ev, windowEnd.format('YYYY-MM-DD'));
+            const task = lines ? this.plugin.taskParser.parseObsidianTask(lines[0], inboxPath, 0) : null;
+            if (!lines || !task) {
+                console.warn(`イベント "${ev.summary}" (${ev.id}) はタスク行に変換できないため取り込みません。`);
+                continue;
+            }
+            // 同じタイトル・日時のイベントは同じタスク ID になるため、2 件目以降は取り込まない
+            if (seenIds.has(task.id)) {
+                console.warn(`イベント "${ev.summary}" (${ev.id}) は既存のタスクと同じ ID になるため取り込みません。`);
+                continue;
+            }
+            seenIds.add(task.id);
+            if (lines.length > 1) task.extraDetail = lines.slice(1).map(l => l.trim()).join('\n');
+            const payload = mapper.mapObsidianTaskToGoogleEvent(task);
+            const candidate = { event: ev, lines };
+            candidates.push(candidate);
+            adopted.push({
+                task,
+                candidate,
+                privateProps: { ...(ev.extendedProperties?.private || {}), ...(payload.extendedProperties?.private || {}) },
+            });
+        }
+        if (candidates.length === 0) {
+            console.log('取り込む未管理イベントはありません。');
+            return 0;
+        }
+
+        const lineNumbers = await this.appendToInbox(inboxPath, candidates);
+        adopted.forEach((a, i) => { a.task.sourceLine = lineNumbers[i]; });
+
+        // 別カレンダーからの取り込みは同期対象カレンダーへ移動してから管理印を付ける
+        const failedIds = new Set<string>();
+        if (sourceCalendarId !== settings.calendarId) {
+            const moves: BatchRequestItem[] = adopted.map(a => ({
+                method: 'POST',
+                path: `/calendar/v3/calendars/${encodeURIComponent(sourceCalendarId)}/events/${encodeURIComponent(a.candidate.event.id!)}/move?destination=${encodeURIComponent(settings.calendarId)}`,
+                obsidianTaskId: a.task.id,
+                originalGcalId: a.candidate.event.id!,
+            }));
+            (await this.runBatches(moves)).forEach(id => failedIds.add(id));
+        }
+
+        const calendarPath = `/calendar/v3/calendars/${encodeURIComponent(settings.calendarId)}/events`;
+        const patchTargets = adopted.filter(a => !failedIds.has(a.candidate.event.id!));
+        const patches: BatchRequestItem[] = patchTargets.map(a => ({
+            method: 'PATCH',
+            path: `${calendarPath}/${encodeURIComponent(a.candidate.event.id!)}`,
+            body: { extendedProperties: { private: a.privateProps } },
+            obsidianTaskId: a.task.id,
+            operationType: 'patch',
+            originalGcalId: a.candidate.event.id!,
+        }));
+        (await this.runBatches(patches)).forEach(id => failedIds.add(id));
+
+        let importedCount = 0;
+        const rollback: ObsidianTask[] = [];
+        for (const a of adopted) {
+            if (failedIds.has(a.candidate.event.id!)) {
+                rollback.push(a.task);
+                continue;
+            }
+            settings.taskMap[a.task.id] = a.candidate.event.id!;
+            this.plugin.settings.taskMap[a.task.id] = a.candidate.event.id!;
+            importedCount++;
+        }
+        if (rollback.length > 0) {
+            console.warn(`${rollback.length} 件のイベントに管理印を付けられなかったため、追記した行を取り除きます。`);
+            await this.plugin.taskWriter.applyEdits(rollback.map(task => ({ task, reason: '取り込み失敗の取り消し', apply: () => [] })));
+        }
+        if (importedCount > 0) await this.plugin.saveData(this.plugin.settings);
+        console.log(`${importedCount} 件の未管理イベントを "${inboxPath}" に取り込みました。`);
+        return importedCount;
+    }
+
+    /** 50 件ずつバッチ送信し、失敗したイベント ID を返します（送信自体の失敗は全件失敗扱い） */
+    private async runBatches(requests: BatchRequestItem[]): Promise<string[]> {
+        const failed: string[] = [];
+        for (let i = 0; i < requests.length; i += 50) {
+            const chunk = requests.slice(i, i + 50);
+            try {
+                const results = await backendFor(this.plugin).executeBatchRequest(chunk);
+                chunk.forEach((req, k) => {
+                    const status = results[k]?.status ?? 0;
+                    if (status < 200 || status >= 300) failed.push(req.originalGcalId!);
+                });
+            } catch (e) {
+                console.error('取り込み中のバッチ送信に失敗しました', e);
+                failed.push(...chunk.map(req => req.originalGcalId!));
+            }
+        }
+        return failed;
+    }
+
+    /** インボックスノートの末尾へ追記し、各候補のタスク行の行番号を返します（ノートが無ければ作成） */
+    private async appendToInbox(path: string, candidates: ImportCandidate[]): Promise<number[]> {
+        const lineNumbers: number[] = [];
+        const build = (content: string): string => {
+            const prefix = content === '' || content.endsWith('\n') ? content : `${content}\n`;
+            let lineNumber = prefix === '' ? 0 : prefix.split('\n').length - 1;
+            lineNumbers.length = 0;
+            for (const candidate of candidates) {
+                lineNumbers.push(lineNumber);
+                lineNumber += candidate.lines.length;
+            }
+            return `${prefix}${candidates.flatMap(c => c.lines).join('\n')}\n`;
+        };
+
+        const vault = this.plugin.app.vault;
+        const existing = vault.getAbstractFileByPath(path);
+        if (existing instanceof TFile) {
+            await vault.process(existing, build);
+        } else {
+            const dir = path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+            if (dir && !vault.getAbstractFileByPath(dir)) await vault.createFolder(dir);
+            await vault.create(path, build(''));
+        }
+        return lineNumbers;
+    }
+
+    static normalizeInboxPath(path: string | undefined): string {
+        const p = (path || '').trim().replace(/^\/+/, '') || 'Google Calendar Inbox.md';
+        return p.toLowerCase().endsWith('.md') ? p : `${p}.md`;
+    }
+
+    /**
+     * イベントを Tasks 形式の行へ変換します（変換できなければ null）。
+     * 時間帯は日付トークンより前に置く（パーサが日付直後の時刻を日付の一部として読むため）。
+     * @param windowEnd 終わりの無い繰り返しの 📅 に使う取り込み期間の最終日
+     */
+    static buildTaskLines(ev: calendar_v3.Schema$Event, windowEnd: string): string[] | null {
+        const times = DateUtils.taskTimesFromEvent(ev, true);
+        if (!times) return null;
+
+        // このプラグインが送った状態（private の記号）があればチェックボックスと前置きを戻す
+        const symbol = ev.extendedProperties?.private?.['taskStatusSymbol'];
+        const checkbox = symbol && Array.from(symbol).length === 1 && symbol !== ']' ? symbol : ' ';
+        const title = checkbox !== ' ' ? TaskStatuses.stripPrefix(ev.summary || '') : (ev.summary || '');
+        const summary = title.replace(TOKEN_CHARS_RE, '').replace(/\s+/g, ' ').trim() || '無題のイベント';
+        const parts = [`- [${checkbox}] ${summary}`];
+        if (times.timeWindowStart && times.timeWindowEnd) parts.push(`⏰ ${times.timeWindowStart}~${times.timeWindowEnd}`);
+
+        let dueDate = times.dueDate;
+        const rrule = (ev.recurrence || []).find(r => /^RRULE:/i.test(r));
+        if (rrule) {
+            // 複数日にまたがる繰り返しはタスク行で表せない
+            if (times.startDate !== times.dueDate) return null;
+            const rec = EventImporter.recurrenceToken(rrule, ev, windowEnd);
+            if (!rec) return null;
+            parts.push(`🔁 ${rec.rule}`);
+            dueDate = rec.lastDate;
+        }
+        parts.push(`🛫 ${times.startDate}`, `📅 ${dueDate}`);
+
+        return [parts.join(' '), ...EventImporter.descriptionLines(ev.description).map(l => `    ${l}`)];
+    }
+
+    /**
+     * RRULE を 🔁 の値（パーサが読める英語表記）と最終回の日付へ変換します。
+     * COUNT/UNTIL はタスク側では 📅 で表すため取り除き、終わりの無い繰り返しは取り込み期間の最終日までとする。
+     * 英語表記で表せない規則（第 n 曜日、BYSETPOS など）は null。
+     */
+    private static recurrenceToken(rrule: string, ev: calendar_v3.Schema$Event, windowEnd: string): { rule: string; lastDate: string } | null {
+        const body = rrule.replace(/^RRULE:/i, '');
+        const params = new Map(body.split(';').map(p => {
+            const [k, v = ''] = p.split('=');
+            return [k.toUpperCase(), v.toUpperCase()] as const;
+        }));
+        const rule = EventImporter.describeRecurrence(params);
+        if (!rule) {
+            console.warn(`RRULE "${rrule}" はタスクの繰り返し表記に変換できません。`);
+            return null;
+        }
+        if (!params.has('COUNT') && !params.has('UNTIL')) return { rule, lastDate: windowEnd };
+        try {
+            // rrule は日時を UTC として扱うため、壁時計の値をそのまま UTC として渡す
+            const start = ev.start?.dateTime ? moment(ev.start.dateTime) : moment(ev.start?.date, 'YYYY-MM-DD');
+            const dtstart = new Date(Date.UTC(start.year(), start.month(), start.date(), start.hour(), start.minute()));
+            const occurrences = rrulestr(`RRULE:${body}`, { dtstart }).all((_d, i) => i < 1000);
+            if (occurrences.length === 0) return null;
+            return { rule, lastDate: moment.utc(occurrences[occurrences.length - 1]).format('YYYY-MM-DD') };
+        } catch (e) {
+            console.warn(`RRULE "${rrule}" を解釈できません。`, e);
+            return null;
+        }
+    }
+
+    private static describeRecurrence(params: Map<string, string>): string | null {
+        const units: { [freq: string]: string } = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' };
+        const dayNames: { [code: string]: string } = { MO: 'monday', TU: 'tuesday', WE: 'wednesday', TH: 'thursday', FR: 'friday', SA: 'saturday', SU: 'sunday' };
+        const freq = params.get('FREQ') || '';
+        const unit = units[freq];
+        if (!unit) return null;
+        const supported = new Set(['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'WKST', 'BYDAY', 'BYMONTHDAY']);
+        if ([...params.keys()].some(k => !supported.has(k))) return null;
+
+        const interval = parseInt(params.get('INTERVAL') || '1', 10);
+        if (!(interval >= 1)) return null;
+        let text = interval === 1 ? `every ${unit}` : `every ${interval} ${unit}s`;
+
+        const byDay = params.get('BYDAY');
+        if (byDay) {
+            const days = byDay.split(',');
+            if (freq !== 'WEEKLY' || days.some(d => !dayNames[d])) return null;
+            text += ` on ${days.map(d => dayNames[d]).join(', ')}`;
+        }
+        const byMonthDay = params.get('BYMONTHDAY');
+        if (byMonthDay) {
+            if (freq !== 'MONTHLY' || !/^\d{1,2}$/.test(byMonthDay)) return null;
+            text += ` on the ${parseInt(byMonthDay, 10)}th`;
+        }
+        return text;
+    }
+
+    /** 説明文をインデント継続行用に整形します（タスクの記法として読まれる行は除く） */
+    static descriptionLines(description: string | null | undefined): string[] {
+        if (!description) return [];
+        const text = description
+            .replace(/<br\s*\/?>/gi, '\n')
+            .replace(/<\/(p|div|li)>/gi, '\n')
+            .replace(/<[^>]+>/g, '')
+            .replace(/&nbsp;/g, ' ')
+            .replace(/&lt;/g, '<')
+            .replace(/&gt;/g, '>')
+            .replace(/&quot;/g, '"')
+            .replace(/&amp;/g, '&');
+        return text.split(/\r?\n/)
+            .map(l => l.trim())
+            .filter(l => l.length > 0 && !CONTROL_RE.test(l) && !SUBTASK_RE.test(l) && !/^(`{3,}|~{3,})/.test(l));
+    }
+}
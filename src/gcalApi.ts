@@ -4,6 +4,7 @@ import { randomBytes } from 'crypto';
 import GoogleCalendarTasksSyncPlugin from './main';
 import { GoogleCalendarTasksSyncSettings, BatchRequestItem, BatchResponseItem } from './types';
 import { isGaxiosError } from './utils';
+import { CalendarBackend } from './calendarBackend';
 import { GaxiosResponse } from 'gaxios';
 
 function normalizeResponseContentId(cid?: string): string | undefined {
@@ -17,7 +18,7 @@ function normalizeResponseContentId(cid?: string): string | undefined {
     return cid; // それ以外はそのまま返す（順序フォールバックが効く）
 }
 
-export class GCalApiService {
+export class GCalApiService implements CalendarBackend {
     private plugin: GoogleCalendarTasksSyncPlugin;
 
     constructor(plugin: GoogleCalendarTasksSyncPlugin) {
@@ -85,6 +86,60 @@ export class GCalApiService {
         }
     }
 
+    /**
+     * 振り分け先（既定以外）のカレンダーから管理対象イベントを全件取得します。
+     * syncToken は既定カレンダー用に 1 つだけ保持しているため、ここでは使わない。
+     */
+    async fetchManagedEvents(calendarId: string): Promise<calendar_v3.Schema$Event[]> {
+        if (!this.plugin.calendar) {
+            this.plugin.authService.initializeCalendarApi();
+            if (!this.plugin.calendar) {
+                throw new Error("Calendar API が初期化されていません。");
+            }
+        }
+        const params: calendar_v3.Params$Resource$Events$List = {
+            calendarId,
+            privateExtendedProperty: ["isGcalSync=true", "appId=obsidian-gcal-tasks"],
+            showDeleted: false,
+            maxResults: 2500,
+            singleEvents: false,
+            fields: 'items(id,summary,description,etag,status,updated,start,end,recurrence,reminders,extendedProperties,recurringEventId,originalStartTime),nextPageToken',
+        };
+        const { events } = await this.iteratePages(params, ` (${calendarId})`);
+        console.log(`カレンダー ${calendarId} から ${events.length} 件の GCal イベントを取得しました。`);
+        return events;
+    }
+
+    /**
+     * 指定カレンダー・期間のうち、このプラグインの管理印が無いイベントを取得します（取り込み用）。
+     * 繰り返しは親イベントのみを返し、個別に変更されたインスタンスや取り消し済みは除外します。
+     */
+    async fetchUnmanagedEvents(calendarId: string, timeMin: string, timeMax: string): Promise<calendar_v3.Schema$Event[]> {
+        if (!this.plugin.calendar) {
+            this.plugin.authService.initializeCalendarApi();
+            if (!this.plugin.calendar) {
+                throw new Error("Calendar API が初期化されていません。");
+            }
+        }
+        const params: calendar_v3.Params$Resource$Events$List = {
+            calendarId,
+            timeMin,
+            timeMax,
+            showDeleted: false,
+            maxResults: 2500,
+            singleEvents: false,
+            fields: 'items(id,summary,description,status,updated,start,end,recurrence,extendedProperties,recurringEventId),nextPageToken',
+        };
+        const { events } = await this.iteratePages(params, '(import)');
+        const unmanaged = events.filter(ev =>
+            ev.status !== 'cancelled' &&
+            !ev.recurringEventId &&
+            ev.extendedProperties?.private?.['isGcalSync'] !== 'true'
+        );
+        console.log(`取り込み候補: ${events.length} 件中 ${unmanaged.length} 件が未管理イベントです。`);
+        return unmanaged;
+    }
+
     // syncToken 条件の自己監査とリセット
     private async validateSignature(
         requestParams: calendar_v3.Params$Resource$Events$List & { quotaUser?: string },
@@ -237,8 +292,9 @@ export class GCalApiService {
      * 404/409/410 は item-level の警告として扱い、致命停止しません。
      */
     async executeBatchRequest(batchRequests: BatchRequestItem[]): Promise<BatchResponseItem[]> {
-        // 1) 認証チェックとトークンリフレッシュ（常時呼び出し）
-        const tokenRefreshed = await this.plugin.authService.ensureAccessToken();
+        // 1) 認証チェックとトークンリフレッシュ（常時呼び出し。サンドボックスは認証しない）
+        const sandbox = this.plugin.settings?.calendarBackend === 'sandbox';
+        const tokenRefreshed = sandbox || await this.plugin.authService.ensureAccessToken();
         if (!tokenRefreshed) {
             throw new Error("バッチリクエストを実行できません: 認証トークンを取得できませんでした。");
         }
@@ -296,8 +352,10 @@ export class GCalApiService {
         body += `--${boundary}--\r\n`;
 
         // OAuth クライアントから Authorization ヘッダーを取得（必要なら自動更新）
-        if (!this.plugin.oauth2Client) throw new Error('OAuth クライアント未初期化');
-        const authHeaders = await this.plugin.oauth2Client.getRequestHeaders();
+        if (!sandbox && !this.plugin.oauth2Client) throw new Error('OAuth クライアント未初期化');
+        const authHeaders = sandbox ? {} : await this.plugin.oauth2Client!.getRequestHeaders();
+        // サンドボックスでは同じリクエストをプラグイン内の代役へ渡す
+        const send = (params: RequestUrlParam) => sandbox ? this.plugin.sandboxCalendar.request(params) : requestUrl(params);
 
         const requestParams: RequestUrlParam = {
             url: batchUrl,
@@ -315,7 +373,7 @@ export class GCalApiService {
             const max = 4;
             for (let i = 0; i < max; i++) {
                 try {
-                    const res = await requestUrl(requestParams);
+                    const res = await send(requestParams);
                     const ct = res.headers['content-type'] || res.headers['Content-Type'] || '';
                     let reason = '';
                     let statusText = '';
@@ -361,7 +419,7 @@ export class GCalApiService {
                     throw e;
                 }
             }
-            return await requestUrl(requestParams);
+            return await send(requestParams);
         };
         try {
             console.log(`${batchRequests.length} 件の操作を含むバッチリクエストを送信中...`);
@@ -2,6 +2,7 @@ import { App } from 'obsidian';
 import moment from 'moment';
 import { ObsidianTask, GoogleCalendarEventInput, GoogleCalendarTasksSyncSettings } from './types';
 import { FingerprintUtils } from './commonUtils';
+import { TaskStatuses } from './taskStatus';
 import { rrulestr } from 'rrule';
 
 export class GCalMapper {
@@ -19,8 +20,10 @@ export class GCalMapper {
      * @returns {GoogleCalendarEventInput} Google Calendar API 用のイベントオブジェクト
      */
     mapObsidianTaskToGoogleEvent(task: ObsidianTask): GoogleCalendarEventInput {
+        // 状態はタイトルの前置き・色と、取り込み用に private へ記号ごと残す
+        const status = TaskStatuses.of(task, this.settings.taskStatuses);
         const event: GoogleCalendarEventInput = {
-            summary: task.summary || '無題のタスク',
+            summary: `${status.summaryPrefix || ''}${task.summary || '無題のタスク'}`,
             extendedProperties: {
                 private: {
                     obsidianTaskId: task.id,
@@ -28,12 +31,15 @@ export class GCalMapper {
                     appId: 'obsidian-gcal-tasks',
                     version: '1',
                     isCompleted: task.isCompleted ? 'true' : 'false',
+                    taskStatus: status.type,
+                    taskStatusSymbol: status.symbol,
                 }
             },
             description: this.buildEventDescription(task),
             // 完了＝キャンセルではない。イベント自体は confirmed を維持する。
             status: 'confirmed',
         };
+        if (status.colorId) event.colorId = status.colorId;
 
         // 開始日と期限日が存在する場合のみ時間を設定 (syncLogicでフィルタされるはず)
         if (task.startDate && task.dueDate) {
@@ -173,7 +179,11 @@ export class GCalMapper {
         const winStart = (task.timeWindowStart || '').trim();
         const winEnd = (task.timeWindowEnd || '').trim();
         const hasWindow = /^\d{1,2}:\d{2}$/.test(winStart) && /^(\d{1,2}:\d{2}|24:00)$/.test(winEnd);
-        const hasRecurrence = task.recurrenceRule && !task.isCompleted;
+        // ネイティブ繰り返しでは 🛫〜📅 は繰り返しの期間で、1 回分の長さは開始日の中で決める
+        // （完了にしても RRULE は外さず、マスターの完了印だけを更新する）
+        // when done の繰り返しは次の回が完了するまで決まらないので、1 回分のイベントとして送る
+        const nativeRecurrence = !!task.recurrenceRule && !task.recurrenceWhenDone && !!this.settings.nativeRecurrence;
+        const hasRecurrence = task.recurrenceRule && !task.recurrenceWhenDone && (!task.isCompleted || nativeRecurrence);
 
         const toMomentAt = (d: moment.Moment, hhmm: string): moment.Moment => {
             const [h, m] = hhmm.split(':').map(v => parseInt(v, 10));
@@ -207,11 +217,18 @@ export class GCalMapper {
 
             if (startIsDateTime || dueIsDateTime) {
                 // Timed event
+                const endMoment = nativeRecurrence
+                    ? startMoment.clone().hour(dueMoment.hour()).minute(dueMoment.minute()).second(0).millisecond(0)
+                    : dueMoment;
                 event.start = this.toEventDateTime(startMoment);
-                event.end = this.toEventDateTime(dueMoment);
-                if (dueMoment.isSameOrBefore(startMoment)) {
+                event.end = this.toEventDateTime(endMoment);
+                if (endMoment.isSameOrBefore(startMoment)) {
                     event.end = this.toEventDateTime(startMoment.clone().add(this.settings.defaultEventDurationMinutes, 'minutes'));
                 }
+            } else if (nativeRecurrence) {
+                // 終日の繰り返しは 1 日分
+                event.start = { date: startMoment.format('YYYY-MM-DD') };
+                event.end = { date: startMoment.clone().add(1, 'day').format('YYYY-MM-DD') };
             } else {
                 // All-day event
                 event.start = { date: startMoment.format('YYYY-MM-DD') };
@@ -268,8 +285,11 @@ export class GCalMapper {
                 // Final validation (dtstart is passed for proper validation)
                 rrulestr(normalized, { dtstart });
 
+                if (nativeRecurrence) normalized = this.normalizeUntil(normalized, !!event.start.dateTime);
+
                 // Only send RRULE (Google Calendar API uses start/end fields as DTSTART)
                 event.recurrence = [normalized];
+                if (task.skipDates?.length) event.recurrence.push(this.buildExdate(task.skipDates, event.start));
             } catch (e) {
                 console.warn(`Invalid RRULE (${normalized}). Skipping recurrence.`, e);
                 delete event.recurrence;
@@ -297,6 +317,28 @@ export class GCalMapper {
             event.recurrence);
     }
 
+    /**
+     * skip: の日付を EXDATE にします。値の型は DTSTART に合わせ、時刻付きなら開始時刻の回を除く。
+     */
+    private buildExdate(dates: string[], start: GoogleCalendarEventInput['start']): string {
+        const compact = (d: string) => d.replace(/-/g, '');
+        if (!start?.dateTime) return `EXDATE;VALUE=DATE:${dates.map(compact).join(',')}`;
+        const time = moment.parseZone(start.dateTime).format('[T]HHmmss');
+        return `EXDATE;TZID=${start.timeZone || 'UTC'}:${dates.map(d => `${compact(d)}${time}`).join(',')}`;
+    }
+
+    /**
+     * UNTIL の値の型を DTSTART に合わせます（RFC 5545）。
+     * 時刻付きの開始なら UNTIL はその日の終わりの UTC、終日の開始なら日付だけにする。
+     */
+    private normalizeUntil(rule: string, timed: boolean): string {
+        return rule.replace(/UNTIL=(\d{8})(T\d{6}Z?)?/, (whole, date: string, time?: string) => {
+            if (timed && !time) return `UNTIL=${moment(date, 'YYYYMMDD').endOf('day').utc().format('YYYYMMDD[T]HHmmss[Z]')}`;
+            if (!timed && time) return `UNTIL=${date}`;
+            return whole;
+        });
+    }
+
     public toEventDateTime(m: moment.Moment): { dateTime: string; timeZone: string } {
         // Always send local wall-clock without offset, plus explicit IANA timeZone.
         const dateTime = m.format('YYYY-MM-DDTHH:mm:ss');
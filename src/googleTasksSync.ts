@@ -0,0 +1,207 @@
+import moment from 'moment';
+import GoogleCalendarTasksSyncPlugin from './main';
+import { GoogleCalendarTasksSyncSettings, GoogleTask, GoogleTaskLink, ObsidianTask } from './types';
+import { TaskLineEdit, TaskWriter } from './taskWriter';
+
+export interface GoogleTasksTarget {
+    task: ObsidianTask;
+    listId: string;
+}
+
+export interface GoogleTasksSyncResult {
+    created: number;
+    updated: number;
+    deleted: number;
+    pulled: number;
+    errors: number;
+}
+
+/**
+ * タグや振り分けルールで Google Tasks に送るタスクを同期します。
+ * 対応表は googleTaskMap（カレンダーの taskMap とは別）に持ち、完了状態は前回同期時点の値をベースに双方向で反映する。
+ * 入れ子のタスク行は、同じファイル・同じリストの直近の浅いタスクを親（parent）にする。
+ */
+export class GoogleTasksSync {
+    private plugin: GoogleCalendarTasksSyncPlugin;
+
+    constructor(plugin: GoogleCalendarTasksSyncPlugin) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * allowDeletes=false（部分同期）のときは、今回対象にならなかった対応済みタスクを削除しない。
+     * 結果の対応表は plugin.settings.googleTaskMap に入れる（保存は呼び出し側）。
+     */
+    async sync(
+        targets: GoogleTasksTarget[],
+        settings: GoogleCalendarTasksSyncSettings,
+        lineEdits: TaskLineEdit[],
+        allowDeletes: boolean
+    ): Promise<GoogleTasksSyncResult> {
+        const result: GoogleTasksSyncResult = { created: 0, updated: 0, deleted: 0, pulled: 0, errors: 0 };
+        const links: { [obsidianTaskId: string]: GoogleTaskLink } = { ...(settings.googleTaskMap || {}) };
+        const api = this.plugin.gtasksApi;
+
+        const remote = new Map<string, Map<string, GoogleTask>>();
+        const listIds = new Set([...targets.map(t => t.listId), ...Object.values(links).map(l => l.listId)]);
+        for (const listId of listIds) {
+            remote.set(listId, new Map((await api.listTasks(listId)).map(t => [t.id!, t] as const)));
+        }
+
+        const ordered = GoogleTasksSync.ordered(targets);
+        const parents = GoogleTasksSync.resolveParents(ordered);
+        const vaultName = this.vaultName();
+        const seen = new Set<string>();
+
+        for (const { task, listId } of ordered) {
+            seen.add(task.id);
+            let link: GoogleTaskLink | undefined = links[task.id];
+            if (link && link.listId !== listId) {
+                // リストを跨ぐ移動は API に無いため、元のリストから消して作り直す
+                await this.deleteLinked(link, result);
+                delete links[task.id];
+                link = undefined;
+            }
+            const parentObsId = parents.get(task.id);
+            const parentId = parentObsId ? links[parentObsId]?.taskId ?? null : null;
+            const existing = link ? remote.get(listId)?.get(link.taskId) : undefined;
+
+            if (link && existing) {
+                const remoteDone = existing.status === 'completed';
+                if (remoteDone !== link.completed && task.isCompleted === link.completed) {
+                    // Google Tasks 側だけで完了状態が変わった → ノートへ反映
+                    const doneDate = (existing.completed ? moment(existing.completed) : moment()).format('YYYY-MM-DD');
+                    task.isCompleted = remoteDone;
+                    task.completionDate = remoteDone ? doneDate : null;
+                    lineEdits.push({
+                        task,
+                        reason: 'Google Tasks の完了状態を反映',
+                        apply: (block) => [remoteDone ? TaskWriter.markCompleted(block[0], doneDate) : TaskWriter.markIncomplete(block[0]), ...block.slice(1)],
+                    });
+                    result.pulled++;
+                }
+                const patch = GoogleTasksSync.diff(existing, GoogleTasksSync.toGoogleTask(task, vaultName));
+                if (patch) {
+                    const res = await api.patchTask(listId, link.taskId, patch);
+                    if (res.status >= 200 && res.status < 300) result.updated++;
+                    else this.logError('更新', task, res.status, result);
+                }
+                if ((existing.parent ?? null) !== parentId) {
+                    const res = await api.moveTask(listId, link.taskId, parentId);
+                    if (res.status < 200 || res.status >= 300) this.logError('親の付け替え', task, res.status, result);
+                }
+                links[task.id] = { listId, taskId: link.taskId, completed: task.isCompleted };
+                continue;
+            }
+
+            // 新規、または Google Tasks 側で削除済み（作り直す）。完了済みの新規タスクは送らない
+            if (!link && task.isCompleted) continue;
+            const res = await api.insertTask(listId, GoogleTasksSync.toGoogleTask(task, vaultName), parentId);
+            if (res.status >= 200 && res.status < 300 && res.body?.id) {
+                links[task.id] = { listId, taskId: res.body.id, completed: task.isCompleted };
+                result.created++;
+            } else {
+                delete links[task.id];
+                this.logError('作成', task, res.status, result);
+            }
+        }
+
+        if (allowDeletes) {
+            for (const [obsId, link] of Object.entries(links)) {
+                if (seen.has(obsId)) continue;
+                await this.deleteLinked(link, result);
+                delete links[obsId];
+            }
+        }
+
+        this.plugin.settings.googleTaskMap = links;
+        return result;
+    }
+
+    /** Google Tasks へ送る内容。due は日付だけが使われるので UTC の 0 時にする */
+    static toGoogleTask(task: ObsidianTask, vaultName?: string | null): GoogleTask {
+        const notes: string[] = [];
+        if (task.extraDetail?.trim()) notes.push(task.extraDetail.trim());
+        if (vaultName) {
+            const file = task.blockLink ? `${task.sourcePath}#${task.blockLink}` : task.sourcePath;
+            notes.push(`obsidian://open?vault=${encodeURIComponent(vaultName)}&file=${encodeURIComponent(file)}`);
+        }
+        const due = task.dueDate ?? task.scheduledDate;
+        const doneDate = task.completionDate ?? moment().format('YYYY-MM-DD');
+        return {
+            title: task.summary,
+            notes: notes.join('\n\n'),
+            due: due ? `${due.slice(0, 10)}T00:00:00.000Z` : null,
+            status: task.isCompleted ? 'completed' : 'needsAction',
+            completed: task.isCompleted ? `${doneDate.slice(0, 10)}T00:00:00.000Z` : null,
+        };
+    }
+
+    /** 変わったフィールドだけの PATCH 本文（変更が無ければ null） */
+    static diff(existing: GoogleTask, next: GoogleTask): GoogleTask | null {
+        const patch: GoogleTask = {};
+        if ((existing.title ?? '') !== (next.title ?? '')) patch.title = next.title;
+        if ((existing.notes ?? '') !== (next.notes ?? '')) patch.notes = next.notes;
+        if ((existing.due ?? '').slice(0, 10) !== (next.due ?? '').slice(0, 10)) patch.due = next.due;
+        if ((existing.status ?? 'needsAction') !== next.status) {
+            patch.status = next.status;
+            patch.completed = next.completed;
+        }
+        return Object.keys(patch).length > 0 ? patch : null;
+    }
+
+    /** ファイル・行の順（親が子より先に作られるように） */
+    private static ordered(targets: GoogleTasksTarget[]): GoogleTasksTarget[] {
+        return targets.slice().sort((a, b) =>
+            a.task.sourcePath === b.task.sourcePath
+                ? a.task.sourceLine - b.task.sourceLine
+                : a.task.sourcePath < b.task.sourcePath ? -1 : 1);
+    }
+
+    /** インデントから親タスクを求めます（同じファイル・同じリストのもののみ） */
+    static resolveParents(targets: GoogleTasksTarget[]): Map<string, string> {
+        const parents = new Map<string, string>();
+        let stack: { indent: number; target: GoogleTasksTarget }[] = [];
+        let path: string | null = null;
+        for (const target of GoogleTasksSync.ordered(targets)) {
+            if (target.task.sourcePath !== path) {
+                stack = [];
+                path = target.task.sourcePath;
+            }
+            const indent = GoogleTasksSync.indentOf(target.task.rawText);
+            while (stack.length > 0 && stack[stack.length - 1].indent >= indent) stack.pop();
+            const parent = stack[stack.length - 1]?.target;
+            if (parent && parent.listId === target.listId) parents.set(target.task.id, parent.task.id);
+            stack.push({ indent, target });
+        }
+        return parents;
+    }
+
+    private static indentOf(line: string): number {
+        const lead = line.match(/^[\t ]*/)?.[0] ?? '';
+        return lead.replace(/\t/g, '    ').length;
+    }
+
+    private async deleteLinked(link: GoogleTaskLink, result: GoogleTasksSyncResult): Promise<void> {
+        const res = await this.plugin.gtasksApi.deleteTask(link.listId, link.taskId);
+        // 親と一緒に消えた子や、既に削除済みのものは成功扱い
+        if ((res.status >= 200 && res.status < 300) || res.status === 404 || res.status === 410) result.deleted++;
+        else {
+            console.warn(`Google Tasks の削除に失敗: ${link.listId}/${link.taskId} (${res.status})`);
+            result.errors++;
+        }
+    }
+
+    private logError(operation: string, task: ObsidianTask, status: number, result: GoogleTasksSyncResult): void {
+        console.warn(`Google Tasks の${operation}に失敗: ${task.summary} (${task.sourcePath}:${task.sourceLine + 1}) → ${status}`);
+        result.errors++;
+    }
+
+    private vaultName(): string | null {
+        try {
+            return this.plugin.app.vault.getName();
+        } catch {
+            return null;
+        }
+    }
+}
@@ -0,0 +1,73 @@
+import { requestUrl } from 'obsidian';
+import GoogleCalendarTasksSyncPlugin from './main';
+import { GoogleTask } from './types';
+
+const TASKS_API = 'https://tasks.googleapis.com/tasks/v1';
+
+export interface GTasksResponse {
+    status: number;
+    body?: any;
+}
+
+/**
+ * Google Tasks API（REST）の薄いラッパー。Calendar と同じ OAuth クライアントの Authorization ヘッダーを使う。
+ * 個々の操作はステータスをそのまま返し、失敗の扱いは呼び出し側（GoogleTasksSync）が決める。
+ */
+export class GTasksApiService {
+    private plugin: GoogleCalendarTasksSyncPlugin;
+
+    constructor(plugin: GoogleCalendarTasksSyncPlugin) {
+        this.plugin = plugin;
+    }
+
+    /** リストのタスクを全件取得します（完了・非表示も含む。削除済みは含めない） */
+    async listTasks(listId: string): Promise<GoogleTask[]> {
+        const tasks: GoogleTask[] = [];
+        let pageToken: string | undefined;
+        do {
+            const query = `showCompleted=true&showHidden=true&maxResults=100${pageToken ? `&pageToken=${encodeURIComponent(pageToken)}` : ''}`;
+            const res = await this.request('GET', `/lists/${encodeURIComponent(listId)}/tasks?${query}`);
+            if (res.status < 200 || res.status >= 300) {
+                throw new Error(`Google Tasks の取得に失敗しました (${listId}): ${res.status} ${res.body?.error?.message ?? ''}`.trim());
+            }
+            tasks.push(...(res.body?.items ?? []));
+            pageToken = res.body?.nextPageToken;
+        } while (pageToken);
+        return tasks;
+    }
+
+    insertTask(listId: string, task: GoogleTask, parent?: string | null): Promise<GTasksResponse> {
+        return this.request('POST', `/lists/${encodeURIComponent(listId)}/tasks${parent ? `?parent=${encodeURIComponent(parent)}` : ''}`, task);
+    }
+
+    patchTask(listId: string, taskId: string, task: GoogleTask): Promise<GTasksResponse> {
+        return this.request('PATCH', `/lists/${encodeURIComponent(listId)}/tasks/${encodeURIComponent(taskId)}`, task);
+    }
+
+    deleteTask(listId: string, taskId: string): Promise<GTasksResponse> {
+        return this.request('DELETE', `/lists/${encodeURIComponent(listId)}/tasks/${encodeURIComponent(taskId)}`);
+    }
+
+    /** 親タスクを付け替えます（parent を省くと最上位へ） */
+    moveTask(listId: string, taskId: string, parent?: string | null): Promise<GTasksResponse> {
+        return this.request('POST', `/lists/${encodeURIComponent(listId)}/tasks/${encodeURIComponent(taskId)}/move${parent ? `?parent=${encodeURIComponent(parent)}` : ''}`);
+    }
+
+    private async request(method: string, path: string, body?: unknown): Promise<GTasksResponse> {
+        if (!this.plugin.oauth2Client) throw new Error('OAuth クライアント未初期化');
+        const authHeaders = await this.plugin.oauth2Client.getRequestHeaders();
+        const res = await requestUrl({
+            url: `${TASKS_API}${path}`,
+            method,
+            headers: {
+                ...authHeaders,
+                ...(body !== undefined ? { 'Content-Type': 'application/json; charset=UTF-8' } : {}),
+            },
+            body: body !== undefined ? JSON.stringify(body) : undefined,
+            throw: false,
+        });
+        let parsed: any;
+        try { parsed = res.text ? JSON.parse(res.text) : undefined; } catch { parsed = undefined; }
+        return { status: res.status, body: parsed };
+    }
+}
@@ -223,7 +223,8 @@ export class HttpServerManager {
                 await this.plugin.authService.handleOAuthCallback(params);
                 res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8', 'X-Content-Type-Options': 'nosniff' });
                 res.end(`<!DOCTYPE html><html><head><meta charset="utf-8"/><title>Auth Success</title></head><body>認証に成功しました。Obsidian に戻ってください。</body></html>`);
-                if (this.plugin.settings.autoStopOnSuccess) {
+                // .ics を配信しているあいだは止めない
+                if (this.plugin.settings.autoStopOnSuccess && !this.plugin.settings.icsServeFeed) {
                     setTimeout(() => this.stopServer().catch(()=>{}), 300);
                 }
             } catch (error: any) {
@@ -233,6 +234,8 @@ export class HttpServerManager {
                     .replace(/</g, '&lt;').replace(/>/g, '&gt;');
                 res.end(`<!DOCTYPE html><html><head><meta charset="utf-8"/><title>Auth Failed</title></head><body>認証に失敗しました: ${msg}</body></html>`);
             }
+        } else if (currentUrl.pathname === '/calendar.ics' && req.method === 'GET') {
+            await this.serveCalendarFeed(currentUrl, res);
         } else if (currentUrl.pathname === '/favicon.ico' && req.method === 'GET') {
              res.writeHead(204);
              res.end();
@@ -245,4 +248,30 @@ export class HttpServerManager {
             res.end('404 Not Found');
         }
     }
+
+    /**
+     * タスクの .ics を配信します（カレンダーアプリからの購読用）。
+     * 配信が無効、またはトークンが一致しない場合は存在しないものとして 404 を返す。
+     */
+    private async serveCalendarFeed(url: URL, res: http.ServerResponse): Promise<void> {
+        const exporter = this.plugin.icsExporter;
+        if (!this.plugin.settings.icsServeFeed || !exporter?.matchesToken(url.searchParams.get('token'))) {
+            res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' });
+            res.end('404 Not Found');
+            return;
+        }
+        try {
+            const ics = await exporter.feed();
+            res.writeHead(200, {
+                'Content-Type': 'text/calendar; charset=utf-8',
+                'Cache-Control': 'no-store',
+                'X-Content-Type-Options': 'nosniff',
+            });
+            res.end(ics);
+        } catch (error) {
+            console.error('.ics の配信中にエラー:', error);
+            res.writeHead(500, { 'Content-Type': 'text/plain; charset=utf-8' });
+            res.end('500 Internal Server Error');
+        }
+    }
 }
@@ -0,0 +1,364 @@
+import moment from 'moment';
+import { calendar_v3 } from 'googleapis';
+
+const PRODID = '-//obsidian-gcal-tasks//Obsidian Google Calendar Tasks Sync//EN';
+const EXTENDED_PROPERTY = 'X-OBSIDIAN-PROP'; // extendedProperties.private の 1 項目（X-KEY パラメータにキー名）
+const RECURRENCE_PROPERTIES = ['RRULE', 'EXRULE', 'RDATE', 'EXDATE'];
+
+/** VTODO として書き出す ToDo（日時は Calendar API のイベントと同じ形） */
+export interface TodoItem {
+    summary: string;
+    description?: string;
+    start?: calendar_v3.Schema$EventDateTime;
+    due?: calendar_v3.Schema$EventDateTime;
+    completed?: boolean;
+    completedAt?: string | null; // 完了日時（ISO 8601）
+    priority?: number; // 1（最高）〜 9（最低）
+}
+
+interface ContentLine {
+    name: string;
+    params: { [name: string]: string };
+    value: string;
+}
+
+/**
+ * Calendar API 形式のイベントと iCalendar（RFC 5545）の VEVENT を相互に変換します。
+ * 日時は UTC（…Z）で書き出し、読み込み時はローカルのオフセット付き文字列に戻す。
+ * 繰り返しは Calendar API の recurrence 行（RRULE / EXDATE など）をそのまま使う。
+ * 地域付きの繰り返しは BYDAY や EXDATE がその地域の壁時計で展開されるよう、開始・終了を TZID 付きで書き、VTIMEZONE を添える。
+ */
+export class ICalendar {
+    private static formatters = new Map<string, Intl.DateTimeFormat>(); // 地域ごとの書式（オフセットの計算用）
+
+    /** 1 件のイベントを VCALENDAR として書き出します */
+    static fromEvent(event: calendar_v3.Schema$Event, uid: string): string {
+        return ICalendar.wrap([ICalendar.vevent(event, uid)]);
+    }
+
+    /** VEVENT の並びを VCALENDAR で包みます */
+    static wrap(vevents: string[][], extraHeader: string[] = []): string {
+        return [
+            'BEGIN:VCALENDAR',
+            'VERSION:2.0',
+            `PRODID:${PRODID}`,
+            'CALSCALE:GREGORIAN',
+            ...extraHeader,
+            ...ICalendar.vtimezones(vevents.flat()),
+            ...vevents.flat(),
+            'END:VCALENDAR',
+        ].map(ICalendar.fold).join('\r\n') + '\r\n';
+    }
+
+    /** VEVENT の行（折り返し前）を作ります */
+    static vevent(event: calendar_v3.Schema$Event, uid: string): string[] {
+        const lines = [
+            'BEGIN:VEVENT',
+            `UID:${ICalendar.escape(uid)}`,
+            `DTSTAMP:${ICalendar.utc(moment())}`,
+        ];
+        if (event.updated) lines.push(`LAST-MODIFIED:${ICalendar.utc(moment(event.updated))}`);
+        if (event.summary) lines.push(`SUMMARY:${ICalendar.escape(event.summary)}`);
+        if (event.description) lines.push(`DESCRIPTION:${ICalendar.escape(event.description)}`);
+        const zone = (event.recurrence || []).length > 0 ? event.start?.timeZone ?? undefined : undefined;
+        const start = ICalendar.dateProperty('DTSTART', event.start, zone);
+        const end = ICalendar.dateProperty('DTEND', event.end, zone);
+        if (start) lines.push(start);
+        if (end) lines.push(end);
+        (event.recurrence || [])
+            .filter(line => RECURRENCE_PROPERTIES.includes(line.split(/[;:]/)[0].toUpperCase()))
+            .forEach(line => lines.push(line));
+        if (event.status === 'cancelled') lines.push('STATUS:CANCELLED');
+        for (const [key, value] of Object.entries(event.extendedProperties?.private || {})) {
+            if (value == null) continue;
+            lines.push(`${EXTENDED_PROPERTY};X-KEY=${ICalendar.paramValue(key)}:${ICalendar.escape(String(value))}`);
+        }
+        lines.push('END:VEVENT');
+        return lines;
+    }
+
+    /** VTODO の行（折り返し前）を作ります */
+    static vtodo(todo: TodoItem, uid: string): string[] {
+        const lines = [
+            'BEGIN:VTODO',
+            `UID:${ICalendar.escape(uid)}`,
+            `DTSTAMP:${ICalendar.utc(moment())}`,
+            `SUMMARY:${ICalendar.escape(todo.summary)}`,
+        ];
+        if (todo.description) lines.push(`DESCRIPTION:${ICalendar.escape(todo.description)}`);
+        const start = ICalendar.dateProperty('DTSTART', todo.start);
+        const due = ICalendar.dateProperty('DUE', todo.due);
+        if (start) lines.push(start);
+        if (due) lines.push(due);
+        if (todo.priority) lines.push(`PRIORITY:${todo.priority}`);
+        if (todo.completed) {
+            lines.push('STATUS:COMPLETED');
+            if (todo.completedAt) lines.push(`COMPLETED:${ICalendar.utc(moment(todo.completedAt))}`);
+        } else {
+            lines.push('STATUS:NEEDS-ACTION');
+        }
+        lines.push('END:VTODO');
+        return lines;
+    }
+
+    /**
+     * VCALENDAR の主となる VEVENT（RECURRENCE-ID の無いもの）をイベントにします。
+     * id は呼び出し側（リソース名など）で決める。VEVENT が無ければ null。
+     */
+    static toEvent(ics: string): calendar_v3.Schema$Event | null {
+        const vevents = ICalendar.components(ICalendar.parse(ics), 'VEVENT');
+        const master = vevents.find(lines => !lines.some(l => l.name === 'RECURRENCE-ID')) ?? vevents[0];
+        if (!master) return null;
+
+        const event: calendar_v3.Schema$Event = { status: 'confirmed' };
+        const privateProps: { [key: string]: string } = {};
+        const recurrence: string[] = [];
+        for (const line of master) {
+            switch (line.name) {
+                case 'UID': event.iCalUID = ICalendar.unescape(line.value); break;
+                case 'SUMMARY': event.summary = ICalendar.unescape(line.value); break;
+                case 'DESCRIPTION': event.description = ICalendar.unescape(line.value); break;
+                case 'DTSTART': event.start = ICalendar.parseDate(line); break;
+                case 'DTEND': event.end = ICalendar.parseDate(line); break;
+                case 'LAST-MODIFIED': event.updated = ICalendar.parseDateTime(line.value).toISOString(); break;
+                case 'STATUS': if (line.value.toUpperCase() === 'CANCELLED') event.status = 'cancelled'; break;
+                case EXTENDED_PROPERTY:
+                    if (line.params['X-KEY']) privateProps[line.params['X-KEY']] = ICalendar.unescape(line.value);
+                    break;
+                default:
+                    if (RECURRENCE_PROPERTIES.includes(line.name)) recurrence.push(ICalendar.serializeLine(line));
+            }
+        }
+        // DTEND が無い終日イベントは 1 日、時刻指定は 0 分とみなす
+        if (event.start && !event.end) {
+            event.end = event.start.date
+                ? { date: moment(event.start.date).add(1, 'day').format('YYYY-MM-DD') }
+                : { ...event.start };
+        }
+        if (recurrence.length > 0) event.recurrence = recurrence;
+        if (Object.keys(privateProps).length > 0) event.extendedProperties = { private: privateProps };
+        return event;
+    }
+
+    /** 行を解析します（折り返しの解除を含む） */
+    static parse(ics: string): ContentLine[] {
+        return ics
+            .replace(/\r?\n[ \t]/g, '')
+            .split(/\r?\n/)
+            .filter(l => l.trim() !== '')
+            .map(ICalendar.parseLine)
+            .filter((l): l is ContentLine => l !== null);
+    }
+
+    /** TEXT 値のエスケープ */
+    static escape(text: string): string {
+        return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+    }
+
+    static unescape(text: string): string {
+        return text.replace(/\\([\\;,nN])/g, (_, ch: string) => (ch === 'n' || ch === 'N' ? '\n' : ch));
+    }
+
+    /** 75 オクテットで折り返します（マルチバイト文字は分割しない） */
+    static fold(line: string): string {
+        if (Buffer.byteLength(line, 'utf8') <= 75) return line;
+        const parts: string[] = [];
+        let current = '';
+        let bytes = 0;
+        for (const ch of line) {
+            const size = Buffer.byteLength(ch, 'utf8');
+            // 継続行は先頭の空白 1 オクテットを含めて 75 に収める
+            if (bytes + size > (parts.length === 0 ? 75 : 74)) {
+                parts.push(current);
+                current = '';
+                bytes = 0;
+            }
+            current += ch;
+            bytes += size;
+        }
+        parts.push(current);
+        return parts.join('\r\n ');
+    }
+
+    private static components(lines: ContentLine[], name: string): ContentLine[][] {
+        const out: ContentLine[][] = [];
+        let current: ContentLine[] | null = null;
+        let depth = 0;
+        for (const line of lines) {
+            if (line.name === 'BEGIN' && line.value.toUpperCase() === name && !current) {
+                current = [];
+                depth = 0;
+                continue;
+            }
+            if (!current) continue;
+            if (line.name === 'BEGIN') depth++;
+            if (line.name === 'END') {
+                if (depth === 0 && line.value.toUpperCase() === name) {
+                    out.push(current);
+                    current = null;
+                    continue;
+                }
+                depth--;
+                continue;
+            }
+            // VALARM などの入れ子の中身は読まない
+            if (depth === 0) current.push(line);
+        }
+        return out;
+    }
+
+    private static parseLine(raw: string): ContentLine | null {
+        let i = 0;
+        let inQuote = false;
+        for (; i < raw.length; i++) {
+            const ch = raw[i];
+            if (ch === '"') inQuote = !inQuote;
+            else if (ch === ':' && !inQuote) break;
+        }
+        if (i >= raw.length) return null;
+        const [name, ...paramParts] = raw.slice(0, i).split(';');
+        const params: { [name: string]: string } = {};
+        for (const part of paramParts) {
+            const eq = part.indexOf('=');
+            if (eq < 0) continue;
+            params[part.slice(0, eq).toUpperCase()] = part.slice(eq + 1).replace(/^"|"$/g, '');
+        }
+        return { name: name.toUpperCase(), params, value: raw.slice(i + 1) };
+    }
+
+    private static serializeLine(line: ContentLine): string {
+        const params = Object.entries(line.params).map(([k, v]) => `;${k}=${ICalendar.paramValue(v)}`).join('');
+        return `${line.name}${params}:${line.value}`;
+    }
+
+    private static paramValue(value: string): string {
+        return /[;:,]/.test(value) ? `"${value.replace(/"/g, '')}"` : value;
+    }
+
+    /** zone を渡した場合はその地域の壁時計を TZID 付きで書く（不明な地域は UTC） */
+    private static dateProperty(name: string, value?: calendar_v3.Schema$EventDateTime, zone?: string): string | null {
+        if (value?.date) return `${name};VALUE=DATE:${value.date.replace(/-/g, '')}`;
+        if (!value?.dateTime) return null;
+        // オフセットの無い日時（GCalMapper の出力）は timeZone の壁時計として読む
+        const hasOffset = /(?:Z|[+-]\d{2}:?\d{2})$/i.test(value.dateTime);
+        const wall = moment(value.dateTime).format('YYYYMMDD[T]HHmmss');
+        const instant = hasOffset
+            ? moment.parseZone(value.dateTime).valueOf()
+            : ICalendar.parseDateTime(wall, value.timeZone ?? undefined).getTime();
+        if (zone) {
+            try {
+                const zoned = !hasOffset && value.timeZone === zone ? wall : ICalendar.wallClock(instant, zone);
+                return `${name};TZID=${ICalendar.paramValue(zone)}:${zoned}`;
+            } catch {
+                // 不明な地域は UTC で書く
+            }
+        }
+        return `${name}:${ICalendar.utc(moment(instant))}`;
+    }
+
+    /** UTC 時刻 at の、地域 tz での壁時計（YYYYMMDDTHHmmss） */
+    private static wallClock(at: number, tz: string): string {
+        return moment.utc(at + ICalendar.zoneOffset(at, tz)).format('YYYYMMDD[T]HHmmss');
+    }
+
+    /** VEVENT の行が参照する TZID ごとの VTIMEZONE（規則は最初の参照がある年の切り替わりから組み立てる） */
+    private static vtimezones(lines: string[]): string[] {
+        const years = new Map<string, number>();
+        for (const line of lines.map(ICalendar.parseLine)) {
+            const tz = line?.params['TZID'];
+            if (tz && !years.has(tz)) years.set(tz, Number(line!.value.slice(0, 4)) || new Date().getFullYear());
+        }
+        return Array.from(years).flatMap(([tz, year]) => ICalendar.vtimezone(tz, year));
+    }
+
+    /**
+     * 地域 tz の VTIMEZONE を作ります。year の中の切り替わりを探し、同じ月の同じ週の曜日で毎年繰り返す規則にする。
+     * 切り替わりの無い地域は固定のオフセット 1 つ。不明な地域は何も返さない。
+     */
+    private static vtimezone(tz: string, year: number): string[] {
+        const offset = (at: number) => Math.round(ICalendar.zoneOffset(at, tz) / 60000);
+        const format = (minutes: number) => {
+            const abs = Math.abs(minutes);
+            return `${minutes < 0 ? '-' : '+'}${String(Math.floor(abs / 60)).padStart(2, '0')}${String(abs % 60).padStart(2, '0')}`;
+        };
+        const DAY = 86400000;
+        const begin = Date.UTC(year, 0, 1);
+        const lines = ['BEGIN:VTIMEZONE', `TZID:${tz}`];
+        try {
+            let prev = offset(begin);
+            const first = prev;
+            for (let at = begin + DAY; at <= Date.UTC(year + 1, 0, 1); at += DAY) {
+                const next = offset(at);
+                if (next === prev) continue;
+                // 1 日の中を分単位まで絞り込む
+                let lo = at - DAY, hi = at;
+                while (hi - lo > 60000) {
+                    const mid = lo + Math.floor((hi - lo) / 120000) * 60000;
+                    if (offset(mid) === prev) lo = mid; else hi = mid;
+                }
+                const local = moment.utc(hi + prev * 60000);
+                const nth = local.date() + 7 > local.daysInMonth() ? -1 : Math.ceil(local.date() / 7);
+                const byDay = `${nth}${['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'][local.day()]}`;
+                const kind = next > prev ? 'DAYLIGHT' : 'STANDARD';
+                lines.push(
+                    `BEGIN:${kind}`, `DTSTART:${local.format('YYYYMMDD[T]HHmmss')}`,
+                    `RRULE:FREQ=YEARLY;BYMONTH=${local.month() + 1};BYDAY=${byDay}`,
+                    `TZOFFSETFROM:${format(prev)}`, `TZOFFSETTO:${format(next)}`, `END:${kind}`,
+                );
+                prev = next;
+            }
+            if (lines.length === 2) {
+                lines.push('BEGIN:STANDARD', 'DTSTART:19700101T000000', `TZOFFSETFROM:${format(first)}`, `TZOFFSETTO:${format(first)}`, 'END:STANDARD');
+            }
+        } catch {
+            return [];
+        }
+        lines.push('END:VTIMEZONE');
+        return lines;
+    }
+
+    private static parseDate(line: ContentLine): calendar_v3.Schema$EventDateTime {
+        if (line.params['VALUE'] === 'DATE' || /^\d{8}$/.test(line.value)) {
+            return { date: `${line.value.slice(0, 4)}-${line.value.slice(4, 6)}-${line.value.slice(6, 8)}` };
+        }
+        const tz = line.params['TZID'];
+        const instant = ICalendar.parseDateTime(line.value, tz);
+        return { dateTime: moment(instant).format('YYYY-MM-DDTHH:mm:ssZ'), ...(tz ? { timeZone: tz } : {}) };
+    }
+
+    /** DATE-TIME 値を解釈します（Z 付きは UTC、TZID 付きはその地域の壁時計、どちらも無ければローカル） */
+    private static parseDateTime(value: string, tz?: string): Date {
+        const m = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/);
+        if (!m) return new Date(value);
+        const [y, mo, d, h, mi, s] = m.slice(1, 7).map(Number);
+        const wall = Date.UTC(y, mo - 1, d, h, mi, s);
+        if (m[7] === 'Z') return new Date(wall);
+        if (tz) {
+            try {
+                return new Date(wall - ICalendar.zoneOffset(wall, tz));
+            } catch {
+                // 不明な TZID はローカル扱い
+            }
+        }
+        return new Date(y, mo - 1, d, h, mi, s);
+    }
+
+    /** 地域 tz の、UTC 時刻 at における UTC からのずれ（ミリ秒） */
+    private static zoneOffset(at: number, tz: string): number {
+        let formatter = ICalendar.formatters.get(tz);
+        if (!formatter) {
+            formatter = new Intl.DateTimeFormat('en-US', {
+                timeZone: tz, hourCycle: 'h23',
+                year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit',
+            });
+            ICalendar.formatters.set(tz, formatter);
+        }
+        const parts = formatter.formatToParts(new Date(at));
+        const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+        return Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second')) - at;
+    }
+
+    private static utc(m: moment.Moment): string {
+        return m.clone().utc().format('YYYYMMDD[T]HHmmss[Z]');
+    }
+}
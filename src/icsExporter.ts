@@ -0,0 +1,127 @@
+import { TFile } from 'obsidian';
+import moment from 'moment';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import GoogleCalendarTasksSyncPlugin from './main';
+import { GCalMapper } from './gcalMapper';
+import { TaskStatuses } from './taskStatus';
+import { TaskFilter } from './taskFilter';
+import { ICalendar, TodoItem } from './icalendar';
+import { GoogleCalendarTasksSyncSettings, ObsidianTask } from './types';
+
+const CALENDAR_NAME = 'Obsidian Tasks';
+const UID_DOMAIN = 'obsidian-gcal-tasks';
+const PRIORITIES: { [key: string]: number } = { highest: 1, high: 3, medium: 5, low: 7, lowest: 9 };
+
+/**
+ * タスクを iCalendar ファイルとして書き出します（OAuth を使えない環境向けの読み取り専用の同期先）。
+ * 開始日・期限日のあるタスクは GCalMapper と同じ変換で VEVENT に、日付の無いタスクは VTODO にする。
+ */
+export class IcsExporter {
+    private plugin: GoogleCalendarTasksSyncPlugin;
+
+    constructor(plugin: GoogleCalendarTasksSyncPlugin) {
+        this.plugin = plugin;
+    }
+
+    isEnabled(settings: GoogleCalendarTasksSyncSettings = this.plugin.settings): boolean {
+        return !!settings.icsExportPath?.trim();
+    }
+
+    /**
+     * 現在のタスクを設定のパスへ書き出します。
+     * 内容が変わっていなければ（DTSTAMP を除いて比較）書き込まない。
+     * @returns 書き出し先のパス
+     */
+    async exportToVault(settings: GoogleCalendarTasksSyncSettings = this.plugin.settings): Promise<string> {
+        const path = IcsExporter.normalizePath(settings.icsExportPath);
+        const ics = this.build(await this.tasks(settings), settings);
+
+        const vault = this.plugin.app.vault;
+        const existing = vault.getAbstractFileByPath(path);
+        if (existing instanceof TFile) {
+            if (IcsExporter.withoutStamps(await vault.read(existing)) !== IcsExporter.withoutStamps(ics)) {
+                await vault.modify(existing, ics);
+            }
+        } else {
+            const dir = path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+            if (dir && !vault.getAbstractFileByPath(dir)) await vault.createFolder(dir);
+            await vault.create(path, ics);
+        }
+        return path;
+    }
+
+    /** ローカルサーバーで配信する内容（リクエストのたびに組み立てる） */
+    async feed(): Promise<string> {
+        return this.build(await this.tasks(this.plugin.settings), this.plugin.settings);
+    }
+
+    /** 同期と同じ絞り込み（対象/除外ルール・グローバルフィルタ）を通したタスク */
+    private async tasks(settings: GoogleCalendarTasksSyncSettings): Promise<ObsidianTask[]> {
+        const filter = await TaskFilter.create(this.plugin.app, settings);
+        return filter.apply(TaskStatuses.apply(await this.plugin.taskParser.getObsidianTasks(), settings.taskStatuses));
+    }
+
+    /** タスクの一覧から VCALENDAR を組み立てます */
+    build(tasks: ObsidianTask[], settings: GoogleCalendarTasksSyncSettings): string {
+        const mapper = new GCalMapper(this.plugin.app, settings);
+        const includeTodos = settings.icsIncludeTodos ?? true;
+        const components: string[][] = [];
+        for (const task of TaskStatuses.apply(tasks, settings.taskStatuses)) {
+            if (task.isCancelled || task.statusType === 'deferred') continue;
+            const uid = IcsExporter.uid(task);
+            if (task.startDate && task.dueDate) {
+                const event = mapper.mapObsidianTaskToGoogleEvent(task);
+                // 管理用の印は購読側には不要なので、タスク ID だけ残す
+                event.extendedProperties = { private: { obsidianTaskId: task.id } };
+                components.push(ICalendar.vevent(event, uid));
+            } else if (includeTodos) {
+                components.push(ICalendar.vtodo(IcsExporter.toTodo(task), uid));
+            }
+        }
+        const ttl = Math.max(1, settings.syncIntervalMinutes || 15);
+        return ICalendar.wrap(components, [`X-WR-CALNAME:${CALENDAR_NAME}`, `X-PUBLISHED-TTL:PT${ttl}M`]);
+    }
+
+    /** 配信 URL のトークンを照合します（未設定なら常に不一致） */
+    matchesToken(token: string | null, settings: GoogleCalendarTasksSyncSettings = this.plugin.settings): boolean {
+        const expected = settings.icsFeedToken;
+        if (!expected || !token) return false;
+        const a = Buffer.from(expected);
+        const b = Buffer.from(token);
+        return a.length === b.length && timingSafeEqual(a, b);
+    }
+
+    static newToken(): string {
+        return randomBytes(24).toString('hex');
+    }
+
+    static normalizePath(path: string | undefined): string {
+        const p = (path || '').trim().replace(/^\/+/, '') || 'Obsidian Tasks.ics';
+        return p.toLowerCase().endsWith('.ics') ? p : `${p}.ics`;
+    }
+
+    /** タスク ID から決まる UID（書き出しのたびに同じ値になる） */
+    private static uid(task: ObsidianTask): string {
+        return `${createHash('sha1').update(task.id).digest('hex').slice(0, 20)}@${UID_DOMAIN}`;
+    }
+
+    private static toTodo(task: ObsidianTask): TodoItem {
+        const dateOf = (value: string | null) => {
+            if (!value) return undefined;
+            return /^\d{4}-\d{2}-\d{2}$/.test(value) ? { date: value } : { dateTime: moment(value).format('YYYY-MM-DDTHH:mm:ss') };
+        };
+        return {
+            summary: task.summary || '無題のタスク',
+            description: task.extraDetail || undefined,
+            start: dateOf(task.startDate),
+            due: dateOf(task.dueDate),
+            completed: task.isCompleted,
+            completedAt: task.completionDate ? moment(task.completionDate).toISOString() : null,
+            priority: task.priority ? PRIORITIES[task.priority] : undefined,
+        };
+    }
+
+    private static withoutStamps(ics: string): string {
+        return ics.replace(/^DTSTAMP:.*\r?\n/gm, '');
+    }
+}
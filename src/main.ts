@@ -5,13 +5,27 @@ import { calendar_v3 } from 'googleapis';
 import * as net from 'net';
 
 // モジュール化されたコンポーネントをインポート
+import { Credentials } from 'google-auth-library';
 import { GoogleCalendarTasksSyncSettings } from './types';
 import { DEFAULT_SETTINGS, GoogleCalendarSyncSettingTab } from './settings';
 import { AuthService } from './auth';
+import { AccountManager } from './accounts';
 import { HttpServerManager } from './httpServer';
 import { TaskParser } from './taskParser';
+import { TaskWriter } from './taskWriter';
+import { ConflictQueue } from './conflictQueue';
+import { SyncJournal } from './syncJournal';
+import { TaskCache } from './taskCache';
+import { ConflictQueueView, CONFLICT_VIEW_TYPE } from './conflictView';
+import { EventImporter } from './eventImporter';
+import { IcsExporter } from './icsExporter';
+import { SyncPreviewModal } from './syncPreviewModal';
 import { GCalMapper } from './gcalMapper';
 import { GCalApiService } from './gcalApi';
+import { GTasksApiService } from './gtasksApi';
+import { CalDavBackend } from './caldavBackend';
+import { SandboxCalendar } from './sandboxCalendar';
+import { GoogleTasksSync } from './googleTasksSync';
 import { SyncLogic } from './syncLogic';
 import { validateMoment } from './utils'; // ユーティリティ関数をインポート
 import { encryptWithPassphrase, decryptWithPassphrase, obfuscateToBase64, deobfuscateFromBase64, deobfuscateLegacyFromBase64 } from './security';
@@ -24,20 +38,44 @@ export default class GoogleCalendarTasksSyncPlugin extends Plugin {
 	syncIntervalId: number | null = null;
 	httpServerManager: HttpServerManager;
 	authService: AuthService;
+	accounts: AccountManager;
 	taskParser: TaskParser;
+	taskCache: TaskCache;
+	taskWriter: TaskWriter;
+	conflictQueue: ConflictQueue;
+	syncJournal: SyncJournal;
+	eventImporter: EventImporter;
+	icsExporter: IcsExporter;
 	gcalMapper: GCalMapper;
 	gcalApi: GCalApiService;
+	caldavBackend: CalDavBackend;
+	sandboxCalendar: SandboxCalendar;
+	gtasksApi: GTasksApiService;
+	googleTasksSync: GoogleTasksSync;
 	syncLogic: SyncLogic;
 	private passphraseCache: string | null = null;
 	private isSyncing: boolean = false;
+	private changedPaths = new Set<string>(); // 編集時同期の待ち行列
+	private changeSyncTimer: number | null = null;
 
 	constructor(app: App, manifest: any) {
         super(app, manifest);
         // 設定より先にインスタンス化が必要なものを初期化
         this.httpServerManager = new HttpServerManager(this);
         this.authService = new AuthService(this);
-        this.taskParser = new TaskParser(this.app);
+        this.accounts = new AccountManager(this);
+        this.taskCache = new TaskCache(this.app, manifest.dir ?? `${this.app.vault.configDir}/plugins/${manifest.id}`);
+        this.taskParser = new TaskParser(this.app, this.taskCache);
+        this.taskWriter = new TaskWriter(this.app);
+        this.conflictQueue = new ConflictQueue(this.app, manifest.dir ?? `${this.app.vault.configDir}/plugins/${manifest.id}`);
+        this.syncJournal = new SyncJournal(this.app, manifest.dir ?? `${this.app.vault.configDir}/plugins/${manifest.id}`);
         this.gcalApi = new GCalApiService(this);
+        this.caldavBackend = new CalDavBackend(this);
+        this.sandboxCalendar = new SandboxCalendar(this.app, manifest.dir ?? `${this.app.vault.configDir}/plugins/${manifest.id}`);
+        this.gtasksApi = new GTasksApiService(this);
+        this.googleTasksSync = new GoogleTasksSync(this);
+        this.eventImporter = new EventImporter(this);
+        this.icsExporter = new IcsExporter(this);
         // 設定に依存するものは loadSettings 後に初期化
         // this.gcalMapper と this.syncLogic は settings が必要
     }
@@ -53,6 +91,9 @@ export default class GoogleCalendarTasksSyncPlugin extends Plugin {
 
                 this.initializeOAuth();
                 await this.startHttpServer();
+                this.registerView(CONFLICT_VIEW_TYPE, (leaf) => new ConflictQueueView(leaf, this));
+                this.registerTaskCacheEvents();
+                this.registerChangeSyncEvents();
                 this.registerCommands();
                 this.addSettingTab(new GoogleCalendarSyncSettingTab(this.app, this));
                 this.setupAutoSync();
@@ -76,6 +117,75 @@ export default class GoogleCalendarTasksSyncPlugin extends Plugin {
                 this.httpServerManager.startServer();
         }
 
+        // 変更・改名・削除されたファイルだけを次回の同期で解析し直す
+        private registerTaskCacheEvents(): void {
+                this.registerEvent(this.app.vault.on('modify', (file) => this.taskCache.invalidate(file.path)));
+                this.registerEvent(this.app.vault.on('delete', (file) => this.taskCache.invalidate(file.path)));
+                this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+                        this.taskCache.invalidate(oldPath);
+                        this.taskCache.invalidate(file.path);
+                }));
+        }
+
+        // タスクを含むファイルの編集を、メタデータの更新後に拾って部分同期を予約する
+        private registerChangeSyncEvents(): void {
+                this.registerEvent(this.app.metadataCache.on('changed', (file, _data, cache) => {
+                        if (!this.settings.syncOnChange) return;
+                        if (!(cache.listItems || []).some(item => item.task !== undefined)) return;
+                        this.queueChangeSync(file.path);
+                }));
+        }
+
+        /** 編集が止まってから設定秒数後に、溜まったファイルだけを部分同期する */
+        private queueChangeSync(path: string): void {
+                this.changedPaths.add(path);
+                this.scheduleChangeSync();
+        }
+
+        private scheduleChangeSync(): void {
+                if (this.changeSyncTimer !== null) window.clearTimeout(this.changeSyncTimer);
+                const delayMillis = Math.max(1, this.settings.syncOnChangeDelaySeconds ?? DEFAULT_SETTINGS.syncOnChangeDelaySeconds!) * 1000;
+                this.changeSyncTimer = window.setTimeout(() => {
+                        this.changeSyncTimer = null;
+                        void this.runChangeSync();
+                }, delayMillis);
+        }
+
+        private async runChangeSync(): Promise<void> {
+                if (!this.settings.syncOnChange || this.changedPaths.size === 0) {
+                        this.changedPaths.clear();
+                        return;
+                }
+                if (this.isSyncing) {
+                        // 実行中の同期が終わってから改めて送る（自身の書き戻しによる変更もここに入る）
+                        this.scheduleChangeSync();
+                        return;
+                }
+                if (!this.isBackendConfigured() && this.icsExporter.isEnabled()) {
+                        // 同期先が無くても .ics の書き出しだけは行う
+                        this.changedPaths.clear();
+                        await this.triggerIcsExport(false);
+                        return;
+                }
+                if (!this.isBackendConfigured() || (this.usesGoogleAuth() && !await this.authService.ensureAccessToken())) {
+                        // 待ち行列に残しても再試行の予約が無いため、次の通常の同期（全ファイルが対象）に任せる
+                        console.warn('編集時同期スキップ: 未認証またはトークン取得失敗');
+                        this.changedPaths.clear();
+                        return;
+                }
+                const paths = Array.from(this.changedPaths);
+                this.changedPaths.clear();
+                console.log(`編集時同期: ${paths.length} ファイル`);
+                // FIX: 設定のスナップショットを渡して競合状態を防止
+                await this.syncLogic.runSync(JSON.parse(JSON.stringify(this.settings)), { paths });
+        }
+
+        private clearChangeSync(): void {
+                if (this.changeSyncTimer !== null) window.clearTimeout(this.changeSyncTimer);
+                this.changeSyncTimer = null;
+                this.changedPaths.clear();
+        }
+
         private registerCommands(): void {
                 this.addCommand({
                         id: 'authenticate-with-google',
@@ -89,6 +199,12 @@ export default class GoogleCalendarTasksSyncPlugin extends Plugin {
                         callback: async () => this.triggerSync(),
                 });
 
+                this.addCommand({
+                        id: 'preview-sync',
+                        name: '同期内容をプレビューしてから実行する',
+                        callback: async () => this.triggerPreviewSync(),
+                });
+
                 // 重複整理（ドライラン）
                 this.addCommand({
                         id: 'dedupe-cleanup-dry-run',
@@ -110,11 +226,45 @@ export default class GoogleCalendarTasksSyncPlugin extends Plugin {
                                 await this.syncLogic.runDedupeCleanup(false);
                         }
                 });
+
+                this.addCommand({
+                        id: 'import-unmanaged-events',
+                        name: '管理外の Google イベントを取り込む',
+                        callback: async () => this.triggerImport(),
+                });
+
+                this.addCommand({
+                        id: 'export-ics',
+                        name: 'タスクを .ics ファイルに書き出す',
+                        callback: async () => this.triggerIcsExport(),
+                });
+
+                this.addCommand({
+                        id: 'undo-last-sync',
+                        name: '直前の同期を取り消す',
+                        callback: async () => this.triggerUndoLastSync(),
+                });
+
+                this.addCommand({
+                        id: 'open-conflict-queue',
+                        name: '同期の競合キューを開く',
+                        callback: async () => this.activateConflictView(),
+                });
+
+                this.addCommand({
+                        id: 'explain-task-sync',
+                        name: 'カーソル行のタスクが同期される理由を表示',
+                        editorCallback: async (editor, ctx) => {
+                                if (!ctx.file) return;
+                                await this.explainTaskSync(editor.getValue(), ctx.file.path, editor.getCursor().line);
+                        },
+                });
         }
 
 	async onunload() {
 		console.log('Google Calendar Sync プラグインをアンロード中');
 		this.clearAutoSync();
+		this.clearChangeSync();
 		await this.httpServerManager.stopServer();
 		console.log('Google Calendar Sync プラグインがアンロードされました。');
 	}
@@ -125,6 +275,9 @@ export default class GoogleCalendarTasksSyncPlugin extends Plugin {
 		if (!this.settings.taskMap || typeof this.settings.taskMap !== 'object') {
 			this.settings.taskMap = {};
 		}
+		if (!this.settings.syncBase || typeof this.settings.syncBase !== 'object') {
+			this.settings.syncBase = {};
+		}
 		this.settings.useLoopbackServer = true; // 強制
 		if (typeof this.settings.loopbackPort !== 'number' || !Number.isInteger(this.settings.loopbackPort) || this.settings.loopbackPort < 1024 || this.settings.loopbackPort > 65535) {
 			console.warn(`無効なループバックポート "${this.settings.loopbackPort}"。デフォルト ${DEFAULT_SETTINGS.loopbackPort} にリセット。`);
@@ -144,78 +297,102 @@ export default class GoogleCalendarTasksSyncPlugin extends Plugin {
         }
 
         // 暗号化/難読化トークン（refresh_tokenのみ）の復号
+        if (this.settings.tokensEncrypted && !this.settings.tokens?.refresh_token) {
+            this.settings.tokens = await this.decryptTokens(this.settings.tokensEncrypted);
+            // レガシー形式は新形式へ再保存
+            if (this.settings.tokens && this.settings.tokensEncrypted.startsWith('obf:')) {
+                try { await this.persistTokens(this.settings.tokens); } catch {}
+            }
+        }
+        if (!Array.isArray(this.settings.accounts)) this.settings.accounts = [];
+
+        // syncLogic はコンストラクタで plugin インスタンスを受け取るだけなので再インスタンス化不要
+	}
+
+    /** 保存形式（難読化 / AES-GCM / レガシー）のトークンから refresh_token を取り出します。復号できなければ null */
+    async decryptTokens(encrypted: string): Promise<Credentials | null> {
         try {
-            if (this.settings.tokensEncrypted && !this.settings.tokens?.refresh_token) {
-                let json: string | null = null;
-                if (this.settings.tokensEncrypted.startsWith('aesgcm:')) {
-                    const pass = this.passphraseCache || this.settings.encryptionPassphrase || null;
-                    if (pass) {
-                        const inner = await decryptWithPassphrase(this.settings.tokensEncrypted, pass);
-                        json = deobfuscateFromBase64(inner, this.settings.obfuscationSalt!);
-                    } else {
-                        console.warn('暗号化トークンが存在しますが、パスフレーズが未設定のため復号できません。');
-                        new Notice('暗号化されたトークンを復号できません。設定でパスフレーズを入力し、再試行してください。', 10000);
-                    }
-                } else if (this.settings.tokensEncrypted.startsWith('obf1:')) {
-                    json = deobfuscateFromBase64(this.settings.tokensEncrypted, this.settings.obfuscationSalt!);
-                } else if (this.settings.tokensEncrypted.startsWith('obf:')) {
-                    // レガシー形式: 旧XORで復号 → 新形式へ再保存
-                    json = deobfuscateLegacyFromBase64(this.settings.tokensEncrypted, this.settings.obfuscationSalt || '');
-                    try { const { refresh_token } = JSON.parse(json); if (refresh_token) await this.persistTokens({ refresh_token }); } catch {}
-                }
-                if (json) {
-                    const { refresh_token } = JSON.parse(json);
-                    if (refresh_token) this.settings.tokens = { refresh_token } as any;
+            let json: string | null = null;
+            if (encrypted.startsWith('aesgcm:')) {
+                const pass = this.passphraseCache || this.settings.encryptionPassphrase || null;
+                if (pass) {
+                    const inner = await decryptWithPassphrase(encrypted, pass);
+                    json = deobfuscateFromBase64(inner, this.settings.obfuscationSalt!);
+                } else {
+                    console.warn('暗号化トークンが存在しますが、パスフレーズが未設定のため復号できません。');
+                    new Notice('暗号化されたトークンを復号できません。設定でパスフレーズを入力し、再試行してください。', 10000);
                 }
+            } else if (encrypted.startsWith('obf1:')) {
+                json = deobfuscateFromBase64(encrypted, this.settings.obfuscationSalt!);
+            } else if (encrypted.startsWith('obf:')) {
+                // レガシー形式: 旧XORで復号
+                json = deobfuscateLegacyFromBase64(encrypted, this.settings.obfuscationSalt || '');
+            }
+            if (json) {
+                const { refresh_token } = JSON.parse(json);
+                if (refresh_token) return { refresh_token };
             }
         } catch (e) {
             console.error('暗号化トークンの復号に失敗:', e);
         }
-
-        // syncLogic はコンストラクタで plugin インスタンスを受け取るだけなので再インスタンス化不要
-	}
+        return null;
+    }
 
 	// saveData をオーバーライドし、平文トークンをディスクに書き込まない
 	async saveData(data: any): Promise<void> {
-		const clone = JSON.parse(JSON.stringify(data ?? {}));
+		// アカウント切り替え中は、展開中の値をプロファイル側へ戻した形で保存する
+		const clone = JSON.parse(JSON.stringify(this.accounts.toPersisted(data ?? {})));
 		if (clone && 'tokens' in clone) clone.tokens = null; // 平文は保存しない
 		return await super.saveData(clone);
 	}
 
+    // obfuscationSalt の確保（初回や移行直後などで未設定の場合に生成）
+    private async ensureObfuscationSalt(): Promise<void> {
+        if (this.settings.obfuscationSalt) return;
+        try {
+            const r = (typeof window !== 'undefined' && window.crypto && window.crypto.getRandomValues)
+                ? (()=>{ const a=new Uint8Array(16); window.crypto.getRandomValues(a); return Buffer.from(a); })()
+                : Buffer.from(require('crypto').randomBytes(16));
+            this.settings.obfuscationSalt = r.toString('base64');
+            await this.saveData(this.settings);
+        } catch {}
+    }
+
+    // CalDAV のパスワードをトークンと同じ難読化で保存（空なら削除）
+    async persistCalDavPassword(password: string): Promise<void> {
+        await this.ensureObfuscationSalt();
+        this.settings.caldav = {
+            ...(this.settings.caldav ?? { serverUrl: '', username: '' }),
+            passwordEncrypted: password ? obfuscateToBase64(password, this.settings.obfuscationSalt || '') : null,
+        };
+        await this.saveData(this.settings);
+    }
+
     // トークンを難読化で保存（既定）。パスフレーズがあればAES-GCMで二重ラップ。
     async persistTokens(tokens: any | null): Promise<void> {
         this.settings.tokens = tokens && tokens.refresh_token ? ({ refresh_token: tokens.refresh_token } as any) : null;
         if (tokens && tokens.refresh_token) {
-            // obfuscationSalt の確保（初回や移行直後などで未設定の場合に生成）
-            if (!this.settings.obfuscationSalt) {
-                try {
-                    const r = (typeof window !== 'undefined' && window.crypto && window.crypto.getRandomValues)
-                        ? (()=>{ const a=new Uint8Array(16); window.crypto.getRandomValues(a); return Buffer.from(a); })()
-                        : Buffer.from(require('crypto').randomBytes(16));
-                    this.settings.obfuscationSalt = r.toString('base64');
-                    await super.saveData({ ...this.settings, tokens: null });
-                } catch {}
-            }
+            await this.ensureObfuscationSalt();
             const json = JSON.stringify({ refresh_token: tokens.refresh_token });
             const obf = obfuscateToBase64(json, this.settings.obfuscationSalt || '');
             const pass = this.passphraseCache || this.settings.encryptionPassphrase || null;
             if (pass && pass.length > 0) {
                 try {
                     this.settings.tokensEncrypted = await encryptWithPassphrase(obf, pass);
-                    await super.saveData({ ...this.settings, tokens: null });
+                    await this.saveData(this.settings);
                 } catch (e) {
                     console.error('AES二重ラップに失敗:', e);
                     new Notice('パスフレーズ暗号化に失敗しました。パスフレーズを見直してください。', 8000);
                     this.settings.tokensEncrypted = obf;
-                    await super.saveData({ ...this.settings, tokens: null });
+                    await this.saveData(this.settings);
                 }
             } else {
                 this.settings.tokensEncrypted = obf;
-                await super.saveData({ ...this.settings, tokens: null });
+                await this.saveData(this.settings);
             }
         } else {
             this.settings.tokensEncrypted = null;
-            await super.saveData({ ...this.settings, tokens: null });
+            await this.saveData(this.settings);
         }
     }
 
@@ -274,15 +451,41 @@ export default class GoogleCalendarTasksSyncPlugin extends Plugin {
         }
     }
 
+    /** 競合キュービューを右サイドバーに開く（既に開いていれば表示） */
+    async activateConflictView(): Promise<void> {
+        const existing = this.app.workspace.getLeavesOfType(CONFLICT_VIEW_TYPE)[0];
+        if (existing) {
+            this.app.workspace.revealLeaf(existing);
+            return;
+        }
+        const leaf = this.app.workspace.getRightLeaf(false);
+        if (!leaf) return;
+        await leaf.setViewState({ type: CONFLICT_VIEW_TYPE, active: true });
+        this.app.workspace.revealLeaf(leaf);
+    }
+
     // --- アクセサと状態管理 ---
     isCurrentlySyncing(): boolean { return this.isSyncing; }
     setSyncing(syncing: boolean): void { this.isSyncing = syncing; }
+    setPassphrase(passphrase: string | null): void { this.passphraseCache = passphrase; }
 
     // --- 外部モジュールから呼び出される可能性のあるメソッド ---
     getRedirectUri(): string { return this.authService.getRedirectUri(); }
     reconfigureOAuthClient(): void { this.authService.reconfigureOAuthClient(); }
     initializeCalendarApi(): void { this.authService.initializeCalendarApi(); }
     authenticate(): void { this.authService.authenticate(); }
+
+    usesCalDav(): boolean { return this.settings.calendarBackend === 'caldav'; }
+    usesSandbox(): boolean { return this.settings.calendarBackend === 'sandbox'; }
+    /** Google の OAuth トークンが必要な同期先か（CalDAV とサンドボックスは不要） */
+    usesGoogleAuth(): boolean { return !this.usesCalDav() && !this.usesSandbox(); }
+
+    /** 同期先に接続できる設定か（Google は有効なトークン、CalDAV はサーバー URL、サンドボックスは常に可） */
+    isBackendConfigured(): boolean {
+        if (this.usesSandbox()) return true;
+        if (this.usesCalDav()) return !!this.settings.caldav?.serverUrl?.trim();
+        return !!this.settings.tokens && (this.isTokenValid(false) || this.isTokenValid(true));
+    }
     isTokenValid(checkRefresh: boolean = false): boolean { return this.authService.isTokenValid(checkRefresh); }
 
     /** ポート変更の適用（保存・再起動・UI更新を一括） */
@@ -297,8 +500,14 @@ export default class GoogleCalendarTasksSyncPlugin extends Plugin {
 
     /** 手動同期をトリガー */
     async triggerSync(): Promise<void> {
-        if (!this.settings.tokens || (!this.isTokenValid(false) && !this.isTokenValid(true))) {
-            new Notice("認証されていないか、トークンが期限切れ/無効です。設定から認証/再認証してください。");
+        if (!this.isBackendConfigured()) {
+            if (this.icsExporter.isEnabled()) {
+                await this.triggerIcsExport();
+                return;
+            }
+            new Notice(this.usesCalDav()
+                ? "CalDAV のサーバー URL が設定されていません。設定から接続先を入力してください。"
+                : "認証されていないか、トークンが期限切れ/無効です。設定から認証/再認証してください。");
             return;
         }
         if (this.isSyncing) {
@@ -310,10 +519,113 @@ export default class GoogleCalendarTasksSyncPlugin extends Plugin {
         await this.syncLogic.runSync(JSON.parse(JSON.stringify(this.settings)));
     }
 
+    /** 送信予定の操作をプレビューし、承認された分だけ同期 */
+    async triggerPreviewSync(): Promise<void> {
+        if (!this.isBackendConfigured()) {
+            new Notice(this.usesCalDav()
+                ? "CalDAV のサーバー URL が設定されていません。設定から接続先を入力してください。"
+                : "認証されていないか、トークンが期限切れ/無効です。設定から認証/再認証してください。");
+            return;
+        }
+        if (this.isSyncing) {
+            new Notice("同期は既に進行中です。");
+            return;
+        }
+        new Notice('同期内容を計算しています...');
+        await this.syncLogic.runSync(JSON.parse(JSON.stringify(this.settings)), {
+            review: (plan) => SyncPreviewModal.review(this.app, plan),
+        });
+    }
+
+    /** 管理外イベントの取り込みを手動で実行 */
+    async triggerImport(): Promise<void> {
+        if (!this.isBackendConfigured()) {
+            new Notice(this.usesCalDav()
+                ? "CalDAV のサーバー URL が設定されていません。設定から接続先を入力してください。"
+                : "認証されていないか、トークンが期限切れ/無効です。設定から認証/再認証してください。");
+            return;
+        }
+        if (this.isSyncing) {
+            new Notice("同期は既に進行中です。");
+            return;
+        }
+        this.isSyncing = true;
+        try {
+            if (this.usesGoogleAuth() && !await this.authService.ensureAccessToken()) {
+                new Notice('取り込み中止: 認証トークンを取得できませんでした。', 7000);
+                return;
+            }
+            const count = await this.eventImporter.importUnmanaged(this.settings);
+            new Notice(count > 0 ? `${count} 件のイベントをタスクとして取り込みました。` : '取り込む管理外のイベントはありません。');
+        } catch (e) {
+            console.error('管理外イベントの取り込みに失敗しました', e);
+            new Notice(`取り込みに失敗しました: ${String((e as any)?.message || e)}`, 10000);
+        } finally {
+            this.isSyncing = false;
+        }
+    }
+
+    /** タスクを .ics ファイルへ書き出す（同期先に接続できないときは同期の代わりにこれだけを行う） */
+    async triggerIcsExport(notify = true): Promise<void> {
+        if (!this.icsExporter.isEnabled()) {
+            if (notify) new Notice('.ics の書き出し先が設定されていません。設定から書き出し先のパスを入力してください。');
+            return;
+        }
+        if (this.isSyncing) {
+            if (notify) new Notice("同期は既に進行中です。");
+            return;
+        }
+        this.isSyncing = true;
+        try {
+            const path = await this.icsExporter.exportToVault(this.settings);
+            if (notify) new Notice(`${path} に書き出しました。`);
+        } catch (e) {
+            console.error('.ics の書き出しに失敗しました', e);
+            new Notice(`.ics の書き出しに失敗しました: ${String((e as any)?.message || e)}`, 10000);
+        } finally {
+            this.isSyncing = false;
+        }
+    }
+
+    /** ノートの 1 行について、同期の対象かどうかと理由を通知とログに出す */
+    async explainTaskSync(content: string, path: string, line: number): Promise<void> {
+        const result = await this.syncLogic.explainTask(content, path, line, this.settings);
+        const text = `${path}:${line + 1} は${result.synced ? '同期されます' : '同期されません'}\n${result.reasons.map(r => `・${r}`).join('\n')}`;
+        console.log(text);
+        new Notice(text, 15000);
+    }
+
+    /** ジャーナルの最新世代を使って直前の同期を取り消す */
+    async triggerUndoLastSync(): Promise<void> {
+        if (this.isSyncing) {
+            new Notice("同期は既に進行中です。");
+            return;
+        }
+        const generation = await this.syncJournal.latest();
+        if (!generation) {
+            new Notice('取り消せる同期の記録がありません。');
+            return;
+        }
+        const when = moment(generation.syncedAt).format('YYYY-MM-DD HH:mm');
+        if (!confirm(`${when} の同期で行った ${generation.entries.length} 件の Google への変更を取り消しますか？\nノートの内容は変更されません。`)) return;
+        this.isSyncing = true;
+        try {
+            await this.syncLogic.undoLastSync();
+        } catch (e) {
+            console.error('同期の取り消しに失敗しました', e);
+            new Notice(`同期の取り消しに失敗しました: ${String((e as any)?.message || e)}`, 10000);
+        } finally {
+            this.isSyncing = false;
+            this.refreshSettingsTab();
+        }
+    }
+
     /** 強制同期 (リセット) をトリガー */
     async forceSync(): Promise<void> {
-        if (!this.settings.tokens || (!this.isTokenValid(false) && !this.isTokenValid(true))) {
-            new Notice("認証されていないか、トークンが期限切れ/無効です。設定から認証/再認証してください。");
+        if (!this.isBackendConfigured()) {
+            new Notice(this.usesCalDav()
+                ? "CalDAV のサーバー URL が設定されていません。設定から接続先を入力してください。"
+                : "認証されていないか、トークンが期限切れ/無効です。設定から認証/再認証してください。");
             return;
         }
         if (this.isSyncing) {
@@ -338,12 +650,16 @@ export default class GoogleCalendarTasksSyncPlugin extends Plugin {
 					console.warn(`[${timestamp}] 自動同期スキップ: 実行中`);
 					return;
 				}
-                if (!this.settings.tokens) {
+                if (!this.isBackendConfigured() && this.icsExporter.isEnabled()) {
+                    await this.triggerIcsExport(false);
+                    return;
+                }
+                if (!this.isBackendConfigured()) {
                     console.warn(`[${timestamp}] 自動同期スキップ: 未認証`);
-                    return; // トークンがなければ同期しない
+                    return; // トークン（CalDAV は接続先）がなければ同期しない
                 }
                 // トークンの有効性を確認し、必要ならリフレッシュを試みる
-                const tokenReady = await this.authService.ensureAccessToken();
+                const tokenReady = !this.usesGoogleAuth() || await this.authService.ensureAccessToken();
                 if (!tokenReady) {
                      console.warn(`[${timestamp}] 自動同期スキップ: トークン取得失敗`);
                      // ensureAccessToken内でNotice表示や自動同期停止が行われる
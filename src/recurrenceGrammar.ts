@@ -0,0 +1,358 @@
+import moment from 'moment';
+import { Frequency, Options as RRuleOptions, RRule, Weekday } from 'rrule';
+
+/** 自然言語の繰り返し表記の解析結果（dtstart は呼び出し側で補う） */
+export interface RecurrenceParse {
+    options: Partial<RRuleOptions>;
+    warnings: string[]; // RRULE で表せず無視した指定（祝日など）
+}
+
+type Token =
+    | { type: 'every' }
+    | { type: 'other' }
+    | { type: 'num'; value: number }
+    | { type: 'ordinal'; value: number } // 負数は末尾から（last = -1）
+    | { type: 'unit'; value: Frequency }
+    | { type: 'freq'; value: Frequency; interval: number }
+    | { type: 'weekday'; value: number } // 0 = 月曜（rrule と同じ）
+    | { type: 'weekdays' }
+    | { type: 'weekend' }
+    | { type: 'holidays' }
+    | { type: 'month'; value: number }
+    | { type: 'monthday'; value: number }
+    | { type: 'count'; value: number }
+    | { type: 'until'; value: string }
+    | { type: 'except' }
+    | { type: 'end' };
+
+type Scan = (m: RegExpMatchArray, prev: Token | undefined) => Token[] | null;
+
+const WEEKDAYS = [RRule.MO, RRule.TU, RRule.WE, RRule.TH, RRule.FR, RRule.SA, RRule.SU];
+const WORKDAYS = [0, 1, 2, 3, 4];
+const WEEKEND = [5, 6];
+
+const UNITS: { [k: string]: Frequency } = {
+    day: Frequency.DAILY, week: Frequency.WEEKLY, month: Frequency.MONTHLY, year: Frequency.YEARLY,
+    日: Frequency.DAILY, 週: Frequency.WEEKLY, 週間: Frequency.WEEKLY, 月: Frequency.MONTHLY, 年: Frequency.YEARLY,
+};
+const FREQ_WORDS: { [k: string]: [Frequency, number] } = {
+    daily: [Frequency.DAILY, 1], weekly: [Frequency.WEEKLY, 1], monthly: [Frequency.MONTHLY, 1],
+    yearly: [Frequency.YEARLY, 1], annually: [Frequency.YEARLY, 1],
+    fortnightly: [Frequency.WEEKLY, 2], biweekly: [Frequency.WEEKLY, 2], 'bi-weekly': [Frequency.WEEKLY, 2],
+};
+const EN_WEEKDAYS: { [k: string]: number } = {
+    monday: 0, mon: 0, tuesday: 1, tues: 1, tue: 1, wednesday: 2, wed: 2, thursday: 3, thurs: 3, thu: 3,
+    friday: 4, fri: 4, saturday: 5, sat: 5, sunday: 6, sun: 6,
+};
+const JA_WEEKDAYS = '月火水木金土日';
+const EN_MONTHS: { [k: string]: number } = {
+    january: 1, jan: 1, february: 2, feb: 2, march: 3, mar: 3, april: 4, apr: 4, may: 5, june: 6, jun: 6,
+    july: 7, jul: 7, august: 8, aug: 8, september: 9, sept: 9, sep: 9, october: 10, oct: 10,
+    november: 11, nov: 11, december: 12, dec: 12,
+};
+const EN_ORDINALS: { [k: string]: number } = { first: 1, second: 2, third: 3, fourth: 4, fifth: 5 };
+const KANJI_DIGITS: { [k: string]: number } = { 一: 1, 二: 2, 三: 3, 四: 4, 五: 5 };
+
+const alt = (words: object) => Object.keys(words).sort((a, b) => b.length - a.length).join('|');
+const ordinalValue = (word: string) => EN_ORDINALS[word] ?? KANJI_DIGITS[word] ?? parseInt(word, 10);
+const isoDate = (y: string, m: string, d: string) => `${y}-${m.padStart(2, '0')}-${d.padStart(2, '0')}`;
+
+// 日本語の「〜を除く」は対象が前に来るので、英語と同じ "except 〜 ;" の語順に直してから字句に分ける
+const JA_DAY = `(?:[${JA_WEEKDAYS}]曜日?|祝祭?日|休日|週末|土日)`;
+const JA_EXCEPT_RE = new RegExp(
+    `((?:${JA_DAY}|[${JA_WEEKDAYS}](?=[・、,]))(?:\\s*[・、,と]\\s*(?:${JA_DAY}|[${JA_WEEKDAYS}]))*)\\s*を?\\s*(?:除く|除いて|以外)`, 'g');
+
+/**
+ * 字句の規則（先頭から順に試し、最初に当たったものを採る）。
+ * 日本語の複合語（毎月・隔週・第3 など）は単独の漢字（月・日）より先に置く。
+ */
+const LEXICON: [RegExp, Scan][] = [
+    [/^[\s,、・&+]+|^(?:and|on|the|of|in|at)\b|^[のにとはでごと]+/, () => []],
+    [/^;/, () => [{ type: 'end' }]],
+    // 終了日・回数
+    [/^(?:until|till|through)\s+(\d{4})-(\d{2})-(\d{2})\b/, m => [{ type: 'until', value: isoDate(m[1], m[2], m[3]) }]],
+    [/^(\d{4})[-/年](\d{1,2})[-/月](\d{1,2})日?\s*(?:まで|迄)/, m => [{ type: 'until', value: isoDate(m[1], m[2], m[3]) }]],
+    [/^(?:for\s+)?(\d+)\s+(?:times|occurrences?)\b/, m => [{ type: 'count', value: parseInt(m[1], 10) }]],
+    [/^(\d+)\s*回(?:まで|だけ|限り)?/, m => [{ type: 'count', value: parseInt(m[1], 10) }]],
+    // 頻度と間隔
+    [/^(?:every|each)\b/, () => [{ type: 'every' }]],
+    [/^(?:other|alternate)\b/, () => [{ type: 'other' }]],
+    [new RegExp(`^(${alt(FREQ_WORDS)})\\b`), m => [{ type: 'freq', value: FREQ_WORDS[m[1]][0], interval: FREQ_WORDS[m[1]][1] }]],
+    [new RegExp(`^毎([${JA_WEEKDAYS}])曜日?`), m => [{ type: 'weekday', value: JA_WEEKDAYS.indexOf(m[1]) }]],
+    [/^毎週末/, () => [{ type: 'weekend' }]],
+    [/^毎(日|週|月|年)/, m => [{ type: 'every' }, { type: 'unit', value: UNITS[m[1]] }]],
+    [/^隔(日|週|月|年)/, m => [{ type: 'every' }, { type: 'other' }, { type: 'unit', value: UNITS[m[1]] }]],
+    [/^(\d+)\s*(日|週間?|[かヶヵカケ箇]月|年)\s*(?:ごと|毎)/, m => [
+        { type: 'every' }, { type: 'num', value: parseInt(m[1], 10) }, { type: 'unit', value: UNITS[m[2].slice(-1)] ?? UNITS[m[2]] },
+    ]],
+    [/^(day|week|month|year)s?\b/, m => [{ type: 'unit', value: UNITS[m[1]] }]],
+    // 第 n・最終
+    [/^(?:最終日|月末|末日?)/, () => [{ type: 'monthday', value: -1 }]],
+    [/^最後から\s*(\d)\s*番目の?/, m => [{ type: 'ordinal', value: -parseInt(m[1], 10) }]],
+    [/^第\s*([1-5一二三四五])/, m => [{ type: 'ordinal', value: ordinalValue(m[1]) }]],
+    [/^(?:最終|最後)の?/, () => [{ type: 'ordinal', value: -1 }]],
+    [new RegExp(`^(${alt(EN_ORDINALS)}|\\d+(?:st|nd|rd|th))(?:\\s+to)?\\s+last\\b`), m => [{ type: 'ordinal', value: -ordinalValue(m[1]) }]],
+    [new RegExp(`^(${alt(EN_ORDINALS)}|last)\\b`), m => [{ type: 'ordinal', value: m[1] === 'last' ? -1 : EN_ORDINALS[m[1]] }]],
+    [/^(\d+)(?:st|nd|rd|th)\b/, m => [{ type: 'ordinal', value: parseInt(m[1], 10) }]],
+    // 月日
+    [/^(\d{1,2})月(\d{1,2})日/, m => [{ type: 'month', value: parseInt(m[1], 10) }, { type: 'monthday', value: parseInt(m[2], 10) }]],
+    [/^(\d{1,2})月/, m => [{ type: 'month', value: parseInt(m[1], 10) }]],
+    [/^(\d{1,2})日/, m => [{ type: 'monthday', value: parseInt(m[1], 10) }]],
+    [/^(\d{1,2})\/(\d{1,2})\b/, m => [{ type: 'month', value: parseInt(m[1], 10) }, { type: 'monthday', value: parseInt(m[2], 10) }]],
+    [new RegExp(`^(${alt(EN_MONTHS)})\\b`), m => [{ type: 'month', value: EN_MONTHS[m[1]] }]],
+    // 曜日
+    [/^(?:weekdays?|workdays?|business\s+days?|平日|営業日)/, () => [{ type: 'weekdays' }]],
+    [/^(?:weekends?|週末|土日)/, () => [{ type: 'weekend' }]],
+    [/^(?:holidays?|祝祭?日|休日)/, () => [{ type: 'holidays' }]],
+    [new RegExp(`^(${alt(EN_WEEKDAYS)})s?\\b`), m => [{ type: 'weekday', value: EN_WEEKDAYS[m[1]] }]],
+    [new RegExp(`^([${JA_WEEKDAYS}])曜日?`), m => [{ type: 'weekday', value: JA_WEEKDAYS.indexOf(m[1]) }]],
+    // 「月・水・金」のような列挙では「曜」を省ける
+    [new RegExp(`^([${JA_WEEKDAYS}])(?=\\s*[・、,と]|\\s*$)`), (m, prev) =>
+        prev?.type === 'weekday' || /[・、,と]/.test(m.input!.slice(1, 3)) ? [{ type: 'weekday', value: JA_WEEKDAYS.indexOf(m[1]) }] : null],
+    [/^(?:except|excluding|but\s+not)\b/, () => [{ type: 'except' }]],
+    [/^(\d+)\b/, m => [{ type: 'num', value: parseInt(m[1], 10) }]],
+];
+
+/**
+ * 🔁 の自然言語表記（英語・日本語）を RRULE のオプションへ変換します。
+ * 字句に分けたあと、次の文法で読む（語順はおおむね自由で、足りない頻度は指定から推定する）:
+ *
+ *   rule    := clause+
+ *   clause  := every | freq | ordinal+ target? | days | month | monthday | num | unit | count | until | except
+ *   every   := "every" ("other" | num)? unit?           … every 2 weeks / 隔週 / 3日ごと
+ *   target  := weekday | weekdays | weekend | "day"      … 2nd tuesday / 最終平日 / last day
+ *   except  := "except" (weekday | weekdays | weekend | holidays)+
+ *
+ * 解釈できない語が残れば null（誤った規則を作らない）。
+ */
+export class RecurrenceGrammar {
+    private pos = 0;
+    private freq: Frequency | null = null;
+    private interval = 1;
+    private days = new Map<string, Weekday>(); // BYDAY（"曜日:n" で重複を除く）
+    private setpos: number[] = [];
+    private monthdays: number[] = [];
+    private months: number[] = [];
+    private excluded: number[] = [];
+    private count: number | null = null;
+    private until: string | null = null;
+    private warnings: string[] = [];
+
+    private constructor(private tokens: Token[]) {}
+
+    static parse(text: string): RecurrenceParse | null {
+        const tokens = RecurrenceGrammar.tokenize(text);
+        if (!tokens || tokens.length === 0) return null;
+        try {
+            return new RecurrenceGrammar(tokens).rule();
+        } catch (e) {
+            console.warn(`繰り返しの表記を解釈できません: "${text}"（${(e as Error).message}）`);
+            return null;
+        }
+    }
+
+    /** 字句に分けます（どの規則にも当たらない文字があれば null） */
+    static tokenize(text: string): Token[] | null {
+        let rest = text.normalize('NFKC').toLowerCase()
+            .replace(/[()[\]「」]/g, ' ')
+            .replace(JA_EXCEPT_RE, ' except $1 ; ')
+            .trim();
+        const tokens: Token[] = [];
+        while (rest.length > 0) {
+            let matched = false;
+            for (const [re, scan] of LEXICON) {
+                const m = rest.match(re);
+                if (!m || m[0].length === 0) continue;
+                const out = scan(m, tokens[tokens.length - 1]);
+                if (!out) continue;
+                tokens.push(...out);
+                rest = rest.slice(m[0].length);
+                matched = true;
+                break;
+            }
+            if (!matched) {
+                console.warn(`繰り返しの表記に解釈できない語があります: "${rest}"`);
+                return null;
+            }
+        }
+        return tokens;
+    }
+
+    private rule(): RecurrenceParse {
+        while (this.peek()) this.clause();
+        return { options: this.build(), warnings: this.warnings };
+    }
+
+    private clause(): void {
+        const tok = this.next();
+        switch (tok.type) {
+            case 'every': return this.every();
+            case 'freq': return this.setFreq(tok.value, tok.interval);
+            case 'ordinal': return this.ordinal(tok.value);
+            case 'weekday': case 'weekdays': case 'weekend': return this.addDays(tok, null);
+            case 'month': return this.addMonth(tok.value);
+            case 'monthday': return this.addMonthday(tok.value);
+            case 'num': {
+                // 「2 weeks」のような間隔、それ以外は日付（monthly on 15）
+                const unit = this.peek();
+                if (unit?.type === 'unit') return this.setFreq((this.next() as { value: Frequency }).value, tok.value);
+                return this.addMonthday(tok.value);
+            }
+            case 'unit': return this.scope(tok.value);
+            case 'other': {
+                const unit = this.expect('unit');
+                return this.setFreq(unit.value, 2);
+            }
+            case 'count': this.count = tok.value; return;
+            case 'until': this.until = tok.value; return;
+            case 'except': return this.except();
+            case 'end': return;
+            default: throw new Error(`"${tok.type}" はここに置けません`);
+        }
+    }
+
+    // every [other | N] [unit]。単位が無ければ後続の曜日・日付から頻度を決める（every 2nd tuesday / every other monday）
+    private every(): void {
+        let interval = 1;
+        const head = this.peek();
+        if (head?.type === 'other') {
+            this.next();
+            interval = 2;
+        } else if (head?.type === 'num' && this.peek(1)?.type === 'unit') {
+            this.next();
+            interval = head.value;
+        }
+        const unit = this.peek();
+        if (unit?.type === 'unit') {
+            this.next();
+            this.setFreq(unit.value, interval);
+        } else if (interval !== 1) {
+            this.setInterval(interval);
+        }
+    }
+
+    // 第 n（複数可: 第2・第4土曜 / 1st and 15th）とその対象
+    private ordinal(first: number): void {
+        const ns = [first];
+        while (this.peek()?.type === 'ordinal') ns.push((this.next() as { value: number }).value);
+        const target = this.peek();
+        if (target?.type === 'weekday') {
+            this.next();
+            ns.forEach(n => this.addDays(target, n));
+        } else if (target?.type === 'weekdays' || target?.type === 'weekend') {
+            // 平日のうち n 番目（最終平日など）は BYSETPOS で表す
+            this.next();
+            this.addDays(target, null);
+            ns.forEach(n => this.setpos.push(n));
+        } else {
+            if (target?.type === 'unit' && target.value === Frequency.DAILY) this.next();
+            ns.forEach(n => this.addMonthday(n));
+        }
+    }
+
+    private except(): void {
+        let any = false;
+        for (let tok = this.peek(); tok; tok = this.peek()) {
+            if (tok.type === 'weekday') this.excluded.push(tok.value);
+            else if (tok.type === 'weekdays') this.excluded.push(...WORKDAYS);
+            else if (tok.type === 'weekend') this.excluded.push(...WEEKEND);
+            else if (tok.type === 'holidays') this.warnings.push('祝日は RRULE で表せないため除いていません（skip: で日付を指定してください）');
+            else break;
+            this.next();
+            any = true;
+        }
+        if (!any) throw new Error('except の後に除く曜日がありません');
+    }
+
+    // "of the month" のように頻度の範囲を示す単位
+    private scope(freq: Frequency): void {
+        if (this.freq === null) this.freq = freq;
+        else if (this.freq !== freq) throw new Error('頻度の指定が食い違っています');
+    }
+
+    private setFreq(freq: Frequency, interval: number): void {
+        if (this.freq !== null && this.freq !== freq) throw new Error('頻度の指定が食い違っています');
+        this.freq = freq;
+        this.setInterval(interval);
+    }
+
+    private setInterval(interval: number): void {
+        if (interval < 1) throw new Error('間隔は 1 以上にしてください');
+        if (this.interval !== 1 && this.interval !== interval) throw new Error('間隔の指定が食い違っています');
+        this.interval = interval;
+    }
+
+    private addDays(tok: Token, n: number | null): void {
+        if (n !== null && (n === 0 || Math.abs(n) > 5)) throw new Error(`第 ${n} の曜日はありません`);
+        const indexes = tok.type === 'weekday' ? [tok.value] : tok.type === 'weekend' ? WEEKEND : WORKDAYS;
+        indexes.forEach(i => {
+            const day = n === null ? WEEKDAYS[i] : WEEKDAYS[i].nth(n);
+            this.days.set(`${i}:${n ?? ''}`, day);
+        });
+    }
+
+    private addMonth(month: number): void {
+        if (month < 1 || month > 12) throw new Error(`${month} 月はありません`);
+        if (!this.months.includes(month)) this.months.push(month);
+        // 「april 1」のように月の直後の数は日付
+        const day = this.peek();
+        if (day?.type === 'num') {
+            this.next();
+            this.addMonthday(day.value);
+        }
+    }
+
+    private addMonthday(day: number): void {
+        if (day === 0 || Math.abs(day) > 31) throw new Error(`${day} 日はありません`);
+        if (!this.monthdays.includes(day)) this.monthdays.push(day);
+    }
+
+    /** 集めた指定を RRULE のオプションにまとめ、足りない頻度を推定します */
+    private build(): Partial<RRuleOptions> {
+        const days = Array.from(this.days.values());
+        const nth = days.some(d => d.n !== undefined && d.n !== 0) || this.setpos.length > 0;
+        const dated = nth || this.monthdays.length > 0;
+
+        let freq = this.freq;
+        if (freq === null) {
+            if (dated || (this.months.length > 0 && days.length === 0)) freq = this.months.length > 0 ? Frequency.YEARLY : Frequency.MONTHLY;
+            else if (days.length > 0) freq = Frequency.WEEKLY;
+            else if (this.excluded.length > 0) freq = Frequency.DAILY;
+        }
+        if (freq === null) throw new Error('頻度がわかりません');
+        if (dated && (freq === Frequency.DAILY || freq === Frequency.WEEKLY)) throw new Error('日・週ごとの繰り返しに日付や第 n 曜日は指定できません');
+
+        let byweekday = days;
+        if (this.excluded.length > 0) {
+            // every day except sunday は残りの曜日を並べる
+            const base = byweekday.length > 0 ? byweekday : WEEKDAYS;
+            byweekday = base.filter(d => !this.excluded.includes(d.weekday));
+            if (byweekday.length === 0) throw new Error('すべての曜日が除かれています');
+        }
+
+        // 並びは RRULE の出力順になるので、従来の表記（COUNT → BYDAY）に揃える
+        const options: Partial<RRuleOptions> = { freq, interval: this.interval };
+        if (this.count !== null) options.count = this.count;
+        // 終了日はローカルの日の終わりまで含める
+        if (this.until) options.until = moment(this.until, 'YYYY-MM-DD', true).endOf('day').toDate();
+        if (this.setpos.length > 0) options.bysetpos = this.setpos;
+        if (this.months.length > 0) options.bymonth = this.months.sort((a, b) => a - b);
+        if (this.monthdays.length > 0) options.bymonthday = this.monthdays;
+        if (byweekday.length > 0) options.byweekday = byweekday;
+        return options;
+    }
+
+    private peek(offset = 0): Token | undefined {
+        return this.tokens[this.pos + offset];
+    }
+
+    private next(): Token {
+        return this.tokens[this.pos++];
+    }
+
+    private expect<T extends Token['type']>(type: T): Extract<Token, { type: T }> {
+        const tok = this.next();
+        if (tok?.type !== type) throw new Error(`"${type}" が必要です`);
+        return tok as Extract<Token, { type: T }>;
+    }
+}
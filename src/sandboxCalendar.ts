@@ -0,0 +1,335 @@
+import { App, RequestUrlParam, RequestUrlResponse } from 'obsidian';
+import { calendar_v3 } from 'googleapis';
+import { randomBytes } from 'crypto';
+
+// 保存するイベント（カレンダーごとに同じ ID を持てる。seq は最後に変更したときの通番）
+interface SandboxRecord {
+    calendarId: string;
+    seq: number;
+    event: calendar_v3.Schema$Event;
+}
+
+interface SandboxState {
+    seq: number; // 変更の通番（etag と syncToken の元）
+    minSyncSeq: number; // これより古い syncToken は 410 にする
+    records: SandboxRecord[];
+}
+
+interface SandboxResponse {
+    status: number;
+    body?: any;
+}
+
+const STATUS_TEXT: Record<number, string> = {
+    200: 'OK', 204: 'No Content', 400: 'Bad Request', 404: 'Not Found', 409: 'Conflict', 410: 'Gone', 412: 'Precondition Failed',
+};
+
+/**
+ * Google Calendar API のプラグイン内の代役（同期先「サンドボックス」）。
+ * GCalApiService が使う範囲だけを実装する: events.list（pageToken / syncToken / privateExtendedProperty / timeMin・timeMax）と
+ * multipart の /batch/calendar/v3（insert / get / patch / update / delete / move、etag と If-Match、削除済みへの 410）。
+ * 状態はプラグインフォルダの sandbox-calendar.json に保存し、Google に接続せずに実際の SyncLogic を動かせる。
+ */
+export class SandboxCalendar {
+    private app: App;
+    private readonly path: string;
+    private state: SandboxState | null = null;
+    pageSize = 250; // 1 ページの最大件数（maxResults の方が小さければそちら）
+
+    constructor(app: App, pluginDir: string) {
+        this.app = app;
+        this.path = `${pluginDir}/sandbox-calendar.json`;
+    }
+
+    /** GCalApiService が plugin.calendar として使う events.list だけのクライアント */
+    client(): calendar_v3.Calendar {
+        return { events: { list: (params: calendar_v3.Params$Resource$Events$List) => this.list(params) } } as unknown as calendar_v3.Calendar;
+    }
+
+    /** カレンダー内のイベント（削除済みを含む）。確認・テスト用 */
+    async events(calendarId: string): Promise<calendar_v3.Schema$Event[]> {
+        return (await this.load()).records.filter(r => r.calendarId === calendarId).map(r => SandboxCalendar.copy(r.event));
+    }
+
+    /** 全イベントを消し、発行済みの syncToken も無効にする */
+    async reset(): Promise<void> {
+        const state = await this.load();
+        state.records = [];
+        state.minSyncSeq = ++state.seq;
+        await this.save();
+    }
+
+    /** 発行済みの syncToken を失効させる（次の増分取得が 410 になる） */
+    async expireSyncTokens(): Promise<void> {
+        const state = await this.load();
+        state.minSyncSeq = ++state.seq;
+        await this.save();
+    }
+
+    /** events.list。エラーは gaxios と同じ形（response.status / response.data.error）で投げる */
+    async list(params: calendar_v3.Params$Resource$Events$List): Promise<{ status: number; data: calendar_v3.Schema$Events; headers: Record<string, string> }> {
+        const state = await this.load();
+        const calendarId = params.calendarId || 'primary';
+        let sinceSeq: number | null = null;
+        if (params.syncToken) {
+            if (params.timeMin || params.timeMax || params.updatedMin || params.q) {
+                throw SandboxCalendar.listError(400, 'Sync token cannot be used with timeMin, timeMax, updatedMin or q.', 'invalid');
+            }
+            if (params.showDeleted === false) throw SandboxCalendar.listError(400, 'showDeleted cannot be false with a sync token.', 'invalid');
+            sinceSeq = this.decodeSyncToken(params.syncToken, calendarId);
+            if (sinceSeq === null) throw SandboxCalendar.listError(410, 'Sync token is no longer valid, a full sync is required.', 'fullSyncRequired');
+        }
+
+        const page = params.pageToken ? SandboxCalendar.decode(params.pageToken) : { o: 0, s: state.seq };
+        if (typeof page?.o !== 'number' || typeof page?.s !== 'number') throw SandboxCalendar.listError(400, 'Invalid page token.', 'invalid');
+
+        const filters = (Array.isArray(params.privateExtendedProperty) ? params.privateExtendedProperty : params.privateExtendedProperty ? [params.privateExtendedProperty] : [])
+            .map(f => { const i = f.indexOf('='); return [f.slice(0, i), f.slice(i + 1)]; });
+        const matching = state.records.filter(r => {
+            if (r.calendarId !== calendarId || r.seq > page.s) return false;
+            if (sinceSeq !== null) {
+                if (r.seq <= sinceSeq) return false;
+            } else if (!params.showDeleted && r.event.status === 'cancelled') return false;
+            if (!filters.every(([k, v]) => r.event.extendedProperties?.private?.[k] === v)) return false;
+            return SandboxCalendar.overlaps(r.event, params.timeMin, params.timeMax);
+        });
+
+        const size = Math.max(1, Math.min(params.maxResults ?? 250, this.pageSize));
+        const items = matching.slice(page.o, page.o + size).map(r => SandboxCalendar.copy(r.event));
+        const more = page.o + size < matching.length;
+        const data: calendar_v3.Schema$Events = {
+            kind: 'calendar#events',
+            items,
+            ...(more
+                ? { nextPageToken: SandboxCalendar.encode({ o: page.o + size, s: page.s }) }
+                : { nextSyncToken: SandboxCalendar.encode({ c: calendarId, s: page.s }) }),
+        };
+        return { status: 200, data, headers: {} };
+    }
+
+    /** requestUrl の代わり。POST /batch/calendar/v3 の multipart/mixed だけを受け付ける */
+    async request(request: RequestUrlParam): Promise<RequestUrlResponse> {
+        const headers = SandboxCalendar.lowerKeys(request.headers);
+        const boundary = /boundary=(?:"([^"]+)"|([^;]+))/i.exec(headers['content-type'] || request.contentType || '');
+        const notFound = () => SandboxCalendar.response(404, 'application/json; charset=UTF-8', JSON.stringify({ error: { code: 404, message: 'Not Found' } }));
+        let pathname: string;
+        try {
+            pathname = new URL(request.url).pathname;
+        } catch {
+            return notFound();
+        }
+        if ((request.method || 'GET').toUpperCase() !== 'POST' || pathname !== '/batch/calendar/v3') return notFound();
+        if (!boundary) {
+            return SandboxCalendar.response(400, 'application/json; charset=UTF-8', JSON.stringify({ error: { code: 400, message: 'Missing multipart boundary.' } }));
+        }
+
+        await this.load();
+        const parts = String(request.body ?? '')
+            .split(`--${boundary[1] || boundary[2]}`)
+            .slice(1)
+            .filter(p => !p.startsWith('--'));
+        const out = `batch_sandbox_${randomBytes(8).toString('hex')}`;
+        let text = '';
+        let changed = false;
+        for (let i = 0; i < parts.length; i++) {
+            const { contentId, method, path, partHeaders, body } = SandboxCalendar.parsePart(parts[i]);
+            const res = method ? await this.execute(method, path, partHeaders, body) : SandboxCalendar.error(400, 'Malformed batch part.');
+            if (res.status < 300 && method !== 'GET') changed = true;
+            const etag = res.body?.etag ? `ETag: ${res.body.etag}\r\n` : '';
+            text += `--${out}\r\nContent-Type: application/http\r\nContent-ID: <response-${contentId || `item-${i + 1}`}>\r\n\r\n`;
+            text += `HTTP/1.1 ${res.status} ${STATUS_TEXT[res.status] ?? ''}\r\n`;
+            text += res.body !== undefined
+                ? `Content-Type: application/json; charset=UTF-8\r\n${etag}\r\n${JSON.stringify(res.body)}\r\n`
+                : `${etag}\r\n`;
+        }
+        text += `--${out}--\r\n`;
+        if (changed) await this.save();
+        return SandboxCalendar.response(200, `multipart/mixed; boundary=${out}`, text);
+    }
+
+    private async execute(method: string, path: string, headers: Record<string, string>, body: any): Promise<SandboxResponse> {
+        const state = this.state!;
+        const m = path.match(/^\/calendar\/v3\/calendars\/([^/?]+)\/events(?:\/([^/?]+))?(\/move)?(?:\?(.*))?$/);
+        if (!m) return SandboxCalendar.error(404, `Not Found: ${path}`);
+        const calendarId = decodeURIComponent(m[1]);
+        const id = m[2] ? decodeURIComponent(m[2]) : null;
+        const query = new URLSearchParams(m[4] || '');
+
+        if (!id) {
+            if (method !== 'POST') return SandboxCalendar.error(400, `Unsupported method: ${method}`);
+            const newId = body?.id ?? randomBytes(16).toString('hex');
+            if (!/^[a-v0-9]{5,1024}$/.test(newId)) return SandboxCalendar.error(400, 'Invalid resource id value.');
+            if (this.find(calendarId, newId)) return SandboxCalendar.error(409, 'The requested identifier already exists.');
+            const now = new Date().toISOString();
+            const record: SandboxRecord = {
+                calendarId,
+                seq: 0,
+                event: { ...SandboxCalendar.copy(body ?? {}), kind: 'calendar#event', id: newId, status: body?.status ?? 'confirmed', created: now, iCalUID: `${newId}@sandbox`, sequence: 0 },
+            };
+            state.records.push(record);
+            return { status: 200, body: this.touch(record) };
+        }
+
+        const record = this.find(calendarId, id);
+        if (!record) return SandboxCalendar.error(404, 'Not Found');
+        if (method === 'GET') return { status: 200, body: SandboxCalendar.copy(record.event) };
+        if (record.event.status === 'cancelled') return SandboxCalendar.error(410, 'Resource has been deleted');
+        const ifMatch = headers['if-match'];
+        if (ifMatch && ifMatch !== '*' && ifMatch !== record.event.etag) return SandboxCalendar.error(412, 'Precondition Failed', 'conditionNotMet');
+
+        if (m[3]) {
+            if (method !== 'POST') return SandboxCalendar.error(400, `Unsupported method: ${method}`);
+            const destination = query.get('destination');
+            if (!destination) return SandboxCalendar.error(400, 'Missing destination.');
+            if (this.find(destination, id)) return SandboxCalendar.error(409, 'The requested identifier already exists.');
+            const moved: SandboxRecord = { calendarId: destination, seq: 0, event: SandboxCalendar.copy(record.event) };
+            state.records.push(moved);
+            // 移動元には削除済みとして残す（移動元の変更フィードに載る）
+            record.event.status = 'cancelled';
+            this.touch(record);
+            return { status: 200, body: this.touch(moved) };
+        }
+        switch (method) {
+            case 'DELETE':
+                record.event.status = 'cancelled';
+                this.touch(record);
+                return { status: 204 };
+            case 'PATCH':
+                record.event = SandboxCalendar.mergePatch(record.event, body ?? {});
+                break;
+            case 'PUT': {
+                const { kind, id: keepId, created, iCalUID } = record.event;
+                record.event = { ...SandboxCalendar.copy(body ?? {}), kind, id: keepId, created, iCalUID, status: body?.status ?? 'confirmed' };
+                break;
+            }
+            default:
+                return SandboxCalendar.error(400, `Unsupported method: ${method}`);
+        }
+        record.event.sequence = (record.event.sequence ?? 0) + 1;
+        return { status: 200, body: this.touch(record) };
+    }
+
+    private find(calendarId: string, id: string): SandboxRecord | undefined {
+        return this.state!.records.find(r => r.calendarId === calendarId && r.event.id === id);
+    }
+
+    // 変更を記録して etag / updated を振り直す
+    private touch(record: SandboxRecord): calendar_v3.Schema$Event {
+        record.seq = ++this.state!.seq;
+        record.event.etag = `"${record.seq}"`;
+        record.event.updated = new Date().toISOString();
+        return SandboxCalendar.copy(record.event);
+    }
+
+    private decodeSyncToken(token: string, calendarId: string): number | null {
+        const state = this.state!;
+        const t = SandboxCalendar.decode(token);
+        if (!t || t.c !== calendarId || typeof t.s !== 'number') return null;
+        return t.s < state.minSyncSeq || t.s > state.seq ? null : t.s;
+    }
+
+    private async load(): Promise<SandboxState> {
+        if (this.state) return this.state;
+        try {
+            const adapter = this.app.vault.adapter;
+            if (await adapter.exists(this.path)) {
+                const parsed = JSON.parse(await adapter.read(this.path));
+                if (parsed && Array.isArray(parsed.records)) this.state = parsed;
+            }
+        } catch (e) {
+            console.warn('sandbox-calendar.json の読み込みに失敗しました。空のカレンダーとして扱います。', e);
+        }
+        return this.state ??= { seq: 0, minSyncSeq: 0, records: [] };
+    }
+
+    private async save(): Promise<void> {
+        try {
+            await this.app.vault.adapter.write(this.path, JSON.stringify(this.state, null, 2));
+        } catch (e) {
+            console.error('sandbox-calendar.json の保存に失敗しました', e);
+        }
+    }
+
+    /** PATCH の意味（オブジェクトは再帰的にマージ、配列は置き換え、null は削除） */
+    static mergePatch(current: any, patch: any): any {
+        const merged: any = { ...current };
+        for (const [key, value] of Object.entries(patch)) {
+            if (value === null) delete merged[key];
+            else if (typeof value === 'object' && !Array.isArray(value) && typeof current?.[key] === 'object' && current[key] !== null && !Array.isArray(current[key])) {
+                merged[key] = SandboxCalendar.mergePatch(current[key], value);
+            } else merged[key] = SandboxCalendar.copy(value);
+        }
+        return merged;
+    }
+
+    // 期間の指定があれば重なるものだけ（繰り返しは開始が timeMax より前なら対象）
+    private static overlaps(event: calendar_v3.Schema$Event, timeMin?: string, timeMax?: string): boolean {
+        const at = (t?: calendar_v3.Schema$EventDateTime) => t?.dateTime ? Date.parse(t.dateTime) : t?.date ? Date.parse(`${t.date}T00:00:00Z`) : NaN;
+        const start = at(event.start ?? undefined);
+        const end = at(event.end ?? undefined);
+        if (timeMax && !(start < Date.parse(timeMax))) return false;
+        if (timeMin && !event.recurrence?.length && !((Number.isNaN(end) ? start : end) > Date.parse(timeMin))) return false;
+        return true;
+    }
+
+    private static parsePart(part: string): { contentId?: string; method?: string; path: string; partHeaders: Record<string, string>; body: any } {
+        const lines = part.replace(/^\r?\n/, '').split(/\r?\n/);
+        const requestIdx = lines.findIndex(l => /^[A-Z]+ \S+ HTTP\/\d/.test(l));
+        const contentId = lines.slice(0, Math.max(0, requestIdx)).map(l => /^Content-ID:\s*<([^>]+)>/i.exec(l)?.[1]).find(Boolean);
+        if (requestIdx === -1) return { contentId, path: '', partHeaders: {}, body: undefined };
+        const [method, path] = lines[requestIdx].split(' ');
+        const partHeaders: Record<string, string> = {};
+        let i = requestIdx + 1;
+        for (; i < lines.length && lines[i].trim() !== ''; i++) {
+            const h = /^([^:]+):\s*(.*)$/.exec(lines[i]);
+            if (h) partHeaders[h[1].toLowerCase()] = h[2];
+        }
+        const raw = lines.slice(i + 1).join('\n').trim();
+        try {
+            return { contentId, method, path, partHeaders, body: raw ? JSON.parse(raw) : undefined };
+        } catch {
+            return { contentId, path, partHeaders, body: undefined }; // 本文が JSON でなければ不正なパートとして 400
+        }
+    }
+
+    private static error(status: number, message: string, reason?: string): SandboxResponse {
+        return { status, body: { error: { code: status, message, ...(reason ? { errors: [{ reason, message }] } : {}) } } };
+    }
+
+    private static listError(status: number, message: string, reason: string): Error {
+        const data = SandboxCalendar.error(status, message, reason).body;
+        return Object.assign(new Error(message), { code: String(status), response: { status, data, headers: {} } });
+    }
+
+    private static response(status: number, contentType: string, text: string): RequestUrlResponse {
+        return {
+            status,
+            headers: { 'content-type': contentType },
+            text,
+            get json() { return JSON.parse(text); },
+            arrayBuffer: new TextEncoder().encode(text).buffer as ArrayBuffer,
+        };
+    }
+
+    private static lowerKeys(headers?: Record<string, string>): Record<string, string> {
+        const out: Record<string, string> = {};
+        for (const [k, v] of Object.entries(headers ?? {})) out[k.toLowerCase()] = v;
+        return out;
+    }
+
+    private static encode(value: object): string {
+        return Buffer.from(JSON.stringify(value), 'utf8').toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/g, '');
+    }
+
+    private static decode(token: string): any {
+        try {
+            return JSON.parse(Buffer.from(token.replace(/-/g, '+').replace(/_/g, '/'), 'base64').toString('utf8'));
+        } catch {
+            return null;
+        }
+    }
+
+    private static copy<T>(value: T): T {
+        return JSON.parse(JSON.stringify(value));
+    }
+}
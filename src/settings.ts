@@ -1,7 +1,11 @@
 import { App, PluginSettingTab, Setting, Notice, TextComponent, ExtraButtonComponent } from 'obsidian';
 // セキュリティ診断は簡素化のため未使用
 import moment from 'moment';
-import { GoogleCalendarTasksSyncSettings } from './types';
+import { CalendarBackendKind, CalendarRoute, CancelledTaskAction, FieldMergePolicy, GoogleCalendarTasksSyncSettings, MergeField, RemoteDeletionPolicy, TaskStatusDefinition, TaskStatusType } from './types';
+import { DEFAULT_MERGE_POLICIES } from './syncMerge';
+import { CALENDAR_FRONTMATTER_KEY, GOOGLE_TASKS_PREFIX } from './calendarRouter';
+import { IcsExporter } from './icsExporter';
+import { SYNC_FRONTMATTER_KEY } from './taskFilter';
 import GoogleCalendarTasksSyncPlugin from './main'; // main.ts からインポート
 
 
@@ -14,9 +18,44 @@ export const DEFAULT_SETTINGS: GoogleCalendarTasksSyncSettings = {
 	encryptionPassphrase: null,
 	rememberPassphrase: false,
 	calendarId: 'primary',
+	calendarBackend: 'google',
 	syncIntervalMinutes: 15,
 	autoSync: true,
+	syncOnChange: false,
+	syncOnChangeDelaySeconds: 5,
 	taskMap: {},
+	taskCalendars: {},
+	nativeRecurrence: false,
+	rollRecurringTasks: true,
+	taskStatuses: [],
+	cancelledTaskAction: 'delete',
+	recurrenceExceptions: {},
+	calendarRoutes: [],
+	syncIncludeRules: [],
+	syncExcludeRules: ['templates/'],
+	useTasksGlobalFilter: true,
+	autoAssignBlockIds: false,
+	syncScope: [],
+	accounts: [],
+	googleTasksTag: 'gtask',
+	googleTasksListId: '@default',
+	googleTaskMap: {},
+	icsExportPath: '',
+	icsIncludeTodos: true,
+	icsServeFeed: false,
+	syncCompletionFromGoogle: true,
+	pullTimeChangesFromGoogle: false,
+	pullTitleFromGoogle: false,
+	mergePolicies: { ...DEFAULT_MERGE_POLICIES },
+	syncBase: {},
+	deferMultiFieldConflicts: true,
+	remoteDeletionPolicy: 'recreate',
+	importOnSync: false,
+	importCalendarId: '',
+	importInboxPath: 'Google Calendar Inbox.md',
+	importWindowPastDays: 7,
+	importWindowFutureDays: 30,
+	journalGenerations: 5,
 	lastSyncTime: undefined,
 	fetchWindowPastDays: 90,
 	fetchWindowFutureDays: 180,
@@ -242,6 +281,74 @@ new Setting(containerEl)
             text: '開始日 (🛫 Start Date) と 期限日 (📅 Due Date) の両方を持つタスクのみが同期されます。',
             cls: 'setting-item-description'
         });
+		// 同期先のバックエンド
+		new Setting(containerEl)
+			.setName('同期先')
+			.setDesc('Google Calendar か CalDAV サーバー（Nextcloud / Fastmail など）、または試用・不具合の再現用のサンドボックス。切り替えた後は「タスクマップキャッシュをクリア」してから同期する（既存のイベントは移行されない）。')
+			.addDropdown(dropdown => dropdown
+				.addOption('google', 'Google Calendar')
+				.addOption('caldav', 'CalDAV')
+				.addOption('sandbox', 'サンドボックス（Google に接続しない）')
+				.setValue(this.plugin.settings.calendarBackend ?? 'google')
+				.onChange(async (value) => {
+					this.plugin.settings.calendarBackend = value as CalendarBackendKind;
+					// 増分取得の起点はバックエンドごとに形式が違う
+					this.plugin.settings.syncToken = undefined;
+					this.plugin.settings.listFilterSignature = undefined;
+					await this.plugin.saveData(this.plugin.settings);
+					this.plugin.initializeCalendarApi();
+					this.display();
+				}));
+		if (this.plugin.settings.calendarBackend === 'sandbox') {
+			new Setting(containerEl)
+				.setName('サンドボックスのカレンダー')
+				.setDesc('Google Calendar API の代役に同期する（プラグインフォルダの sandbox-calendar.json に保存）。認証は不要。「syncToken を失効」で次の増分取得を 410 にできる。')
+				.addButton(button => button
+					.setButtonText('syncToken を失効')
+					.onClick(async () => {
+						await this.plugin.sandboxCalendar.expireSyncTokens();
+						new Notice('サンドボックスの syncToken を失効させました。');
+					}))
+				.addButton(button => button
+					.setButtonText('空にする')
+					.setWarning()
+					.onClick(async () => {
+						await this.plugin.sandboxCalendar.reset();
+						new Notice('サンドボックスのイベントを削除しました。「タスクマップキャッシュをクリア」してから同期する。');
+					}));
+		}
+		if (this.plugin.settings.calendarBackend === 'caldav') {
+			const caldav = () => (this.plugin.settings.caldav ??= { serverUrl: '', username: '' });
+			new Setting(containerEl)
+				.setName('CalDAV サーバー URL')
+				.setDesc('カレンダーのコレクションの親 URL。カレンダー ID はここからの相対パス（"primary" はこの URL 自体）。')
+				.addText(text => text
+					.setPlaceholder('https://cloud.example.com/remote.php/dav/calendars/alice/')
+					.setValue(this.plugin.settings.caldav?.serverUrl ?? '')
+					.onChange(async (value) => {
+						caldav().serverUrl = value.trim();
+						this.plugin.settings.syncToken = undefined;
+						await this.plugin.saveData(this.plugin.settings);
+					}));
+			new Setting(containerEl)
+				.setName('CalDAV ユーザー名')
+				.addText(text => text
+					.setValue(this.plugin.settings.caldav?.username ?? '')
+					.onChange(async (value) => {
+						caldav().username = value.trim();
+						await this.plugin.saveData(this.plugin.settings);
+					}));
+			new Setting(containerEl)
+				.setName('CalDAV パスワード')
+				.setDesc('アプリパスワードを推奨。トークンと同じ難読化で保存する。')
+				.addText(text => {
+					text.inputEl.type = 'password';
+					text.setPlaceholder(this.plugin.settings.caldav?.passwordEncrypted ? '（保存済み）' : '')
+						.onChange(async (value) => {
+							await this.plugin.persistCalDavPassword(value);
+						});
+				});
+		}
 		// カレンダーID
 		new Setting(containerEl)
 			.setName('対象 Google Calendar ID')
@@ -287,6 +394,253 @@ new Setting(containerEl)
 				});
 		}
 
+		// 編集時の部分同期
+		new Setting(containerEl)
+			.setName('編集時に同期')
+			.setDesc('タスク行を編集すると、少し待ってからそのファイルのタスクだけを Google に送ります。削除の反映は通常の同期で行います。')
+			.addToggle(toggle => toggle
+				.setValue(!!this.plugin.settings.syncOnChange)
+				.onChange(async (value) => {
+					this.plugin.settings.syncOnChange = value;
+					await this.plugin.saveData(this.plugin.settings);
+					this.display();
+				}));
+		if (this.plugin.settings.syncOnChange) {
+			new Setting(containerEl)
+				.setName('編集後の待ち時間 (秒)')
+				.setDesc('最後の編集からこの秒数だけ編集が無ければ部分同期を実行します (最小 1 秒)。')
+				.addText(text => {
+					text.inputEl.type = 'number';
+					text.inputEl.min = '1';
+					text.setValue(String(this.plugin.settings.syncOnChangeDelaySeconds ?? DEFAULT_SETTINGS.syncOnChangeDelaySeconds!))
+						.onChange(async (value) => {
+							let n = parseInt(value, 10);
+							if (isNaN(n) || n < 1) n = 1;
+							this.plugin.settings.syncOnChangeDelaySeconds = n;
+							await this.plugin.saveData(this.plugin.settings);
+							text.setValue(String(n));
+						});
+				});
+		}
+
+		// 同期するタスク
+		containerEl.createEl('h4', { text: '同期するタスク' });
+		containerEl.createEl('p', {
+			text: `ノートのフロントマター "${SYNC_FRONTMATTER_KEY}: false" → Tasks プラグインのグローバルフィルタ → 除外ルール → 対象ルールの順に評価し、外れたタスクは送らない（既存のイベントは削除される）。ルールは "#tag"（入れ子タグも一致）かパスのグロブのカンマ区切り。コマンド「カーソル行のタスクが同期される理由を表示」で判定を確認できる。`,
+			cls: 'setting-item-description'
+		});
+		new Setting(containerEl)
+			.setName('対象ルール')
+			.setDesc('いずれかに一致するタスクだけを同期する。空なら全タスク。')
+			.addText(text => text
+				.setPlaceholder('#task, Projects/**')
+				.setValue((this.plugin.settings.syncIncludeRules ?? []).join(', '))
+				.onChange(async (value) => {
+					this.plugin.settings.syncIncludeRules = this.parseScope(value);
+					await this.plugin.saveData(this.plugin.settings);
+				}));
+		new Setting(containerEl)
+			.setName('除外ルール')
+			.setDesc('いずれかに一致するタスクは対象ルールに一致しても同期しない。')
+			.addText(text => text
+				.setPlaceholder('templates/, #nocal')
+				.setValue((this.plugin.settings.syncExcludeRules ?? []).join(', '))
+				.onChange(async (value) => {
+					this.plugin.settings.syncExcludeRules = this.parseScope(value);
+					await this.plugin.saveData(this.plugin.settings);
+				}));
+		new Setting(containerEl)
+			.setName('Tasks プラグインのグローバルフィルタに従う')
+			.setDesc('Tasks プラグインでグローバルフィルタ（例: #task）を設定している場合、それを含む行だけをタスクとして同期する。')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.useTasksGlobalFilter !== false)
+				.onChange(async (value) => {
+					this.plugin.settings.useTasksGlobalFilter = value;
+					await this.plugin.saveData(this.plugin.settings);
+				}));
+		new Setting(containerEl)
+			.setName('ブロック ID を自動で付ける')
+			.setDesc('ブロック ID（^id）の無いタスクに、初回の同期で ^gcal-xxxxxx を付けます。タイトル・日付・行位置を変えても同じイベントとして扱われます。既存の対応は新しい ID へ引き継ぎます。')
+			.addToggle(toggle => toggle
+				.setValue(!!this.plugin.settings.autoAssignBlockIds)
+				.onChange(async (value) => {
+					this.plugin.settings.autoAssignBlockIds = value;
+					await this.plugin.saveData(this.plugin.settings);
+				}));
+
+		// カレンダーの振り分け
+		containerEl.createEl('h4', { text: 'カレンダーの振り分け' });
+		containerEl.createEl('p', {
+			text: `上から順に評価し、最初に一致したカレンダーへ送ります。一致条件は "#tag"（入れ子タグも一致）か、パスのグロブ（例: Projects/Acme/**、記号が無ければフォルダ扱い）。ノートのフロントマター "${CALENDAR_FRONTMATTER_KEY}: <カレンダー ID>" はこの表より優先されます。振り分け先が変わったタスクのイベントは移動されます。`,
+			cls: 'setting-item-description'
+		});
+		this.renderCalendarRoutes(containerEl, this.plugin.settings.calendarRoutes ?? [], routes => { this.plugin.settings.calendarRoutes = routes; });
+
+		// Google Tasks
+		containerEl.createEl('h4', { text: 'Google Tasks' });
+		containerEl.createEl('p', {
+			text: `タグの付いたタスク、または振り分け先を "${GOOGLE_TASKS_PREFIX}<リスト ID>" にしたルールに一致するタスクは、カレンダーではなく Google Tasks に送ります。タイトル・メモ・期限・完了状態を同期し、完了状態は Google Tasks 側の変更もノートへ反映します。インデントしたタスクはサブタスクになります。有効にする前に再認証して Tasks の権限を与えてください。`,
+			cls: 'setting-item-description'
+		});
+		new Setting(containerEl)
+			.setName('Google Tasks に送るタグ')
+			.setDesc('このタグ（入れ子タグも一致）が付いたタスクは振り分けルールより優先して Google Tasks に送ります。空で無効。')
+			.addText(text => text
+				.setPlaceholder('gtask')
+				.setValue(this.plugin.settings.googleTasksTag ?? '')
+				.onChange(async (value) => {
+					this.plugin.settings.googleTasksTag = value.trim().replace(/^#/, '');
+					await this.plugin.saveData(this.plugin.settings);
+				}));
+		new Setting(containerEl)
+			.setName('タスクリスト ID')
+			.setDesc('タグで送るタスクのリスト。"@default" は既定のリスト。')
+			.addText(text => text
+				.setPlaceholder('@default')
+				.setValue(this.plugin.settings.googleTasksListId ?? '@default')
+				.onChange(async (value) => {
+					this.plugin.settings.googleTasksListId = value.trim() || '@default';
+					await this.plugin.saveData(this.plugin.settings);
+				}));
+
+		// 追加の Google アカウント
+		containerEl.createEl('h4', { text: 'Google アカウント' });
+		containerEl.createEl('p', {
+			text: '上で認証したメインのアカウントに続けて、追加したアカウントを順に同期します。アカウントごとにトークン・カレンダー・振り分け・同期範囲を持ちます。同期範囲は "#tag" またはパスのグロブをカンマ区切りで指定し、いずれかに一致するタスクだけを同期します（空なら全タスク）。範囲から外れたタスクのイベントはそのアカウントから削除されます。取り込みはメインのアカウントのみです。',
+			cls: 'setting-item-description'
+		});
+		new Setting(containerEl)
+			.setName('メインの同期範囲')
+			.setDesc('メインのアカウントで同期するタスク。')
+			.addText(text => text
+				.setPlaceholder('#personal, Private/**')
+				.setValue((this.plugin.settings.syncScope ?? []).join(', '))
+				.onChange(async (value) => {
+					this.plugin.settings.syncScope = this.parseScope(value);
+					await this.plugin.saveData(this.plugin.settings);
+				}));
+		for (const profile of this.plugin.accounts.profiles()) {
+			containerEl.createEl('h5', { text: profile.name || '(名前なし)' });
+			new Setting(containerEl)
+				.setName('名前')
+				.addText(text => text
+					.setValue(profile.name)
+					.onChange(async (value) => {
+						profile.name = value.trim();
+						await this.plugin.saveData(this.plugin.settings);
+					}))
+				.addButton(button => button
+					.setButtonText(profile.tokensEncrypted ? '再認証' : '認証')
+					.setTooltip('ブラウザでこのアカウントを選んで承認する')
+					.onClick(() => this.plugin.authService.authenticate(profile.id)))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('このアカウントを削除')
+					.onClick(async () => {
+						if (this.plugin.isCurrentlySyncing()) {
+							new Notice('同期中は削除できません。');
+							return;
+						}
+						if (!confirm(`アカウント ${profile.name} を削除しますか？ Google 側のイベントは残り、対応表は失われます。`)) return;
+						this.plugin.accounts.remove(profile.id);
+						await this.plugin.saveData(this.plugin.settings);
+						this.display();
+					}));
+			new Setting(containerEl)
+				.setName('同期する')
+				.setDesc(profile.tokensEncrypted ? '認証済み' : '未認証（認証するまで同期しません）')
+				.addToggle(toggle => toggle
+					.setValue(profile.enabled !== false)
+					.onChange(async (value) => {
+						profile.enabled = value;
+						await this.plugin.saveData(this.plugin.settings);
+					}));
+			new Setting(containerEl)
+				.setName('Google Calendar ID')
+				.addText(text => text
+					.setPlaceholder('primary')
+					.setValue(profile.calendarId)
+					.onChange(async (value) => {
+						profile.calendarId = value.trim() || 'primary';
+						await this.plugin.saveData(this.plugin.settings);
+					}));
+			new Setting(containerEl)
+				.setName('同期範囲')
+				.addText(text => text
+					.setPlaceholder('#work, Work/**')
+					.setValue((profile.syncScope ?? []).join(', '))
+					.onChange(async (value) => {
+						profile.syncScope = this.parseScope(value);
+						await this.plugin.saveData(this.plugin.settings);
+					}));
+			this.renderCalendarRoutes(containerEl, profile.calendarRoutes ?? [], routes => { profile.calendarRoutes = routes; });
+		}
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText('アカウントを追加')
+				.onClick(async () => {
+					this.plugin.accounts.create(`アカウント ${this.plugin.accounts.profiles().length + 2}`);
+					await this.plugin.saveData(this.plugin.settings);
+					this.display();
+				}));
+
+		// .ics の書き出し
+		containerEl.createEl('h4', { text: 'iCalendar (.ics) の書き出し' });
+		containerEl.createEl('p', {
+			text: 'OAuth を使えない環境向けに、同期のたびにタスクを .ics ファイルへ書き出します（読み取り専用）。開始日・期限日のあるタスクはイベント（繰り返しを含む）、日付の無いタスクは ToDo になります。同期先が未設定でも、手動・自動・編集時の同期で書き出しだけを行います。',
+			cls: 'setting-item-description'
+		});
+		new Setting(containerEl)
+			.setName('書き出し先のパス')
+			.setDesc('Vault 内のパス（例: Calendars/tasks.ics）。空で無効。')
+			.addText(text => text
+				.setPlaceholder('Obsidian Tasks.ics')
+				.setValue(this.plugin.settings.icsExportPath ?? '')
+				.onChange(async (value) => {
+					this.plugin.settings.icsExportPath = value.trim() ? IcsExporter.normalizePath(value) : '';
+					await this.plugin.saveData(this.plugin.settings);
+				}));
+		new Setting(containerEl)
+			.setName('日付の無いタスクを ToDo として含める')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.icsIncludeTodos ?? true)
+				.onChange(async (value) => {
+					this.plugin.settings.icsIncludeTodos = value;
+					await this.plugin.saveData(this.plugin.settings);
+				}));
+		new Setting(containerEl)
+			.setName('ローカルサーバーで配信する')
+			.setDesc('認証用のローカルサーバーから .ics を配信し、デスクトップのカレンダーアプリで購読できるようにします。URL のトークンを知っている場合のみ応答します。')
+			.addToggle(toggle => toggle
+				.setValue(!!this.plugin.settings.icsServeFeed)
+				.onChange(async (value) => {
+					this.plugin.settings.icsServeFeed = value;
+					if (value && !this.plugin.settings.icsFeedToken) this.plugin.settings.icsFeedToken = IcsExporter.newToken();
+					await this.plugin.saveData(this.plugin.settings);
+					this.display();
+				}));
+		if (this.plugin.settings.icsServeFeed && this.plugin.settings.icsFeedToken) {
+			const feedUrl = `http://127.0.0.1:${this.plugin.settings.loopbackPort}/calendar.ics?token=${this.plugin.settings.icsFeedToken}`;
+			new Setting(containerEl)
+				.setName('購読 URL')
+				.setDesc(feedUrl)
+				.addButton(button => button
+					.setButtonText('コピー')
+					.onClick(async () => {
+						await navigator.clipboard.writeText(feedUrl);
+						new Notice('購読 URL をコピーしました。');
+					}))
+				.addButton(button => button
+					.setButtonText('トークンを再発行')
+					.setWarning()
+					.onClick(async () => {
+						if (!confirm('トークンを再発行すると、現在の URL での購読は使えなくなります。続けますか？')) return;
+						this.plugin.settings.icsFeedToken = IcsExporter.newToken();
+						await this.plugin.saveData(this.plugin.settings);
+						this.display();
+					}));
+		}
+
 		// --- 同期挙動オプションセクション ---
 		containerEl.createEl('h3', { text: '同期挙動オプション' });
 		// イベントタイミングの説明
@@ -318,6 +672,178 @@ new Setting(containerEl)
 						text.setValue(newDur.toString()); // 画面表示を更新/正規化
 					});
 			});
+		new Setting(containerEl)
+			.setName('繰り返しをそのまま送る')
+			.setDesc('オンにすると、繰り返しタスクを発生ごとのイベントに展開せず、RRULE 付きの 1 件の繰り返しイベントとして送る（🛫〜📅 が繰り返しの期間、1 回分は開始日の時間帯）。Google 側で個別に変更した回はそのまま残し、タイトルや説明の変更だけを反映する。切り替え後は強制同期で作り直す。')
+			.addToggle(toggle => toggle
+				.setValue(!!this.plugin.settings.nativeRecurrence)
+				.onChange(async (value) => {
+					this.plugin.settings.nativeRecurrence = value;
+					await this.plugin.saveData(this.plugin.settings);
+				}));
+		new Setting(containerEl)
+			.setName('完了した繰り返しタスクの次の回を作る')
+			.setDesc('🔁 のタスクが完了したら（Google 側で完了にされた場合も）、次の回の日付にしたタスク行を完了した行の上に追記し、別のイベントとして同期する。完了した行とそのイベントは履歴として残る。「when done」は完了日から次の回を数える。同じ行が既にあれば（Tasks プラグインが追記した場合など）追記しない。')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.rollRecurringTasks !== false)
+				.onChange(async (value) => {
+					this.plugin.settings.rollRecurringTasks = value;
+					await this.plugin.saveData(this.plugin.settings);
+				}));
+
+		// タスクの状態
+		containerEl.createEl('h4', { text: 'タスクの状態' });
+		containerEl.createEl('p', {
+			text: `チェックボックスの記号ごとの扱い（Tasks プラグインのカスタムステータスと同じ区分）。既定では "x" が完了、"/" が進行中（タイトルに 🚧）、"-" がキャンセル、">" が延期で、表に無い記号は未着手として扱います。同じ記号を追加すると既定の定義を上書きします。進行中は前置きと色を付けて送り、延期はイベントを送らず既存のイベントもそのまま残します。状態はイベントの非公開プロパティにも記録します。`,
+			cls: 'setting-item-description'
+		});
+		this.renderTaskStatuses(containerEl, this.plugin.settings.taskStatuses ?? [], statuses => { this.plugin.settings.taskStatuses = statuses; });
+		new Setting(containerEl)
+			.setName('キャンセルしたタスクのイベント')
+			.setDesc('「取り消し印を付けて残す」では、既存のイベントを削除せずタイトルに前置き（既定は ❌）を付けて更新する。イベントの無いキャンセル済みタスクは作成しない。')
+			.addDropdown(dropdown => dropdown
+				.addOption('delete', '削除する')
+				.addOption('mark', '取り消し印を付けて残す')
+				.setValue(this.plugin.settings.cancelledTaskAction ?? 'delete')
+				.onChange(async (value) => {
+					this.plugin.settings.cancelledTaskAction = value as CancelledTaskAction;
+					await this.plugin.saveData(this.plugin.settings);
+				}));
+
+		// Google → Obsidian の書き戻し
+		containerEl.createEl('h4', { text: 'Google からの書き戻し' });
+		new Setting(containerEl)
+			.setName('完了状態を Obsidian に反映')
+			.setDesc('Google 側で完了にされたイベントを検出し、元のタスク行を "- [x]" と "✅ 完了日" に書き換える。')
+			.addToggle(toggle => toggle
+				.setValue(!!this.plugin.settings.syncCompletionFromGoogle)
+				.onChange(async (value) => {
+					this.plugin.settings.syncCompletionFromGoogle = value;
+					await this.plugin.saveData(this.plugin.settings);
+				}));
+		new Setting(containerEl)
+			.setName('日時の変更を Obsidian に反映')
+			.setDesc('Google 側でイベントが移動された場合、🛫/📅 と時間帯 (HH:mm~HH:mm) を書き換える。繰り返し/日付跨ぎのタスクは対象外。')
+			.addToggle(toggle => toggle
+				.setValue(!!this.plugin.settings.pullTimeChangesFromGoogle)
+				.onChange(async (value) => {
+					this.plugin.settings.pullTimeChangesFromGoogle = value;
+					await this.plugin.saveData(this.plugin.settings);
+				}));
+		new Setting(containerEl)
+			.setName('タイトルの変更を Obsidian に反映')
+			.setDesc('Google 側でイベント名が変更された場合、タスク本文を書き換える（日付やタグなどのトークンは保持）。')
+			.addToggle(toggle => toggle
+				.setValue(!!this.plugin.settings.pullTitleFromGoogle)
+				.onChange(async (value) => {
+					this.plugin.settings.pullTitleFromGoogle = value;
+					await this.plugin.saveData(this.plugin.settings);
+				}));
+
+		// 両側で同時に変更された場合の方針（書き戻しが有効なフィールドのみ）
+		const policyLabels: Record<FieldMergePolicy, string> = {
+			obsidian: 'Obsidian 優先',
+			google: 'Google 優先',
+			or: 'どちらかで完了なら完了 (OR)',
+			and: '両方で完了なら完了 (AND)',
+			manual: '手動で解決（競合キューへ）',
+		};
+		const policyFields: { field: MergeField; name: string; options: FieldMergePolicy[] }[] = [
+			{ field: 'time', name: '競合時の方針: 日時', options: ['google', 'obsidian', 'manual'] },
+			{ field: 'title', name: '競合時の方針: タイトル', options: ['obsidian', 'google', 'manual'] },
+			{ field: 'completion', name: '競合時の方針: 完了状態', options: ['or', 'and', 'obsidian', 'google', 'manual'] },
+		];
+		for (const { field, name, options } of policyFields) {
+			new Setting(containerEl)
+				.setName(name)
+				.setDesc('前回同期以降に Obsidian と Google の両方で異なる値へ変更された場合に採用する側。')
+				.addDropdown(dropdown => {
+					options.forEach(o => dropdown.addOption(o, policyLabels[o]));
+					dropdown
+						.setValue(this.plugin.settings.mergePolicies?.[field] ?? DEFAULT_MERGE_POLICIES[field])
+						.onChange(async (value) => {
+							this.plugin.settings.mergePolicies = {
+								...DEFAULT_MERGE_POLICIES,
+								...(this.plugin.settings.mergePolicies || {}),
+								[field]: value as FieldMergePolicy,
+							};
+							await this.plugin.saveData(this.plugin.settings);
+						});
+				});
+		}
+		new Setting(containerEl)
+			.setName('複数フィールドの同時競合は保留する')
+			.setDesc('タイトルと日時など 2 つ以上のフィールドが両側で変更された場合、自動解決せず競合キューに送る。コマンド「同期の競合キューを開く」から解決する。')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.deferMultiFieldConflicts !== false)
+				.onChange(async (value) => {
+					this.plugin.settings.deferMultiFieldConflicts = value;
+					await this.plugin.saveData(this.plugin.settings);
+				}));
+
+		new Setting(containerEl)
+			.setName('Google 側で削除されたイベント')
+			.setDesc('同期中のイベントが Google 側で削除された場合のタスクの扱い。キャンセル済み (- [-]) や #gcal-deleted 付きのタスクは同期しない（戻すと再作成される）。')
+			.addDropdown(dropdown => dropdown
+				.addOption('recreate', 'イベントを再作成する')
+				.addOption('cancel', 'タスクをキャンセル (- [-]) にする')
+				.addOption('delete', 'タスク行を削除する')
+				.addOption('tag', '#gcal-deleted タグを付ける')
+				.setValue(this.plugin.settings.remoteDeletionPolicy ?? 'recreate')
+				.onChange(async (value) => {
+					this.plugin.settings.remoteDeletionPolicy = value as RemoteDeletionPolicy;
+					await this.plugin.saveData(this.plugin.settings);
+				}));
+
+		// Google からの取り込み
+		containerEl.createEl('h4', { text: 'Google からの取り込み' });
+		new Setting(containerEl)
+			.setName('同期時に管理外のイベントを取り込む')
+			.setDesc('Google で直接作成されたイベントをインボックスノートにタスク行として追記し、以後は同期対象として扱う。コマンド「管理外の Google イベントを取り込む」で手動実行もできる。')
+			.addToggle(toggle => toggle
+				.setValue(!!this.plugin.settings.importOnSync)
+				.onChange(async (value) => {
+					this.plugin.settings.importOnSync = value;
+					await this.plugin.saveData(this.plugin.settings);
+				}));
+		new Setting(containerEl)
+			.setName('取り込み元のカレンダー ID')
+			.setDesc('空欄なら同期対象のカレンダー。別のカレンダーを指定した場合、取り込んだイベントは同期対象のカレンダーへ移動する。')
+			.addText(text => text
+				.setPlaceholder(this.plugin.settings.calendarId)
+				.setValue(this.plugin.settings.importCalendarId ?? '')
+				.onChange(async (value) => {
+					this.plugin.settings.importCalendarId = value.trim();
+					await this.plugin.saveData(this.plugin.settings);
+				}));
+		new Setting(containerEl)
+			.setName('インボックスノート')
+			.setDesc('取り込んだタスク行を追記するノートのパス（存在しなければ作成）。')
+			.addText(text => text
+				.setPlaceholder(DEFAULT_SETTINGS.importInboxPath!)
+				.setValue(this.plugin.settings.importInboxPath ?? '')
+				.onChange(async (value) => {
+					this.plugin.settings.importInboxPath = value.trim();
+					await this.plugin.saveData(this.plugin.settings);
+				}));
+		const importWindowSetting = (name: string, desc: string, key: 'importWindowPastDays' | 'importWindowFutureDays') =>
+			new Setting(containerEl)
+				.setName(name)
+				.setDesc(desc)
+				.addText(text => {
+					text.inputEl.type = 'number';
+					text.inputEl.min = '0';
+					text.setValue(String(this.plugin.settings[key] ?? DEFAULT_SETTINGS[key]!))
+						.onChange(async (value) => {
+							let n = parseInt(value, 10);
+							if (isNaN(n) || n < 0) n = 0;
+							this.plugin.settings[key] = n;
+							await this.plugin.saveData(this.plugin.settings);
+							text.setValue(String(n));
+						});
+				});
+		importWindowSetting('取り込み期間（過去日数）', '今日から過去 N 日以内のイベントを取り込む。', 'importWindowPastDays');
+		importWindowSetting('取り込み期間（未来日数）', '今日から未来 M 日以内のイベントを取り込む。終わりの無い繰り返しはこの日までのタスクとして取り込む。', 'importWindowFutureDays');
 
 		// 重複判定オプション
 		containerEl.createEl('h4', { text: '重複判定オプション' });
@@ -517,6 +1043,7 @@ new Setting(containerEl)
 				.onClick(async () => {
 					if (confirm('本当にタスクマップキャッシュをクリアしますか？ この操作は元に戻せず、次回の同期で重複イベントが発生する可能性があります。')) {
 						this.plugin.settings.taskMap = {};
+						this.plugin.settings.syncBase = {};
 						this.plugin.settings.lastSyncTime = undefined;
 						await this.plugin.saveData(this.plugin.settings); // saveData を使う
 						new Notice('タスクマップと最終同期時刻がクリアされました。');
@@ -540,6 +1067,33 @@ new Setting(containerEl)
 					}
 				}));
 
+		// 直前の同期の取り消し
+		new Setting(containerEl)
+			.setName('直前の同期を取り消す')
+			.setDesc('最後の同期で Google に送った追加・更新・削除を、記録しておいた同期前の状態に戻します。ノートの内容は変更されません。')
+			.addButton(button => button
+				.setButtonText('取り消す')
+				.setIcon('undo')
+				.onClick(async () => {
+					await this.plugin.triggerUndoLastSync();
+					this.display();
+				}));
+		new Setting(containerEl)
+			.setName('取り消し用に残す同期の数')
+			.setDesc('同期ごとに、更新・削除したイベントの送信前の状態と taskMap を記録する世代数（0 で記録しない、既定5）。')
+			.addText(text => {
+				text.inputEl.type = 'number';
+				text.inputEl.min = '0';
+				text.setValue(String(this.plugin.settings.journalGenerations ?? DEFAULT_SETTINGS.journalGenerations!))
+					.onChange(async (value) => {
+						let n = parseInt(value, 10);
+						if (isNaN(n) || n < 0) n = 0;
+						this.plugin.settings.journalGenerations = n;
+						await this.plugin.saveData(this.plugin.settings);
+						text.setValue(String(n));
+					});
+			});
+
 		// 現在のマップキャッシュのエントリ数を表示
 		const taskCount = Object.keys(this.plugin.settings.taskMap).length;
 		containerEl.createEl('p', {
@@ -687,4 +1241,109 @@ new Setting(containerEl)
 					try { const { setDevLogging } = await import('./logger'); setDevLogging(!!v); } catch {}
 				}));
 	}
+
+	/** 振り分けルールの表（1 行 = 一致条件・カレンダー ID・削除ボタン）と追加ボタンを描きます */
+	private renderCalendarRoutes(containerEl: HTMLElement, routes: CalendarRoute[], update: (routes: CalendarRoute[]) => void): void {
+		routes.forEach((route, i) => {
+			new Setting(containerEl)
+				.setName(`ルール ${i + 1}`)
+				.addText(text => text
+					.setPlaceholder('#work または Projects/Acme/**')
+					.setValue(route.match)
+					.onChange(async (value) => {
+						route.match = value.trim();
+						await this.plugin.saveData(this.plugin.settings);
+					}))
+				.addText(text => text
+					.setPlaceholder('カレンダー ID')
+					.setValue(route.calendarId)
+					.onChange(async (value) => {
+						route.calendarId = value.trim();
+						await this.plugin.saveData(this.plugin.settings);
+					}))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('このルールを削除')
+					.onClick(async () => {
+						update(routes.filter((_, j) => j !== i));
+						await this.plugin.saveData(this.plugin.settings);
+						this.display();
+					}));
+		});
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText('ルールを追加')
+				.onClick(async () => {
+					update([...routes, { match: '', calendarId: '' }]);
+					await this.plugin.saveData(this.plugin.settings);
+					this.display();
+				}));
+	}
+
+	private renderTaskStatuses(containerEl: HTMLElement, statuses: TaskStatusDefinition[], update: (statuses: TaskStatusDefinition[]) => void): void {
+		const types: { [type in TaskStatusType]: string } = { todo: '未着手', in_progress: '進行中', done: '完了', cancelled: 'キャンセル', deferred: '延期' };
+		statuses.forEach((status, i) => {
+			new Setting(containerEl)
+				.setName(`状態 ${i + 1}`)
+				.addText(text => {
+					text.inputEl.maxLength = 1;
+					text.inputEl.size = 2;
+					text.setPlaceholder('記号')
+						.setValue(status.symbol)
+						.onChange(async (value) => {
+							status.symbol = value;
+							await this.plugin.saveData(this.plugin.settings);
+						});
+				})
+				.addText(text => text
+					.setPlaceholder('名前')
+					.setValue(status.name)
+					.onChange(async (value) => {
+						status.name = value.trim();
+						await this.plugin.saveData(this.plugin.settings);
+					}))
+				.addDropdown(dropdown => {
+					(Object.keys(types) as TaskStatusType[]).forEach(type => dropdown.addOption(type, types[type]));
+					dropdown.setValue(status.type)
+						.onChange(async (value) => {
+							status.type = value as TaskStatusType;
+							await this.plugin.saveData(this.plugin.settings);
+						});
+				})
+				.addText(text => text
+					.setPlaceholder('タイトルの前置き')
+					.setValue(status.summaryPrefix ?? '')
+					.onChange(async (value) => {
+						status.summaryPrefix = value || undefined;
+						await this.plugin.saveData(this.plugin.settings);
+					}))
+				.addText(text => text
+					.setPlaceholder('色 (1〜11)')
+					.setValue(status.colorId ?? '')
+					.onChange(async (value) => {
+						status.colorId = value.trim() || undefined;
+						await this.plugin.saveData(this.plugin.settings);
+					}))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('この状態を削除')
+					.onClick(async () => {
+						update(statuses.filter((_, j) => j !== i));
+						await this.plugin.saveData(this.plugin.settings);
+						this.display();
+					}));
+		});
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText('状態を追加')
+				.onClick(async () => {
+					update([...statuses, { symbol: '', name: '', type: 'todo' }]);
+					await this.plugin.saveData(this.plugin.settings);
+					this.display();
+				}));
+	}
+
+	private parseScope(value: string): string[] {
+		return value.split(',').map(v => v.trim()).filter(Boolean);
+	}
 }
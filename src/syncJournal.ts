@@ -0,0 +1,134 @@
+import { App } from 'obsidian';
+import { calendar_v3 } from 'googleapis';
+import { BatchRequestItem, SyncJournalEntry, SyncJournalGeneration } from './types';
+import { CalendarRouter } from './calendarRouter';
+
+// 書き戻し時に送らないサーバー管理のフィールド
+const READ_ONLY_EVENT_FIELDS = [
+    'id', 'etag', 'kind', 'htmlLink', 'created', 'updated', 'creator', 'organizer',
+    'iCalUID', 'sequence', 'hangoutLink', 'recurringEventId', 'originalStartTime',
+] as const;
+
+/**
+ * 同期ごとのロールバック用ジャーナル。
+ * Google へ送った操作と、更新・削除したイベントの送信前の状態、同期前の taskMap を
+ * 世代ごとにプラグインフォルダの sync-journal.json（古い順の配列）へ保存する。
+ */
+export class SyncJournal {
+    private app: App;
+    private readonly path: string;
+    private generations: SyncJournalGeneration[] | null = null;
+
+    constructor(app: App, pluginDir: string) {
+        this.app = app;
+        this.path = `${pluginDir}/sync-journal.json`;
+    }
+
+    async load(): Promise<SyncJournalGeneration[]> {
+        if (this.generations) return this.generations;
+        try {
+            const adapter = this.app.vault.adapter;
+            if (await adapter.exists(this.path)) {
+                const parsed = JSON.parse(await adapter.read(this.path));
+                this.generations = Array.isArray(parsed) ? parsed : [];
+            } else {
+                this.generations = [];
+            }
+        } catch (e) {
+            console.warn('sync-journal.json の読み込みに失敗しました。空のジャーナルとして扱います。', e);
+            this.generations = [];
+        }
+        return this.generations;
+    }
+
+    private async save(): Promise<void> {
+        try {
+            await this.app.vault.adapter.write(this.path, JSON.stringify(this.generations ?? [], null, 2));
+        } catch (e) {
+            console.error('sync-journal.json の保存に失敗しました', e);
+        }
+    }
+
+    /** 世代を追加し、古いものから keep 件を超えた分を捨てます */
+    async record(generation: SyncJournalGeneration, keep: number): Promise<void> {
+        const generations = await this.load();
+        generations.push(generation);
+        generations.splice(0, Math.max(0, generations.length - Math.max(1, keep)));
+        await this.save();
+    }
+
+    async latest(): Promise<SyncJournalGeneration | undefined> {
+        const generations = await this.load();
+        return generations[generations.length - 1];
+    }
+
+    /** 最新の世代を取り除きます（取り消し完了後） */
+    async pop(): Promise<SyncJournalGeneration | undefined> {
+        const generation = (await this.load()).pop();
+        if (generation) await this.save();
+        return generation;
+    }
+
+    /**
+     * 世代を打ち消す逆操作を、記録と逆の順に組み立てます。
+     * 追加 → 削除、更新 → 記録した状態で置き換え、削除 → 記録した状態で再作成（新しい ID になる）、移動 → 移動元へ戻す。
+     * 送信前の状態が無い更新・削除は戻せないため含めない。
+     */
+    static buildUndoRequests(generation: SyncJournalGeneration): BatchRequestItem[] {
+        const requests: BatchRequestItem[] = [];
+        for (const entry of generation.entries.slice().reverse()) {
+            const calendarId = entry.calendarId ?? generation.calendarId;
+            const calendarPath = CalendarRouter.eventsPath(calendarId);
+            const eventPath = `${calendarPath}/${encodeURIComponent(entry.gcalId)}`;
+            if (entry.op === 'insert') {
+                requests.push({ method: 'DELETE', path: eventPath, operationType: 'delete', originalGcalId: entry.gcalId, obsidianTaskId: entry.obsidianTaskId });
+            } else if (entry.before && entry.op === 'patch') {
+                requests.push({ method: 'PUT', path: eventPath, body: SyncJournal.restorableBody(entry.before), operationType: 'update', originalGcalId: entry.gcalId, obsidianTaskId: entry.obsidianTaskId });
+            } else if (entry.op === 'move') {
+                const back = entry.fromCalendarId ?? generation.calendarId;
+                requests.push({ method: 'POST', path: CalendarRouter.movePath(calendarId, entry.gcalId, back), operationType: 'move', originalGcalId: entry.gcalId, obsidianTaskId: entry.obsidianTaskId });
+            } else if (entry.before && entry.op === 'delete') {
+                requests.push({ method: 'POST', path: calendarPath, body: SyncJournal.restorableBody(entry.before), operationType: 'insert', originalGcalId: entry.gcalId, obsidianTaskId: entry.obsidianTaskId });
+            }
+        }
+        return requests;
+    }
+
+    static restorableBody(event: calendar_v3.Schema$Event): calendar_v3.Schema$Event {
+        const body: any = { ...event };
+        READ_ONLY_EVENT_FIELDS.forEach(key => delete body[key]);
+        return body;
+    }
+
+    /**
+     * 操作の結果から記録用のエントリを作ります（失敗した操作は戻す必要が無いので除く）。
+     * defaultCalendarId 以外のカレンダーへの操作にはカレンダー ID を残す。
+     */
+    static entriesFromResults(
+        requests: BatchRequestItem[],
+        results: { status: number; body?: any }[],
+        priorStates: Map<string, calendar_v3.Schema$Event>,
+        defaultCalendarId?: string
+    ): SyncJournalEntry[] {
+        const entries: SyncJournalEntry[] = [];
+        results.forEach((res, i) => {
+            const req = requests[i];
+            if (!req || res.status < 200 || res.status >= 300) return;
+            const calendarId = CalendarRouter.calendarIdFromPath(req.path);
+            const scoped = defaultCalendarId && calendarId && calendarId !== defaultCalendarId ? { calendarId } : {};
+            if (req.operationType === 'insert') {
+                if (res.body?.id) entries.push({ op: 'insert', gcalId: res.body.id, obsidianTaskId: req.obsidianTaskId, ...scoped });
+                return;
+            }
+            if (!req.originalGcalId) return;
+            entries.push({
+                op: req.operationType === 'delete' ? 'delete' : 'patch',
+                gcalId: req.originalGcalId,
+                obsidianTaskId: req.obsidianTaskId,
+                before: priorStates.get(req.originalGcalId),
+                ...scoped,
+            });
+        });
+        return entries;
+    }
+}
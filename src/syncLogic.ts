@@ -1,12 +1,26 @@
 import { performance } from 'perf_hooks';
+import { randomBytes } from 'crypto';
 import { Notice } from 'obsidian';
 import { ErrorHandler, DateUtils, FingerprintUtils } from './commonUtils';
 import { rrulestr } from 'rrule';
 import { calendar_v3 } from 'googleapis';
 import GoogleCalendarTasksSyncPlugin from './main';
-import { ObsidianTask, GoogleCalendarEventInput, BatchRequestItem, BatchResponseItem, BatchResult, ErrorLog, GoogleCalendarTasksSyncSettings, SyncMetrics } from './types';
+import { ObsidianTask, GoogleCalendarEventInput, BatchRequestItem, BatchResponseItem, BatchResult, ErrorLog, GoogleCalendarTasksSyncSettings, SyncMetrics, SyncBaseEntry, ConflictEntry, RemoteDeletionPolicy, SyncJournalEntry, SyncRunOptions, SyncJournalGeneration, SyncSummary, DedupeSummary, TaskSyncExplanation } from './types';
 import moment from 'moment';
 import { GCalMapper } from './gcalMapper';
+import { TaskLineEdit, TaskWriter } from './taskWriter';
+import { TaskRecurrence } from './taskRecurrence';
+import { TaskStatuses } from './taskStatus';
+import { TaskFilter } from './taskFilter';
+import { DEFAULT_MERGE_POLICIES, MERGE_FIELDS, SyncMerger } from './syncMerge';
+import { SyncPlanner } from './syncPlan';
+import { SyncJournal } from './syncJournal';
+import { CalendarRouter } from './calendarRouter';
+import { GoogleTasksSyncResult, GoogleTasksTarget } from './googleTasksSync';
+import { CalendarBackend, backendFor } from './calendarBackend';
+
+// Google 側で削除されたことを示すタグ（このタグが付いたタスクは同期しない）
+const REMOTE_DELETED_TAG = 'gcal-deleted';
 
 type EventIndex = {
   byTaskId: Map<string, calendar_v3.Schema$Event>;
@@ -31,7 +45,8 @@ function buildEventIndex(events: calendar_v3.Schema$Event[]): EventIndex {
 
     const tid = ev.extendedProperties?.private?.['obsidianTaskId']
              ?? ev.extendedProperties?.private?.['taskId']; // 互換
-    if (!tid) continue;
+    // 繰り返しの例外インスタンスはマスターの管理印を引き継ぐので、タスクの代表にはしない
+    if (!tid || ev.recurringEventId) continue;
 
     const prev = byTaskId.get(tid);
     if (!prev || newer(ev.updated, prev.updated)) byTaskId.set(tid, ev);
@@ -87,17 +102,88 @@ export class SyncLogic {
     private retryCount = 0;
     private readonly MAX_RETRIES = 4; // 再試行上限（指数バックオフ＋ジッタ）
     private readonly BASE_BACKOFF_MS = 400; // 初期バックオフ
+    private forcePatchIds = new Set<string>(); // 指紋が同じでも PATCH が必要なタスク（マージで Google 側を上書き）
+    private pendingBase = new Map<string, SyncBaseEntry>(); // 今回の同期で確定した値（成功時に syncBase へ保存）
+    private heldTaskIds = new Set<string>(); // 競合保留中で今回は送信しないタスク
+    private rekeyedTaskIds = new Set<string>(); // ブロック ID の付与でイベントの ID を移したタスク（内容の更新は次回）
+    private deferredConflicts: ConflictEntry[] = []; // 今回新たに保留した競合
+    private consumedConflicts = new Set<string>(); // 適用済み/無効になった保留（キューから除去）
+    private remoteDeletedIds = new Set<string>(); // Google 側で削除され、方針に従って処理したタスク
+    private lateRemoteDeletions: string[] = []; // 更新時の 404/410 で削除が判明したタスク（行の書き換えは後段）
+    private journalPrior = new Map<string, calendar_v3.Schema$Event>(); // 更新・削除するイベントの送信前の状態
+    private journalEntries: SyncJournalEntry[] = []; // 今回の同期で成功した操作（取り消し用）
+    private router: CalendarRouter | null = null; // 今回の同期の送り先カレンダー判定
+    private eventCalendars = new Map<string, string>(); // 既定以外のカレンダーから取得したイベントの所属
+    private taskCalendars: { [obsidianTaskId: string]: string } = {}; // taskMap のイベントのうち既定以外にあるものの所属
+    private recurrenceExceptions: { [masterGcalId: string]: string[] } = {}; // ネイティブ繰り返しの例外インスタンス
+    private cancelledOccurrences = new Map<string, { date: string; updated?: string | null }[]>(); // Google 側で消された回（マスター ID ごと）
 
-    async runSync(settings: GoogleCalendarTasksSyncSettings, options: { force?: boolean } = {}): Promise<void> {
-        const { force = false } = options;
+    /**
+     * 同期を 1 サイクル実行します。メインのアカウントに続けて、追加のアカウントを順に同期する。
+     * review を渡した場合は送信前に計画を提示し、承認された項目だけを送る（null でキャンセル）。
+     * planOnly の場合は計画を作って結果に載せるだけで、何も書き込まない。
+     * paths を渡した場合はそのファイルのタスクだけを部分同期する（対応付いたイベントのみ取得し、削除と取り込みは行わない）。
+     * @returns アカウントごとの結果（既に同期中なら空）
+     */
+    async runSync(settings: GoogleCalendarTasksSyncSettings, options: SyncRunOptions = {}): Promise<SyncSummary[]> {
         if (this.plugin.isCurrentlySyncing()) {
             console.warn("同期はスキップされました: 既に進行中です。");
             new Notice("同期は既に進行中です。");
-            return;
+            return [];
         }
+        const summaries: SyncSummary[] = [];
+        // アカウントの切り替え中も含めて同期中として扱う（他の同期が切り替え途中の設定を読まないように）
         this.plugin.setSyncing(true);
+        try {
+            summaries.push(await this.syncAccount(settings, options));
+            // 追加のアカウントは Google のみ（CalDAV・サンドボックスでは使わない）
+            const profiles = settings.calendarBackend === 'caldav' || settings.calendarBackend === 'sandbox' ? [] : this.plugin.accounts?.syncTargets() ?? [];
+            for (const profile of profiles) {
+                await this.plugin.accounts.withAccount(profile, async () => {
+                    // 取り込みはメインのアカウントのみ
+                    const snapshot: GoogleCalendarTasksSyncSettings = { ...JSON.parse(JSON.stringify(this.plugin.settings)), importOnSync: false };
+                    summaries.push(await this.syncAccount(snapshot, options));
+                });
+            }
+            if (!options.planOnly && this.plugin.icsExporter?.isEnabled(settings)) {
+                try {
+                    await this.plugin.icsExporter.exportToVault(settings);
+                } catch (e) {
+                    console.error('.ics の書き出しに失敗しました', e);
+                }
+            }
+        } finally {
+            this.plugin.setSyncing(false);
+            // recentErrors を永続化
+            try { await this.plugin.saveData(this.plugin.settings); } catch {}
+            this.plugin.refreshSettingsTab();
+        }
+        return summaries;
+    }
+
+    /** 現在のアカウント（plugin.settings に展開されているもの）を同期します */
+    private async syncAccount(settings: GoogleCalendarTasksSyncSettings, options: SyncRunOptions): Promise<SyncSummary> {
+        const { force = false, review, planOnly = false } = options;
+        const paths = force ? undefined : options.paths;
+        const account = this.plugin.accounts?.activeName() ?? null;
+        const summary: SyncSummary = { account, status: 'aborted', created: 0, updated: 0, deleted: 0, skipped: 0, errors: 0 };
         this.errorLogs = [];
         this.retryCount = 0;
+        this.forcePatchIds.clear();
+        this.pendingBase.clear();
+        this.heldTaskIds.clear();
+        this.rekeyedTaskIds.clear();
+        this.deferredConflicts = [];
+        this.consumedConflicts.clear();
+        this.remoteDeletedIds.clear();
+        this.lateRemoteDeletions = [];
+        this.journalPrior.clear();
+        this.journalEntries = [];
+        this.router = new CalendarRouter(this.plugin.app, settings);
+        this.eventCalendars.clear();
+        this.taskCalendars = force ? {} : { ...(settings.taskCalendars || {}) };
+        this.recurrenceExceptions = force ? {} : { ...(settings.recurrenceExceptions || {}) };
+        this.cancelledOccurrences.clear();
         const syncStartTime = moment();
 
         // --- FIX: ローカルインスタンスの生成 ---
@@ -109,47 +195,89 @@ export class SyncLogic {
             settings.lastSyncTime = undefined;
         }
 
-        // 設定と認証の確認
-        if (!settings.tokens || !settings.calendarId) {
-            ErrorHandler.showError('同期失敗: 認証またはカレンダー ID が設定されていません。');
-            this.plugin.setSyncing(false);
-            return;
-        }
-        const tokenEnsured = await this.plugin.authService.ensureAccessToken();
-        if (!tokenEnsured) {
-            new Notice('同期中止: 認証トークンを取得できませんでした。', 7000);
-            console.error('同期中止: アクセストークン確保失敗。');
-            this.plugin.setSyncing(false);
-            return;
+        // 設定と認証の確認（CalDAV は接続先の設定のみ、サンドボックスは認証不要）
+        const caldav = settings.calendarBackend === 'caldav';
+        const sandbox = settings.calendarBackend === 'sandbox';
+        if (!settings.calendarId || (caldav ? !settings.caldav?.serverUrl : !sandbox && !settings.tokens)) {
+            ErrorHandler.showError(`同期失敗${account ? ` (${account})` : ''}: ${caldav ? 'CalDAV のサーバー URL' : '認証'}またはカレンダー ID が設定されていません。`);
+            return summary;
         }
-        if (!this.plugin.calendar) {
-            new Notice('同期中止: Calendar API クライアント初期化失敗。', 7000);
-            console.error('同期中止: Calendar API クライアント初期化失敗。');
-            this.plugin.setSyncing(false);
-            return;
+        if (sandbox) {
+            this.plugin.authService.initializeCalendarApi(); // 代役のクライアントに差し替えるだけ
+        } else if (!caldav) {
+            const tokenEnsured = await this.plugin.authService.ensureAccessToken();
+            if (!tokenEnsured) {
+                new Notice('同期中止: 認証トークンを取得できませんでした。', 7000);
+                console.error('同期中止: アクセストークン確保失敗。');
+                return summary;
+            }
+            if (!this.plugin.calendar) {
+                new Notice('同期中止: Calendar API クライアント初期化失敗。', 7000);
+                console.error('同期中止: Calendar API クライアント初期化失敗。');
+                return summary;
+            }
         }
 
-        console.log(`カレンダー ID: ${settings.calendarId} と同期を開始 (強制: ${force})`);
+        console.log(`${account ? `アカウント ${account} の` : ''}カレンダー ID: ${settings.calendarId} と同期を開始 (強制: ${force}${paths ? `, 部分: ${paths.join(', ')}` : ''})`);
         const sns = settings.syncNoticeSettings ?? { showManualSyncProgress: false, showAutoSyncSummary: true, minSyncDurationForNotice: 1, showErrors: true };
-        const isManualSync = !settings.autoSync || force;
+        const isManualSync = !paths && (!settings.autoSync || force);
         if (isManualSync && sns.showManualSyncProgress) {
             new Notice(force ? '強制同期を開始しました...' : '同期を開始しました...', 3000);
         }
 
+        // 管理外イベントの取り込み（追記した行と付与した taskMap は直後の同期で扱われる）
+        if (settings.importOnSync && !force && !review && !planOnly && !paths) {
+            try {
+                await this.plugin.eventImporter.importUnmanaged(settings);
+            } catch (e) {
+                console.error('管理外イベントの取り込みに失敗しました。同期は続行します。', e);
+            }
+        }
+
         let createdCount = 0, updatedCount = 0, deletedCount = 0, skippedCount = 0, errorCount = 0;
         const batchRequests: BatchRequestItem[] = [];
         // FIX: taskMap は settings スナップショットから取得
         const taskMap = force ? {} : { ...settings.taskMap };
+        const lineEdits: TaskLineEdit[] = [];
+        // 取り消し用に同期前の対応表を控える（取り込みで増えた分は含める）
+        const priorTaskMap = { ...(settings.taskMap || {}) };
+        const priorSyncBase = { ...(settings.syncBase || {}) };
+        const priorTaskCalendars = { ...(settings.taskCalendars || {}) };
+
+        // プレビューをキャンセルした場合に増分取得の位置を戻すため
+        const syncTokenBefore = this.plugin.settings.syncToken;
 
         try {
-            const obsidianTasks = await this.fetchObsidianTasks(isManualSync, settings);
+            const scopedTasks = this.inSyncScope(await this.fetchObsidianTasks(isManualSync, settings, paths), settings);
+            // Google Tasks へ送るタスクはカレンダーの同期から外す（既存のイベントは通常どおり削除される）
+            const taskListTargets = scopedTasks
+                .map(task => ({ task, listId: CalendarRouter.taskListId(this.targetCalendar(task, settings)) }))
+                .filter((t): t is GoogleTasksTarget => !!t.listId);
+            const obsidianTasks = scopedTasks.filter(task => !taskListTargets.some(t => t.task === task));
             const {
                 googleEventMap,
                 dedupeIndex,
                 existingGIdSet,
                 eventById,
                 managedIdSet,
-            } = await this.fetchGoogleEvents(settings, force, taskMap, isManualSync);
+                deletedGIdSet,
+            } = paths
+                ? await this.fetchMappedEvents(obsidianTasks, taskMap, settings)
+                : await this.fetchGoogleEvents(settings, force, taskMap, isManualSync, this.calendarsToFetch(obsidianTasks, settings));
+
+            // Google 側の変更を先にメモリ上のタスクへ取り込み、同じ同期内で押し戻さないようにする
+            if (!force) {
+                const queued = new Map((await this.plugin.conflictQueue.load()).map(e => [e.taskId, e] as const));
+                this.collectRemoteMerges(obsidianTasks, googleEventMap, taskMap, gcalMapper, settings, lineEdits, queued);
+                this.collectRemoteDeletions(obsidianTasks, googleEventMap, taskMap, deletedGIdSet, settings, lineEdits);
+                this.collectRemoteSkips(obsidianTasks, taskMap, settings, lineEdits);
+                if (settings.rollRecurringTasks !== false) this.collectRecurrenceRollovers(obsidianTasks, googleEventMap, settings, lineEdits);
+            }
+            // 内容に依らない ID に切り替える（Google 側の変更を取り込んだ後、送信内容を決める前）
+            // ノートへ書き込むため、計画だけの同期やプレビュー付きの同期では行わない
+            if (settings.autoAssignBlockIds && !planOnly && !review) {
+                await this.assignBlockIds(scopedTasks, new Set(taskListTargets.map(t => t.task)), googleEventMap, taskMap, eventById, batchRequests, settings);
+            }
 
             if (isManualSync && sns.showManualSyncProgress) {
                 new Notice(`${obsidianTasks.length} 件のタスクを処理中...`, 3000);
@@ -161,7 +289,39 @@ export class SyncLogic {
             skippedCount += skipped;
             console.timeEnd("Sync: Prepare Batch Requests");
 
-            this.prepareDeletions(survivors, matchedGIds, existingGIdSet, managedIdSet, eventById, batchRequests, settings, force);
+            // 部分同期では Google 側の全体像が無いため削除は通常の同期に任せる
+            if (!paths) {
+                this.prepareDeletions(survivors, matchedGIds, existingGIdSet, managedIdSet, eventById, batchRequests, settings, force);
+            }
+
+            if (planOnly) {
+                summary.plan = SyncPlanner.build(batchRequests, obsidianTasks, eventById);
+                summary.status = 'planned';
+                this.plugin.settings.syncToken = syncTokenBefore;
+                return summary;
+            }
+
+            if (review && batchRequests.length > 0) {
+                const plan = SyncPlanner.build(batchRequests, obsidianTasks, eventById);
+                summary.plan = plan;
+                const approved = await review(plan);
+                if (!approved) {
+                    this.plugin.settings.syncToken = syncTokenBefore;
+                    new Notice('同期をキャンセルしました。Google とノートには何も書き込んでいません。');
+                    summary.status = 'cancelled';
+                    return summary;
+                }
+                const filtered = SyncPlanner.filterRequests(batchRequests, plan, approved);
+                skippedCount += plan.filter(item => !approved.has(item.key)).length;
+                // 見送ったタスクはベースを進めない（次回も同じ差分として扱う）
+                plan.filter(item => !approved.has(item.key) && item.taskId).forEach(item => this.pendingBase.delete(item.taskId!));
+                batchRequests.splice(0, batchRequests.length, ...filtered);
+            }
+
+            // カレンダー移動は同じイベントへの更新より先に済ませる（バッチ内の実行順は保証されない）
+            const moves = await this.processMoves(batchRequests, settings);
+            updatedCount += moves.moved;
+            errorCount += moves.errors;
 
             const counts = await this.processBatchRequests(
                 batchRequests, taskMap, eventById, settings, isManualSync
@@ -172,10 +332,57 @@ export class SyncLogic {
             skippedCount += counts.skippedCount;
             errorCount += counts.errorCount;
 
+            if (this.journalEntries.length > 0 && this.journalGenerations(settings) > 0) {
+                await this.plugin.syncJournal.record({
+                    syncedAt: moment().format('YYYY-MM-DDTHH:mm:ssZ'),
+                    accountId: this.plugin.accounts?.activeId() ?? undefined,
+                    calendarId: settings.calendarId,
+                    taskMap: priorTaskMap,
+                    taskCalendars: priorTaskCalendars,
+                    syncBase: priorSyncBase,
+                    entries: this.journalEntries,
+                }, this.journalGenerations(settings));
+            }
+
+            // 更新時に削除が判明したタスクも方針に従って書き換える
+            for (const id of this.lateRemoteDeletions) {
+                const task = obsidianTasks.find(t => t.id === id);
+                const edit = task ? this.remoteDeletionEdit(task, settings.remoteDeletionPolicy ?? 'recreate') : null;
+                if (edit) lineEdits.push(edit);
+            }
+            if (this.remoteDeletedIds.size > 0) {
+                new Notice(`Google 側で削除された ${this.remoteDeletedIds.size} 件のイベントのタスクを処理しました。`, 5000);
+            }
+
+            // プレビュー付きの同期では Google Tasks は扱わない（計画に載らないため）
+            if (!review) {
+                const tasksCounts = await this.syncGoogleTasks(taskListTargets, settings, lineEdits, !paths);
+                createdCount += tasksCounts.created;
+                updatedCount += tasksCounts.updated;
+                deletedCount += tasksCounts.deleted;
+                errorCount += tasksCounts.errors;
+            }
+
+            // Google → Obsidian の書き戻し
+            if (lineEdits.length > 0) {
+                await this.plugin.taskWriter.applyEdits(lineEdits);
+            }
+            // 競合キューの更新（新規保留の追加・適用済みの除去）
+            for (const c of this.deferredConflicts) await this.plugin.conflictQueue.upsert(c);
+            await this.plugin.conflictQueue.remove(this.consumedConflicts);
+            if (this.deferredConflicts.length > 0) {
+                new Notice(`${this.deferredConflicts.length} 件の競合を保留しました。「競合キューを開く」から解決してください。`, 7000);
+            }
+
             // 7. 設定保存・サマリー (FIX: Live Settings に結果を反映)
             const syncEndTime = new Date();
             this.plugin.settings.taskMap = taskMap;
-            this.plugin.settings.lastSyncTime = moment(syncEndTime).format('YYYY-MM-DDTHH:mm:ssZ');
+            this.plugin.settings.taskCalendars = Object.fromEntries(Object.entries(this.taskCalendars).filter(([id]) => !!taskMap[id]));
+            const masters = new Set(Object.values(taskMap));
+            this.plugin.settings.recurrenceExceptions = Object.fromEntries(Object.entries(this.recurrenceExceptions).filter(([id]) => masters.has(id)));
+            this.plugin.settings.syncBase = this.buildSyncBase(force ? {} : (settings.syncBase || {}), taskMap);
+            // 部分同期は一覧取得をしていないので、増分取得の起点は進めない
+            if (!paths) this.plugin.settings.lastSyncTime = moment(syncEndTime).format('YYYY-MM-DDTHH:mm:ssZ');
             await this.plugin.saveData(this.plugin.settings);
 
             const durationSeconds = moment(syncEndTime).diff(syncStartTime, 'seconds');
@@ -185,36 +392,106 @@ export class SyncLogic {
                  durationSeconds >= sns.minSyncDurationForNotice);
             
             if (shouldShowSummary || (errorCount > 0 && sns.showErrors)) {
-                new Notice(`同期完了 (${Math.round(durationSeconds)}秒): ${createdCount}追加, ${updatedCount}更新, ${deletedCount}削除, ${skippedCount}スキップ, ${errorCount}エラー`,
+                new Notice(`同期完了${account ? ` (${account})` : ''} (${Math.round(durationSeconds)}秒): ${createdCount}追加, ${updatedCount}更新, ${deletedCount}削除, ${skippedCount}スキップ, ${errorCount}エラー`,
                     errorCount ? 15000 : 7000);
             }
+            Object.assign(summary, { status: 'completed', created: createdCount, updated: updatedCount, deleted: deletedCount, skipped: skippedCount, errors: errorCount });
         } catch (fatal) {
             console.error('致命的エラー:', fatal);
             new Notice('同期中に致命的エラー発生。コンソールを確認してください。', 15000);
-        } finally {
-            this.plugin.setSyncing(false);
-            // recentErrors を永続化
-            try { await this.plugin.saveData(this.plugin.settings); } catch {}
-            this.plugin.refreshSettingsTab();
         }
+        return summary;
+    }
+
+    /** 設定で選んだカレンダーのバックエンド */
+    private backend(settings: GoogleCalendarTasksSyncSettings = this.plugin.settings): CalendarBackend {
+        return backendFor(this.plugin, settings);
+    }
+
+    /** Google Tasks の同期（対象も対応表も無ければ API を呼ばない） */
+    private async syncGoogleTasks(
+        targets: GoogleTasksTarget[],
+        settings: GoogleCalendarTasksSyncSettings,
+        lineEdits: TaskLineEdit[],
+        allowDeletes: boolean
+    ): Promise<GoogleTasksSyncResult> {
+        const empty: GoogleTasksSyncResult = { created: 0, updated: 0, deleted: 0, pulled: 0, errors: 0 };
+        if (targets.length === 0 && Object.keys(settings.googleTaskMap || {}).length === 0) return empty;
+        try {
+            return await this.plugin.googleTasksSync.sync(targets, settings, lineEdits, allowDeletes);
+        } catch (e) {
+            console.error('Google Tasks の同期に失敗しました。', e);
+            const message = e instanceof Error ? e.message : String(e);
+            new Notice(`Google Tasks の同期に失敗しました: ${message}（権限が無い場合は再認証してください）`, 7000);
+            return { ...empty, errors: 1 };
+        }
+    }
+
+    /** アカウントの同期範囲（syncScope）に一致するタスクだけを残します。範囲が空なら全タスク */
+    private inSyncScope(tasks: ObsidianTask[], settings: GoogleCalendarTasksSyncSettings): ObsidianTask[] {
+        const tests = (settings.syncScope || []).filter(m => m.trim()).map(m => CalendarRouter.matcher(m));
+        if (tests.length === 0) return tasks;
+        return tasks.filter(task => tests.some(test => test(task)));
     }
 
-    private async fetchObsidianTasks(isManualSync: boolean, settings: GoogleCalendarTasksSyncSettings): Promise<ObsidianTask[]> {
+    private async fetchObsidianTasks(isManualSync: boolean, settings: GoogleCalendarTasksSyncSettings, paths?: string[]): Promise<ObsidianTask[]> {
         const sns = settings.syncNoticeSettings ?? { showManualSyncProgress: false, showAutoSyncSummary: true, minSyncDurationForNotice: 1, showErrors: true };
         if (isManualSync && sns.showManualSyncProgress) {
             new Notice('Obsidian タスクを取得中...', 2000);
         }
         console.time('Sync: Fetch Obsidian Tasks');
-        const tasks = await this.plugin.taskParser.getObsidianTasks();
+        const tasks = TaskStatuses.apply(await this.plugin.taskParser.getObsidianTasks(paths), settings.taskStatuses);
         console.timeEnd('Sync: Fetch Obsidian Tasks');
-        return tasks;
+        return (await TaskFilter.create(this.plugin.app, settings)).apply(tasks);
+    }
+
+    /**
+     * ノートの 1 行が同期されるかどうかを、同期と同じ順で判定して理由を返します（説明コマンド用）。
+     * Google には問い合わせず、対応表にあるイベントだけを示す。
+     */
+    async explainTask(content: string, path: string, line: number, settings: GoogleCalendarTasksSyncSettings): Promise<TaskSyncExplanation> {
+        const reasons: string[] = [];
+        const done = (synced: boolean, reason: string): TaskSyncExplanation => ({ synced, reasons: [...reasons, reason] });
+        const task = this.plugin.taskParser.parseFileContent(content, path).find(t => t.sourceLine === line);
+        if (!task) return done(false, 'タスク行として読まれない（チェックボックスの無い行・継続行・コードブロック内）');
+        TaskStatuses.apply([task], settings.taskStatuses);
+        reasons.push(`タスク ID: ${task.id}`);
+
+        const verdict = (await TaskFilter.create(this.plugin.app, settings)).explain(task);
+        if (!verdict.included) return done(false, `対象外: ${verdict.reason}`);
+        reasons.push(`対象: ${verdict.reason}`);
+
+        if (this.inSyncScope([task], settings).length === 0) {
+            const others = (settings.accounts || []).filter(a => a.enabled !== false && this.inSyncScope([task], { ...settings, syncScope: a.syncScope }).length > 0);
+            return done(others.length > 0, others.length > 0
+                ? `メインの同期範囲外。アカウント ${others.map(a => `"${a.name}"`).join(', ')} で同期する`
+                : 'どのアカウントの同期範囲にも含まれない');
+        }
+        const target = new CalendarRouter(this.plugin.app, settings).calendarFor(task);
+        const listId = CalendarRouter.taskListId(target);
+        if (listId) return done(true, `Google Tasks のリスト "${listId}" へ送る`);
+
+        const status = TaskStatuses.of(task, settings.taskStatuses);
+        if ((task.tags || []).includes(REMOTE_DELETED_TAG)) return done(false, `#${REMOTE_DELETED_TAG} が付いている`);
+        if (status.type === 'deferred') return done(false, `状態が延期（"${status.symbol}"）: 既存のイベントは残す`);
+        if (status.type === 'cancelled' && settings.cancelledTaskAction !== 'mark') return done(false, `状態がキャンセル（"${status.symbol}"）: 既存のイベントは削除する`);
+        if (!task.startDate || !task.dueDate) return done(false, '開始日（🛫）と期限日（📅）が無い');
+
+        const gcalId = settings.taskMap?.[task.id];
+        if (task.isCompleted || task.isCancelled) {
+            return done(!!gcalId, gcalId
+                ? `${task.isCompleted ? '完了' : 'キャンセル'}: イベント ${gcalId} を更新する`
+                : `${task.isCompleted ? '完了' : 'キャンセル'}: 対応するイベントが無いため作成しない`);
+        }
+        return done(true, gcalId ? `カレンダー ${target} のイベント ${gcalId} と同期する` : `カレンダー ${target} に次の同期で作成する`);
     }
 
     private async fetchGoogleEvents(
         settings: GoogleCalendarTasksSyncSettings,
         force: boolean,
         taskMap: { [obsidianTaskId: string]: string },
-        isManualSync: boolean
+        isManualSync: boolean,
+        extraCalendars: string[] = []
     ): Promise<{
         existingEvents: calendar_v3.Schema$Event[];
         googleEventMap: Map<string, calendar_v3.Schema$Event>;
@@ -222,13 +499,70 @@ export class SyncLogic {
         existingGIdSet: Set<string>;
         eventById: Map<string, calendar_v3.Schema$Event>;
         managedIdSet: Set<string>;
+        deletedGIdSet: Set<string>;
     }> {
         const sns = settings.syncNoticeSettings ?? { showManualSyncProgress: false, showAutoSyncSummary: true, minSyncDurationForNotice: 1, showErrors: true };
         if (isManualSync && sns.showManualSyncProgress) {
             new Notice('GCal イベントを取得中...', 2000);
         }
         console.time('Sync: Fetch GCal Events');
-        let existingEvents = await this.plugin.gcalApi.fetchGoogleCalendarEvents(settings);
+        const fetched = await this.backend(settings).fetchGoogleCalendarEvents(settings);
+        // 振り分け先のカレンダーは管理対象イベントを毎回全件取得する（syncToken は既定カレンダー分のみ）
+        for (const calendarId of extraCalendars) {
+            try {
+                const events = await this.backend(settings).fetchManagedEvents(calendarId);
+                events.forEach(ev => { if (ev.id) this.eventCalendars.set(ev.id, calendarId); });
+                fetched.push(...events);
+            } catch (e) {
+                console.error(`カレンダー ${calendarId} のイベント取得に失敗しました`, e);
+                throw e;
+            }
+        }
+        const indexed = this.indexGoogleEvents(fetched, force, taskMap);
+        console.timeEnd('Sync: Fetch GCal Events');
+        return indexed;
+    }
+
+    /**
+     * 部分同期用: 対象タスクに対応付いたイベントだけを ID 指定で取得します（一覧取得や syncToken は使わない）。
+     */
+    private async fetchMappedEvents(
+        tasks: ObsidianTask[],
+        taskMap: { [obsidianTaskId: string]: string },
+        settings: GoogleCalendarTasksSyncSettings
+    ): Promise<ReturnType<SyncLogic['indexGoogleEvents']>> {
+        const byCalendar = new Map<string, string[]>();
+        for (const t of tasks) {
+            const id = taskMap[t.id];
+            if (!id) continue;
+            const calendarId = this.calendarOf(id, settings, t.id);
+            byCalendar.set(calendarId, [...(byCalendar.get(calendarId) || []), id]);
+        }
+        const events: calendar_v3.Schema$Event[] = [];
+        for (const [calendarId, ids] of byCalendar) {
+            const found = await this.fetchEventsById(new Set(ids), settings, calendarId);
+            if (calendarId !== settings.calendarId) found.forEach(ev => this.eventCalendars.set(ev.id!, calendarId));
+            events.push(...found);
+        }
+        return this.indexGoogleEvents(events, false, taskMap);
+    }
+
+    /** 取得したイベントを管理対象に絞り、照合用のインデックスを作ります */
+    private indexGoogleEvents(
+        fetched: calendar_v3.Schema$Event[],
+        force: boolean,
+        taskMap: { [obsidianTaskId: string]: string }
+    ): {
+        existingEvents: calendar_v3.Schema$Event[];
+        googleEventMap: Map<string, calendar_v3.Schema$Event>;
+        dedupeIndex: Map<string, calendar_v3.Schema$Event>;
+        existingGIdSet: Set<string>;
+        eventById: Map<string, calendar_v3.Schema$Event>;
+        managedIdSet: Set<string>;
+        deletedGIdSet: Set<string>;
+    } {
+        this.collectRecurrenceExceptions(fetched, taskMap);
+        let existingEvents = fetched;
         try {
             const mapped = new Set<string>(Object.values(taskMap).filter((v): v is string => !!v));
             existingEvents = existingEvents.filter(ev => {
@@ -249,6 +583,10 @@ export class SyncLogic {
                 if (ev.id && (!taskMap[obsId] || taskMap[obsId] !== ev.id)) {
                     taskMap[obsId] = ev.id;
                 }
+                // 取得元のカレンダーを正とする（Google 側で手動移動された場合も追従）
+                const calendarId = ev.id ? this.eventCalendars.get(ev.id) : undefined;
+                if (calendarId) this.taskCalendars[obsId] = calendarId;
+                else delete this.taskCalendars[obsId];
             }
         }
 
@@ -256,9 +594,420 @@ export class SyncLogic {
         const dedupeIndex = this.buildDedupeIndex(existingEvents);
         const existingGIdSet = new Set<string>([...index.byId.keys()]);
         const eventById = index.byId;
+        // 増分取得 (showDeleted) で届いた削除済みイベント。繰り返しの単一インスタンスの削除は除く
+        const deletedGIdSet = new Set<string>(
+            existingEvents.filter(ev => ev.status === 'cancelled' && ev.id && !ev.recurringEventId).map(ev => ev.id!)
+        );
 
-        console.timeEnd('Sync: Fetch GCal Events');
-        return { existingEvents, googleEventMap, dedupeIndex, existingGIdSet, eventById, managedIdSet: index.managedIdSet };
+        return { existingEvents, googleEventMap, dedupeIndex, existingGIdSet, eventById, managedIdSet: index.managedIdSet, deletedGIdSet };
+    }
+
+    /**
+     * 対応付いたマスターの例外インスタンス（Google 側で個別に変更・削除された回）を控えます。
+     * 増分取得では変更のあった回しか届かないため、前回までの分に差分を足していく。
+     */
+    private collectRecurrenceExceptions(fetched: calendar_v3.Schema$Event[], taskMap: { [obsidianTaskId: string]: string }): void {
+        const masters = new Set(Object.values(taskMap));
+        for (const ev of fetched) {
+            if (!ev.id || !ev.recurringEventId || !masters.has(ev.recurringEventId)) continue;
+            const ids = (this.recurrenceExceptions[ev.recurringEventId] || []).filter(id => id !== ev.id);
+            if (ev.status !== 'cancelled') ids.push(ev.id);
+            else if (ev.originalStartTime) {
+                const original = ev.originalStartTime.date || moment.parseZone(ev.originalStartTime.dateTime!).format('YYYY-MM-DD');
+                const list = this.cancelledOccurrences.get(ev.recurringEventId) || [];
+                list.push({ date: original, updated: ev.updated });
+                this.cancelledOccurrences.set(ev.recurringEventId, list);
+            }
+            if (ids.length > 0) this.recurrenceExceptions[ev.recurringEventId] = ids;
+            else delete this.recurrenceExceptions[ev.recurringEventId];
+        }
+    }
+
+    /**
+     * Google 側の変更をフィールド単位の三方向マージでタスクへ取り込みます。
+     * ベースは前回同期時点の値（syncBase、無ければ localFp から推定）。
+     * Obsidian 側に反映する値は lineEdits に積み、Google 側と異なる値は強制 PATCH 対象にします。
+     * 自動解決できない競合は保留し（deferredConflicts）、解決済みの保留は適用します。
+     */
+    private collectRemoteMerges(
+        obsidianTasks: ObsidianTask[],
+        googleEventMap: Map<string, calendar_v3.Schema$Event>,
+        taskMap: { [obsidianTaskId: string]: string },
+        gcalMapper: GCalMapper,
+        settings: GoogleCalendarTasksSyncSettings,
+        lineEdits: TaskLineEdit[],
+        queued: Map<string, ConflictEntry> = new Map()
+    ): void {
+        const policies = { ...DEFAULT_MERGE_POLICIES, ...(settings.mergePolicies || {}) };
+        let pulled = 0, conflicts = 0;
+        for (const task of obsidianTasks) {
+            if (task.recurrenceRule || !task.startDate || !task.dueDate) continue;
+            // キャンセル・延期のタスクへは Google 側の変更を取り込まない
+            if (task.isCancelled || task.statusType === 'deferred') continue;
+            const ev = googleEventMap.get(task.id);
+            if (!ev || ev.status === 'cancelled' || ev.recurringEventId || (ev.recurrence || []).length > 0) continue;
+
+            const payload = gcalMapper.mapObsidianTaskToGoogleEvent(task);
+            const local = SyncMerger.snapshotFromPayload(payload, task.isCompleted);
+            // 日付跨ぎの時間指定は挿入時にスライスされるため対象外
+            if (local.start.startsWith('T:') && local.end.startsWith('T:') && local.start.slice(2, 12) !== local.end.slice(2, 12)) continue;
+
+            const remote = SyncMerger.snapshotFromEvent(ev);
+            const base = settings.syncBase?.[task.id] ?? SyncMerger.baseFromEvent(ev, settings.lastSyncTime);
+            const nextTimes = DateUtils.taskTimesFromEvent(ev);
+            const canPull = {
+                // 完了済みタスクは完了状態のみ取り込む
+                title: !task.isCompleted && TaskWriter.canReplaceSummary(task),
+                time: !task.isCompleted && !!nextTimes,
+                completion: true,
+            };
+
+            const pullable = {
+                title: !!settings.pullTitleFromGoogle && canPull.title,
+                time: !!settings.pullTimeChangesFromGoogle && canPull.time,
+                completion: !!settings.syncCompletionFromGoogle,
+            };
+            const outcome = SyncMerger.merge(base, local, remote, policies, pullable);
+            let merged = outcome.merged;
+
+            const entry = queued.get(task.id);
+            const stillSame = !!entry && SyncMerger.isSameSnapshot(entry.local, local) && SyncMerger.isSameSnapshot(entry.remote, remote);
+            if (entry?.resolution && stillSame) {
+                // 競合キューで選ばれた値を適用
+                merged = SyncMerger.applyResolution(outcome.merged, local, remote, entry.resolution);
+                this.consumedConflicts.add(task.id);
+            } else if (entry && stillSame) {
+                // 未解決のまま: 両側とも触らない
+                this.heldTaskIds.add(task.id);
+                continue;
+            } else {
+                const conflicted = MERGE_FIELDS.filter(f => outcome.fields[f].conflict && pullable[f]);
+                if (conflicted.length > 0) {
+                    conflicts++;
+                    const defer = conflicted.some(f => policies[f] === 'manual')
+                        || (conflicted.length >= 2 && settings.deferMultiFieldConflicts !== false);
+                    if (defer) {
+                        console.log(`タスク "${task.summary}" の競合を保留しました (${conflicted.join(', ')})。`);
+                        this.heldTaskIds.add(task.id);
+                        this.deferredConflicts.push({
+                            taskId: task.id,
+                            gcalId: ev.id || taskMap[task.id] || '',
+                            sourcePath: task.sourcePath,
+                            sourceLine: task.sourceLine,
+                            summary: task.summary,
+                            fields: conflicted,
+                            base,
+                            local,
+                            remote,
+                            detectedAt: moment().format('YYYY-MM-DDTHH:mm:ssZ'),
+                        });
+                        continue;
+                    }
+                }
+                // 状況が変わった保留は取り消し、通常のマージに戻す
+                if (entry) this.consumedConflicts.add(task.id);
+            }
+
+            const oldId = task.id;
+            const edits: ((block: string[]) => string[])[] = [];
+            const reasons: string[] = [];
+            if (merged.title !== local.title && canPull.title) {
+                const oldSummary = task.summary;
+                // 進行中などの前置きはタスク本文へ書き戻さない
+                const title = TaskStatuses.stripPrefix(merged.title, settings.taskStatuses);
+                task.summary = title;
+                edits.push(block => TaskWriter.replaceSummary(block, oldSummary, title));
+                reasons.push('タイトル');
+            } else {
+                merged.title = local.title;
+            }
+            if ((merged.start !== local.start || merged.end !== local.end) && nextTimes && canPull.time) {
+                task.startDate = nextTimes.startDate;
+                task.dueDate = nextTimes.dueDate;
+                task.timeWindowStart = nextTimes.timeWindowStart;
+                task.timeWindowEnd = nextTimes.timeWindowEnd;
+                edits.push(block => {
+                    let out = TaskWriter.setDateToken(block, 'start', nextTimes.startDate);
+                    out = TaskWriter.setDateToken(out, 'due', nextTimes.dueDate);
+                    return TaskWriter.setTimeWindow(out, nextTimes.timeWindowStart, nextTimes.timeWindowEnd);
+                });
+                reasons.push('日時');
+            } else {
+                merged.start = local.start;
+                merged.end = local.end;
+            }
+            if (merged.completed !== local.completed) {
+                const doneDate = (ev.updated ? moment(ev.updated) : moment()).format('YYYY-MM-DD');
+                task.isCompleted = merged.completed;
+                task.completionDate = merged.completed ? doneDate : null;
+                edits.push(block => [
+                    merged.completed ? TaskWriter.markCompleted(block[0], doneDate) : TaskWriter.markIncomplete(block[0]),
+                    ...block.slice(1),
+                ]);
+                reasons.push('完了状態');
+            }
+
+            if (edits.length > 0) {
+                this.rekeyTask(task, oldId, googleEventMap, taskMap);
+                lineEdits.push({
+                    task,
+                    reason: `Google 側の変更を反映 (${reasons.join('/')})`,
+                    apply: (block) => edits.reduce((acc, fn) => acc.length ? fn(acc) : acc, block),
+                });
+                pulled++;
+            }
+            // Google 側が採用値と異なる場合は指紋が同じでも PATCH する
+            if (!SyncMerger.isSameSnapshot(merged, remote)) this.forcePatchIds.add(task.id);
+            this.pendingBase.set(task.id, merged);
+        }
+        if (pulled > 0 || conflicts > 0) console.log(`Google → Obsidian 反映: ${pulled} 件 (競合 ${conflicts} 件, 保留 ${this.deferredConflicts.length} 件)`);
+    }
+
+    // 今回確定した値でベースを更新（失敗したタスクは破棄し、次回は指紋から推定させる）
+    private buildSyncBase(
+        prev: { [obsidianTaskId: string]: SyncBaseEntry },
+        taskMap: { [obsidianTaskId: string]: string }
+    ): { [obsidianTaskId: string]: SyncBaseEntry } {
+        const failed = new Set(this.errorLogs.map(e => e.taskId));
+        const next: { [obsidianTaskId: string]: SyncBaseEntry } = {};
+        for (const [id, entry] of Object.entries(prev)) {
+            if (taskMap[id] && !failed.has(id)) next[id] = entry;
+        }
+        for (const [id, entry] of this.pendingBase) {
+            if (failed.has(id)) delete next[id];
+            else if (taskMap[id]) next[id] = entry;
+        }
+        return next;
+    }
+
+    /**
+     * Google 側で削除されたイベントに対応するタスクを、削除方針に従って処理します。
+     * 対応を taskMap から外し、今回の同期では再作成しない。
+     */
+    private collectRemoteDeletions(
+        tasks: ObsidianTask[],
+        googleEventMap: Map<string, calendar_v3.Schema$Event>,
+        taskMap: { [obsidianTaskId: string]: string },
+        deletedGIds: Set<string>,
+        settings: GoogleCalendarTasksSyncSettings,
+        lineEdits: TaskLineEdit[]
+    ): void {
+        const policy = settings.remoteDeletionPolicy ?? 'recreate';
+        if (policy === 'recreate' || deletedGIds.size === 0) return;
+        for (const task of tasks) {
+            const gid = taskMap[task.id];
+            if (!gid || !deletedGIds.has(gid) || googleEventMap.has(task.id)) continue;
+            delete taskMap[task.id];
+            this.remoteDeletedIds.add(task.id);
+            const edit = this.remoteDeletionEdit(task, policy);
+            if (edit) lineEdits.push(edit);
+        }
+    }
+
+    /**
+     * Google 側で消された繰り返しの回（キャンセルされた例外インスタンス）をタスクの skip: に加えます。
+     * 以後は EXDATE として送るので、マスターを更新しても消した回は戻らない。
+     * 前回の同期より前に消されたものは、ノートの skip: から外して戻したものとして扱う。
+     */
+    private collectRemoteSkips(
+        tasks: ObsidianTask[],
+        taskMap: { [obsidianTaskId: string]: string },
+        settings: GoogleCalendarTasksSyncSettings,
+        lineEdits: TaskLineEdit[]
+    ): void {
+        if (this.cancelledOccurrences.size === 0) return;
+        const since = settings.lastSyncTime ? moment(settings.lastSyncTime) : null;
+        for (const task of tasks) {
+            const cancelled = task.recurrenceRule ? this.cancelledOccurrences.get(taskMap[task.id]) : undefined;
+            if (!cancelled) continue;
+            const current = new Set(task.skipDates || []);
+            const added = cancelled
+                .filter(c => !since || (!!c.updated && moment(c.updated).isAfter(since)))
+                .map(c => c.date)
+                .filter(d => !current.has(d));
+            if (added.length === 0) continue;
+            const dates = Array.from(new Set([...current, ...added])).sort();
+            task.skipDates = dates;
+            lineEdits.push({ task, reason: 'Google 側で消された回を skip: に追加', apply: (block) => TaskWriter.setSkipDates(block, dates) });
+        }
+    }
+
+    /**
+     * 完了した繰り返しタスクの次の回を作ります。次の回の行は完了した行の上に追記し、今回の同期で新しいイベントとして送る。
+     * 対象は前回の同期より後に完了したものだけ: ローカルで完了してまだ Google に送っていないもの、
+     * または Google 側で前回の同期以降に完了にされたもの（こちらはタスク行も完了にする）。
+     * 次の回と同じタスクが既にあれば（Tasks プラグインが追記した場合など）追記しない。
+     */
+    private collectRecurrenceRollovers(
+        tasks: ObsidianTask[],
+        googleEventMap: Map<string, calendar_v3.Schema$Event>,
+        settings: GoogleCalendarTasksSyncSettings,
+        lineEdits: TaskLineEdit[]
+    ): void {
+        const known = new Set(tasks.map(t => t.id));
+        let rolled = 0;
+        for (const task of tasks.slice()) {
+            if (!task.recurrenceRule || task.isCancelled || task.statusType === 'deferred' || this.heldTaskIds.has(task.id)) continue;
+            const ev = googleEventMap.get(task.id);
+            if (!ev || ev.status === 'cancelled') continue;
+            const remoteDone = ev.extendedProperties?.private?.['isCompleted'] === 'true';
+            const remoteNewer = !settings.lastSyncTime || (!!ev.updated && moment(ev.updated).isAfter(moment(settings.lastSyncTime)));
+            const pullDone = !task.isCompleted && remoteDone && remoteNewer && !!settings.syncCompletionFromGoogle;
+            if (!pullDone && !(task.isCompleted && !remoteDone)) continue;
+
+            const doneDate = pullDone
+                ? (ev.updated ? moment(ev.updated) : moment()).format('YYYY-MM-DD')
+                : (task.completionDate || moment().format('YYYY-MM-DD'));
+            const next = TaskRecurrence.nextOccurrence(task, doneDate);
+            const nextTask = next ? TaskRecurrence.nextTask(task, next, this.plugin.taskParser) : null;
+            if (nextTask) nextTask.id = this.plugin.taskParser.buildTaskId(task.sourcePath, nextTask);
+            const create = !!nextTask && !known.has(nextTask.id);
+            if (!pullDone && !create) continue;
+
+            if (pullDone) {
+                task.isCompleted = true;
+                task.completionDate = doneDate;
+            }
+            if (create) {
+                tasks.push(nextTask!);
+                known.add(nextTask!.id);
+                rolled++;
+            }
+            lineEdits.push({
+                task,
+                reason: pullDone ? 'Google 側の変更を反映 (完了状態)' : '繰り返しの次の回を追加',
+                apply: (block) => {
+                    const done = pullDone ? [TaskWriter.markCompleted(block[0], doneDate), ...block.slice(1)] : block;
+                    return create ? [...TaskRecurrence.nextInstanceBlock(done, next!), ...done] : done;
+                },
+            });
+        }
+        if (rolled > 0) console.log(`繰り返しタスクの次の回を ${rolled} 件追加しました。`);
+    }
+
+    // 削除方針に応じたタスク行の書き換え（完了済み・キャンセル済みは対応を外すだけ）
+    private remoteDeletionEdit(task: ObsidianTask, policy: RemoteDeletionPolicy): TaskLineEdit | null {
+        if (task.isCompleted || task.isCancelled) return null;
+        switch (policy) {
+            case 'cancel':
+                return { task, reason: 'Google 側で削除 → キャンセル', apply: (block) => [TaskWriter.markCancelled(block[0]), ...block.slice(1)] };
+            case 'delete':
+                return { task, reason: 'Google 側で削除 → 行を削除', apply: () => [] };
+            case 'tag':
+                if ((task.tags || []).includes(REMOTE_DELETED_TAG)) return null;
+                return { task, reason: 'Google 側で削除 → タグ付け', apply: (block) => [TaskWriter.appendToken(block[0], `#${REMOTE_DELETED_TAG}`), ...block.slice(1)] };
+            default:
+                return null;
+        }
+    }
+
+    /**
+     * 書き戻しで内容が変わったタスクの ID を付け替えます。
+     * イベント側の obsidianTaskId も書き換え、後続の PATCH で Google に反映させる。
+     */
+    private rekeyTask(
+        task: ObsidianTask,
+        oldId: string,
+        googleEventMap: Map<string, calendar_v3.Schema$Event>,
+        taskMap: { [obsidianTaskId: string]: string }
+    ): void {
+        const newId = this.plugin.taskParser.buildTaskId(task.sourcePath, task);
+        if (newId === oldId) return;
+        task.id = newId;
+        const ev = googleEventMap.get(oldId);
+        if (ev) {
+            googleEventMap.delete(oldId);
+            googleEventMap.set(newId, ev);
+            const priv = ev.extendedProperties?.private;
+            if (priv) priv['obsidianTaskId'] = newId;
+        }
+        if (taskMap[oldId]) {
+            taskMap[newId] = taskMap[oldId];
+            delete taskMap[oldId];
+        }
+    }
+
+    /**
+     * ブロック ID の無い同期対象タスクに ^gcal-xxxxxx を付け、ID を振り直します。
+     * 行への書き込みを先に済ませ、書き込めたタスクだけ対応表・ベース・所属カレンダーを新しい ID へ移す。
+     * 既存のイベントは（日ごとに分けたものも含めて）obsidianTaskId だけを PATCH で書き換え、内容の更新は次回に回す。
+     */
+    private async assignBlockIds(
+        tasks: ObsidianTask[],
+        listTasks: Set<ObsidianTask>,
+        googleEventMap: Map<string, calendar_v3.Schema$Event>,
+        taskMap: { [obsidianTaskId: string]: string },
+        eventById: Map<string, calendar_v3.Schema$Event>,
+        batchRequests: BatchRequestItem[],
+        settings: GoogleCalendarTasksSyncSettings
+    ): Promise<void> {
+        const usedIds = new Set(tasks.filter(t => t.blockLink).map(t => `${t.sourcePath}:${t.blockLink}`));
+        const blockIds = new Map<TaskLineEdit, string>();
+        for (const task of tasks) {
+            if (task.blockLink || task.isCompleted || task.isCancelled || task.statusType === 'deferred') continue;
+            if (this.heldTaskIds.has(task.id) || this.remoteDeletedIds.has(task.id) || (task.tags || []).includes(REMOTE_DELETED_TAG)) continue;
+            if (!listTasks.has(task) && !(task.startDate && task.dueDate)) continue;
+
+            let blockId: string;
+            do blockId = `gcal-${randomBytes(3).toString('hex')}`;
+            while (usedIds.has(`${task.sourcePath}:^${blockId}`));
+            usedIds.add(`${task.sourcePath}:^${blockId}`);
+            const rawText = task.rawText;
+            blockIds.set({ task, reason: 'ブロック ID を付与', apply: (block) => TaskWriter.appendBlockLink(block, rawText, blockId) }, blockId);
+        }
+        if (blockIds.size === 0) return;
+
+        const written = await this.plugin.taskWriter.applyEdits(Array.from(blockIds.keys()));
+        const syncBase = { ...(settings.syncBase || {}) };
+        const googleTaskMap = { ...(settings.googleTaskMap || {}) };
+        for (const edit of written) {
+            const task = edit.task;
+            const oldId = task.id;
+            // 付け替える前に、旧 ID を持つイベント（日ごとの分割や例外の回も含む）を集める
+            const gcalIds = new Set<string>();
+            for (const ev of eventById.values()) {
+                if (ev.id && ev.status !== 'cancelled' && ev.extendedProperties?.private?.['obsidianTaskId'] === oldId) gcalIds.add(ev.id);
+            }
+            const mappedId = taskMap[oldId] ?? googleEventMap.get(oldId)?.id ?? undefined;
+            if (mappedId) gcalIds.add(mappedId);
+
+            task.blockLink = `^${blockIds.get(edit)}`;
+            task.rawText = `${task.rawText.replace(/\s+$/, '')} ${task.blockLink}`;
+            this.rekeyTask(task, oldId, googleEventMap, taskMap);
+            const newId = task.id;
+            if (syncBase[oldId]) {
+                syncBase[newId] = syncBase[oldId];
+                delete syncBase[oldId];
+            }
+            if (googleTaskMap[oldId]) {
+                googleTaskMap[newId] = googleTaskMap[oldId];
+                delete googleTaskMap[oldId];
+            }
+            if (this.taskCalendars[oldId]) {
+                this.taskCalendars[newId] = this.taskCalendars[oldId];
+                delete this.taskCalendars[oldId];
+            }
+            // ベースは進めない（Google 側から取り込んだ変更やローカルの変更は次回の同期で送る）
+            this.pendingBase.delete(oldId);
+            if (gcalIds.size === 0) continue;
+
+            this.rekeyedTaskIds.add(newId);
+            for (const id of gcalIds) {
+                const priv = { ...(eventById.get(id)?.extendedProperties?.private || {}), obsidianTaskId: newId };
+                batchRequests.push({
+                    method: 'PATCH',
+                    path: `${CalendarRouter.eventsPath(this.calendarOf(id, settings, newId))}/${encodeURIComponent(id)}`,
+                    body: { extendedProperties: { private: priv } },
+                    // 対応表が指すイベント以外は対応表を書き換えないよう obsidianTaskId を付けない
+                    ...(id === mappedId ? { obsidianTaskId: newId } : {}),
+                    operationType: 'patch',
+                    originalGcalId: id,
+                });
+            }
+        }
+        settings.syncBase = syncBase;
+        settings.googleTaskMap = googleTaskMap;
+        if (written.length > 0) console.log(`${written.length} 件のタスクにブロック ID を付けました。`);
     }
 
     private prepareDeletions(
@@ -276,6 +1025,75 @@ export class SyncLogic {
         console.timeEnd('Sync: Prepare Deletions');
     }
 
+    /** タスクの送り先カレンダー（ルーター未初期化なら既定） */
+    private targetCalendar(task: ObsidianTask, settings: GoogleCalendarTasksSyncSettings): string {
+        return this.router?.calendarFor(task) ?? settings.calendarId;
+    }
+
+    /** イベントが今あるカレンダー。今回取得したものは取得元、取得していないものは前回の記録から */
+    private calendarOf(gcalId: string, settings: GoogleCalendarTasksSyncSettings, obsidianTaskId?: string): string {
+        return this.eventCalendars.get(gcalId)
+            ?? (obsidianTaskId ? this.taskCalendars[obsidianTaskId] : undefined)
+            ?? settings.calendarId;
+    }
+
+    private rememberTaskCalendar(obsidianTaskId: string, path: string, settings: GoogleCalendarTasksSyncSettings): void {
+        const calendarId = CalendarRouter.calendarIdFromPath(path);
+        if (calendarId && calendarId !== settings.calendarId) this.taskCalendars[obsidianTaskId] = calendarId;
+        else delete this.taskCalendars[obsidianTaskId];
+    }
+
+    private pushMoveIfRouted(batchRequests: BatchRequestItem[], gcalId: string, obsidianTaskId: string, from: string, to: string): void {
+        if (from === to) return;
+        batchRequests.push({ method: 'POST', path: CalendarRouter.movePath(from, gcalId, to), obsidianTaskId, operationType: 'move', originalGcalId: gcalId });
+    }
+
+    /** 既定以外で取得が必要なカレンダー: ルール表・今回の振り分け先・前回の所属 */
+    private calendarsToFetch(tasks: ObsidianTask[], settings: GoogleCalendarTasksSyncSettings): string[] {
+        const calendars = new Set<string>(this.router?.routedCalendars() ?? []);
+        tasks.forEach(t => calendars.add(this.targetCalendar(t, settings)));
+        Object.values(this.taskCalendars).forEach(id => calendars.add(id));
+        calendars.delete(settings.calendarId);
+        return Array.from(calendars);
+    }
+
+    /**
+     * カレンダー移動 (events.move) を他の操作より先に送ります。
+     * 成功したイベントの所属を更新し、失敗したイベントへの後続リクエストは取り下げる（移動前のカレンダーで更新しないため）。
+     */
+    private async processMoves(batchRequests: BatchRequestItem[], settings: GoogleCalendarTasksSyncSettings): Promise<{ moved: number; errors: number }> {
+        const moves = batchRequests.filter(r => r.operationType === 'move');
+        if (moves.length === 0) return { moved: 0, errors: 0 };
+        const rest = batchRequests.filter(r => r.operationType !== 'move');
+
+        const { results, updated, errors, metrics } = await this.executeBatchesWithRetry(moves);
+        if (metrics) this.logMetricsSummary('Calendar Moves', metrics);
+        const failed = new Set<string>();
+        results.forEach((res, i) => {
+            const req = moves[i];
+            const gcalId = req.originalGcalId!;
+            if (!res || res.status < 200 || res.status >= 300) {
+                console.warn(`カレンダー移動に失敗: ${req.path} (${res?.status})`);
+                failed.add(gcalId);
+                return;
+            }
+            const from = CalendarRouter.calendarIdFromPath(req.path) ?? settings.calendarId;
+            const to = CalendarRouter.moveDestination(req.path) ?? settings.calendarId;
+            if (to === settings.calendarId) this.eventCalendars.delete(gcalId);
+            else this.eventCalendars.set(gcalId, to);
+            if (req.obsidianTaskId) this.rememberTaskCalendar(req.obsidianTaskId, CalendarRouter.eventsPath(to), settings);
+            this.journalEntries.push({ op: 'move', gcalId, obsidianTaskId: req.obsidianTaskId, calendarId: to, fromCalendarId: from });
+            // 移動で etag が変わるので、続く更新の If-Match を差し替える
+            rest.filter(r => r.originalGcalId === gcalId && r.headers?.['If-Match']).forEach(r => {
+                if (res.body?.etag) r.headers!['If-Match'] = res.body.etag;
+                else delete r.headers!['If-Match'];
+            });
+        });
+
+        batchRequests.splice(0, batchRequests.length, ...rest.filter(r => !r.originalGcalId || !failed.has(r.originalGcalId)));
+        return { moved: updated, errors };
+    }
+
     private async processBatchRequests(
         batchRequests: BatchRequestItem[],
         taskMap: { [obsidianTaskId: string]: string },
@@ -297,9 +1115,14 @@ export class SyncLogic {
             }
         } catch {}
 
+        if (batchRequests.length > 0 && this.journalGenerations(settings) > 0) {
+            await this.captureJournalPriorStates(batchRequests, eventById, settings);
+        }
+
         if (batchRequests.length > 0) {
             const { results, created, updated, deleted, errors, skipped, metrics } =
                 await this.executeBatchesWithRetry(batchRequests);
+            this.journalEntries.push(...SyncJournal.entriesFromResults(batchRequests, results, this.journalPrior, settings.calendarId));
 
             createdCount += created;
             updatedCount += updated;
@@ -309,7 +1132,6 @@ export class SyncLogic {
 
             if (metrics) this.logMetricsSummary('Main Batch', metrics);
 
-            const calendarPath = `/calendar/v3/calendars/${encodeURIComponent(settings.calendarId)}/events`;
             const fallbackInserts: BatchRequestItem[] = [];
             const fallbackNoIfMatch: BatchRequestItem[] = [];
             const fallbackDeleteNoIfMatch: BatchRequestItem[] = [];
@@ -326,6 +1148,7 @@ export class SyncLogic {
                     const newGcalId = res.body?.id;
                     if (req.operationType === 'insert' && newGcalId && req.obsidianTaskId) {
                         taskMap[req.obsidianTaskId] = newGcalId;
+                        this.rememberTaskCalendar(req.obsidianTaskId, req.path, settings);
                     } else if ((req.operationType === 'update' || req.operationType === 'patch') && newGcalId && req.obsidianTaskId) {
                         taskMap[req.obsidianTaskId] = newGcalId;
                     } else if (req.operationType === 'delete' && req.obsidianTaskId) {
@@ -351,13 +1174,22 @@ export class SyncLogic {
                     }
 
                     if ((req.operationType === 'update' || req.operationType === 'patch') && (status === 404 || status === 410)) {
+                        if (req.obsidianTaskId && (settings.remoteDeletionPolicy ?? 'recreate') !== 'recreate') {
+                            // 再作成せず、削除方針に従ってタスク側を書き換える
+                            delete taskMap[req.obsidianTaskId];
+                            this.remoteDeletedIds.add(req.obsidianTaskId);
+                            this.lateRemoteDeletions.push(req.obsidianTaskId);
+                            return;
+                        }
                         if (req.obsidianTaskId) {
                             if (taskMap[req.obsidianTaskId]) {
                                 delete taskMap[req.obsidianTaskId];
                             }
+                            // 再作成は更新先と同じカレンダーへ
+                            const calendarId = CalendarRouter.calendarIdFromPath(req.path) ?? settings.calendarId;
                             fallbackInserts.push({
                                 method: 'POST',
-                                path: calendarPath,
+                                path: CalendarRouter.eventsPath(calendarId),
                                 body: { ...(req.fullBody || req.body || {}) },
                                 obsidianTaskId: req.obsidianTaskId,
                                 operationType: 'insert',
@@ -416,6 +1248,7 @@ export class SyncLogic {
             if (fallbackInserts.length > 0) {
                 console.log(`再作成フォールバック: ${fallbackInserts.length} 件をPOST`);
                 const fb = await this.executeBatchesWithRetry(fallbackInserts);
+                this.journalEntries.push(...SyncJournal.entriesFromResults(fallbackInserts, fb.results, this.journalPrior, settings.calendarId));
                 createdCount += fb.created;
                 updatedCount += fb.updated;
                 deletedCount += fb.deleted;
@@ -426,6 +1259,7 @@ export class SyncLogic {
                     const req = fallbackInserts[idx];
                     if (res.status >= 200 && res.status < 300 && res.body?.id && req.obsidianTaskId) {
                         taskMap[req.obsidianTaskId] = res.body.id;
+                        this.rememberTaskCalendar(req.obsidianTaskId, req.path, settings);
                     }
                 });
             }
@@ -433,6 +1267,7 @@ export class SyncLogic {
             if (fallbackNoIfMatch.length > 0) {
                 console.log(`412再試行(If-Match無): ${fallbackNoIfMatch.length} 件を再送`);
                 const fb2 = await this.executeBatchesWithRetry(fallbackNoIfMatch);
+                this.journalEntries.push(...SyncJournal.entriesFromResults(fallbackNoIfMatch, fb2.results, this.journalPrior, settings.calendarId));
                 createdCount += fb2.created;
                 updatedCount += fb2.updated;
                 deletedCount += fb2.deleted;
@@ -443,6 +1278,7 @@ export class SyncLogic {
             if (fallbackDeleteNoIfMatch.length > 0) {
                 console.log(`412削除再試行(If-Match無): ${fallbackDeleteNoIfMatch.length} 件を再送`);
                 const fb3 = await this.executeBatchesWithRetry(fallbackDeleteNoIfMatch);
+                this.journalEntries.push(...SyncJournal.entriesFromResults(fallbackDeleteNoIfMatch, fb3.results, this.journalPrior, settings.calendarId));
                 createdCount += fb3.created;
                 updatedCount += fb3.updated;
                 deletedCount += fb3.deleted;
@@ -478,7 +1314,6 @@ export class SyncLogic {
         dedupeIndex?: Map<string, calendar_v3.Schema$Event>
     ): { skipped: number, survivors: Map<string, calendar_v3.Schema$Event>, matchedGIds: Set<string> } {
         let skippedCount = 0;
-        const calendarPath = `/calendar/v3/calendars/${encodeURIComponent(settings.calendarId)}/events`;
         
         // サバイバー方式: 照合済みを除外して残りを削除候補に
         const survivors = new Map(googleEventMap);
@@ -487,18 +1322,45 @@ export class SyncLogic {
         for (const task of obsidianTasks) {
             const obsId = task.id;
 
+            if (this.remoteDeletedIds.has(obsId)) {
+                // Google 側で削除済み: 方針に従って処理したので再作成しない
+                skippedCount++;
+                continue;
+            }
+
+            const marksCancelled = !!task.isCancelled && settings.cancelledTaskAction === 'mark';
+            if ((task.isCancelled && !marksCancelled) || (task.tags || []).includes(REMOTE_DELETED_TAG)) {
+                // キャンセル済み / 削除タグ付きは同期対象外（対応するイベントが残っていれば削除候補になる）
+                skippedCount++;
+                continue;
+            }
+
+            if (this.heldTaskIds.has(obsId) || this.rekeyedTaskIds.has(obsId) || task.statusType === 'deferred') {
+                // 競合保留中・延期・ID の移行中: 送信も削除もしない
+                const held = survivors.get(obsId);
+                survivors.delete(obsId);
+                if (held?.id) matchedGIds.add(held.id);
+                skippedCount++;
+                continue;
+            }
+
             if (!task.startDate || !task.dueDate) {
                 skippedCount++;
                 continue;
             }
 
-            if (task.isCompleted) {
+            const targetCalendar = this.targetCalendar(task, settings);
+            const calendarPath = CalendarRouter.eventsPath(targetCalendar);
+
+            if (task.isCompleted || marksCancelled) {
+                // 完了・取り消し印を付けるキャンセルは既存のイベントの更新だけ（新しくは作らない）
                 if (!force) {
                     const existingEvent = survivors.get(obsId);
                     if (existingEvent) {
                         survivors.delete(obsId); // 照合済みを除外
                         if (existingEvent.id) matchedGIds.add(existingEvent.id);
                         const gcalId = existingEvent.id!;
+                        this.pushMoveIfRouted(batchRequests, gcalId, obsId, this.calendarOf(gcalId, settings), targetCalendar);
                         const headers: Record<string, string> = {};
                         if (existingEvent.etag) headers['If-Match'] = existingEvent.etag;
                         // 完了は status をキャンセルにせず、extendedProperties.private.isCompleted='true' を更新
@@ -519,7 +1381,7 @@ export class SyncLogic {
 
             if (force) {
                 // Google Calendar の events.insert は body.id を受け付けないため付与しない
-                const bodies = this.expandEventForInsertion(eventPayload, task);
+                const bodies = this.expandEventForInsertion(eventPayload, task, settings);
                 bodies.forEach(body => batchRequests.push({ method: 'POST', path: calendarPath, body, obsidianTaskId: obsId, operationType: 'insert' }));
                 continue;
             }
@@ -528,59 +1390,59 @@ export class SyncLogic {
                 // 照合済みは survivors から除外し、誤削除を防ぐ
                 survivors.delete(obsId);
                 if (existingEvent.id) matchedGIds.add(existingEvent.id);
+                const currentCalendar = this.calendarOf(existingEvent.id!, settings);
 
-                if (this.needsUpdate(existingEvent, eventPayload)) {
+                if (this.forcePatchIds.has(obsId) || this.needsUpdate(existingEvent, eventPayload)) {
                     const gcalId = existingEvent.id!;
-                    // 展開条件: 日次時間帯 or 日付跨ぎの時間指定
-                    const rr = (eventPayload.recurrence || [])[0] || '';
-                    const isDaily = /FREQ=DAILY/.test(rr);
-                    const sdt = eventPayload.start?.dateTime ? moment.parseZone(eventPayload.start.dateTime) : null;
-                    const edt = eventPayload.end?.dateTime ? moment.parseZone(eventPayload.end.dateTime) : null;
-                    const crossDay = !!(sdt && edt && !sdt.isSame(edt, 'day'));
-
-                    if (isDaily || crossDay) {
+                    if (this.replacesOnUpdate(eventPayload, settings)) {
                         // 既存を削除し、必要数のPOSTへ置換
                         const delHeaders: Record<string, string> = {};
                         if (existingEvent.etag) delHeaders['If-Match'] = existingEvent.etag;
-                        batchRequests.push({ method: 'DELETE', path: `${calendarPath}/${encodeURIComponent(gcalId)}`, headers: delHeaders, obsidianTaskId: obsId, operationType: 'delete', originalGcalId: gcalId });
-                        const bodies = this.expandEventForInsertion(eventPayload, task);
+                        batchRequests.push({ method: 'DELETE', path: `${CalendarRouter.eventsPath(currentCalendar)}/${encodeURIComponent(gcalId)}`, headers: delHeaders, obsidianTaskId: obsId, operationType: 'delete', originalGcalId: gcalId });
+                        const bodies = this.expandEventForInsertion(eventPayload, task, settings);
                         bodies.forEach(body => batchRequests.push({ method: 'POST', path: calendarPath, body, obsidianTaskId: obsId, operationType: 'insert' }));
                     } else {
+                        this.pushMoveIfRouted(batchRequests, gcalId, obsId, currentCalendar, targetCalendar);
                         const headers: Record<string, string> = {};
                         if (existingEvent.etag) headers['If-Match'] = existingEvent.etag;
                         const patchBody = this.buildPatchBody(existingEvent, eventPayload);
                         batchRequests.push({ method: 'PATCH', path: `${calendarPath}/${encodeURIComponent(gcalId)}`, headers, body: patchBody, fullBody: eventPayload, obsidianTaskId: obsId, operationType: 'patch', originalGcalId: gcalId });
+                        this.pushExceptionPatches(batchRequests, gcalId, patchBody, calendarPath);
                     }
                 } else {
+                    // 内容が同じでも送り先が変わっていれば移動だけ行う
+                    this.pushMoveIfRouted(batchRequests, existingEvent.id!, obsId, currentCalendar, targetCalendar);
                     skippedCount++;
                 }
             } else {
                 // まず taskMap を優先（updatedMin/窓の都合でリストに出てこないケースの重複作成を防ぐ）
                 const mappedId = taskMap[obsId];
                 if (mappedId) {
+                    const currentCalendar = this.calendarOf(mappedId, settings, obsId);
                     // ID 指定更新でも展開条件なら置換
-                    const rr = (eventPayload.recurrence || [])[0] || '';
-                    const isDaily = /FREQ=DAILY/.test(rr);
-                    const sdt = eventPayload.start?.dateTime ? moment.parseZone(eventPayload.start.dateTime) : null;
-                    const edt = eventPayload.end?.dateTime ? moment.parseZone(eventPayload.end.dateTime) : null;
-                    const crossDay = !!(sdt && edt && !sdt.isSame(edt, 'day'));
-                    if (isDaily || crossDay) {
-                        batchRequests.push({ method: 'DELETE', path: `${calendarPath}/${encodeURIComponent(mappedId)}`, obsidianTaskId: obsId, operationType: 'delete', originalGcalId: mappedId });
-                        const bodies = this.expandEventForInsertion(eventPayload, task);
+                    if (this.replacesOnUpdate(eventPayload, settings)) {
+                        batchRequests.push({ method: 'DELETE', path: `${CalendarRouter.eventsPath(currentCalendar)}/${encodeURIComponent(mappedId)}`, obsidianTaskId: obsId, operationType: 'delete', originalGcalId: mappedId });
+                        const bodies = this.expandEventForInsertion(eventPayload, task, settings);
                         bodies.forEach(body => batchRequests.push({ method: 'POST', path: calendarPath, body, obsidianTaskId: obsId, operationType: 'insert' }));
                     } else {
+                        this.pushMoveIfRouted(batchRequests, mappedId, obsId, currentCalendar, targetCalendar);
                         const headers: Record<string, string> = {};
                         batchRequests.push({ method: 'PATCH', path: `${calendarPath}/${encodeURIComponent(mappedId)}`, headers, body: eventPayload, fullBody: eventPayload, obsidianTaskId: obsId, operationType: 'patch', originalGcalId: mappedId });
+                        this.pushExceptionPatches(batchRequests, mappedId, eventPayload, calendarPath);
                     }
                 } else {
                     // 重複防止: 同一性キーで既存イベントを検索
-                    const identity = this.buildIdentityKeyFromPayload(eventPayload);
+                    // 既定以外のカレンダーのイベントはカレンダー ID 付きのキーで引く（別カレンダーの同名イベントを再利用しない）
+                    const identity = this.calendarScopedKey(
+                        this.buildIdentityKeyFromPayload(eventPayload),
+                        targetCalendar === settings.calendarId ? undefined : targetCalendar
+                    );
                     const dup = dedupeIndex?.get(identity);
                     if (dup && dup.id) {
                         // 既存イベントを再利用（誤アンカー対策: 必要なら展開・置換）
                         taskMap[obsId] = dup.id;
 
-                        const expandedBodies = this.expandEventForInsertion(eventPayload, task);
+                        const expandedBodies = this.expandEventForInsertion(eventPayload, task, settings);
                         if (expandedBodies.length > 1) {
                             // 単発→繰り返し（daily等）に切替時は UI 側の誤アンカーを避けるため削除→複数挿入
                             const headers: Record<string, string> = {};
@@ -595,7 +1457,7 @@ export class SyncLogic {
                             skippedCount++;
                         }
                     } else {
-                        const bodies = this.expandEventForInsertion(eventPayload, task);
+                        const bodies = this.expandEventForInsertion(eventPayload, task, settings);
                         bodies.forEach(body => batchRequests.push({ method: 'POST', path: calendarPath, body, obsidianTaskId: obsId, operationType: 'insert' }));
                     }
                 }
@@ -604,8 +1466,49 @@ export class SyncLogic {
         return { skipped: skippedCount, survivors, matchedGIds };
     }
 
-    // 挿入時に必要なら日次スライスや毎日展開に分割
-    private expandEventForInsertion(eventPayload: GoogleCalendarEventInput, task: ObsidianTask): GoogleCalendarEventInput[] {
+    /**
+     * 更新を PATCH ではなく削除→再挿入で行うか（展開条件: 日次の繰り返し or 日付跨ぎの時間指定）。
+     * ネイティブ繰り返しではマスターを PATCH する。
+     */
+    private replacesOnUpdate(eventPayload: GoogleCalendarEventInput, settings: GoogleCalendarTasksSyncSettings): boolean {
+        const rr = (eventPayload.recurrence || [])[0] || '';
+        if (rr && settings.nativeRecurrence) return false;
+        const isDaily = /FREQ=DAILY/.test(rr);
+        const sdt = eventPayload.start?.dateTime ? moment.parseZone(eventPayload.start.dateTime) : null;
+        const edt = eventPayload.end?.dateTime ? moment.parseZone(eventPayload.end.dateTime) : null;
+        const crossDay = !!(sdt && edt && !sdt.isSame(edt, 'day'));
+        return isDaily || crossDay;
+    }
+
+    /**
+     * マスターへの PATCH のうち回ごとに持つフィールド（タイトル・説明・リマインダー）を例外インスタンスにも送ります。
+     * 個別に動かされた日時はそのまま残す。対応表は書き換えないよう obsidianTaskId は付けない。
+     */
+    private pushExceptionPatches(batchRequests: BatchRequestItem[], masterId: string, patchBody: Partial<calendar_v3.Schema$Event>, calendarPath: string): void {
+        const body: Partial<calendar_v3.Schema$Event> = {};
+        if (patchBody.summary !== undefined) body.summary = patchBody.summary;
+        if (patchBody.description !== undefined) body.description = patchBody.description;
+        if (patchBody.reminders !== undefined) body.reminders = patchBody.reminders;
+        if (Object.keys(body).length === 0) return;
+        for (const id of this.recurrenceExceptions[masterId] || []) {
+            batchRequests.push({ method: 'PATCH', path: `${calendarPath}/${encodeURIComponent(id)}`, body, operationType: 'patch', originalGcalId: id });
+        }
+    }
+
+    // 挿入時に必要なら日次スライスや毎日展開に分割（繰り返しを展開した回のうち skip: の日は送らない）
+    private expandEventForInsertion(
+        eventPayload: GoogleCalendarEventInput,
+        task: ObsidianTask,
+        settings: GoogleCalendarTasksSyncSettings = this.plugin.settings
+    ): GoogleCalendarEventInput[] {
+        const bodies = this.expandOccurrences(eventPayload, task, settings);
+        const skip = new Set(task.skipDates || []);
+        if (skip.size === 0 || (eventPayload.recurrence || []).length === 0) return bodies;
+        // 展開せずに送る繰り返しは EXDATE で除く
+        return bodies.filter(ev => (ev.recurrence || []).length > 0 || !skip.has((ev.start?.date || ev.start?.dateTime || '').slice(0, 10)));
+    }
+
+    private expandOccurrences(eventPayload: GoogleCalendarEventInput, task: ObsidianTask, settings: GoogleCalendarTasksSyncSettings): GoogleCalendarEventInput[] {
         const out: GoogleCalendarEventInput[] = [];
         const clone = cloneEventInput; // JSON.parse(JSON.stringify(...)) から高速なクローン関数に置換
         const tz = this.localTz; // 関数外で一度だけ計算
@@ -613,6 +1516,12 @@ export class SyncLogic {
         const ruleStr = (eventPayload.recurrence || [])[0] || '';
         const hasRecurrence = !!ruleStr;
 
+        // 0) ネイティブ繰り返しは展開も日次スライスもせず、RRULE 付きの 1 件で送る
+        if (hasRecurrence && settings.nativeRecurrence) {
+            out.push(eventPayload);
+            return out;
+        }
+
         // 1) DAILY（COUNT 有無）を優先して個別イベントに展開
         const mDaily = ruleStr.match(/FREQ=DAILY(?:;COUNT=(\d+))?/);
         if (mDaily) {
@@ -820,7 +1729,6 @@ export class SyncLogic {
         settings: GoogleCalendarTasksSyncSettings,
         force: boolean = false
     ): void {
-        const calendarPath = `/calendar/v3/calendars/${encodeURIComponent(settings.calendarId)}/events`;
         const processed = new Set<string>();
 
         if (force) {
@@ -830,7 +1738,7 @@ export class SyncLogic {
                 if (!ev || processed.has(id)) continue;
                 const headers: Record<string, string> = {};
                 if (ev.etag) headers['If-Match'] = ev.etag;
-                batchRequests.push({ method: 'DELETE', path: `${calendarPath}/${encodeURIComponent(id)}`, headers, obsidianTaskId: 'force-delete', operationType: 'delete', originalGcalId: id });
+                batchRequests.push({ method: 'DELETE', path: `${CalendarRouter.eventsPath(this.calendarOf(id, settings))}/${encodeURIComponent(id)}`, headers, obsidianTaskId: 'force-delete', operationType: 'delete', originalGcalId: id });
                 processed.add(id);
             }
             // ② さらに taskMap が参照しているID（念のため）
@@ -840,7 +1748,7 @@ export class SyncLogic {
                 if (!ev) continue;
                 const headers: Record<string, string> = {};
                 if (ev.etag) headers['If-Match'] = ev.etag;
-                batchRequests.push({ method: 'DELETE', path: `${calendarPath}/${encodeURIComponent(id)}`, headers, obsidianTaskId: 'force-delete', operationType: 'delete', originalGcalId: id });
+                batchRequests.push({ method: 'DELETE', path: `${CalendarRouter.eventsPath(this.calendarOf(id, settings))}/${encodeURIComponent(id)}`, headers, obsidianTaskId: 'force-delete', operationType: 'delete', originalGcalId: id });
                 processed.add(id);
             }
             return;
@@ -867,7 +1775,7 @@ export class SyncLogic {
                 if (event.etag) headers['If-Match'] = event.etag;
                 batchRequests.push({
                     method: 'DELETE',
-                    path: `${calendarPath}/${encodeURIComponent(event.id)}`,
+                    path: `${CalendarRouter.eventsPath(this.calendarOf(event.id, settings))}/${encodeURIComponent(event.id)}`,
                     headers,
                     obsidianTaskId: obsId,
                     operationType: 'delete',
@@ -932,7 +1840,7 @@ export class SyncLogic {
                 const settled = await Promise.allSettled(slice.map(windowIdx => {
                     const subReq = windowIdx.map(idx => batchRequests[idx]);
                     const start = performance.now();
-                    return this.plugin.gcalApi.executeBatchRequest(subReq).then(subRes => {
+                    return this.backend().executeBatchRequest(subReq).then(subRes => {
                         const end = performance.now();
                         const latency = end - start;
                         metrics.sentSubBatches++;
@@ -969,7 +1877,8 @@ export class SyncLogic {
                                 switch (req.operationType) {
                                     case 'insert': created++; break;
                                     case 'update':
-                                    case 'patch':  updated++; break;
+                                    case 'patch':
+                                    case 'move':   updated++; break;
                                     case 'delete': deleted++; break;
                                 }
                             }
@@ -1145,12 +2054,17 @@ export class SyncLogic {
         return `OVR(${sig})`;
     }
 
+    /** 既定以外のカレンダーの同一性キーにはカレンダー ID を前置します */
+    private calendarScopedKey(identity: string, calendarId?: string): string {
+        return calendarId ? `${calendarId}|${identity}` : identity;
+    }
+
     private buildDedupeIndex(events: calendar_v3.Schema$Event[]): Map<string, calendar_v3.Schema$Event> {
         const map = new Map<string, calendar_v3.Schema$Event>();
         for (const ev of events) {
             if (ev.status === 'cancelled') continue;
             if (ev.extendedProperties?.private?.['isGcalSync'] !== 'true') continue; // プラグイン管理対象のみ
-            const key = this.buildIdentityKeyFromEvent(ev);
+            const key = this.calendarScopedKey(this.buildIdentityKeyFromEvent(ev), ev.id ? this.eventCalendars.get(ev.id) : undefined);
             const prev = map.get(key);
             if (!prev) map.set(key, ev);
             else {
@@ -1183,6 +2097,7 @@ export class SyncLogic {
         } as GoogleCalendarEventInput;
         const newFp = FingerprintUtils.identityKeyFromEvent(payloadForFp as any, includeDesc, includeRem);
         const oldFp = existingEvent.extendedProperties?.private?.['localFp'];
+        if (this.statusChanged(existingEvent, newPayload)) return true;
         if (oldFp && oldFp === newFp) return false;
 
         if ((existingEvent.summary || '') !== (newPayload.summary || '')) return true;
@@ -1265,6 +2180,27 @@ export class SyncLogic {
         return false;
     }
 
+    /** タスクの状態（種別・色）が変わったか。状態を持たない旧イベントは完了フラグから推定する */
+    private statusChanged(existingEvent: calendar_v3.Schema$Event, newPayload: GoogleCalendarEventInput): boolean {
+        const oldPriv = existingEvent.extendedProperties?.private || {};
+        const newType = (newPayload.extendedProperties as any)?.private?.taskStatus;
+        const oldType = oldPriv['taskStatus'] ?? (oldPriv['isCompleted'] === 'true' ? 'done' : 'todo');
+        if (typeof newType === 'string' && newType !== oldType) return true;
+        return this.statusColorPatch(existingEvent, newPayload) !== undefined;
+    }
+
+    /**
+     * 状態の色の PATCH 値（変更なしは undefined、外すときは null）。
+     * 前回の状態の色のまま残っている場合だけ外し、Google 側で付けた色は触らない。
+     */
+    private statusColorPatch(existingEvent: calendar_v3.Schema$Event, newPayload: GoogleCalendarEventInput): string | null | undefined {
+        if (newPayload.colorId) return newPayload.colorId !== existingEvent.colorId ? newPayload.colorId : undefined;
+        const oldSymbol = existingEvent.extendedProperties?.private?.['taskStatusSymbol'];
+        if (oldSymbol === undefined || !existingEvent.colorId) return undefined;
+        const oldColor = TaskStatuses.definition(oldSymbol, this.plugin.settings.taskStatuses).colorId;
+        return oldColor && oldColor === existingEvent.colorId ? null : undefined;
+    }
+
     // 差分PATCHボディを生成
     private buildPatchBody(
         existingEvent: calendar_v3.Schema$Event,
@@ -1305,6 +2241,9 @@ export class SyncLogic {
         const newRec = (newPayload.recurrence || []).map(norm).sort().join(',');
         if (oldRec !== newRec) patch.recurrence = newPayload.recurrence;
 
+        const colorId = this.statusColorPatch(existingEvent, newPayload);
+        if (colorId !== undefined) patch.colorId = colorId;
+
         // extendedProperties の obsidianTaskId 差異は更新しない（重複再利用時の所有者揺れを無視）
         // isGcalSync が欠けている場合のみ補う
         // 管理印を最新に（localFp/appId/version）
@@ -1334,6 +2273,11 @@ export class SyncLogic {
         if (typeof newCompleted === 'string') {
             priv.isCompleted = newCompleted;
         }
+        const newPriv = (newPayload.extendedProperties as any)?.private || {};
+        if (typeof newPriv.taskStatus === 'string') {
+            priv.taskStatus = newPriv.taskStatus;
+            priv.taskStatusSymbol = newPriv.taskStatusSymbol;
+        }
         patch.extendedProperties = { private: priv } as any;
 
         // 何も差分がない場合は summary を noop として入れない（空オブジェクトのまま返す）
@@ -1374,24 +2318,152 @@ export class SyncLogic {
     }
 
     // 重複整理（ドライラン/実行）
-    async runDedupeCleanup(dryRun: boolean = true): Promise<void> {
-        if (!this.plugin.settings.tokens) {
-            new Notice('未認証のため重複整理を実行できない。設定から認証する。', 7000);
+    private journalGenerations(settings: GoogleCalendarTasksSyncSettings): number {
+        return settings.journalGenerations ?? 5;
+    }
+
+    /** 更新・削除するイベントの送信前の状態を控えます（手元に無いものはまとめて GET する） */
+    private async captureJournalPriorStates(
+        batchRequests: BatchRequestItem[],
+        eventById: Map<string, calendar_v3.Schema$Event>,
+        settings: GoogleCalendarTasksSyncSettings
+    ): Promise<void> {
+        const missing = new Map<string, Set<string>>();
+        for (const r of batchRequests) {
+            if (!r.originalGcalId || r.operationType === 'insert') continue;
+            const ev = eventById.get(r.originalGcalId);
+            if (ev) {
+                this.journalPrior.set(r.originalGcalId, ev);
+                continue;
+            }
+            const calendarId = CalendarRouter.calendarIdFromPath(r.path) ?? settings.calendarId;
+            if (!missing.has(calendarId)) missing.set(calendarId, new Set());
+            missing.get(calendarId)!.add(r.originalGcalId);
+        }
+
+        // 増分取得や taskMap 経由の更新では、対象イベントが取得結果に含まれない
+        for (const [calendarId, ids] of missing) {
+            for (const ev of await this.fetchEventsById(ids, settings, calendarId)) this.journalPrior.set(ev.id!, ev);
+        }
+    }
+
+    /** イベントを ID 指定でまとめて GET します（取得できなかったものは含めない） */
+    private async fetchEventsById(
+        ids: Iterable<string>,
+        settings: GoogleCalendarTasksSyncSettings,
+        calendarId: string = settings.calendarId
+    ): Promise<calendar_v3.Schema$Event[]> {
+        const calendarPath = CalendarRouter.eventsPath(calendarId);
+        const gets: BatchRequestItem[] = Array.from(ids).map(id => ({ method: 'GET', path: `${calendarPath}/${encodeURIComponent(id)}`, originalGcalId: id }));
+        const events: calendar_v3.Schema$Event[] = [];
+        const chunkSize = settings.maxBatchPerHttp ?? 50;
+        for (let i = 0; i < gets.length; i += chunkSize) {
+            const chunk = gets.slice(i, i + chunkSize);
+            try {
+                const results = await this.backend(settings).executeBatchRequest(chunk);
+                results.forEach(res => {
+                    if (res.status >= 200 && res.status < 300 && res.body?.id) events.push(res.body);
+                });
+            } catch (e) {
+                console.warn(`${chunk.length} 件のイベントを ID 指定で取得できませんでした。`, e);
+            }
+        }
+        return events;
+    }
+
+    /**
+     * 直前の同期を取り消します。ジャーナルの最新世代の逆操作を送り、taskMap / syncBase を同期前に戻す。
+     * ノート側の変更は戻さないため、ノートが変わらなければ次回の同期で同じ内容が再送される。
+     */
+    async undoLastSync(): Promise<void> {
+        const generation = await this.plugin.syncJournal.latest();
+        if (!generation) {
+            new Notice('取り消せる同期の記録がありません。');
+            return;
+        }
+        if (!generation.accountId) return this.undoGeneration(generation);
+        // 追加アカウントの同期は、そのアカウントに切り替えて戻す
+        const profile = this.plugin.accounts.profiles().find(p => p.id === generation.accountId);
+        if (!profile) {
+            new Notice('直前の同期のアカウントが削除されているため取り消せません。');
             return;
         }
+        await this.plugin.accounts.withAccount(profile, () => this.undoGeneration(generation));
+    }
+
+    /** 同期先へ送れる状態か確認します（Google は認証と API クライアント、CalDAV はサーバー URL、サンドボックスは常に可） */
+    private async ensureBackend(unauthenticatedMessage: string): Promise<boolean> {
+        if (this.plugin.settings.calendarBackend === 'sandbox') {
+            this.plugin.authService.initializeCalendarApi();
+            return true;
+        }
+        if (this.plugin.settings.calendarBackend === 'caldav') {
+            if (this.plugin.settings.caldav?.serverUrl) return true;
+            new Notice('CalDAV のサーバー URL が設定されていません。', 7000);
+            return false;
+        }
+        if (!this.plugin.settings.tokens) {
+            new Notice(unauthenticatedMessage, 7000);
+            return false;
+        }
         const ok = await this.plugin.authService.ensureAccessToken();
         if (!ok || !this.plugin.calendar) {
             new Notice('カレンダーAPIクライアント未準備のため中止。', 7000);
-            return;
+            return false;
+        }
+        return true;
+    }
+
+    private async undoGeneration(generation: SyncJournalGeneration): Promise<void> {
+        if (!await this.ensureBackend('未認証のため同期を取り消せない。設定から認証する。')) return;
+
+        const requests = SyncJournal.buildUndoRequests(generation);
+        const skipped = generation.entries.length - requests.length;
+        const taskMap = { ...generation.taskMap };
+        let errors = 0;
+        // 移動の取り消しは、移動先での更新を戻し終えてから別バッチで送る（バッチ内の実行順は保証されない）
+        const phases = [requests.filter(r => r.operationType !== 'move'), requests.filter(r => r.operationType === 'move')];
+        for (const phase of phases) {
+            if (phase.length === 0) continue;
+            const result = await this.executeBatchesWithRetry(phase);
+            result.results.forEach((res, i) => {
+                const req = phase[i];
+                const succeeded = res.status >= 200 && res.status < 300;
+                // 既に消えているイベントの削除は取り消し済みとみなす
+                if (!succeeded && !(req.operationType === 'delete' && (res.status === 404 || res.status === 410))) {
+                    errors++;
+                    console.warn(`取り消しに失敗: ${req.method} ${req.path} (${res.status})`);
+                    return;
+                }
+                // 再作成したイベントは新しい ID になるので対応表を付け替える
+                if (succeeded && req.operationType === 'insert' && res.body?.id) {
+                    Object.keys(taskMap).forEach(obsId => {
+                        if (taskMap[obsId] === req.originalGcalId) taskMap[obsId] = res.body.id;
+                    });
+                }
+            });
         }
 
+        this.plugin.settings.taskMap = taskMap;
+        this.plugin.settings.taskCalendars = { ...(generation.taskCalendars || {}) };
+        this.plugin.settings.syncBase = { ...(generation.syncBase || {}) };
+        await this.plugin.saveData(this.plugin.settings);
+        await this.plugin.syncJournal.pop();
+
+        const detail = `${requests.length - errors}/${requests.length} 件の操作を戻しました${skipped > 0 ? `（状態不明のため ${skipped} 件は対象外）` : ''}`;
+        new Notice(errors > 0 ? `同期の取り消しを一部完了: ${detail}。詳細はコンソールを確認してください。` : `同期を取り消しました: ${detail}。`, errors ? 15000 : 7000);
+    }
+
+    async runDedupeCleanup(dryRun: boolean = true): Promise<DedupeSummary | null> {
+        if (!await this.ensureBackend('未認証のため重複整理を実行できない。設定から認証する。')) return null;
+
         const tmpSettings = JSON.parse(JSON.stringify(this.plugin.settings)) as GoogleCalendarTasksSyncSettings;
         tmpSettings.lastSyncTime = undefined;
         tmpSettings.fetchWindowPastDays = 0;
         tmpSettings.fetchWindowFutureDays = 0;
 
         console.time('Dedupe: Fetch all managed events');
-        const events = await this.plugin.gcalApi.fetchGoogleCalendarEvents(tmpSettings);
+        const events = await this.backend(tmpSettings).fetchGoogleCalendarEvents(tmpSettings);
         console.timeEnd('Dedupe: Fetch all managed events');
 
         // グルーピング
@@ -1432,10 +2504,15 @@ export class SyncLogic {
         const totalDupGroups = plans.length;
         const totalRemoves = plans.reduce((s,p) => s + p.removes.length, 0);
         console.log(`[Dedupe] 対象グループ: ${totalDupGroups}, 削除候補: ${totalRemoves}`);
+        const summary: DedupeSummary = {
+            dryRun,
+            groups: plans.map(p => ({ keep: p.keep.id!, removes: p.removes.map(r => r.id!), summary: p.keep.summary ?? undefined })),
+            deleted: 0, skipped: 0, errors: 0,
+        };
         if (dryRun) {
             new Notice(`ドライラン: 重複 ${totalDupGroups} グループ、削除候補 ${totalRemoves} 件`, 8000);
             plans.slice(0, 10).forEach(p => console.log(`[Dedupe] keep=${p.keep.id} removes=${p.removes.map(r=>r.id).join(',')}`));
-            return;
+            return summary;
         }
 
         // 実行: マッピング更新と削除
@@ -1458,11 +2535,12 @@ export class SyncLogic {
 
         if (batch.length === 0) {
             new Notice('重複は見つからない。', 4000);
-            return;
+            return summary;
         }
 
         const result = await this.executeBatchesWithRetry(batch);
         await this.plugin.saveData(this.plugin.settings); // 更新されたtaskMapを保存
         new Notice(`重複整理完了: 削除 ${result.deleted}, スキップ ${result.skipped}, エラー ${result.errors}`, 8000);
+        return { ...summary, deleted: result.deleted, skipped: result.skipped, errors: result.errors };
     }
 }
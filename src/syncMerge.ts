@@ -0,0 +1,152 @@
+import { calendar_v3 } from 'googleapis';
+import moment from 'moment';
+import { DateUtils, FingerprintUtils } from './commonUtils';
+import { ConflictResolution, FieldMergePolicy, GoogleCalendarEventInput, MergeField, MergePolicies, SyncBaseEntry } from './types';
+
+export const DEFAULT_MERGE_POLICIES: MergePolicies = {
+    time: 'google',       // 時刻は Google 優先
+    title: 'obsidian',    // タイトルは Obsidian 優先
+    completion: 'or',     // どちらかで完了なら完了
+};
+
+export const MERGE_FIELDS: MergeField[] = ['title', 'time', 'completion'];
+
+export interface FieldMergeResult {
+    localChanged: boolean;
+    remoteChanged: boolean;
+    conflict: boolean; // 両側で異なる値に変更された（またはベース不明で相違）
+    winner: 'local' | 'remote';
+}
+
+export interface MergeOutcome {
+    merged: SyncBaseEntry;
+    fields: { [field in MergeField]: FieldMergeResult };
+}
+
+/**
+ * フィールド単位の三方向マージ。
+ * ベース（前回同期時点の値）と比べて片側だけが変わっていればその値を採用し、
+ * 両側が異なる値に変わっていれば方針に従って解決します。
+ */
+export class SyncMerger {
+    static normalizeTitle(s: string | null | undefined): string {
+        return (s || '').trim().replace(/\s+/g, ' ');
+    }
+
+    /** Obsidian 側: マッピング済みペイロードとタスクの完了状態から */
+    static snapshotFromPayload(payload: GoogleCalendarEventInput, completed: boolean): SyncBaseEntry {
+        return {
+            title: SyncMerger.normalizeTitle(payload.summary),
+            start: DateUtils.wallClockKey(payload.start),
+            end: DateUtils.wallClockKey(payload.end),
+            completed,
+        };
+    }
+
+    /** Google 側: 取得したイベントから */
+    static snapshotFromEvent(ev: calendar_v3.Schema$Event): SyncBaseEntry {
+        return {
+            title: SyncMerger.normalizeTitle(ev.summary),
+            start: DateUtils.wallClockKey(ev.start),
+            end: DateUtils.wallClockKey(ev.end),
+            completed: ev.extendedProperties?.private?.['isCompleted'] === 'true',
+        };
+    }
+
+    /**
+     * 保存済みベースが無い場合の推定。
+     * タイトル/時刻は前回送信した指紋 (localFp) から復元し、
+     * 完了状態は前回同期より後に更新されたイベントのみ「不明」とみなす。
+     */
+    static baseFromEvent(ev: calendar_v3.Schema$Event, lastSyncTime?: string): Partial<SyncBaseEntry> {
+        const base: Partial<SyncBaseEntry> = {};
+        const fp = ev.extendedProperties?.private?.['localFp'];
+        const keys = fp ? FingerprintUtils.timeKeysFromFingerprint(fp) : null;
+        if (fp && keys) {
+            const a = fp.lastIndexOf('|A|');
+            base.title = SyncMerger.normalizeTitle(fp.startsWith('S|') ? fp.slice(2, a) : undefined);
+            base.start = keys.start;
+            base.end = keys.end;
+        }
+        const remoteNewer = !lastSyncTime || (!!ev.updated && moment(ev.updated).isAfter(moment(lastSyncTime)));
+        if (!remoteNewer) base.completed = ev.extendedProperties?.private?.['isCompleted'] === 'true';
+        return base;
+    }
+
+    static mergeField<T>(base: T | undefined, local: T, remote: T, policy: FieldMergePolicy): { value: T } & FieldMergeResult {
+        const hasBase = base !== undefined;
+        const localChanged = hasBase ? local !== base : false;
+        const remoteChanged = hasBase ? remote !== base : false;
+        if (local === remote) return { value: local, localChanged, remoteChanged, conflict: false, winner: 'local' };
+        if (hasBase && !remoteChanged) return { value: local, localChanged, remoteChanged, conflict: false, winner: 'local' };
+        if (hasBase && !localChanged) return { value: remote, localChanged, remoteChanged, conflict: false, winner: 'remote' };
+
+        // 両側で変更（またはベース不明）
+        let value: T;
+        if (typeof local === 'boolean' && (policy === 'or' || policy === 'and')) {
+            value = (policy === 'or' ? (local || remote) : (local && remote)) as unknown as T;
+        } else {
+            value = policy === 'google' ? remote : local;
+        }
+        return { value, localChanged: true, remoteChanged: true, conflict: true, winner: value === local ? 'local' : 'remote' };
+    }
+
+    /**
+     * 3 フィールドをまとめてマージします。
+     * pullable が false のフィールドは Obsidian を正とします（Google 側の変更は上書き）。
+     */
+    static merge(
+        base: Partial<SyncBaseEntry> | undefined,
+        local: SyncBaseEntry,
+        remote: SyncBaseEntry,
+        policies: MergePolicies,
+        pullable: { [field in MergeField]: boolean }
+    ): MergeOutcome {
+        const b = base || {};
+        const pick = <T>(field: MergeField, bv: T | undefined, lv: T, rv: T) => {
+            const r = SyncMerger.mergeField(bv, lv, rv, policies[field] || DEFAULT_MERGE_POLICIES[field]);
+            if (!pullable[field] && r.winner === 'remote') {
+                return { ...r, value: lv, winner: 'local' as const };
+            }
+            return r;
+        };
+
+        const title = pick('title', b.title, local.title, remote.title);
+        const timeKey = (e: Partial<SyncBaseEntry>) => (e.start !== undefined && e.end !== undefined) ? `${e.start}|${e.end}` : undefined;
+        const time = pick('time', timeKey(b), timeKey(local)!, timeKey(remote)!);
+        const completion = pick('completion', b.completed, local.completed, remote.completed);
+
+        const useRemoteTime = time.winner === 'remote';
+        return {
+            merged: {
+                title: title.value,
+                start: useRemoteTime ? remote.start : local.start,
+                end: useRemoteTime ? remote.end : local.end,
+                completed: completion.value,
+            },
+            fields: {
+                title: { localChanged: title.localChanged, remoteChanged: title.remoteChanged, conflict: title.conflict, winner: title.winner },
+                time: { localChanged: time.localChanged, remoteChanged: time.remoteChanged, conflict: time.conflict, winner: time.winner },
+                completion: { localChanged: completion.localChanged, remoteChanged: completion.remoteChanged, conflict: completion.conflict, winner: completion.winner },
+            },
+        };
+    }
+
+    /** 競合キューで選ばれた解決内容を自動マージ結果に重ねます（未指定のフィールドは自動マージのまま） */
+    static applyResolution(auto: SyncBaseEntry, local: SyncBaseEntry, remote: SyncBaseEntry, resolution: ConflictResolution): SyncBaseEntry {
+        const from = (field: MergeField) => {
+            const side = resolution.pick[field];
+            return side === 'remote' ? remote : side === 'local' ? local : auto;
+        };
+        return {
+            title: resolution.title !== undefined ? SyncMerger.normalizeTitle(resolution.title) : from('title').title,
+            start: from('time').start,
+            end: from('time').end,
+            completed: from('completion').completed,
+        };
+    }
+
+    static isSameSnapshot(a: SyncBaseEntry, b: SyncBaseEntry): boolean {
+        return a.title === b.title && a.start === b.start && a.end === b.end && a.completed === b.completed;
+    }
+}
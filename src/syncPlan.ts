@@ -0,0 +1,85 @@
+import { calendar_v3 } from 'googleapis';
+import moment from 'moment';
+import { DateUtils } from './commonUtils';
+import { CalendarRouter } from './calendarRouter';
+import { BatchRequestItem, ObsidianTask, SyncPlanItem } from './types';
+
+/**
+ * 送信予定のバッチリクエストを、プレビュー用の承認単位（タスクごと）にまとめます。
+ * 同じタスクの削除→複数挿入のような置換は一括でしか承認できない。
+ */
+export class SyncPlanner {
+    static build(
+        batchRequests: BatchRequestItem[],
+        tasks: ObsidianTask[],
+        eventById: Map<string, calendar_v3.Schema$Event>
+    ): SyncPlanItem[] {
+        const taskById = new Map(tasks.map(t => [t.id, t] as const));
+        const items = new Map<string, SyncPlanItem>();
+
+        batchRequests.forEach((req, index) => {
+            const taskId = req.obsidianTaskId && taskById.has(req.obsidianTaskId) ? req.obsidianTaskId : undefined;
+            const key = req.obsidianTaskId && req.obsidianTaskId !== 'force-delete'
+                ? req.obsidianTaskId
+                : `gcal:${req.originalGcalId ?? index}`;
+            const existing = req.originalGcalId ? eventById.get(req.originalGcalId) : undefined;
+            const task = taskId ? taskById.get(taskId) : undefined;
+
+            let item = items.get(key);
+            if (!item) {
+                item = {
+                    key,
+                    taskId,
+                    summary: task?.summary || existing?.summary || req.body?.summary || '（無題）',
+                    sourcePath: task?.sourcePath,
+                    sourceLine: task?.sourceLine,
+                    operations: [],
+                    requestIndexes: [],
+                };
+                items.set(key, item);
+            }
+
+            if (req.operationType === 'move') {
+                // カレンダー移動は変更前後のカレンダーを表示
+                item.operations.push({
+                    type: 'move',
+                    gcalId: req.originalGcalId,
+                    before: CalendarRouter.calendarIdFromPath(req.path) ?? undefined,
+                    after: CalendarRouter.moveDestination(req.path) ?? undefined,
+                });
+                item.requestIndexes.push(index);
+                return;
+            }
+            const type = req.operationType === 'insert' || req.operationType === 'delete' ? req.operationType : 'patch';
+            const after = type === 'delete' ? undefined : (req.fullBody ?? req.body) as calendar_v3.Schema$Event | undefined;
+            item.operations.push({
+                type,
+                gcalId: req.originalGcalId,
+                before: existing ? SyncPlanner.formatTimes(existing) : undefined,
+                after: after ? SyncPlanner.formatTimes({ start: after.start ?? existing?.start, end: after.end ?? existing?.end }) : undefined,
+            });
+            item.requestIndexes.push(index);
+        });
+        return Array.from(items.values());
+    }
+
+    /** 承認された項目のリクエストだけを元の順序で返します */
+    static filterRequests(batchRequests: BatchRequestItem[], plan: SyncPlanItem[], approvedKeys: Set<string>): BatchRequestItem[] {
+        const keep = new Set<number>();
+        for (const item of plan) {
+            if (approvedKeys.has(item.key)) item.requestIndexes.forEach(i => keep.add(i));
+        }
+        return batchRequests.filter((_r, i) => keep.has(i));
+    }
+
+    /** 開始/終了を表示用に整形します（終日の終了日は含む日付で表示） */
+    static formatTimes(ev: Pick<calendar_v3.Schema$Event, 'start' | 'end'>): string {
+        const fmt = (key: string) => key.replace(/^[DT]:/, '').replace('T', ' ');
+        if (!ev.start || !ev.end) return '（不明）';
+        const start = DateUtils.wallClockKey(ev.start);
+        let end = DateUtils.wallClockKey(ev.end);
+        if (end.startsWith('D:')) end = `D:${moment(end.slice(2), 'YYYY-MM-DD').subtract(1, 'day').format('YYYY-MM-DD')}`;
+        if (start === 'N' || end === 'N') return '（不明）';
+        return start === end ? fmt(start) : `${fmt(start)} → ${fmt(end)}`;
+    }
+}
@@ -0,0 +1,85 @@
+import { App, Modal, Setting } from 'obsidian';
+import { SyncPlanItem, SyncPlanOperation } from './types';
+
+const OPERATION_LABELS: Record<SyncPlanOperation['type'], string> = {
+    insert: '追加',
+    patch: '更新',
+    delete: '削除',
+    move: 'カレンダー移動',
+};
+
+/**
+ * 同期で Google に送る予定の操作を一覧し、すべて承認 / 選択したものを承認 / キャンセル を選ばせるモーダル。
+ * 結果は承認した項目のキー集合（キャンセル時は null）。
+ */
+export class SyncPreviewModal extends Modal {
+    private plan: SyncPlanItem[];
+    private onDecide: (approved: Set<string> | null) => void;
+    private decided = false;
+
+    constructor(app: App, plan: SyncPlanItem[], onDecide: (approved: Set<string> | null) => void) {
+        super(app);
+        this.plan = plan;
+        this.onDecide = onDecide;
+    }
+
+    /** モーダルを開き、選択結果を待ちます */
+    static review(app: App, plan: SyncPlanItem[]): Promise<Set<string> | null> {
+        return new Promise(resolve => new SyncPreviewModal(app, plan, resolve).open());
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.createEl('h3', { text: '同期のプレビュー' });
+        const counts = { insert: 0, patch: 0, delete: 0, move: 0 };
+        this.plan.forEach(item => item.operations.forEach(op => counts[op.type]++));
+        contentEl.createEl('p', {
+            text: `${counts.insert} 件追加, ${counts.patch} 件更新, ${counts.delete} 件削除${counts.move ? `, ${counts.move} 件移動` : ''}（${this.plan.length} タスク）。承認した項目だけを Google に送信します。`,
+            cls: 'setting-item-description',
+        });
+
+        const selected = new Set(this.plan.map(item => item.key));
+        const table = contentEl.createEl('table', { cls: 'gcal-preview-table' });
+        const head = table.createEl('tr');
+        ['', '操作', 'タスク', '変更前', '変更後'].forEach(h => head.createEl('th', { text: h }));
+        for (const item of this.plan) {
+            const row = table.createEl('tr');
+            const box = row.createEl('td').createEl('input', { type: 'checkbox' });
+            box.checked = true;
+            box.addEventListener('change', () => {
+                if (box.checked) selected.add(item.key);
+                else selected.delete(item.key);
+            });
+            row.createEl('td', { text: item.operations.map(op => OPERATION_LABELS[op.type]).join(' / ') });
+            const taskCell = row.createEl('td');
+            taskCell.createEl('div', { text: item.summary });
+            if (item.sourcePath) {
+                taskCell.createEl('div', { text: `${item.sourcePath}:${(item.sourceLine ?? 0) + 1}`, cls: 'setting-item-description' });
+            }
+            row.createEl('td', { text: this.uniqueTimes(item, 'before') });
+            row.createEl('td', { text: this.uniqueTimes(item, 'after') });
+        }
+
+        new Setting(contentEl)
+            .addButton(b => b.setButtonText('すべて承認').setCta().onClick(() => this.decide(new Set(this.plan.map(item => item.key)))))
+            .addButton(b => b.setButtonText('選択したものを承認').onClick(() => this.decide(new Set(selected))))
+            .addButton(b => b.setButtonText('キャンセル').onClick(() => this.decide(null)));
+    }
+
+    // 置換（削除→複数追加）などで同じ値が並ぶ場合は 1 つにまとめる
+    private uniqueTimes(item: SyncPlanItem, side: 'before' | 'after'): string {
+        const values = Array.from(new Set(item.operations.map(op => op[side]).filter((v): v is string => !!v)));
+        return values.length > 0 ? values.join('\n') : '—';
+    }
+
+    private decide(approved: Set<string> | null): void {
+        this.decided = true;
+        this.onDecide(approved);
+        this.close();
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+        if (!this.decided) this.onDecide(null); // 閉じた場合はキャンセル扱い
+    }
+}
@@ -0,0 +1,94 @@
+import { App } from 'obsidian';
+import { ObsidianTask } from './types';
+
+// 解析結果の形式が変わったら上げる（古いキャッシュは丸ごと捨てる）
+const TASK_CACHE_VERSION = 2;
+
+interface TaskCacheEntry {
+    mtime: number;
+    size: number;
+    tasks: ObsidianTask[];
+}
+
+interface TaskCacheFile {
+    version: number;
+    files: { [path: string]: TaskCacheEntry };
+}
+
+/**
+ * ファイル単位のタスク解析キャッシュ。
+ * パスと mtime/size が一致する間は前回の解析結果を使い、vault の modify/rename/delete で無効化する。
+ * プラグインフォルダの task-cache.json に保存し、再起動後も再解析を省く。
+ */
+export class TaskCache {
+    private app: App;
+    private readonly path: string;
+    private files: { [path: string]: TaskCacheEntry } | null = null;
+    private dirty = false;
+
+    constructor(app: App, pluginDir: string) {
+        this.app = app;
+        this.path = `${pluginDir}/task-cache.json`;
+    }
+
+    async load(): Promise<void> {
+        if (this.files) return;
+        try {
+            const adapter = this.app.vault.adapter;
+            if (await adapter.exists(this.path)) {
+                const parsed = JSON.parse(await adapter.read(this.path)) as TaskCacheFile;
+                this.files = parsed?.version === TASK_CACHE_VERSION && parsed.files ? parsed.files : {};
+            } else {
+                this.files = {};
+            }
+        } catch (e) {
+            console.warn('task-cache.json の読み込みに失敗しました。全ファイルを解析し直します。', e);
+            this.files = {};
+        }
+    }
+
+    /** 変更があれば保存します */
+    async save(): Promise<void> {
+        if (!this.dirty || !this.files) return;
+        try {
+            const data: TaskCacheFile = { version: TASK_CACHE_VERSION, files: this.files };
+            await this.app.vault.adapter.write(this.path, JSON.stringify(data));
+            this.dirty = false;
+        } catch (e) {
+            console.error('task-cache.json の保存に失敗しました', e);
+        }
+    }
+
+    /** mtime/size が一致すればタスクの複製を返します（同期中の書き換えがキャッシュへ漏れないように） */
+    get(path: string, stat: { mtime: number; size: number }): ObsidianTask[] | null {
+        const entry = this.files?.[path];
+        if (!entry || entry.mtime !== stat.mtime || entry.size !== stat.size) return null;
+        return entry.tasks.map(t => ({ ...t, tags: [...(t.tags || [])] }));
+    }
+
+    set(path: string, stat: { mtime: number; size: number }, tasks: ObsidianTask[]): void {
+        if (!this.files) this.files = {};
+        this.files[path] = { mtime: stat.mtime, size: stat.size, tasks: tasks.map(t => ({ ...t, tags: [...(t.tags || [])] })) };
+        this.dirty = true;
+    }
+
+    invalidate(path: string): void {
+        if (this.files && path in this.files) {
+            delete this.files[path];
+            this.dirty = true;
+        }
+    }
+
+    /** 現存するパス以外のエントリを捨てます（イベントを取りこぼした削除への保険） */
+    retain(paths: Set<string>): void {
+        if (!this.files) return;
+        for (const path of Object.keys(this.files)) {
+            if (!paths.has(path)) this.invalidate(path);
+        }
+    }
+
+    clear(): void {
+        this.files = {};
+        this.dirty = true;
+    }
+}
@@ -0,0 +1,86 @@
+import { App } from 'obsidian';
+import { CalendarRouter } from './calendarRouter';
+import { GoogleCalendarTasksSyncSettings, ObsidianTask } from './types';
+
+// ノート単位で同期から外すフロントマターのキー（gcal: false）
+export const SYNC_FRONTMATTER_KEY = 'gcal';
+const TASKS_PLUGIN_ID = 'obsidian-tasks-plugin';
+
+/** 同期対象かどうかの判定と、その理由（説明コマンドに表示する） */
+export interface TaskFilterVerdict {
+    included: boolean;
+    reason: string;
+}
+
+interface CompiledRule {
+    rule: string;
+    test: (task: ObsidianTask) => boolean;
+}
+
+/**
+ * 同期対象のタスクを絞り込みます（マッピングの前に評価する）。
+ * 評価順: フロントマター gcal: false → Tasks プラグインのグローバルフィルタ → 除外ルール → 対象ルール。
+ * ルールは振り分けと同じく '#tag'（入れ子タグも一致）またはパスのグロブ。対象ルールが空なら全タスクが対象。
+ */
+export class TaskFilter {
+    private app: App;
+    private readonly include: CompiledRule[];
+    private readonly exclude: CompiledRule[];
+    private readonly globalFilter: string | null;
+
+    constructor(app: App, settings: GoogleCalendarTasksSyncSettings, globalFilter: string | null = null) {
+        this.app = app;
+        const compile = (rules?: string[]) => (rules || []).filter(r => r.trim()).map(rule => ({ rule: rule.trim(), test: CalendarRouter.matcher(rule) }));
+        this.include = compile(settings.syncIncludeRules);
+        this.exclude = compile(settings.syncExcludeRules);
+        this.globalFilter = globalFilter?.trim() || null;
+    }
+
+    /** 設定に従って Tasks プラグインのグローバルフィルタも読み込んだフィルタを作ります */
+    static async create(app: App, settings: GoogleCalendarTasksSyncSettings): Promise<TaskFilter> {
+        const globalFilter = settings.useTasksGlobalFilter !== false ? await TaskFilter.tasksGlobalFilter(app) : null;
+        return new TaskFilter(app, settings, globalFilter);
+    }
+
+    /** Tasks プラグインの設定（data.json）の globalFilter。未導入・未設定なら null */
+    static async tasksGlobalFilter(app: App): Promise<string | null> {
+        const adapter = app?.vault?.adapter;
+        if (!adapter) return null;
+        const path = `${app.vault.configDir}/plugins/${TASKS_PLUGIN_ID}/data.json`;
+        try {
+            if (!await adapter.exists(path)) return null;
+            const value = JSON.parse(await adapter.read(path))?.globalFilter;
+            return typeof value === 'string' && value.trim() ? value.trim() : null;
+        } catch (e) {
+            console.warn('Tasks プラグインの設定を読み込めませんでした。グローバルフィルタは使いません。', e);
+            return null;
+        }
+    }
+
+    apply(tasks: ObsidianTask[]): ObsidianTask[] {
+        const kept = tasks.filter(task => this.explain(task).included);
+        if (kept.length !== tasks.length) console.log(`同期対象の絞り込みで ${tasks.length - kept.length} 件のタスクを除外しました。`);
+        return kept;
+    }
+
+    explain(task: ObsidianTask): TaskFilterVerdict {
+        if (this.frontmatterDisabled(task.sourcePath)) {
+            return { included: false, reason: `ノートのフロントマターが "${SYNC_FRONTMATTER_KEY}: false"` };
+        }
+        if (this.globalFilter && !task.rawText.includes(this.globalFilter)) {
+            return { included: false, reason: `Tasks プラグインのグローバルフィルタ "${this.globalFilter}" を含まない` };
+        }
+        const excluded = this.exclude.find(r => r.test(task));
+        if (excluded) return { included: false, reason: `除外ルール "${excluded.rule}" に一致` };
+        if (this.include.length === 0) return { included: true, reason: '除外ルールに一致しない' };
+        const included = this.include.find(r => r.test(task));
+        return included
+            ? { included: true, reason: `対象ルール "${included.rule}" に一致` }
+            : { included: false, reason: `対象ルール（${this.include.map(r => r.rule).join(', ')}）のどれにも一致しない` };
+    }
+
+    private frontmatterDisabled(path: string): boolean {
+        const value = this.app?.metadataCache?.getCache(path)?.frontmatter?.[SYNC_FRONTMATTER_KEY];
+        return value === false || /^(false|no|off)$/i.test(String(value ?? '').trim());
+    }
+}
@@ -0,0 +1,154 @@
+import { ObsidianTask } from './types';
+
+/** タスク行のメタデータ項目 */
+export type MetadataField = 'start' | 'due' | 'scheduled' | 'created' | 'done' | 'recurrence' | 'priority';
+export type TaskPriority = NonNullable<ObsidianTask['priority']>;
+
+/**
+ * メタデータの記法（絵文字 / `due:` / Dataview の `[due:: …]` など）。
+ * pattern は「頭・値・尻」の 3 グループだけを持つ正規表現ソースを返す（書き戻しで値だけを差し替えるため）。
+ */
+export interface MetadataSyntax {
+    name: string;
+    /** 項目の表記（value は値の正規表現ソース）。扱わない項目は null */
+    pattern(field: MetadataField, value: string): string | null;
+    /** 新しく書き足すときの表記 */
+    format(field: MetadataField, value: string): string;
+    /** 表記上の値 ⇔ タスクの値（絵文字の優先度など）。省略時はそのまま */
+    decode?(field: MetadataField, raw: string): string;
+    encode?(field: MetadataField, value: string): string;
+}
+
+/** 行の中で見つかった項目の表記 */
+export interface MetadataMatch {
+    syntax: MetadataSyntax;
+    index: number;
+    length: number;
+    head: string;
+    raw: string;
+    tail: string;
+}
+
+export const DATE_SRC = '\\d{4}-\\d{2}-\\d{2}';
+export const DATETIME_SRC = `${DATE_SRC}(?:[T\\s]\\d{2}:\\d{2}(?::\\d{2}(?:\\.\\d+)?)?(?:Z|[+-]\\d{2}:\\d{2})?)?`;
+// 🔁 の本文は次のメタデータ（絵文字・タグ・ブロックリンク・インラインフィールド）の手前まで
+const RECURRENCE_SRC = '[^📅🛫⏳➕✅🔺⏫🔼🔽⏬⏰#^\\[\\]]+';
+const PRIORITY_SRC = '(?:highest|high|medium|lowest|low)\\b';
+
+const VALUE_SRC: Record<MetadataField, string> = {
+    start: DATETIME_SRC, due: DATETIME_SRC, scheduled: DATETIME_SRC,
+    created: DATE_SRC, done: DATE_SRC,
+    recurrence: RECURRENCE_SRC, priority: PRIORITY_SRC,
+};
+
+const EMOJI: Record<Exclude<MetadataField, 'priority'>, string> = {
+    start: '🛫', due: '📅', scheduled: '⏳', created: '➕', done: '✅', recurrence: '🔁',
+};
+const PRIORITY_EMOJI: Record<TaskPriority, string> = { highest: '🔺', high: '⏫', medium: '🔼', low: '🔽', lowest: '⏬' };
+
+/** Tasks プラグインの絵文字（🛫 2026-10-20 / ⏫） */
+const EMOJI_SYNTAX: MetadataSyntax = {
+    name: 'emoji',
+    pattern: (field, value) => field === 'priority'
+        ? `()(${Object.values(PRIORITY_EMOJI).join('|')})()`
+        : `(${EMOJI[field]}\\s*)(${value})()`,
+    format: (field, value) => field === 'priority' ? PRIORITY_EMOJI[value as TaskPriority] : `${EMOJI[field]} ${value}`,
+    decode: (field, raw) => field === 'priority'
+        ? (Object.keys(PRIORITY_EMOJI) as TaskPriority[]).find(p => PRIORITY_EMOJI[p] === raw) ?? raw
+        : raw,
+    encode: (field, value) => field === 'priority' ? PRIORITY_EMOJI[value as TaskPriority] ?? value : value,
+};
+
+// 先頭が書き足すときのキー
+const PREFIX_KEYS: Record<MetadataField, string[]> = {
+    start: ['start'], due: ['due'], scheduled: ['scheduled'], created: ['created'], done: ['done'],
+    recurrence: ['repeat', 'recur'], priority: ['priority'],
+};
+const DATAVIEW_KEYS: Record<MetadataField, string[]> = {
+    start: ['start'], due: ['due'], scheduled: ['scheduled'], created: ['created'], done: ['completion', 'done'],
+    recurrence: ['repeat'], priority: ['priority'],
+};
+
+/** `due: 2026-10-20` 形式（Dataview の `::` とは区別する） */
+const PREFIX_SYNTAX: MetadataSyntax = {
+    name: 'prefix',
+    pattern: (field, value) => `(\\b(?:${PREFIX_KEYS[field].join('|')}):(?!:)\\s*)(${value})()`,
+    format: (field, value) => `${PREFIX_KEYS[field][0]}: ${value}`,
+};
+
+/** Dataview のインラインフィールド `[due:: 2026-10-20]` */
+const DATAVIEW_SYNTAX: MetadataSyntax = {
+    name: 'dataview',
+    pattern: (field, value) => `(\\[(?:${DATAVIEW_KEYS[field].join('|')})::\\s*)(${value})(\\s*\\])`,
+    format: (field, value) => `[${DATAVIEW_KEYS[field][0]}:: ${value}]`,
+};
+
+const FIELDS = Object.keys(VALUE_SRC) as MetadataField[];
+
+/**
+ * タスク行のメタデータを記法に依らず読み書きします。
+ * 記法は登録順に試し、同じ項目が複数あれば行の中で最も後ろのものを採る（従来の絵文字と同じ規則）。
+ * 書き戻しは見つかった表記の値だけを差し替え、新しく足すときは行で多く使われている記法に合わせる。
+ */
+export class TaskMetadata {
+    private static syntaxes: MetadataSyntax[] = [EMOJI_SYNTAX, PREFIX_SYNTAX, DATAVIEW_SYNTAX];
+
+    /** 記法を追加します（同じ名前があれば置き換え） */
+    static register(syntax: MetadataSyntax): void {
+        const at = TaskMetadata.syntaxes.findIndex(s => s.name === syntax.name);
+        if (at >= 0) TaskMetadata.syntaxes[at] = syntax;
+        else TaskMetadata.syntaxes.push(syntax);
+    }
+
+    /** 項目の最後の出現を探します */
+    static findLast(text: string, field: MetadataField, value: string = VALUE_SRC[field]): MetadataMatch | null {
+        let found: MetadataMatch | null = null;
+        for (const syntax of TaskMetadata.syntaxes) {
+            const src = syntax.pattern(field, value);
+            if (!src) continue;
+            for (const m of text.matchAll(new RegExp(src, 'gu'))) {
+                if (found && m.index! < found.index) continue;
+                found = { syntax, index: m.index!, length: m[0].length, head: m[1], raw: m[2], tail: m[3] };
+            }
+        }
+        return found;
+    }
+
+    /** 項目の値を取り出し、その表記を本文から取り除きます */
+    static extract(content: string, field: MetadataField): { value: string | null; remainingContent: string } {
+        const m = TaskMetadata.findLast(content, field);
+        if (!m || !m.raw.trim()) return { value: null, remainingContent: content };
+        const raw = m.raw.trim();
+        const value = m.syntax.decode ? m.syntax.decode(field, raw) : raw;
+        return { value, remainingContent: (content.slice(0, m.index) + content.slice(m.index + m.length)).trim() };
+    }
+
+    /** 表記の値を差し替えた文字列（頭と尻はそのまま） */
+    static replaceValue(text: string, m: MetadataMatch, field: MetadataField, value: string): string {
+        const raw = m.syntax.encode ? m.syntax.encode(field, value) : value;
+        return `${text.slice(0, m.index)}${m.head}${raw}${m.tail}${text.slice(m.index + m.length)}`;
+    }
+
+    /** 行で最も多く使われている記法（同数なら登録順で先のもの） */
+    static syntaxOf(text: string): MetadataSyntax {
+        let best = TaskMetadata.syntaxes[0];
+        let bestCount = 0;
+        for (const syntax of TaskMetadata.syntaxes) {
+            let count = 0;
+            for (const field of FIELDS) {
+                const src = syntax.pattern(field, VALUE_SRC[field]);
+                if (src) count += Array.from(text.matchAll(new RegExp(src, 'gu'))).length;
+            }
+            if (count > bestCount) {
+                best = syntax;
+                bestCount = count;
+            }
+        }
+        return best;
+    }
+
+    /** 行の記法で項目の表記を作ります */
+    static format(text: string, field: MetadataField, value: string): string {
+        return TaskMetadata.syntaxOf(text).format(field, value);
+    }
+}
@@ -1,94 +1,57 @@
-import { App } from 'obsidian';
+import { App, TFile } from 'obsidian';
 import { createHash } from 'crypto';
 import moment from 'moment';
-import { RRule, RRuleSet, rrulestr, Frequency, Options as RRuleOptions, Weekday } from 'rrule';
+import { RRule, RRuleSet, rrulestr, Options as RRuleOptions } from 'rrule';
 import { ObsidianTask } from './types';
+import { TaskCache } from './taskCache';
+import { RecurrenceGrammar } from './recurrenceGrammar';
+import { TaskMetadata } from './taskMetadata';
+import { TaskStatuses } from './taskStatus';
 
 export class TaskParser {
     private app: App;
+    private cache: TaskCache | null;
     private generateId(input: string): string {
         return createHash('sha1').update(input).digest('hex').slice(0, 8);
     }
 
-    constructor(app: App) {
+    constructor(app: App, cache: TaskCache | null = null) {
         this.app = app;
+        this.cache = cache;
     }
 
     /**
      * Vault 内のすべての Markdown ファイルからタスクを抽出します。
-     * 'templates/' パスを含むファイルはスキップします。
+     * キャッシュがあれば mtime/size が変わっていないファイルは読み直さない。
+     * @param {Iterable<string>} [paths] 指定した場合はこれらのファイルだけを対象にする（部分同期用）
      * @returns {Promise<ObsidianTask[]>} 解析されたタスクの配列
      */
-    async getObsidianTasks(): Promise<ObsidianTask[]> {
+    async getObsidianTasks(paths?: Iterable<string>): Promise<ObsidianTask[]> {
         console.time("getObsidianTasks");
         const tasks: ObsidianTask[] = [];
-        const mdFiles = this.app.vault.getMarkdownFiles();
+        const only = paths ? new Set(paths) : null;
+        const mdFiles = this.app.vault.getMarkdownFiles()
+            .filter(file => !only || only.has(file.path));
+        if (this.cache) {
+            await this.cache.load();
+            // 一部のファイルだけを読む場合は他のエントリを残す
+            if (!only) this.cache.retain(new Set(mdFiles.map(f => f.path)));
+        }
+        let parsedFiles = 0;
 
         // 読み込み負荷のスロットリング（同時 16 本）
         const CONCURRENCY = 16;
         const chunks: typeof mdFiles[] = Array.from({ length: Math.ceil(mdFiles.length / CONCURRENCY) }, (_, i) => mdFiles.slice(i * CONCURRENCY, (i + 1) * CONCURRENCY));
         for (const group of chunks) {
             const results = await Promise.all(group.map(async (file) => {
-                const normalized = file.path.replace(/\\/g, '/').toLowerCase();
-                if (normalized.startsWith('templates/')) {
-                    return [] as ObsidianTask[];
-                }
+                const cached = this.cache?.get(file.path, file.stat);
+                if (cached) return cached;
+                if (!this.mayContainTasks(file)) return [] as ObsidianTask[];
                 try {
                     const content = await this.app.vault.read(file);
-                    const lines = content.split('\n');
-                    const fileTasks: ObsidianTask[] = [];
-                    // フェンスドコードブロック (``` や ~~~) 内は同期対象外
-                    let inFence = false;
-                    let fenceChar: '`' | '~' | '' = '';
-                    let fenceLen = 0;
-                    const fenceOpenRe = /^\s*(`{3,}|~{3,})/;
-                    lines.forEach((line, index) => {
-                        const open = line.match(fenceOpenRe);
-                        if (open) {
-                            const marker = open[1];
-                            const ch = marker[0] as '`' | '~';
-                            const len = marker.length;
-                            if (!inFence) { inFence = true; fenceChar = ch; fenceLen = len; return; }
-                            if (inFence && fenceChar === ch && len >= fenceLen) { inFence = false; fenceChar = ''; fenceLen = 0; return; }
-                        }
-
-                        if (inFence) return; // コードブロック内は無視
-
-                        // 継続行（連続するインデント行）を結合（時間帯/🔁/終日は結合、その他は自由記述として収集）
-                        let combined = line;
-                        let extraDetailFromNext: string | null = null;
-                        const details: string[] = [];
-                        const SUBTASK_RE = /^\s*-\s*\[[ xX]\]/; // ネストしたタスク
-                        const CONTROL_RE = /(?:\d{1,2}:\d{2})\s*(?:-|–|—|~|〜|～|to)\s*(?:\d{1,2}:\d{2}|24:00)|🔁|(?:終日|全日|all[-\s]?day)/iu;
-                        let k = index + 1;
-                        while (k < lines.length && /^\s+/.test(lines[k])) {
-                            const raw = lines[k];
-                            const trimmed = raw.trim();
-                            if (trimmed.length === 0) { k++; continue; }
-                            if (SUBTASK_RE.test(trimmed)) break; // サブタスク開始で親の連結は終わり
-                            if (CONTROL_RE.test(trimmed)) {
-                                combined = `${combined} ${trimmed}`;
-                            } else {
-                                details.push(trimmed);
-                            }
-                            k++;
-                        }
-                        if (details.length > 0) extraDetailFromNext = details.join('\n');
-
-                        const task = this.parseObsidianTask(combined, file.path, index);
-                        if (task) {
-                            if (extraDetailFromNext && !task.extraDetail) task.extraDetail = extraDetailFromNext;
-                            // インデント側の #tag を反映
-                            if (extraDetailFromNext) {
-                                const extraTags = extraDetailFromNext.match(/#[^\s#]+/g) || [];
-                                if (extraTags.length) {
-                                    const merged = new Set([...(task.tags || []), ...extraTags.map(t => t.slice(1))]);
-                                    task.tags = Array.from(merged);
-                                }
-                            }
-                            fileTasks.push(task);
-                        }
-                    });
+                    const fileTasks = this.parseFileContent(content, file.path);
+                    this.cache?.set(file.path, file.stat, fileTasks);
+                    parsedFiles++;
                     return fileTasks;
                 } catch (e) {
                     console.warn(`ファイル "${file.path}" の読み込み/解析ができませんでした`, e);
@@ -97,12 +60,84 @@ export class TaskParser {
             }));
             results.forEach(fileTasks => tasks.push(...fileTasks));
         }
+        await this.cache?.save();
 
         console.timeEnd("getObsidianTasks");
-        console.log(`Vault 内で ${tasks.length} 個のタスクが見つかりました。`);
+        console.log(`Vault 内で ${tasks.length} 個のタスクが見つかりました（解析 ${parsedFiles}/${mdFiles.length} ファイル）。`);
         return tasks;
     }
 
+    /**
+     * metadataCache がタスク無しと判断しているファイルは読まない。
+     * 変更直後はメタデータが古い可能性があるため、この結果はキャッシュしない。
+     */
+    private mayContainTasks(file: TFile): boolean {
+        const meta = this.app.metadataCache?.getFileCache(file);
+        if (!meta) return true;
+        return (meta.listItems || []).some(item => item.task !== undefined);
+    }
+
+    /**
+     * 1 ファイル分の本文からタスクを抽出します（フェンス内は除外、インデントされた継続行を結合）。
+     */
+    parseFileContent(content: string, filePath: string): ObsidianTask[] {
+        const lines = content.split('\n');
+        const fileTasks: ObsidianTask[] = [];
+        // フェンスドコードブロック (``` や ~~~) 内は同期対象外
+        let inFence = false;
+        let fenceChar: '`' | '~' | '' = '';
+        let fenceLen = 0;
+        const fenceOpenRe = /^\s*(`{3,}|~{3,})/;
+        lines.forEach((line, index) => {
+            const open = line.match(fenceOpenRe);
+            if (open) {
+                const marker = open[1];
+                const ch = marker[0] as '`' | '~';
+                const len = marker.length;
+                if (!inFence) { inFence = true; fenceChar = ch; fenceLen = len; return; }
+                if (inFence && fenceChar === ch && len >= fenceLen) { inFence = false; fenceChar = ''; fenceLen = 0; return; }
+            }
+
+            if (inFence) return; // コードブロック内は無視
+
+            // 継続行（連続するインデント行）を結合（時間帯/🔁/終日は結合、その他は自由記述として収集）
+            let combined = line;
+            let extraDetailFromNext: string | null = null;
+            const details: string[] = [];
+            const SUBTASK_RE = /^\s*-\s*\[.\]/; // ネストしたタスク
+            const CONTROL_RE = /(?:\d{1,2}:\d{2})\s*(?:-|–|—|~|〜|～|to)\s*(?:\d{1,2}:\d{2}|24:00)|🔁|(?:終日|全日|all[-\s]?day)/iu;
+            let k = index + 1;
+            while (k < lines.length && /^\s+/.test(lines[k])) {
+                const raw = lines[k];
+                const trimmed = raw.trim();
+                if (trimmed.length === 0) { k++; continue; }
+                if (SUBTASK_RE.test(trimmed)) break; // サブタスク開始で親の連結は終わり
+                if (CONTROL_RE.test(trimmed)) {
+                    combined = `${combined} ${trimmed}`;
+                } else {
+                    details.push(trimmed);
+                }
+                k++;
+            }
+            if (details.length > 0) extraDetailFromNext = details.join('\n');
+
+            const task = this.parseObsidianTask(combined, filePath, index);
+            if (task) {
+                if (extraDetailFromNext && !task.extraDetail) task.extraDetail = extraDetailFromNext;
+                // インデント側の #tag を反映
+                if (extraDetailFromNext) {
+                    const extraTags = extraDetailFromNext.match(/#[^\s#]+/g) || [];
+                    if (extraTags.length) {
+                        const merged = new Set([...(task.tags || []), ...extraTags.map(t => t.slice(1))]);
+                        task.tags = Array.from(merged);
+                    }
+                }
+                fileTasks.push(task);
+            }
+        });
+        return fileTasks;
+    }
+
     /**
      * Markdown の1行を解析して ObsidianTask オブジェクトに変換します。
      * @param {string} line 解析する行のテキスト
@@ -115,13 +150,11 @@ export class TaskParser {
         const match = line.match(taskRegex);
         if (!match) return null;
 
-        const checkbox = match[1].trim();
+        const checkbox = match[1];
         let taskContent = match[2].trim();
-        const isCompleted = /^(x|X|✓)$/.test(checkbox);
+        // 既定の定義で解釈する（設定の定義は同期時に TaskStatuses.apply で振り直す）
+        const statusType = TaskStatuses.definition(checkbox).type;
 
-        // FIX: ISO拡張の余計な空白を除去し、秒・小数秒・タイムゾーンを正しくオプショナルに
-        // 拡張: 'YYYY-MM-DD HH:mm' 形式も許容（T または空白区切り）
-        const isoOrSimpleDateRegex = `\\d{4}-\\d{2}-\\d{2}(?:[T\\s]\\d{2}:\\d{2}(?::\\d{2}(?:\\.\\d+)?)?(?:Z|[+-]\\d{2}:\\d{2})?)?`;
         const simpleDateRegexOnly = `\\d{4}-\\d{2}-\\d{2}`;
 
         // メタデータの抽出（最後の出現を採用）
@@ -150,33 +183,28 @@ export class TaskParser {
         let completionDate: string | null = null;
         let priority: ObsidianTask['priority'] = null;
         let recurrenceRuleText: string | null = null;
+        let recurrenceWhenDone = false;
         let timeWindowStart: string | null = null;
         let timeWindowEnd: string | null = null;
         let blockLink: string | null = null;
 
-        // 日付を抽出（Unicode フラグを追加して絵文字を正しく処理）
-        ({ value: dueDate, remainingContent } = extractLast(remainingContent, new RegExp(`(?:📅|due:)\\s*(${isoOrSimpleDateRegex})`, 'u')));
-        ({ value: startDate, remainingContent } = extractLast(remainingContent, new RegExp(`(?:🛫|start:)\\s*(${isoOrSimpleDateRegex})`, 'u')));
-        ({ value: scheduledDate, remainingContent } = extractLast(remainingContent, new RegExp(`(?:⏳|scheduled:)\\s*(${isoOrSimpleDateRegex})`, 'u')));
-        ({ value: createdDate, remainingContent } = extractLast(remainingContent, new RegExp(`(?:➕|created:)\\s*(${simpleDateRegexOnly})`, 'u')));
-        ({ value: completionDate, remainingContent } = extractLast(remainingContent, new RegExp(`(?:✅|done:)\\s*(${simpleDateRegexOnly})`, 'u')));
-
-        // 優先度を抽出（Unicode フラグを追加）
-        const priorityMatch = remainingContent.match(/(?:🔺|⏫|🔼|🔽|⏬)/u);
-        const priorityEmoji = priorityMatch ? priorityMatch[0] : null;
-        if (priorityEmoji) {
-            switch (priorityEmoji) {
-                case '🔺': priority = 'highest'; break;
-                case '⏫': priority = 'high'; break;
-                case '🔼': priority = 'medium'; break;
-                case '🔽': priority = 'low'; break;
-                case '⏬': priority = 'lowest'; break;
-            }
-            remainingContent = remainingContent.replace(priorityEmoji, '').trim();
-        }
+        // 日付・優先度を抽出（絵文字 / key: / Dataview の [key:: value] のどれでも同じ項目になる）
+        ({ value: dueDate, remainingContent } = TaskMetadata.extract(remainingContent, 'due'));
+        ({ value: startDate, remainingContent } = TaskMetadata.extract(remainingContent, 'start'));
+        ({ value: scheduledDate, remainingContent } = TaskMetadata.extract(remainingContent, 'scheduled'));
+        ({ value: createdDate, remainingContent } = TaskMetadata.extract(remainingContent, 'created'));
+        ({ value: completionDate, remainingContent } = TaskMetadata.extract(remainingContent, 'done'));
+        const priorityField = TaskMetadata.extract(remainingContent, 'priority');
+        priority = priorityField.value as ObsidianTask['priority'];
+        remainingContent = priorityField.remainingContent;
+
+        // 繰り返しから除く日（skip: 2026-11-03, 2026-11-10）。🔁 の本文に含めないよう先に取り出す
+        let skipText: string | null = null;
+        ({ value: skipText, remainingContent } = extractLast(remainingContent, new RegExp(`skip:\\s*(${simpleDateRegexOnly}(?:\\s*,\\s*${simpleDateRegexOnly})*)`, 'u')));
+        const skipDates = skipText ? Array.from(new Set(skipText.split(/\s*,\s*/))).sort() : [];
 
         // 繰り返しルールを抽出
-        ({ value: recurrenceRuleText, remainingContent } = extractLast(remainingContent, /(?:🔁|repeat:|recur:)\s*([^📅🛫⏳➕✅🔺⏫🔼🔽⏬⏰#^]+)/ug));
+        ({ value: recurrenceRuleText, remainingContent } = TaskMetadata.extract(remainingContent, 'recurrence'));
         // 🔁 拡張: "hh:mm~hh:mm" を抽出（例: "every day 15:00~24:00" または "15:00~24:00"）
         if (recurrenceRuleText) {
             const m = recurrenceRuleText.match(/(\d{1,2}:\d{2})\s*(?:-|–|—|~|〜|～|to)\s*(\d{1,2}:\d{2}|24:00)/iu);
@@ -187,6 +215,11 @@ export class TaskParser {
                 if (recurrenceRuleText.length === 0) recurrenceRuleText = null;
             }
         }
+        // Tasks プラグインの "when done"（次の回を完了日から数える）
+        if (recurrenceRuleText && /\bwhen\s+done\s*$/i.test(recurrenceRuleText)) {
+            recurrenceWhenDone = true;
+            recurrenceRuleText = recurrenceRuleText.replace(/\s*\bwhen\s+done\s*$/i, '').trim() || null;
+        }
 
         // 独立した時間帯記法（⏰ 任意）を抽出（未設定時のみ）
         if (!timeWindowStart || !timeWindowEnd) {
@@ -229,6 +262,8 @@ export class TaskParser {
         // サマリー: 残った内容を整理（「終日/全日/all day」を強制除去）
         let summary = remainingContent;
         summary = summary.replace(/(?:終日|全日|all[-\s]?day)/gi, ' ');
+        // 同期で扱わない Dataview のインラインフィールド（[project:: …] など）も件名に含めない
+        summary = summary.replace(/\[[\w-]+::[^\]]*\]/g, ' ');
         summary = summary.replace(/\s{2,}/g, ' ').trim();
 
         // extraDetail: 直前の継続行結合で summary から取り除かれた自由記述は、現状ではパース時点で取得できないため null（将来: 呼出側で行配列を渡すと良い）
@@ -245,17 +280,16 @@ export class TaskParser {
         const recurrenceRefDate = startDate ? startDate : (dueDate || scheduledDate);
         const recurrenceRule = recurrenceRuleText ? this.parseRecurrenceRule(recurrenceRuleText, recurrenceRefDate) : null;
 
-        // タスクID生成（ブロックリンク優先 + 安定ハッシュ）
-        const idBasis = blockLink
-            ? `${filePath}:${blockLink}`
-            : `${filePath}:${(summary || '')}:${startDate ?? ''}:${dueDate ?? ''}:${timeWindowStart ?? ''}-${timeWindowEnd ?? ''}`;
-        const taskId = `obsidian-${this.generateId(idBasis)}`;
+        const taskId = this.buildTaskId(filePath, { summary, startDate, dueDate, timeWindowStart, timeWindowEnd, blockLink });
 
         return {
             id: taskId,
             rawText: line,
             summary: summary || "無題のタスク",
-            isCompleted: isCompleted,
+            isCompleted: statusType === 'done',
+            isCancelled: statusType === 'cancelled',
+            status: checkbox,
+            statusType,
             dueDate: dueDate,
             startDate: startDate,
             scheduledDate: scheduledDate,
@@ -263,6 +297,8 @@ export class TaskParser {
             completionDate: completionDate,
             priority: priority,
             recurrenceRule: recurrenceRule,
+            recurrenceWhenDone: recurrenceRule ? recurrenceWhenDone : undefined,
+            skipDates: recurrenceRule && skipDates.length > 0 ? skipDates : undefined,
             timeWindowStart,
             timeWindowEnd,
             extraDetail,
@@ -273,10 +309,24 @@ export class TaskParser {
         };
     }
 
+    /**
+     * タスクIDを生成します（ブロックリンク優先 + 安定ハッシュ）。
+     * 書き戻しで日時が変わったタスクの再キー付けにも使用します。
+     */
+    buildTaskId(
+        filePath: string,
+        fields: Pick<ObsidianTask, 'summary' | 'startDate' | 'dueDate' | 'timeWindowStart' | 'timeWindowEnd' | 'blockLink'>
+    ): string {
+        const idBasis = fields.blockLink
+            ? `${filePath}:${fields.blockLink}`
+            : `${filePath}:${(fields.summary || '')}:${fields.startDate ?? ''}:${fields.dueDate ?? ''}:${fields.timeWindowStart ?? ''}-${fields.timeWindowEnd ?? ''}`;
+        return `obsidian-${this.generateId(idBasis)}`;
+    }
+
     /**
      * 繰り返しルールのテキストを解析し、iCalendar RRULE 文字列に変換。
      * - 既存の RRULE 形式（"RRULE:..." または "FREQ=..."）を優先してパース
-     * - それが失敗した場合は簡易的な自然言語（every day/week/month/year 等）でパース
+     * - それが失敗した場合は自然言語（英語・日本語）を RecurrenceGrammar でパース
      */
     parseRecurrenceRule(ruleText: string, dtstartHint: string | null): string | null {
         ruleText = ruleText.trim(); // 元のケースを保持
@@ -332,7 +382,6 @@ export class TaskParser {
         }
 
         // --- 自然言語パース (フォールバック) ---
-        ruleText = ruleText.toLowerCase();
         let dtstartDate: Date;
         if (dtstartHint) {
             // FIX: moment.utc() を moment() に変更。
@@ -344,106 +393,16 @@ export class TaskParser {
             dtstartDate = moment().startOf('day').toDate(); // Local Today
         }
 
-        let options: Partial<RRuleOptions> = { dtstart: dtstartDate };
-        let freq: Frequency | null = null;
-        let interval = 1;
-
-        const intMatch = ruleText.match(/every\s+(\d+)\s+(day|week|month|year)s?/);
-        if (intMatch) {
-            interval = parseInt(intMatch[1], 10);
-            const unit = intMatch[2];
-            if (unit === 'day') freq = Frequency.DAILY;
-            else if (unit === 'week') freq = Frequency.WEEKLY;
-            else if (unit === 'month') freq = Frequency.MONTHLY;
-            else if (unit === 'year') freq = Frequency.YEARLY;
-        } else {
-            const simpleIntMatch = ruleText.match(/every\s+(day|week|month|year)s?/);
-            if (simpleIntMatch) {
-                interval = 1;
-                const unit = simpleIntMatch[1];
-                if (unit === 'day') freq = Frequency.DAILY;
-                else if (unit === 'week') freq = Frequency.WEEKLY;
-                else if (unit === 'month') freq = Frequency.MONTHLY;
-                else if (unit === 'year') freq = Frequency.YEARLY;
-            } else {
-                if (ruleText.includes('daily')) freq = Frequency.DAILY;
-                else if (ruleText.includes('weekly')) freq = Frequency.WEEKLY;
-                else if (ruleText.includes('monthly')) freq = Frequency.MONTHLY;
-                else if (ruleText.includes('yearly') || ruleText.includes('annually')) freq = Frequency.YEARLY;
-
-                const altIntMatch = ruleText.match(/every\s*(\d+)\s*weeks?/);
-                if (altIntMatch && freq === Frequency.WEEKLY) {
-                    interval = parseInt(altIntMatch[1], 10);
-                }
-            }
-        }
-
-        // 修飾子 (簡単なもののみ)
-        if (freq === Frequency.MONTHLY) {
-            const dMatch = ruleText.match(/on the\s+(\d+)(?:st|nd|rd|th)?/);
-            if (dMatch) {
-                const day = parseInt(dMatch[1], 10);
-                if (day >= 1 && day <= 31) options.bymonthday = [day];
-            }
-        }
-        if (freq === Frequency.WEEKLY) {
-            const wdMap: { [k: string]: Weekday } = { mon: RRule.MO, tue: RRule.TU, wed: RRule.WE, thu: RRule.TH, fri: RRule.FR, sat: RRule.SA, sun: RRule.SU };
-            const wds: Weekday[] = [];
-            if (ruleText.includes('weekday')) wds.push(RRule.MO, RRule.TU, RRule.WE, RRule.TH, RRule.FR);
-            else if (ruleText.includes('weekend')) wds.push(RRule.SA, RRule.SU);
-            else {
-                Object.keys(wdMap).forEach(dayKey => {
-                    if (ruleText.includes(dayKey)) {
-                        const rDay = wdMap[dayKey];
-                        if (!wds.some(ex => ex.weekday === rDay.weekday)) {
-                            wds.push(rDay);
-                        }
-                    }
-                });
-            }
-            if (wds.length > 0) options.byweekday = wds;
-        }
-
-        // 追加: count/until の簡易対応
-        const countM = ruleText.match(/\bfor\s+(\d+)\s+(?:times|occurrences?)\b/);
-        if (countM) options.count = parseInt(countM[1], 10);
-        const untilM = ruleText.match(/\buntil\s+(\d{4}-\d{2}-\d{2})\b/);
-        if (untilM) options.until = moment(untilM[1], 'YYYY-MM-DD', true).endOf('day').toDate();
-
-        if (freq !== null) {
-            options.freq = freq;
-            options.interval = interval > 0 ? interval : 1;
-            try {
-                // RRuleOptions を安全に構成（null を入れない）
-                const finalOptions: RRuleOptions = {
-                    freq: options.freq!,
-                    dtstart: options.dtstart || new Date(),
-                    interval: options.interval!,
-                } as RRuleOptions;
-
-                if (options.wkst !== undefined) (finalOptions as any).wkst = options.wkst;
-                if (options.count !== undefined) finalOptions.count = options.count;
-                if (options.until !== undefined) finalOptions.until = options.until;
-                if ((options as any).tzid !== undefined) (finalOptions as any).tzid = (options as any).tzid;
-                if (options.bysetpos !== undefined) finalOptions.bysetpos = options.bysetpos;
-                if (options.bymonth !== undefined) finalOptions.bymonth = options.bymonth;
-                if (options.bymonthday !== undefined) finalOptions.bymonthday = options.bymonthday;
-                if (options.byyearday !== undefined) finalOptions.byyearday = options.byyearday;
-                if (options.byweekno !== undefined) finalOptions.byweekno = options.byweekno;
-                if (options.byweekday !== undefined) finalOptions.byweekday = options.byweekday as any;
-                if (options.byhour !== undefined) finalOptions.byhour = options.byhour;
-                if (options.byminute !== undefined) finalOptions.byminute = options.byminute;
-                if (options.bysecond !== undefined) finalOptions.bysecond = options.bysecond;
-                if ((options as any).byeaster !== undefined) (finalOptions as any).byeaster = (options as any).byeaster;
-
-                const rule = new RRule(finalOptions);
-                finalRruleString = rule.toString();
-            } catch (e) {
-                console.warn(`解析されたオプションからの RRULE 生成に失敗:`, options, e);
-                finalRruleString = null;
-            }
-        } else {
+        const parsed = RecurrenceGrammar.parse(ruleText);
+        if (!parsed) {
             console.warn(`ルールテキストから頻度を決定できませんでした: "${ruleText}"`);
+            return null;
+        }
+        parsed.warnings.forEach(w => console.warn(`繰り返し "${ruleText}": ${w}`));
+        try {
+            finalRruleString = new RRule({ ...parsed.options, dtstart: dtstartDate } as RRuleOptions).toString();
+        } catch (e) {
+            console.warn(`解析されたオプションからの RRULE 生成に失敗:`, parsed.options, e);
             finalRruleString = null;
         }
         return finalRruleString;
@@ -471,7 +430,7 @@ export function parseTasksFromMarkdown(markdown: string): ObsidianTask[] {
         let combined = line;
         let extraDetailFromNext: string | null = null;
         const details: string[] = [];
-        const SUBTASK_RE = /^\s*-\s*\[[ xX]\]/; // ネストしたタスク
+        const SUBTASK_RE = /^\s*-\s*\[.\]/; // ネストしたタスク
         const CONTROL_RE = /(?:\d{1,2}:\d{2})\s*(?:-|–|—|~|〜|～|to)\s*(?:\d{1,2}:\d{2}|24:00)|🔁|(?:終日|全日|all[-\s]?day)/iu;
         let k = idx + 1;
         while (k < lines.length && /^\s+/.test(lines[k])) {
@@ -0,0 +1,132 @@
+import moment from 'moment';
+import { Options as RRuleOptions, RRule, RRuleSet, rrulestr } from 'rrule';
+import { ObsidianTask } from './types';
+import { TaskWriter } from './taskWriter';
+import { TaskParser } from './taskParser';
+
+/** 完了した繰り返しタスクの次の回の日付 */
+export interface NextOccurrence {
+    startDate: string | null;
+    dueDate: string | null;
+    scheduledDate: string | null;
+    remaining: number | null; // 回数指定の残り（回数指定が無ければ null）
+}
+
+// 回数指定の表記（自然言語 / RRULE）
+const COUNT_TEXT_RE = /(\bfor\s+)(\d+)(\s+(?:times|occurrences?)\b)/i;
+const COUNT_RULE_RE = /(COUNT=)(\d+)/i;
+// 日本語の「10回」は件名と紛れないよう 🔁 の本文の中だけで書き換える
+const RECURRENCE_TEXT_RE = /((?:🔁|repeat:|recur:)[^📅🛫⏳➕✅🔺⏫🔼🔽⏬⏰#^]*)/u;
+const COUNT_JA_RE = /(\d+)(\s*回)/;
+
+/**
+ * 完了した繰り返しタスクから次の回を作ります（Tasks プラグインと同じく、完了した行は履歴として残す）。
+ * 日付は UTC の 0 時として扱い、規則の曜日・日付をそのまま当てはめる。
+ */
+export class TaskRecurrence {
+    /**
+     * 次の回の日付を求めます。
+     * 📅 の翌日以降（when done は完了日の翌日以降）で規則に合う最初の日を新しい 🛫 とし、
+     * 📅・⏳ も同じ日数だけずらす（時刻はそのまま）。回数・終了日を使い切っていれば null。
+     */
+    static nextOccurrence(task: ObsidianTask, doneDate: string): NextOccurrence | null {
+        const start = task.startDate ?? task.dueDate;
+        if (!task.recurrenceRule || !start) return null;
+        const rule = TaskRecurrence.ruleOf(task.recurrenceRule);
+        if (!rule) return null;
+
+        const opts: Partial<RRuleOptions> = { ...rule.origOptions };
+        // 終了日はローカルの日付として読み直す（parseRecurrenceRule はローカルの日の終わりを UTC で持つ）
+        if (opts.until) opts.until = TaskRecurrence.day(moment(opts.until).format('YYYY-MM-DD')).endOf('day').toDate();
+        const count = opts.count ?? null;
+
+        let next: Date | null;
+        let remaining: number | null = null;
+        if (task.recurrenceWhenDone) {
+            // 完了日から数え直す（回数は完了した 1 回分を減らす）
+            if (count !== null && count <= 1) return null;
+            delete opts.count;
+            const from = TaskRecurrence.day(doneDate).toDate();
+            next = new RRule({ ...opts, dtstart: from } as RRuleOptions).after(from, false);
+            if (count !== null) remaining = count - 1;
+        } else {
+            const dtstart = TaskRecurrence.day(start).toDate();
+            const anchored = new RRule({ ...opts, dtstart } as RRuleOptions);
+            next = anchored.after(TaskRecurrence.day(task.dueDate ?? start).endOf('day').toDate(), false);
+            // 次の回より前に消化した回を差し引く
+            if (next && count !== null) remaining = count - (anchored.between(dtstart, next, true).length - 1);
+        }
+        if (!next) return null;
+
+        const days = moment.utc(next).startOf('day').diff(TaskRecurrence.day(start), 'days');
+        return {
+            startDate: TaskRecurrence.shift(task.startDate, days),
+            dueDate: TaskRecurrence.shift(task.dueDate, days),
+            scheduledDate: TaskRecurrence.shift(task.scheduledDate, days),
+            remaining,
+        };
+    }
+
+    /**
+     * 次の回のブロック（タスク行と継続行）を作ります。
+     * 未完了に戻して完了日とブロックリンクを外し、日付と回数を差し替える。元に無い日付トークンは足さない。
+     */
+    static nextInstanceBlock(block: string[], next: NextOccurrence): string[] {
+        let out = [TaskWriter.removeBlockLink(TaskWriter.markIncomplete(block[0])), ...block.slice(1)];
+        if (next.startDate) out = TaskWriter.setDateToken(out, 'start', next.startDate, false);
+        if (next.dueDate) out = TaskWriter.setDateToken(out, 'due', next.dueDate, false);
+        if (next.scheduledDate) out = TaskWriter.setDateToken(out, 'scheduled', next.scheduledDate, false);
+        if (next.remaining !== null) {
+            const n = String(next.remaining);
+            out = out.map(line => line
+                .replace(COUNT_TEXT_RE, `$1${n}$3`)
+                .replace(COUNT_RULE_RE, `$1${n}`)
+                .replace(RECURRENCE_TEXT_RE, text => text.replace(COUNT_JA_RE, `${n}$2`)));
+        }
+        return out;
+    }
+
+    /**
+     * 次の回のタスク（ID は呼び出し側で振り直す）。
+     * 繰り返しルールは書き込む行を解析し直して作る（DTSTART が次の回の開始日になり、次の同期で読み直した値と一致する）。
+     */
+    static nextTask(task: ObsidianTask, next: NextOccurrence, parser: TaskParser): ObsidianTask {
+        const rawText = TaskRecurrence.nextInstanceBlock([task.rawText], next)[0];
+        const rule = parser.parseObsidianTask(rawText, task.sourcePath, task.sourceLine)?.recurrenceRule ?? task.recurrenceRule;
+        return {
+            ...task,
+            rawText,
+            isCompleted: false,
+            status: ' ',
+            statusType: 'todo',
+            completionDate: null,
+            startDate: next.startDate,
+            dueDate: next.dueDate,
+            scheduledDate: next.scheduledDate,
+            recurrenceRule: rule,
+            blockLink: null,
+        };
+    }
+
+    private static ruleOf(text: string): RRule | null {
+        try {
+            // RRuleSet は RRule の派生なので先に判定する
+            const parsed = rrulestr(text, { forceset: true });
+            if (parsed instanceof RRuleSet) return parsed.rrules()[0] ?? null;
+            return parsed instanceof RRule ? parsed : null;
+        } catch (e) {
+            console.warn(`繰り返しルールを解釈できません: "${text}"`, e);
+            return null;
+        }
+    }
+
+    // 日付部分（YYYY-MM-DD）を UTC の 0 時として
+    private static day(value: string): moment.Moment {
+        return moment.utc(value.slice(0, 10), 'YYYY-MM-DD', true);
+    }
+
+    private static shift(value: string | null, days: number): string | null {
+        if (!value) return value;
+        return `${TaskRecurrence.day(value).add(days, 'days').format('YYYY-MM-DD')}${value.slice(10)}`;
+    }
+}
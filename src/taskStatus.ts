@@ -0,0 +1,70 @@
+import { ObsidianTask, TaskStatusDefinition, TaskStatusType } from './types';
+
+/** 既定の状態（Tasks プラグインの既定 + よく使われる拡張記号） */
+export const DEFAULT_TASK_STATUSES: TaskStatusDefinition[] = [
+    { symbol: ' ', name: '未着手', type: 'todo' },
+    { symbol: 'x', name: '完了', type: 'done' },
+    { symbol: 'X', name: '完了', type: 'done' },
+    { symbol: '✓', name: '完了', type: 'done' },
+    { symbol: '/', name: '進行中', type: 'in_progress', summaryPrefix: '🚧 ' },
+    { symbol: '-', name: 'キャンセル', type: 'cancelled', summaryPrefix: '❌ ' },
+    { symbol: '>', name: '延期', type: 'deferred' },
+];
+
+const TYPES: TaskStatusType[] = ['todo', 'in_progress', 'done', 'cancelled', 'deferred'];
+const TODO: TaskStatusDefinition = DEFAULT_TASK_STATUSES[0];
+const DONE: TaskStatusDefinition = DEFAULT_TASK_STATUSES[1];
+
+/**
+ * チェックボックス記号を状態の定義で解釈します。
+ * 設定の定義は既定の定義に記号単位で上書きし、どちらにも無い記号は未着手として扱う。
+ */
+export class TaskStatuses {
+    /** 設定の定義を既定に重ねた一覧（記号が 1 文字でない・種別が不明なものは捨てる） */
+    static merge(custom: TaskStatusDefinition[] = []): TaskStatusDefinition[] {
+        const bySymbol = new Map(DEFAULT_TASK_STATUSES.map(d => [d.symbol, d] as const));
+        for (const def of custom) {
+            if (!def || Array.from(def.symbol || '').length !== 1 || !TYPES.includes(def.type)) continue;
+            bySymbol.set(def.symbol, def);
+        }
+        return Array.from(bySymbol.values());
+    }
+
+    static definition(symbol: string | undefined, custom?: TaskStatusDefinition[]): TaskStatusDefinition {
+        const s = symbol === undefined || symbol === '' ? ' ' : symbol;
+        return TaskStatuses.merge(custom).find(d => d.symbol === s) ?? TODO;
+    }
+
+    /**
+     * タスクの現在の状態。
+     * 同期中に完了/未完了だけが書き換わった（Google からの取り込み・次の回の生成）場合は、記号より完了フラグを優先する。
+     */
+    static of(task: ObsidianTask, custom?: TaskStatusDefinition[]): TaskStatusDefinition {
+        const def = TaskStatuses.definition(task.status, custom);
+        if (task.isCompleted && def.type !== 'done') return DONE;
+        if (!task.isCompleted && def.type === 'done') return TODO;
+        return def;
+    }
+
+    /** 設定の定義で完了/キャンセルのフラグと種別を振り直します（解析キャッシュは既定の定義で作られるため） */
+    static apply(tasks: ObsidianTask[], custom?: TaskStatusDefinition[]): ObsidianTask[] {
+        const defs = TaskStatuses.merge(custom);
+        for (const task of tasks) {
+            const s = task.status === undefined || task.status === '' ? ' ' : task.status;
+            const type = (defs.find(d => d.symbol === s) ?? TODO).type;
+            task.statusType = type;
+            task.isCompleted = type === 'done';
+            task.isCancelled = type === 'cancelled';
+        }
+        return tasks;
+    }
+
+    /** タイトルから状態の前置きを取り除きます（Google で編集されたタイトルを書き戻すとき用） */
+    static stripPrefix(title: string, custom?: TaskStatusDefinition[]): string {
+        const prefix = TaskStatuses.merge(custom)
+            .map(d => (d.summaryPrefix || '').trim())
+            .filter(p => p && title.startsWith(p))
+            .sort((a, b) => b.length - a.length)[0];
+        return prefix ? title.slice(prefix.length).trim() : title;
+    }
+}
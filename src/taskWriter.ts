@@ -0,0 +1,255 @@
+import { App, TFile } from 'obsidian';
+import { ObsidianTask } from './types';
+import { MetadataField, TaskMetadata } from './taskMetadata';
+
+/**
+ * タスク行への書き戻し要求。
+ * block[0] がタスク行、以降はパーサが結合対象とするインデント継続行。
+ * apply が空配列を返した場合はブロックごと削除する。
+ */
+export interface TaskLineEdit {
+    task: ObsidianTask;
+    reason: string; // ログ/プレビュー用の説明
+    apply: (block: string[]) => string[];
+}
+
+const TASK_LINE_RE = /^(\s*-\s*\[)(.)(\])/;
+const SUBTASK_RE = /^\s*-\s*\[.\]/;
+const TRAILING_BLOCK_LINK_RE = /\s+(\^[a-zA-Z0-9-]+)\s*$/;
+// TaskParser と同じ日付/時間帯の表記（直後が時間帯の開始時刻なら日付側に含めない）
+const DATE_VALUE_SRC = '\\d{4}-\\d{2}-\\d{2}(?:[T\\s]\\d{2}:\\d{2}(?::\\d{2}(?:\\.\\d+)?)?(?:Z|[+-]\\d{2}:\\d{2})?(?!\\s*(?:-|–|—|~|〜|～|to)\\s*\\d))?';
+const SKIP_RE = /skip:\s*\d{4}-\d{2}-\d{2}(?:\s*,\s*\d{4}-\d{2}-\d{2})*/u;
+const TIME_WINDOW_RE = /(⏰\s*)?(\d{1,2}:\d{2})(\s*(?:-|–|—|~|〜|～|to)\s*)(\d{1,2}:\d{2}|24:00)/iu;
+
+/** 書き戻しで値を差し替える日付の項目 */
+export type DateField = Extract<MetadataField, 'start' | 'due' | 'scheduled' | 'done'>;
+
+export class TaskWriter {
+    private app: App;
+
+    constructor(app: App) {
+        this.app = app;
+    }
+
+    /**
+     * 書き戻し要求をファイル単位にまとめて適用します。
+     * 行番号がずれている場合は rawText で行を再探索し、見つからなければスキップします。
+     * @returns 適用できた要求（ファイルへの保存まで済んだもの）
+     */
+    async applyEdits(edits: TaskLineEdit[]): Promise<TaskLineEdit[]> {
+        const byPath = new Map<string, TaskLineEdit[]>();
+        for (const e of edits) {
+            const arr = byPath.get(e.task.sourcePath) || [];
+            arr.push(e);
+            byPath.set(e.task.sourcePath, arr);
+        }
+
+        const applied: TaskLineEdit[] = [];
+        for (const [path, fileEdits] of byPath) {
+            const file = this.app.vault.getAbstractFileByPath(path);
+            if (!(file instanceof TFile)) {
+                console.warn(`書き戻し対象ファイルが見つかりません: ${path}`);
+                continue;
+            }
+            try {
+                let written: TaskLineEdit[] = [];
+                await this.app.vault.process(file, (content) => {
+                    const result = TaskWriter.applyEditsToContent(content, fileEdits);
+                    written = result.written;
+                    return result.content;
+                });
+                applied.push(...written);
+            } catch (e) {
+                console.error(`ファイル "${path}" への書き戻しに失敗しました`, e);
+            }
+        }
+        if (applied.length > 0) console.log(`${applied.length} 件のタスク行を書き戻しました。`);
+        return applied;
+    }
+
+    /**
+     * 1ファイル分の本文に書き戻しを適用します（同一タスクへの複数要求は順に合成）。
+     * 行の挿入/削除で位置がずれないよう、下の行から処理します。
+     */
+    static applyEditsToContent(content: string, edits: TaskLineEdit[]): { content: string; applied: number; written: TaskLineEdit[] } {
+        const eol = content.includes('\r\n') ? '\r\n' : '\n';
+        const lines = content.split(/\r?\n/);
+        const byLine = new Map<number, TaskLineEdit[]>();
+        for (const e of edits) {
+            const idx = TaskWriter.locateTaskLine(lines, e.task);
+            if (idx < 0) {
+                console.warn(`書き戻し対象の行が見つかりません (${e.reason}): ${e.task.sourcePath}:${e.task.sourceLine + 1}`);
+                continue;
+            }
+            const arr = byLine.get(idx) || [];
+            arr.push(e);
+            byLine.set(idx, arr);
+        }
+
+        const written: TaskLineEdit[] = [];
+        const order = Array.from(byLine.keys()).sort((a, b) => b - a);
+        for (const idx of order) {
+            const len = TaskWriter.blockLength(lines, idx);
+            let block = lines.slice(idx, idx + len);
+            for (const e of byLine.get(idx)!) {
+                if (block.length === 0) break; // 先行要求で削除済み
+                block = e.apply(block);
+                written.push(e);
+            }
+            lines.splice(idx, len, ...block);
+        }
+        return { content: lines.join(eol), applied: written.length, written };
+    }
+
+    /** タスクの現在の行位置を返します（見つからなければ -1） */
+    static locateTaskLine(lines: string[], task: ObsidianTask): number {
+        const matches = (line: string | undefined) => {
+            if (line === undefined || !TASK_LINE_RE.test(line)) return false;
+            // rawText は継続行を空白区切りで結合したもの（先頭はタスク行そのもの）
+            return task.rawText === line || task.rawText.startsWith(`${line} `);
+        };
+        if (matches(lines[task.sourceLine])) return task.sourceLine;
+        // 近い行から探索（同じ内容の行が複数ある場合の取り違えを減らす）
+        for (let d = 1; d < lines.length; d++) {
+            if (matches(lines[task.sourceLine - d])) return task.sourceLine - d;
+            if (matches(lines[task.sourceLine + d])) return task.sourceLine + d;
+        }
+        return -1;
+    }
+
+    // TaskParser の継続行結合と同じ規則でブロック長を求める
+    private static blockLength(lines: string[], idx: number): number {
+        let k = idx + 1;
+        while (k < lines.length && /^\s+/.test(lines[k])) {
+            if (SUBTASK_RE.test(lines[k].trim())) break;
+            k++;
+        }
+        // 末尾の空白のみの行は含めない
+        while (k - 1 > idx && lines[k - 1].trim().length === 0) k--;
+        return k - idx;
+    }
+
+    /** 行末のブロックリンク (^id) の手前にトークンを追加します */
+    static appendToken(line: string, token: string): string {
+        const m = line.match(TRAILING_BLOCK_LINK_RE);
+        if (m) {
+            const head = line.slice(0, m.index).replace(/\s+$/, '');
+            return `${head} ${token} ${m[1]}`;
+        }
+        return `${line.replace(/\s+$/, '')} ${token}`;
+    }
+
+    /** チェックボックスを未完了に戻し、完了日を取り除きます */
+    static markIncomplete(line: string): string {
+        const out = line.replace(TASK_LINE_RE, '$1 $3');
+        const done = TaskMetadata.findLast(out, 'done');
+        if (!done) return out;
+        return `${out.slice(0, done.index).replace(/\s+$/, '')}${out.slice(done.index + done.length)}`;
+    }
+
+    /** チェックボックスをキャンセル (- [-]) にします */
+    static markCancelled(line: string): string {
+        return line.replace(TASK_LINE_RE, '$1-$3');
+    }
+
+    /** チェックボックスを完了にし、完了日を付与します（既存の完了日は記法を保って置換） */
+    static markCompleted(line: string, doneDate: string): string {
+        return TaskWriter.setDateToken([line.replace(TASK_LINE_RE, '$1x$3')], 'done', doneDate)[0];
+    }
+
+    /** 行末のブロックリンク (^id) を取り除きます */
+    static removeBlockLink(line: string): string {
+        return line.replace(TRAILING_BLOCK_LINK_RE, '');
+    }
+
+    /**
+     * ブロックリンク (^id) を付けます。パーサはブロックリンクを結合後の末尾からしか読まないため、
+     * 時間帯などの継続行が結合されているタスクは、結合された最後の継続行の末尾に付ける。
+     */
+    static appendBlockLink(block: string[], rawText: string, blockId: string): string[] {
+        const out = block.slice();
+        let at = 0;
+        for (let i = out.length - 1; i > 0; i--) {
+            const trimmed = out[i].trim();
+            if (trimmed && rawText.endsWith(` ${trimmed}`)) { at = i; break; }
+        }
+        out[at] = `${out[at].replace(/\s+$/, '')} ^${blockId}`;
+        return out;
+    }
+
+    /**
+     * 日付トークンの値を置換します（パーサと同じくブロック内の最後の出現を対象）。
+     * 絵文字・`due:`・`[due:: …]` のどれで書かれていても、その記法のまま値だけを差し替える。
+     * 見つからなければ行で使われている記法でタスク行に追加します（append が false なら何もしない）。
+     */
+    static setDateToken(block: string[], field: DateField, value: string, append = true): string[] {
+        const out = block.slice();
+        for (let i = out.length - 1; i >= 0; i--) {
+            const m = TaskMetadata.findLast(out[i], field, DATE_VALUE_SRC);
+            if (!m) continue;
+            out[i] = TaskMetadata.replaceValue(out[i], m, field, value);
+            return out;
+        }
+        if (append) out[0] = TaskWriter.appendToken(out[0], TaskMetadata.format(out[0], field, value));
+        return out;
+    }
+
+    /** 繰り返しから除く日 (skip:) を書き換えます。無ければタスク行に追加します */
+    static setSkipDates(block: string[], dates: string[]): string[] {
+        const value = `skip: ${dates.join(', ')}`;
+        const out = block.slice();
+        for (let i = out.length - 1; i >= 0; i--) {
+            if (!SKIP_RE.test(out[i])) continue;
+            out[i] = out[i].replace(SKIP_RE, value);
+            return out;
+        }
+        out[0] = TaskWriter.appendToken(out[0], value);
+        return out;
+    }
+
+    /**
+     * 時間帯 (HH:mm~HH:mm) を置換します。区切り記号や ⏰ の有無は既存表記を保ちます。
+     * start が null の場合は時間帯を削除します。
+     */
+    static setTimeWindow(block: string[], start: string | null, end: string | null): string[] {
+        const out = block.slice();
+        for (let i = 0; i < out.length; i++) {
+            const m = out[i].match(TIME_WINDOW_RE);
+            if (!m) continue;
+            const at = m.index!;
+            const before = out[i].slice(0, at);
+            const after = out[i].slice(at + m[0].length);
+            if (start && end) {
+                out[i] = `${before}${m[1] || ''}${start}${m[3]}${end}${after}`;
+            } else if (before.trim().length === 0) {
+                // 継続行の先頭にある場合はインデントを保つ
+                out[i] = `${before}${after.replace(/^\s+/, '')}`;
+            } else {
+                out[i] = `${before.replace(/\s+$/, '')}${after.trim() ? ` ${after.replace(/^\s+/, '')}` : ''}`;
+            }
+            return out;
+        }
+        if (start && end) {
+            // 直前の日付トークンに時刻として吸収されないよう ⏰ を付ける
+            out[0] = TaskWriter.appendToken(out[0], `⏰ ${start}~${end}`);
+        }
+        return out;
+    }
+
+    /** タスク行の本文からサマリーをそのまま見つけられるか（タイトル書き戻しの可否） */
+    static canReplaceSummary(task: ObsidianTask): boolean {
+        const body = task.rawText.replace(TASK_LINE_RE, '');
+        return !!task.summary && body.includes(task.summary);
+    }
+
+    /** タスク行のサマリー部分を置換します（メタデータのトークンはそのまま） */
+    static replaceSummary(block: string[], oldSummary: string, newSummary: string): string[] {
+        const m = block[0].match(TASK_LINE_RE);
+        if (!m) return block;
+        const head = m[0];
+        const body = block[0].slice(head.length);
+        const at = body.indexOf(oldSummary);
+        if (at < 0) return block;
+        return [`${head}${body.slice(0, at)}${newSummary}${body.slice(at + oldSummary.length)}`, ...block.slice(1)];
+    }
+}
@@ -7,6 +7,9 @@ export interface ObsidianTask {
 	rawText: string; // Markdown ファイル内のタスクの元の行テキスト
 	summary: string; // タスクの主内容 (日付やタグなどを除いたもの)
 	isCompleted: boolean; // タスクが完了しているか
+	isCancelled?: boolean; // キャンセル済み (- [-]) か。同期対象外
+	status?: string; // チェックボックスの記号（' ', 'x', '/', '-' など）
+	statusType?: TaskStatusType; // 記号を状態の定義で解釈した種別
 	dueDate: string | null; // 期限日 (YYYY-MM-DD or ISO 8601) (📅 or due:)
 	startDate: string | null; // 開始日 (YYYY-MM-DD or ISO 8601) (🛫 or start:)
 	scheduledDate: string | null; // 予定日 (YYYY-MM-DD or ISO 8601) (⏳ or scheduled:)
@@ -14,6 +17,8 @@ export interface ObsidianTask {
 	completionDate: string | null; // 完了日 (YYYY-MM-DD) (✅ or done:)
 	priority: 'highest' | 'high' | 'medium' | 'low' | 'lowest' | null; // 優先度 (🔺⏫🔼🔽⏬)
 	recurrenceRule: string | null; // 繰り返しルール (iCalendar RRULE 文字列) (🔁 or repeat:/recur:)
+	recurrenceWhenDone?: boolean; // 🔁 ... when done: 次の回を完了日から数える
+	skipDates?: string[]; // 繰り返しから除く日 (YYYY-MM-DD, 昇順) (skip:)
 	// 🔁 拡張: 時間ウィンドウ (例: 15:00~24:00)
 	timeWindowStart?: string | null; // 'HH:mm'
 	timeWindowEnd?: string | null;   // 'HH:mm' または '24:00'
@@ -49,9 +54,46 @@ export interface GoogleCalendarTasksSyncSettings {
     obfuscationSalt?: string | null; // 難読化用のソルト（インストールごとにランダム）
     devLogging?: boolean; // デベロッパーモード（詳細ログ）
 	calendarId: string; // 同期対象の Google Calendar ID (通常 'primary' または特定のカレンダーID)
+	calendarBackend?: CalendarBackendKind; // 同期先のバックエンド（既定 'google'）
+	caldav?: CalDavSettings; // calendarBackend が 'caldav' のときの接続先
 	syncIntervalMinutes: number; // 自動同期の間隔 (分単位)
 	autoSync: boolean; // 自動同期を有効にするか
+	syncOnChange?: boolean; // タスク行の編集で、そのファイルのタスクだけを部分同期するか
+	syncOnChangeDelaySeconds?: number; // 最後の編集から部分同期までの待ち時間（秒）
 	taskMap: { [obsidianTaskId: string]: string }; // ObsidianタスクIDとGoogle CalendarイベントIDのマッピング
+	taskCalendars?: { [obsidianTaskId: string]: string }; // 既定以外のカレンダーにあるイベントの所属カレンダー（taskMap と対）
+	nativeRecurrence?: boolean; // 繰り返しタスクを発生ごとに展開せず、RRULE 付きの 1 件（マスター）として送るか
+	recurrenceExceptions?: { [masterGcalId: string]: string[] }; // ネイティブ繰り返しのマスターごとの例外インスタンスの ID（taskMap と対）
+	rollRecurringTasks?: boolean; // 完了した繰り返しタスクの次の回をノートに追記して同期するか
+	taskStatuses?: TaskStatusDefinition[]; // チェックボックス記号ごとの状態の定義（既定の定義に記号単位で上書き）
+	cancelledTaskAction?: CancelledTaskAction; // キャンセルされたタスクのイベントの扱い
+	calendarRoutes?: CalendarRoute[]; // タグ / フォルダでの送り先カレンダーの振り分け（上から順に評価）
+	googleTasksTag?: string; // このタグ（# なし）の付いたタスクは Google Tasks へ送る
+	googleTasksListId?: string; // タグで送るときのタスクリスト ID（'@default' は既定のリスト）
+	googleTaskMap?: { [obsidianTaskId: string]: GoogleTaskLink }; // Google Tasks 側の対応表（taskMap とは別）
+	icsExportPath?: string; // 同期のたびに書き出す .ics ファイルの Vault 内パス（空なら書き出さない）
+	icsIncludeTodos?: boolean; // 日付の無いタスクを VTODO として含めるか
+	icsServeFeed?: boolean; // ローカルサーバーの /calendar.ics で配信するか
+	icsFeedToken?: string; // 配信 URL に付けるトークン（一致しなければ 404）
+	syncIncludeRules?: string[]; // 同期するタスク（'#tag' またはパスのグロブのいずれかに一致）。空なら全タスク
+	syncExcludeRules?: string[]; // 同期しないタスク（対象ルールより優先）
+	useTasksGlobalFilter?: boolean; // Tasks プラグインのグローバルフィルタを含む行だけを同期するか
+	autoAssignBlockIds?: boolean; // ブロック ID の無い同期対象タスクに ^gcal-xxxxxx を付けて ID を固定するか
+	syncScope?: string[]; // このアカウントで同期するタスク（'#tag' またはパスのグロブのいずれかに一致）。空なら全タスク
+	accounts?: AccountProfile[]; // 追加の Google アカウント（メインの後に順に同期する）
+	syncCompletionFromGoogle?: boolean; // Google 側で完了にされたイベントを Obsidian のタスク行へ書き戻すか
+	pullTimeChangesFromGoogle?: boolean; // Google 側で移動された日時を 🛫/📅/時間帯へ書き戻すか
+	pullTitleFromGoogle?: boolean; // Google 側で変更されたタイトルをタスク本文へ書き戻すか
+	mergePolicies?: MergePolicies; // 両側で同時に変更されたフィールドの解決方針
+	syncBase?: { [obsidianTaskId: string]: SyncBaseEntry }; // 前回同期時点の値（三方向マージのベース）
+	deferMultiFieldConflicts?: boolean; // 複数フィールドが同時に競合した場合は自動解決せず競合キューへ送るか
+	remoteDeletionPolicy?: RemoteDeletionPolicy; // Google 側で管理対象イベントが削除された場合の扱い
+	importOnSync?: boolean; // 同期のたびに管理外の Google イベントをインボックスノートへ取り込むか
+	importCalendarId?: string; // 取り込み元のカレンダー ID（空なら同期対象カレンダー）
+	importInboxPath?: string; // 取り込んだイベントを追記するノートのパス
+	importWindowPastDays?: number; // 取り込み対象期間: 過去日数
+	importWindowFutureDays?: number; // 取り込み対象期間: 未来日数（終わりの無い繰り返しの 📅 にも使う）
+	journalGenerations?: number; // 取り消し用ジャーナルに残す同期の世代数（0 で記録しない）
 	lastSyncTime?: string; // 最後に同期が成功した時刻 (ISO 8601 形式)
 	fetchWindowPastDays?: number; // フル同期時の取得窓: 過去日数
 	fetchWindowFutureDays?: number; // フル同期時の取得窓: 未来日数
@@ -99,15 +141,200 @@ export interface GoogleCalendarTasksSyncSettings {
 	};
 }
 
+// sandbox は Google Calendar API のプラグイン内の代役（SandboxCalendar）。認証なしで同期を試せる
+export type CalendarBackendKind = 'google' | 'caldav' | 'sandbox';
+
+// CalDAV の接続先。カレンダー ID は serverUrl からのコレクションのパスとして解釈する
+export interface CalDavSettings {
+	serverUrl: string; // 例: https://cloud.example.com/remote.php/dav/calendars/alice/
+	username: string;
+	passwordEncrypted?: string | null; // トークンと同じ難読化（obf1）で保存したパスワード
+}
+
+// 追加の Google アカウント。同期のあいだ ACCOUNT_SCOPED_KEYS の値を設定へ展開して使う
+export interface AccountProfile {
+	id: string;
+	name: string;
+	enabled?: boolean; // false なら同期しない
+	tokensEncrypted?: string | null; // メインと同じ形式（難読化 / AES-GCM）の refresh_token
+	calendarId: string;
+	calendarRoutes?: CalendarRoute[];
+	syncScope?: string[];
+	taskMap: { [obsidianTaskId: string]: string };
+	taskCalendars?: { [obsidianTaskId: string]: string };
+	recurrenceExceptions?: { [masterGcalId: string]: string[] };
+	syncBase?: { [obsidianTaskId: string]: SyncBaseEntry };
+	lastSyncTime?: string;
+	syncToken?: string;
+	listFilterSignature?: GoogleCalendarTasksSyncSettings['listFilterSignature'];
+	googleTaskMap?: { [obsidianTaskId: string]: GoogleTaskLink };
+}
+
+// Google Tasks API のタスク（使うフィールドのみ）
+export interface GoogleTask {
+	id?: string;
+	title?: string;
+	notes?: string;
+	due?: string | null; // RFC 3339。日付部分だけが使われる
+	status?: 'needsAction' | 'completed';
+	completed?: string | null;
+	parent?: string;
+	updated?: string;
+	deleted?: boolean;
+	hidden?: boolean;
+}
+
+// Obsidian タスクと Google Tasks のタスクの対応（completed は前回同期時点の完了状態。双方向同期のベース）
+export interface GoogleTaskLink {
+	listId: string;
+	taskId: string;
+	completed: boolean;
+}
+
+// 同期の実行オプション（SyncLogic.runSync を参照）
+export interface SyncRunOptions {
+	force?: boolean;
+	review?: (plan: SyncPlanItem[]) => Promise<Set<string> | null>;
+	planOnly?: boolean; // 計画を作るだけで Google にもノートにも書き込まない（CLI の plan）
+	paths?: string[];
+}
+
+// 1 アカウント分の同期結果（CLI の出力などに使う）
+export interface SyncSummary {
+	account: string | null; // 追加アカウントの名前（メインは null）
+	status: 'completed' | 'planned' | 'cancelled' | 'aborted'; // cancelled: プレビューで承認されなかった / aborted: 設定・認証の不備や致命的エラー
+	created: number;
+	updated: number;
+	deleted: number;
+	skipped: number;
+	errors: number;
+	plan?: SyncPlanItem[]; // review / planOnly のときに作った計画
+}
+
+// タスク行が同期されるかどうかの説明（reasons は判定の順）
+export interface TaskSyncExplanation {
+	synced: boolean;
+	reasons: string[];
+}
+
+// 重複整理の結果（groups は残すイベントと削除するイベントの ID）
+export interface DedupeSummary {
+	dryRun: boolean;
+	groups: { keep: string; removes: string[]; summary?: string }[];
+	deleted: number;
+	skipped: number;
+	errors: number;
+}
+
+// 送り先カレンダーの振り分けルール（match は '#tag' またはパスのグロブ）
+export interface CalendarRoute {
+	match: string;
+	calendarId: string;
+}
+
+// Google 側で削除されたイベントのタスクの扱い（再作成 / - [-] にする / 行を削除 / #gcal-deleted を付ける）
+export type RemoteDeletionPolicy = 'recreate' | 'cancel' | 'delete' | 'tag';
+
+// タスクの状態の種別（Tasks プラグインのカスタムステータスと同じ区分）
+export type TaskStatusType = 'todo' | 'in_progress' | 'done' | 'cancelled' | 'deferred';
+
+// チェックボックス記号 1 文字ごとの状態の定義
+export interface TaskStatusDefinition {
+	symbol: string;
+	name: string;
+	type: TaskStatusType;
+	summaryPrefix?: string; // イベントのタイトルの前に付ける文字列
+	colorId?: string; // イベントの色（Google Calendar の colorId '1'〜'11'）
+}
+
+// キャンセルされたタスクのイベント: 削除する / 残して取り消し印を付ける
+export type CancelledTaskAction = 'delete' | 'mark';
+
+// 同期プレビューに表示する 1 操作（times は 'YYYY-MM-DD HH:mm → ...' 形式の表示用文字列）
+export interface SyncPlanOperation {
+	type: 'insert' | 'patch' | 'delete' | 'move';
+	gcalId?: string;
+	before?: string;
+	after?: string;
+}
+
+// 同期プレビューの承認単位（同じタスクに対する削除→再作成などはまとめて承認する）
+export interface SyncPlanItem {
+	key: string;
+	taskId?: string;
+	summary: string;
+	sourcePath?: string;
+	sourceLine?: number;
+	operations: SyncPlanOperation[];
+	requestIndexes: number[]; // 対応する BatchRequestItem の位置
+}
+
+// ロールバック用ジャーナルの 1 操作（insert は作成したイベント、patch/delete は送信前の状態を持つ）
+export interface SyncJournalEntry {
+	op: 'insert' | 'patch' | 'delete' | 'move';
+	gcalId: string;
+	calendarId?: string; // 操作後にイベントがあるカレンダー（無ければ世代の calendarId）
+	fromCalendarId?: string; // move の移動元
+	obsidianTaskId?: string;
+	before?: calendar_v3.Schema$Event;
+}
+
+// 1 回の同期の記録（sync-journal.json に保存）
+export interface SyncJournalGeneration {
+	syncedAt: string;
+	accountId?: string; // 追加アカウントの同期なら AccountProfile.id
+	calendarId: string;
+	taskMap: { [obsidianTaskId: string]: string }; // 同期前の taskMap
+	taskCalendars?: { [obsidianTaskId: string]: string }; // 同期前の所属カレンダー
+	syncBase?: { [obsidianTaskId: string]: SyncBaseEntry }; // 同期前のマージベース
+	entries: SyncJournalEntry[];
+}
+
+// 三方向マージの対象フィールド
+export type MergeField = 'title' | 'time' | 'completion';
+// フィールドごとの解決方針（or/and は完了状態のみ有効、manual は競合キューへ保留）
+export type FieldMergePolicy = 'obsidian' | 'google' | 'or' | 'and' | 'manual';
+export type MergePolicies = { [field in MergeField]: FieldMergePolicy };
+
+// 同期済みの値のスナップショット（start/end は壁時計キー 'D:YYYY-MM-DD' / 'T:YYYY-MM-DDTHH:mm'）
+export interface SyncBaseEntry {
+	title: string;
+	start: string;
+	end: string;
+	completed: boolean;
+}
+
+// 競合キューの解決内容（フィールドごとにどちらを採用するか。title は任意の編集値で上書き可）
+export interface ConflictResolution {
+	pick: { [field in MergeField]?: 'local' | 'remote' };
+	title?: string;
+	resolvedAt: string;
+}
+
+// 自動解決できなかった競合（conflict-queue.json に保存）
+export interface ConflictEntry {
+	taskId: string;
+	gcalId: string;
+	sourcePath: string;
+	sourceLine: number;
+	summary: string;
+	fields: MergeField[]; // 競合したフィールド
+	base: Partial<SyncBaseEntry>;
+	local: SyncBaseEntry;
+	remote: SyncBaseEntry;
+	detectedAt: string;
+	resolution?: ConflictResolution;
+}
+
 // バッチリクエスト用のインターフェース
 export interface BatchRequestItem {
-	method: 'POST' | 'PATCH' | 'PUT' | 'DELETE'; // HTTPメソッド
+	method: 'GET' | 'POST' | 'PATCH' | 'PUT' | 'DELETE'; // HTTPメソッド
 	path: string; // APIのパス (例: /calendar/v3/calendars/{calendarId}/events/{eventId})
 	headers?: { [key: string]: string }; // リクエストヘッダー (オプション)
 	body?: any; // リクエストボディ (JSONなど)
 	fullBody?: any; // PATCHのフォールバック用に保持する完全ボディ (オプション)
 	obsidianTaskId?: string; // どのObsidianタスクに関連するか (結果処理で使用)
-	operationType?: 'insert' | 'update' | 'patch' | 'delete'; // 実行した操作の種類 (結果処理で使用)
+	operationType?: 'insert' | 'update' | 'patch' | 'delete' | 'move'; // 実行した操作の種類 (結果処理で使用)
 	originalGcalId?: string; // delete/update/patch 操作の対象となる元のGoogle CalendarイベントID
 }
 
@@ -0,0 +1,116 @@
+// テスト用の CalDAV サーバーの代役（requestUrl のモックに差し込んで使う）
+// PUT / GET / DELETE / MOVE と REPORT（calendar-query / sync-collection）だけを扱う
+
+interface Resource {
+  ics: string;
+  etag: string;
+}
+
+interface Change {
+  token: number;
+  collection: string;
+  name: string;
+}
+
+const escapeXml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export class CalDavStandIn {
+  readonly collections = new Map<string, Map<string, Resource>>();
+  readonly requests: { method: string; url: string; headers: Record<string, string> }[] = [];
+  private changes: Change[] = [];
+  private version = 0;
+  supportsSyncCollection = true;
+
+  constructor(collectionUrls: string[]) {
+    collectionUrls.forEach(url => this.collections.set(url, new Map()));
+  }
+
+  /** 他のクライアントによる変更の代わり */
+  put(url: string, ics: string): void {
+    const { collection, name } = this.split(url);
+    this.collections.get(collection)!.set(name, { ics, etag: `"v${++this.version}"` });
+    this.changes.push({ token: this.version, collection, name });
+  }
+
+  remove(url: string): void {
+    const { collection, name } = this.split(url);
+    this.collections.get(collection)!.delete(name);
+    this.changes.push({ token: ++this.version, collection, name });
+  }
+
+  handle = async (req: { url: string; method?: string; headers?: Record<string, string>; body?: string }) => {
+    const method = req.method ?? 'GET';
+    const headers = req.headers ?? {};
+    this.requests.push({ method, url: req.url, headers });
+    if (method === 'REPORT') return this.report(req.url, req.body ?? '');
+
+    const { collection, name } = this.split(req.url);
+    const items = this.collections.get(collection);
+    if (!items) return this.response(404);
+    const existing = items.get(name);
+    if (headers['If-Match'] && existing?.etag !== headers['If-Match']) return this.response(412);
+
+    switch (method) {
+      case 'GET':
+        return existing ? this.response(200, existing.ics, { ETag: existing.etag }) : this.response(404);
+      case 'PUT': {
+        if (headers['If-None-Match'] === '*' && existing) return this.response(412);
+        this.put(req.url, req.body ?? '');
+        return this.response(existing ? 204 : 201, '', { ETag: items.get(name)!.etag });
+      }
+      case 'DELETE':
+        if (!existing) return this.response(404);
+        this.remove(req.url);
+        return this.response(204);
+      case 'MOVE': {
+        if (!existing) return this.response(404);
+        const dest = this.split(headers['Destination']);
+        if (!this.collections.has(dest.collection)) return this.response(409);
+        if (headers['Overwrite'] === 'F' && this.collections.get(dest.collection)!.has(dest.name)) return this.response(412);
+        this.remove(req.url);
+        this.put(headers['Destination'], existing.ics);
+        return this.response(201);
+      }
+      default:
+        return this.response(405);
+    }
+  };
+
+  private report(url: string, body: string) {
+    const items = this.collections.get(url);
+    if (!items) return this.response(404);
+    if (!body.includes('sync-collection')) {
+      return this.multistatus(url, Array.from(items.keys()), items);
+    }
+    if (!this.supportsSyncCollection) return this.response(501);
+    const token = body.match(/<D:sync-token>(.*?)<\/D:sync-token>/)?.[1] ?? '';
+    const since = token ? Number(token.replace('urn:standin:', '')) : 0;
+    if (token && (!token.startsWith('urn:standin:') || since > this.version)) return this.response(403);
+    const names = token
+      ? Array.from(new Set(this.changes.filter(c => c.collection === url && c.token > since).map(c => c.name)))
+      : Array.from(items.keys());
+    return this.multistatus(url, names, items, `urn:standin:${this.version}`);
+  }
+
+  private multistatus(collection: string, names: string[], items: Map<string, Resource>, syncToken?: string) {
+    const responses = names.map(name => {
+      const item = items.get(name);
+      const href = `<d:href>${new URL(collection + name).pathname}</d:href>`;
+      if (!item) return `<d:response>${href}<d:status>HTTP/1.1 404 Not Found</d:status></d:response>`;
+      return `<d:response>${href}<d:propstat><d:prop><d:getetag>${escapeXml(item.etag)}</d:getetag>` +
+        `<cal:calendar-data>${escapeXml(item.ics)}</cal:calendar-data></d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>`;
+    });
+    const xml = `<?xml version="1.0"?><d:multistatus xmlns:d="DAV:" xmlns:cal="urn:ietf:params:xml:ns:caldav">${responses.join('')}` +
+      `${syncToken ? `<d:sync-token>${syncToken}</d:sync-token>` : ''}</d:multistatus>`;
+    return this.response(207, xml);
+  }
+
+  private split(url: string): { collection: string; name: string } {
+    const i = url.lastIndexOf('/');
+    return { collection: url.slice(0, i + 1), name: url.slice(i + 1) };
+  }
+
+  private response(status: number, text = '', headers: Record<string, string> = {}) {
+    return { status, text, headers };
+  }
+}
@@ -14,3 +14,12 @@ export type App = any;
 // Mocked HTTP helper to avoid outbound requests during tests
 export const requestUrl = vi.fn();
 
+
+export class TFile {
+  path: string;
+  stat: { mtime: number; ctime: number; size: number };
+  constructor(path = '', mtime = 0) {
+    this.path = path;
+    this.stat = { mtime, ctime: mtime, size: 0 };
+  }
+}